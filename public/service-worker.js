@@ -159,15 +159,20 @@ self.addEventListener('message', (event) => {
   }
 });
 
-// Background sync for failed submissions
+// Background sync for the offline outbox. Writes are replayed by the app with
+// its own Supabase session, so wake any open window; rejecting when none is
+// open lets the browser retry the sync later.
 self.addEventListener('sync', (event) => {
-  if (event.tag === 'sync-submissions') {
-    event.waitUntil(syncFailedSubmissions());
+  if (event.tag === 'sync-outbox') {
+    event.waitUntil(notifyClientsToSync());
   }
 });
 
-async function syncFailedSubmissions() {
-  // This would sync any pending submissions stored in IndexedDB
-  console.log('[ServiceWorker] Syncing failed submissions...');
-  // Implementation would go here
+async function notifyClientsToSync() {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (clients.length === 0) {
+    throw new Error('No open window to sync the outbox');
+  }
+  console.log('[ServiceWorker] Asking the app to sync its outbox');
+  clients.forEach((client) => client.postMessage({ type: 'SYNC_OUTBOX' }));
 }
@@ -7,6 +7,10 @@ import { PageSkeleton } from './components/LoadingSkeleton';
 import { SkipLink } from './lib/accessibility';
 import { initializeErrorHandlers } from './lib/errorMonitoring';
 import { setupUnloadHandler, cleanupOldTimerData } from './lib/sessionManager';
+import { initializeFacilitySettingsSync } from './lib/facilitySettings';
+import { initializeAuth } from './lib/auth';
+import { initializeOutboxSync } from './lib/outbox';
+import RequireRole from './components/RequireRole';
 
 // Lazy load pages for better initial load performance
 const Dashboard = lazy(() => import('./pages/Dashboard'));
@@ -14,10 +18,17 @@ const CaptureScreen = lazy(() => import('./pages/CaptureScreen'));
 const MultiCaptureScreen = lazy(() => import('./pages/MultiCaptureScreen'));
 const AdminConsole = lazy(() => import('./pages/AdminConsole'));
 const HistoryPage = lazy(() => import('./pages/HistoryPage'));
+const SubmissionDetailPage = lazy(() => import('./pages/SubmissionDetailPage'));
+const SpcPage = lazy(() => import('./pages/SpcPage'));
+const TraceabilityPage = lazy(() => import('./pages/TraceabilityPage'));
+const ChangeoverPage = lazy(() => import('./pages/ChangeoverPage'));
+const LoginPage = lazy(() => import('./pages/LoginPage'));
 
 // Lazy load non-critical components
 const ChatWidget = lazy(() => import('./components/ChatWidget'));
 const LatestMessageBar = lazy(() => import('./components/LatestMessageBar'));
+const OutboxPanel = lazy(() => import('./components/OutboxPanel'));
+const ProductOptions = lazy(() => import('./components/ProductOptions'));
 
 // Loading fallback component
 const PageLoadingFallback = () => (
@@ -37,6 +48,19 @@ function App() {
 
     // Clean up old timer data (older than 7 days)
     cleanupOldTimerData(7);
+
+    // Restore the signed-in user, then load shared facility settings and
+    // follow changes from other devices
+    const cleanupAuth = initializeAuth();
+    const cleanupSettings = initializeFacilitySettingsSync();
+
+    // Replay writes queued while offline
+    const cleanupOutbox = initializeOutboxSync();
+    return () => {
+      cleanupAuth();
+      cleanupSettings();
+      cleanupOutbox();
+    };
   }, []);
 
   return (
@@ -51,10 +75,15 @@ function App() {
               <main id="main-content" tabIndex={-1}>
                 <Routes>
                   <Route path="/" element={<Dashboard />} />
-                  <Route path="/admin" element={<AdminConsole />} />
-                  <Route path="/capture/multi" element={<MultiCaptureScreen />} />
-                  <Route path="/capture/:machineId" element={<CaptureScreen />} />
-                  <Route path="/history" element={<HistoryPage />} />
+                  <Route path="/login" element={<LoginPage />} />
+                  <Route path="/admin" element={<RequireRole role="supervisor"><AdminConsole /></RequireRole>} />
+                  <Route path="/capture/multi" element={<RequireRole role="operator"><MultiCaptureScreen /></RequireRole>} />
+                  <Route path="/capture/:machineId" element={<RequireRole role="operator"><CaptureScreen /></RequireRole>} />
+                  <Route path="/history" element={<RequireRole role="supervisor"><HistoryPage /></RequireRole>} />
+                  <Route path="/history/:submissionId" element={<RequireRole role="supervisor"><SubmissionDetailPage /></RequireRole>} />
+                  <Route path="/spc" element={<RequireRole role="supervisor"><SpcPage /></RequireRole>} />
+                  <Route path="/trace" element={<RequireRole role="supervisor"><TraceabilityPage /></RequireRole>} />
+                  <Route path="/changeovers" element={<RequireRole role="supervisor"><ChangeoverPage /></RequireRole>} />
                 </Routes>
               </main>
             </AnimatePresence>
@@ -64,6 +93,9 @@ function App() {
           <Suspense fallback={null}>
             <ChatWidget />
             <LatestMessageBar />
+            <OutboxPanel />
+            {/* Product catalogue suggestions shared by every product input */}
+            <ProductOptions />
           </Suspense>
         </Router>
       </ToastProvider>
@@ -0,0 +1,259 @@
+/**
+ * Activity feed - live machine events in front of the persisted activity
+ * log, filtered by machine, event type, operator and text over the last
+ * few days, loading older events as the list is scrolled.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ActivityEvent, ActivityEventType, queryActivityLog } from '../lib/liveSession';
+import { ActivityFilters, matchesActivityFilters, mergeActivityEvents } from '../lib/activityQuery';
+import { getMachineLabel, getSubMachines, getSubMachineLabel } from '../lib/machineHierarchy';
+import { getFacilityDateString, getFacilitySettings, formatFacilityTime } from '../lib/facilitySettings';
+import { zonedTimeToDate } from '../lib/facilityClock';
+import { addDaysToDateString } from '../lib/shiftPatterns';
+import { useDebounce, useIntersectionObserver } from '../lib/performance';
+import { Machine } from '../types';
+
+interface ActivityFeedProps {
+  liveEvents: ActivityEvent[];
+  machines: Machine[];
+}
+
+const PAGE_SIZE = 30;
+
+const TYPE_GROUPS: { id: string; label: string; types: ActivityEventType[] }[] = [
+  { id: 'all', label: 'All events', types: [] },
+  {
+    id: 'production',
+    label: 'Production',
+    types: ['machine_start', 'machine_pause', 'machine_resume', 'order_completed', 'shift_submitted'],
+  },
+  { id: 'changeover', label: 'Changeovers', types: ['changeover_started', 'changeover_completed'] },
+  { id: 'downtime', label: 'Downtime', types: ['downtime_recorded'] },
+  { id: 'quality', label: 'Waste & quality', types: ['waste_recorded', 'sachet_mass_added', 'spc_alert'] },
+  { id: 'output', label: 'Output', types: ['pallet_scanned', 'cases_added', 'speed_recorded'] },
+];
+
+const RANGES = [
+  { days: 1, label: 'Today' },
+  { days: 3, label: '3 days' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+// Start of the facility day `days - 1` days ago, so 1 is today
+const getPeriodStart = (days: number): Date =>
+  zonedTimeToDate(addDaysToDateString(getFacilityDateString(), 1 - days), 0, getFacilitySettings().timeZone);
+
+// Facility wall-clock time, with the date for events before today
+const formatEventTime = (timestamp: Date): string =>
+  getFacilityDateString(timestamp) === getFacilityDateString()
+    ? formatFacilityTime(timestamp, { hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' })
+    : formatFacilityTime(timestamp, { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+
+const getEventIcon = (type: string) => {
+  switch (type) {
+    case 'machine_start': return '🚀';
+    case 'machine_pause': return '⏸️';
+    case 'machine_resume': return '▶️';
+    case 'waste_recorded': return '🗑️';
+    case 'downtime_recorded': return '⏱️';
+    case 'pallet_scanned': return '📦';
+    case 'cases_added': return '📋';
+    case 'sachet_mass_added': return '⚖️';
+    case 'shift_submitted': return '✅';
+    case 'speed_recorded': return '⚡';
+    case 'spc_alert': return '⚠️';
+    case 'order_completed': return '🏁';
+    case 'changeover_started':
+    case 'changeover_completed': return '🔧';
+    default: return '📌';
+  }
+};
+
+const getEventColor = (type: string) => {
+  switch (type) {
+    case 'machine_start': return 'event-start';
+    case 'machine_pause': return 'event-pause';
+    case 'machine_resume': return 'event-resume';
+    case 'waste_recorded': return 'event-waste';
+    case 'downtime_recorded': return 'event-downtime';
+    case 'pallet_scanned': return 'event-pallet';
+    case 'cases_added': return 'event-cases';
+    case 'sachet_mass_added': return 'event-sachet';
+    case 'shift_submitted': return 'event-submit';
+    case 'speed_recorded': return 'event-speed';
+    case 'spc_alert': return 'event-spc';
+    case 'order_completed': return 'event-submit';
+    case 'changeover_started':
+    case 'changeover_completed': return 'event-changeover';
+    default: return '';
+  }
+};
+
+const ActivityFeed: React.FC<ActivityFeedProps> = ({ liveEvents, machines }) => {
+  const [machine, setMachine] = useState('');
+  const [typeGroup, setTypeGroup] = useState('all');
+  const [days, setDays] = useState(1);
+  const [operator, setOperator] = useState('');
+  const [search, setSearch] = useState('');
+  const debouncedSearch = useDebounce(search.trim(), 300);
+
+  const [loadedEvents, setLoadedEvents] = useState<ActivityEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Responses for filters that have since changed are dropped
+  const requestRef = useRef(0);
+
+  const filters = useMemo((): ActivityFilters => ({
+    machine: machine || undefined,
+    operator: operator || undefined,
+    types: TYPE_GROUPS.find(g => g.id === typeGroup)?.types,
+    search: debouncedSearch || undefined,
+    since: getPeriodStart(days),
+  }), [machine, operator, typeGroup, debouncedSearch, days]);
+
+  const loadPage = useCallback(async (cursor: string | null) => {
+    const requestId = ++requestRef.current;
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const page = await queryActivityLog({ ...filters, limit: PAGE_SIZE, cursor });
+      if (requestId !== requestRef.current) return;
+      setLoadedEvents(prev => (cursor ? [...prev, ...page.events] : page.events));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      setLoadError(err instanceof Error ? err.message : 'Failed to load activity');
+    } finally {
+      if (requestId === requestRef.current) setIsLoading(false);
+    }
+  }, [filters]);
+
+  // Start again from the newest event whenever the filters change
+  useEffect(() => {
+    setLoadedEvents([]);
+    setNextCursor(null);
+    loadPage(null);
+  }, [loadPage]);
+
+  // Load the next page as the end of the list scrolls into view
+  const [sentinelRef, isSentinelVisible] = useIntersectionObserver({ rootMargin: '200px' });
+  useEffect(() => {
+    if (isSentinelVisible && nextCursor && !isLoading && !loadError) {
+      loadPage(nextCursor);
+    }
+  }, [isSentinelVisible, nextCursor, isLoading, loadError, loadPage]);
+
+  const events = useMemo(
+    () => mergeActivityEvents(liveEvents.filter(e => matchesActivityFilters(e, filters)), loadedEvents),
+    [liveEvents, loadedEvents, filters]
+  );
+
+  const isFiltered = Boolean(machine || operator || debouncedSearch || typeGroup !== 'all');
+
+  return (
+    <div className="activity-feed">
+      <div className="activity-feed-filters">
+        <input
+          type="search"
+          className="activity-feed-search"
+          placeholder="Search activity..."
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          aria-label="Search activity"
+        />
+        <div className="activity-feed-selects">
+          <select value={machine} onChange={e => setMachine(e.target.value)} aria-label="Machine">
+            <option value="">All machines</option>
+            {machines.map(m => {
+              const subMachines = getSubMachines(m);
+              if (subMachines.length === 0) {
+                return <option key={m.id} value={m.name}>{getMachineLabel(m)}</option>;
+              }
+              return (
+                <optgroup key={m.id} label={getMachineLabel(m)}>
+                  <option value={m.name}>{getMachineLabel(m)}</option>
+                  {subMachines.map(sub => (
+                    <option key={sub.id} value={sub.name}>{getMachineLabel(m)} · {getSubMachineLabel(sub)}</option>
+                  ))}
+                </optgroup>
+              );
+            })}
+          </select>
+          <select value={typeGroup} onChange={e => setTypeGroup(e.target.value)} aria-label="Event type">
+            {TYPE_GROUPS.map(group => (
+              <option key={group.id} value={group.id}>{group.label}</option>
+            ))}
+          </select>
+          <select value={days} onChange={e => setDays(Number(e.target.value))} aria-label="Period">
+            {RANGES.map(range => (
+              <option key={range.days} value={range.days}>{range.label}</option>
+            ))}
+          </select>
+        </div>
+        {operator && (
+          <button className="activity-feed-chip" onClick={() => setOperator('')}>
+            Operator: {operator} ✕
+          </button>
+        )}
+      </div>
+
+      <div className="feed-list">
+        {events.map((event, index) => (
+          <motion.div
+            key={event.id}
+            className={`feed-item ${getEventColor(event.type)}`}
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: Math.min(index, 10) * 0.03 }}
+          >
+            <span className="feed-icon">{getEventIcon(event.type)}</span>
+            <div className="feed-content">
+              <span className="feed-machine">{event.machine_name}</span>
+              <span className="feed-message">{event.message}</span>
+              {event.details && (
+                <span className="feed-details">{event.details}</span>
+              )}
+              {event.operator_name && (
+                <button
+                  className="feed-operator"
+                  onClick={() => setOperator(event.operator_name || '')}
+                  title="Show this operator's activity"
+                >
+                  {event.operator_name}
+                </button>
+              )}
+            </div>
+            <span className="feed-time">
+              {formatEventTime(new Date(event.timestamp))}
+            </span>
+          </motion.div>
+        ))}
+
+        {events.length === 0 && !isLoading && !loadError && (
+          <div className="feed-empty">
+            <span className="feed-empty-icon">📡</span>
+            <span>{isFiltered ? 'No activity matches these filters' : 'Waiting for activity...'}</span>
+          </div>
+        )}
+
+        {loadError && (
+          <div className="activity-feed-status error">
+            {loadError}
+            <button onClick={() => loadPage(loadedEvents.length > 0 ? nextCursor : null)}>Retry</button>
+          </div>
+        )}
+        {isLoading && <div className="activity-feed-status">Loading activity...</div>}
+        {!isLoading && !loadError && !nextCursor && events.length > 0 && (
+          <div className="activity-feed-status">No older activity</div>
+        )}
+        <div ref={sentinelRef} className="activity-feed-sentinel" />
+      </div>
+    </div>
+  );
+};
+
+export default ActivityFeed;
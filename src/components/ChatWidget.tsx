@@ -7,6 +7,7 @@ import {
   sendChatMessage,
   subscribeChatMessages,
 } from '../lib/supabase';
+import { useActiveOperator } from '../lib/operators';
 
 type ChatWidgetProps = {
   operatorName?: string;
@@ -40,13 +41,14 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ operatorName, machineName }) =>
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
   const presenceChannelRef = useRef<any>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const activeOperator = useActiveOperator();
 
-  // Resolve a kiosk-friendly name: operatorName from form > localStorage > empty
+  // Resolve a kiosk-friendly name: operatorName from form > identified operator > localStorage > empty
   useEffect(() => {
     const fromStorage = localStorage.getItem(STORAGE_KEY) || '';
-    const initial = (operatorName || fromStorage).trim();
+    const initial = (operatorName || activeOperator?.name || fromStorage).trim();
     setUserName(initial);
-  }, [operatorName]);
+  }, [operatorName, activeOperator]);
 
   useEffect(() => {
     localStorage.setItem(STORAGE_KEY, userName);
@@ -1,6 +1,7 @@
 import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { WasteEntry, DowntimeEntry } from '../types';
+import { summarizeDowntimeByCategory, useDowntimeReasons } from '../lib/downtimeReasons';
 
 interface DashboardChartsProps {
   wasteEntries: WasteEntry[];
@@ -18,6 +19,8 @@ const EmptyChart: React.FC<{ message: string; icon: string }> = ({ message, icon
 );
 
 const DashboardCharts: React.FC<DashboardChartsProps> = ({ wasteEntries, downtimeEntries }) => {
+  const reasons = useDowntimeReasons();
+
   // Aggregate waste by type
   const wasteData = wasteEntries.reduce((acc: any[], entry) => {
     const existing = acc.find(item => item.name === entry.wasteType);
@@ -29,16 +32,13 @@ const DashboardCharts: React.FC<DashboardChartsProps> = ({ wasteEntries, downtim
     return acc;
   }, []);
 
-  // Aggregate downtime by reason
-  const downtimeData = downtimeEntries.reduce((acc: any[], entry) => {
-    const existing = acc.find(item => item.name === entry.downtimeReason);
-    if (existing) {
-      existing.value += entry.downtime;
-    } else {
-      acc.push({ name: entry.downtimeReason, value: entry.downtime });
-    }
-    return acc;
-  }, []);
+  // Aggregate downtime by reason category
+  const downtimeData = summarizeDowntimeByCategory(downtimeEntries, reasons).map(summary => ({
+    name: summary.category,
+    value: summary.minutes,
+    planned: summary.planned,
+    detail: summary.reasons.map(r => `${r.name} ${r.minutes}m`).join(', '),
+  }));
 
   return (
     <div className="charts-grid">
@@ -77,7 +77,7 @@ const DashboardCharts: React.FC<DashboardChartsProps> = ({ wasteEntries, downtim
         )}
       </div>
       <div className="chart-container">
-        <h4 className="chart-title">Downtime by Reason</h4>
+        <h4 className="chart-title">Downtime by Category</h4>
         {downtimeData.length === 0 ? (
           <EmptyChart message="No downtime entries yet" icon="⏱️" />
         ) : (
@@ -99,7 +99,7 @@ const DashboardCharts: React.FC<DashboardChartsProps> = ({ wasteEntries, downtim
                   stroke="rgba(15,23,42,0.5)"
                   strokeWidth={2}
                 >
-                  {downtimeData.map((entry: any, index: number) => (
+                  {downtimeData.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                   ))}
                 </Pie>
@@ -110,15 +110,17 @@ const DashboardCharts: React.FC<DashboardChartsProps> = ({ wasteEntries, downtim
                     borderRadius: '8px',
                     color: '#f8fafc'
                   }}
-                  formatter={(value: number) => [`${value} min`, 'Duration']}
+                  formatter={(value: number, _name: string, item: { payload?: { detail?: string } }) =>
+                    [`${value} min (${item.payload?.detail})`, 'Duration']
+                  }
                 />
               </PieChart>
             </ResponsiveContainer>
             <div className="chart-legend">
-              {downtimeData.map((entry: any, index: number) => (
-                <div key={entry.name} className="legend-item">
+              {downtimeData.map((entry, index) => (
+                <div key={entry.name} className="legend-item" title={entry.detail}>
                   <span className="legend-dot" style={{ background: COLORS[index % COLORS.length] }} />
-                  <span className="legend-label">{entry.name}</span>
+                  <span className="legend-label">{entry.planned ? `⏱ ${entry.name}` : entry.name}</span>
                 </div>
               ))}
             </div>
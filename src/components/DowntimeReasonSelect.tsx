@@ -0,0 +1,52 @@
+/**
+ * Downtime reason picker - the admin-managed reason tree grouped by
+ * category, limited to reasons that apply to the machine.
+ */
+
+import React from 'react';
+import { DowntimeReason } from '../types';
+import { buildReasonTree, useDowntimeReasons } from '../lib/downtimeReasons';
+
+interface DowntimeReasonSelectProps {
+  value: DowntimeReason | null;
+  onChange: (reason: DowntimeReason | null) => void;
+  machineIds?: (string | undefined)[];
+  id?: string;
+  className?: string;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+const DowntimeReasonSelect: React.FC<DowntimeReasonSelectProps> = ({
+  value,
+  onChange,
+  machineIds = [],
+  id,
+  className = 'form-select',
+  placeholder = 'Select reason...',
+  autoFocus,
+}) => {
+  const reasons = useDowntimeReasons();
+  const tree = buildReasonTree(reasons, machineIds);
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChange(reasons.find(r => r.code === e.target.value) || null);
+  };
+
+  return (
+    <select id={id} className={className} value={value?.code || ''} onChange={handleChange} autoFocus={autoFocus}>
+      <option value="">{placeholder}</option>
+      {tree.map(({ category, reasons: categoryReasons }) => (
+        <optgroup key={category.id} label={category.name}>
+          {categoryReasons.map(reason => (
+            <option key={reason.id} value={reason.code}>
+              {reason.planned ? `⏱ ${reason.name} (planned)` : reason.name}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+};
+
+export default DowntimeReasonSelect;
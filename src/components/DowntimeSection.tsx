@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
-import { DowntimeEntry, PLANNED_DOWNTIME_REASONS, UNPLANNED_DOWNTIME_REASONS } from '../types';
+import { DowntimeEntry, DowntimeReason } from '../types';
+import DowntimeReasonSelect from './DowntimeReasonSelect';
 
 interface DowntimeSectionProps {
   downtime: number | '';
   setDowntime: (value: number | '') => void;
-  downtimeReason: string;
-  setDowntimeReason: (value: string) => void;
+  downtimeReason: DowntimeReason | null;
+  setDowntimeReason: (value: DowntimeReason | null) => void;
+  machineIds?: (string | undefined)[];
   handleDowntimeSubmit: (notes?: string) => void;
   downtimeEntries: DowntimeEntry[];
   onDeleteEntry?: (id: string) => void;
@@ -16,6 +18,7 @@ const DowntimeSection: React.FC<DowntimeSectionProps> = ({
   setDowntime,
   downtimeReason,
   setDowntimeReason,
+  machineIds,
   handleDowntimeSubmit,
   downtimeEntries,
   onDeleteEntry,
@@ -59,19 +62,13 @@ const DowntimeSection: React.FC<DowntimeSectionProps> = ({
           placeholder="min"
           inputMode="numeric"
         />
-        <select className="form-select" id="downtimeReason" value={downtimeReason} onChange={e => setDowntimeReason(e.target.value)}>
-          <option value="">Reason</option>
-          <optgroup label="⏱ Planned">
-            {PLANNED_DOWNTIME_REASONS.map(reason => (
-              <option key={reason} value={reason}>{reason}</option>
-            ))}
-          </optgroup>
-          <optgroup label="⚠️ Unplanned">
-            {UNPLANNED_DOWNTIME_REASONS.map(reason => (
-              <option key={reason} value={reason}>{reason}</option>
-            ))}
-          </optgroup>
-        </select>
+        <DowntimeReasonSelect
+          id="downtimeReason"
+          value={downtimeReason}
+          onChange={setDowntimeReason}
+          machineIds={machineIds}
+          placeholder="Reason"
+        />
         <button className="btn btn-warning" onClick={handleAddClick}>+</button>
       </div>
 
@@ -110,7 +107,7 @@ const DowntimeSection: React.FC<DowntimeSectionProps> = ({
             <div className="notes-modal-header">
               <h4>📝 Add Notes</h4>
               <span className="notes-modal-subtitle">
-                {downtime} min - {downtimeReason}
+                {downtime} min - {downtimeReason?.name}
               </span>
             </div>
             <textarea
@@ -3,6 +3,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { v4 as uuidv4 } from 'uuid';
 import { Machine } from '../types';
 import { getMachinesData, updateMachine, addMachine, deleteMachine } from '../lib/storage';
+import { listLabelFormats, DEFAULT_LABEL_FORMAT } from '../lib/labelFormats';
+import { loadMachineStatusHistory, MachineStatusChange, MACHINE_STATUS_LABELS } from '../lib/machineStatus';
+import { isSupabaseConfigured } from '../lib/supabase';
 
 interface MachineSettingsModalProps {
   isOpen: boolean;
@@ -21,9 +24,12 @@ const MachineSettingsModal: React.FC<MachineSettingsModalProps> = ({
   const [newMachineName, setNewMachineName] = useState('');
   const [newMachineStatus, setNewMachineStatus] = useState<Machine['status']>('idle');
   const [newMachineSubCount, setNewMachineSubCount] = useState<number>(0);
+  const [newMachineRatedSpeed, setNewMachineRatedSpeed] = useState<number | ''>('');
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [activeTab, setActiveTab] = useState<'machines' | 'add'>('machines');
   const [, setIsSaving] = useState(false); // Used for loading state
+  const [historyMachineId, setHistoryMachineId] = useState<string | null>(null);
+  const [statusHistory, setStatusHistory] = useState<MachineStatusChange[]>([]);
 
   useEffect(() => {
     if (isOpen) {
@@ -70,6 +76,7 @@ const MachineSettingsModal: React.FC<MachineSettingsModalProps> = ({
         name: newMachineName.trim(),
         status: newMachineStatus,
         subMachineCount: newMachineSubCount > 0 ? newMachineSubCount : undefined,
+        ratedSpeed: newMachineRatedSpeed || undefined,
       };
 
       await addMachine(newMachine);
@@ -78,6 +85,7 @@ const MachineSettingsModal: React.FC<MachineSettingsModalProps> = ({
       setNewMachineName('');
       setNewMachineStatus('idle');
       setNewMachineSubCount(0);
+      setNewMachineRatedSpeed('');
       setActiveTab('machines');
       onMachinesUpdated();
       showToast(`${newMachine.name} added successfully`, 'success');
@@ -117,6 +125,20 @@ const MachineSettingsModal: React.FC<MachineSettingsModalProps> = ({
     }
   };
 
+  const toggleStatusHistory = async (machineId: string) => {
+    if (historyMachineId === machineId) {
+      setHistoryMachineId(null);
+      return;
+    }
+    setHistoryMachineId(machineId);
+    setStatusHistory([]);
+    try {
+      setStatusHistory(await loadMachineStatusHistory(machineId));
+    } catch (error) {
+      showToast('Failed to load status history', 'error');
+    }
+  };
+
   const getStatusColor = (status: Machine['status']) => {
     switch (status) {
       case 'running': return '#00ff88';
@@ -295,6 +317,55 @@ const MachineSettingsModal: React.FC<MachineSettingsModalProps> = ({
                             </select>
                           </div>
 
+                          <div className="edit-section">
+                            <label className="edit-label">Pallet Label Format (unless the product sets one)</label>
+                            <select
+                              className="edit-select"
+                              value={editingMachine.labelFormat || DEFAULT_LABEL_FORMAT}
+                              onChange={e => setEditingMachine({
+                                ...editingMachine,
+                                labelFormat: e.target.value === DEFAULT_LABEL_FORMAT ? undefined : e.target.value
+                              })}
+                            >
+                              {listLabelFormats().map(format => (
+                                <option key={format.id} value={format.id}>{format.name}</option>
+                              ))}
+                            </select>
+                          </div>
+
+                          <div className="edit-row">
+                            <div className="edit-section">
+                              <label className="edit-label">Rated Speed (units/min)</label>
+                              <input
+                                type="number"
+                                className="edit-input"
+                                min={0}
+                                value={editingMachine.ratedSpeed ?? ''}
+                                onChange={e => setEditingMachine({
+                                  ...editingMachine,
+                                  ratedSpeed: e.target.value ? Number(e.target.value) : undefined
+                                })}
+                                placeholder="Used for OEE performance"
+                                inputMode="numeric"
+                              />
+                            </div>
+                            <div className="edit-section">
+                              <label className="edit-label">Units per Case</label>
+                              <input
+                                type="number"
+                                className="edit-input"
+                                min={0}
+                                value={editingMachine.unitsPerCase ?? ''}
+                                onChange={e => setEditingMachine({
+                                  ...editingMachine,
+                                  unitsPerCase: e.target.value ? Number(e.target.value) : undefined
+                                })}
+                                placeholder="Used for OEE quality"
+                                inputMode="numeric"
+                              />
+                            </div>
+                          </div>
+
                           <div className="edit-actions">
                             <button className="edit-save-btn" onClick={() => handleUpdateMachine(editingMachine)}>
                               <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
@@ -332,6 +403,18 @@ const MachineSettingsModal: React.FC<MachineSettingsModalProps> = ({
                               </div>
                             </div>
                             <div className="machine-card-actions">
+                              {isSupabaseConfigured && (
+                                <button
+                                  className={`card-action-btn history ${historyMachineId === machine.id ? 'active' : ''}`}
+                                  onClick={() => toggleStatusHistory(machine.id)}
+                                  title="Status history"
+                                >
+                                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                    <circle cx="12" cy="12" r="10" />
+                                    <path d="M12 6v6l4 2" />
+                                  </svg>
+                                </button>
+                              )}
                               <button 
                                 className="card-action-btn edit"
                                 onClick={() => setEditingMachine(machine)}
@@ -377,6 +460,26 @@ const MachineSettingsModal: React.FC<MachineSettingsModalProps> = ({
                               </button>
                             </div>
                           </div>
+
+                          {historyMachineId === machine.id && (
+                            <div className="status-history">
+                              {statusHistory.length === 0 ? (
+                                <span className="status-history-empty">No status changes recorded</span>
+                              ) : (
+                                statusHistory.map(change => (
+                                  <div key={change.id} className="status-history-row">
+                                    <span className="status-history-time">{change.changedAt.toLocaleString()}</span>
+                                    <span className={`status-history-status ${change.toStatus}`}>
+                                      {MACHINE_STATUS_LABELS[change.toStatus]}
+                                    </span>
+                                    <span className="status-history-detail">
+                                      {[change.reason, change.operatorName].filter(Boolean).join(' · ')}
+                                    </span>
+                                  </div>
+                                ))
+                              )}
+                            </div>
+                          )}
                         </>
                       )}
                     </motion.div>
@@ -451,6 +554,26 @@ const MachineSettingsModal: React.FC<MachineSettingsModalProps> = ({
                   </select>
                 </div>
 
+                <div className="form-section">
+                  <label className="form-label">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                      <path d="M12 2a10 10 0 100 20 10 10 0 000-20z"/>
+                      <path d="M12 12l5-3"/>
+                    </svg>
+                    Rated Speed (Optional)
+                  </label>
+                  <p className="form-hint">Design speed in units per minute. Needed to report OEE performance.</p>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min={0}
+                    placeholder="e.g., 120"
+                    value={newMachineRatedSpeed}
+                    onChange={e => setNewMachineRatedSpeed(e.target.value ? Number(e.target.value) : '')}
+                    inputMode="numeric"
+                  />
+                </div>
+
                 <div className="form-actions">
                   <button className="form-submit-btn" onClick={handleAddMachine}>
                     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="18" height="18">
@@ -1,8 +1,9 @@
 import React from 'react';
+import { PRODUCT_LIST_ID } from '../lib/products';
 
 interface MainFormProps {
   operatorName: string;
-  setOperatorName: (value: string) => void;
+  onIdentifyOperator: () => void;
   machine: string;
   setMachine: (value: string) => void;
   orderNumber: string;
@@ -17,7 +18,7 @@ interface MainFormProps {
 
 const MainForm: React.FC<MainFormProps> = ({
   operatorName,
-  setOperatorName,
+  onIdentifyOperator,
   machine,
   setMachine,
   orderNumber,
@@ -31,18 +32,28 @@ const MainForm: React.FC<MainFormProps> = ({
 }) => {
   return (
     <div className="main-form-fields">
-      {/* Operator Number - Text Input */}
+      {/* Operator - identified by badge scan or PIN */}
       <div className="form-field">
-        <label htmlFor="operatorNumber" className="form-label">Operator Number</label>
-        <input
-          type="text"
-          className="form-input"
-          id="operatorNumber"
-          value={operatorName}
-          onChange={e => setOperatorName(e.target.value)}
-          placeholder="Enter operator number (e.g., 042)"
-          disabled={disabled}
-        />
+        <label htmlFor="operatorName" className="form-label">Operator</label>
+        <div className="operator-field">
+          <input
+            type="text"
+            className="form-input"
+            id="operatorName"
+            value={operatorName}
+            placeholder="Scan badge or enter PIN"
+            readOnly
+            disabled={disabled}
+          />
+          <button
+            type="button"
+            className="operator-identify-btn"
+            onClick={onIdentifyOperator}
+            disabled={disabled}
+          >
+            Identify
+          </button>
+        </div>
       </div>
 
       {!hideMachine && (
@@ -82,7 +93,8 @@ const MainForm: React.FC<MainFormProps> = ({
           id="product"
           value={product}
           onChange={e => setProduct(e.target.value)}
-          placeholder="Enter product name"
+          placeholder="Enter product name or SKU"
+          list={PRODUCT_LIST_ID}
           disabled={disabled}
         />
       </div>
@@ -0,0 +1,96 @@
+/**
+ * Operator identification - scan a badge QR or enter a PIN to resolve the
+ * operator from the registry.
+ */
+
+import React, { useState } from 'react';
+import { Modal, FormField, Button } from './ui';
+import QRScanner from './QRScanner';
+import { identifyOperator } from '../lib/operators';
+import { Operator } from '../types';
+
+interface OperatorIdentifyProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onIdentified: (operator: Operator) => void;
+  title?: string;
+}
+
+const OperatorIdentify: React.FC<OperatorIdentifyProps> = ({
+  isOpen,
+  onClose,
+  onIdentified,
+  title = 'Identify Operator',
+}) => {
+  const [pin, setPin] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleClose = () => {
+    setPin('');
+    setError(null);
+    onClose();
+  };
+
+  const identify = async (credentials: { badgeCode?: string; pin?: string }) => {
+    setError(null);
+    setIsChecking(true);
+    try {
+      const operator = await identifyOperator(credentials);
+      setPin('');
+      onIdentified(operator);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not identify operator');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleBadgeScan = (code: string) => {
+    setShowScanner(false);
+    identify({ badgeCode: code });
+  };
+
+  const handlePinSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pin) identify({ pin });
+  };
+
+  return (
+    <>
+      <Modal isOpen={isOpen && !showScanner} onClose={handleClose} title={title} size="sm">
+        <form className="operator-identify" onSubmit={handlePinSubmit}>
+          <Button type="button" variant="primary" fullWidth onClick={() => setShowScanner(true)} disabled={isChecking}>
+            Scan Badge
+          </Button>
+
+          <div className="operator-identify__divider">or</div>
+
+          <FormField
+            label="PIN"
+            id="operator-pin"
+            type="password"
+            value={pin}
+            onChange={value => setPin(value.replace(/\D/g, ''))}
+            disabled={isChecking}
+          />
+
+          {error && <div className="login-error" role="alert">{error}</div>}
+
+          <Button type="submit" variant="success" fullWidth loading={isChecking} disabled={!pin}>
+            Confirm PIN
+          </Button>
+        </form>
+      </Modal>
+
+      <QRScanner
+        isOpen={isOpen && showScanner}
+        onClose={() => setShowScanner(false)}
+        onScan={handleBadgeScan}
+      />
+    </>
+  );
+};
+
+export default OperatorIdentify;
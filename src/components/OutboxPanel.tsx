@@ -0,0 +1,146 @@
+/**
+ * Offline outbox panel - a floating indicator while writes are waiting to
+ * sync, opening a list of queued, failed and dead-lettered items.
+ */
+
+import React, { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Modal, Button } from './ui';
+import {
+  useOutbox,
+  flushOutbox,
+  retryOutboxItem,
+  discardOutboxItem,
+  OutboxItem,
+  OutboxStatus,
+  OUTBOX_MAX_ATTEMPTS,
+} from '../lib/outbox';
+import { showSuccess, showError } from '../lib/errorMonitoring';
+
+const SECTIONS: { status: OutboxStatus; title: string; hint: string }[] = [
+  { status: 'queued', title: 'Queued', hint: 'Waiting to send' },
+  { status: 'failed', title: 'Failed', hint: 'Retrying automatically' },
+  { status: 'dead', title: 'Dead-lettered', hint: 'Stopped retrying - retry or discard' },
+];
+
+const describeItem = (item: OutboxItem): string => {
+  switch (item.kind) {
+    case 'shift_submission': {
+      const shift = item.payload.shiftData;
+      return `Shift submission · ${shift.machine} ${shift.shift} ${shift.submission_date}`;
+    }
+    case 'live_session_upsert':
+      return `Live session · ${String(item.payload.machine_name ?? item.payload.id)}`;
+    case 'order_queue_add':
+      return `Add order ${item.payload.orderNumber} · ${item.payload.machineId}`;
+    case 'order_queue_remove':
+      return `Remove order #${item.payload.orderId}`;
+    case 'order_queue_status':
+      return `Order #${item.payload.orderId} · ${item.payload.status.replace('_', ' ')}`;
+    case 'order_queue_reorder':
+      return `Reorder queue · ${item.payload.machineId}`;
+    case 'changeover_upsert':
+      return `Changeover · ${item.payload.machine_name}`;
+    case 'line_speed_change':
+      return `Line speed ${item.payload.speed} PPM · ${item.payload.parent_machine}`;
+    case 'activity_event':
+      return `Activity · ${item.payload.machine_name} ${item.payload.message}`;
+  }
+};
+
+const OutboxPanel: React.FC = () => {
+  const items = useOutbox();
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (items.length === 0 && !isOpen) return null;
+
+  const deadCount = items.filter(i => i.status === 'dead').length;
+
+  const runAction = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Outbox action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSyncNow = () =>
+    runAction('all', async () => {
+      const result = await flushOutbox({ force: true });
+      if (result.sent > 0) showSuccess(`Synced ${result.sent} item${result.sent === 1 ? '' : 's'}`);
+    });
+
+  const handleDiscard = (item: OutboxItem) => {
+    if (!window.confirm(`Discard "${describeItem(item)}"? It will not be sent.`)) return;
+    runAction(item.id, () => discardOutboxItem(item.id));
+  };
+
+  return (
+    <>
+      <button
+        className={`outbox-toggle${deadCount > 0 ? ' has-dead' : ''}`}
+        onClick={() => setIsOpen(true)}
+        aria-label={`${items.length} items waiting to sync`}
+      >
+        <span aria-hidden="true">⇅</span>
+        {items.length} pending sync
+      </button>
+
+      <Modal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        title="Offline Outbox"
+        subtitle={navigator.onLine ? 'Online' : 'Offline - items send when the connection returns'}
+        size="lg"
+        footer={
+          <Button variant="primary" onClick={handleSyncNow} loading={busyId === 'all'} disabled={items.length === 0}>
+            Sync Now
+          </Button>
+        }
+      >
+        {items.length === 0 ? (
+          <p className="outbox-empty">Everything has been synced.</p>
+        ) : (
+          SECTIONS.map(section => {
+            const sectionItems = items.filter(i => i.status === section.status);
+            if (sectionItems.length === 0) return null;
+            return (
+              <section key={section.status} className={`outbox-section ${section.status}`}>
+                <h4>{section.title} ({sectionItems.length}) <small>{section.hint}</small></h4>
+                <ul>
+                  {sectionItems.map(item => (
+                    <li key={item.id} className="outbox-item">
+                      <div className="outbox-item-body">
+                        <strong>{describeItem(item)}</strong>
+                        <span>
+                          Queued {format(new Date(item.createdAt), 'dd MMM HH:mm')}
+                          {item.attempts > 0 && ` · attempt ${item.attempts}/${OUTBOX_MAX_ATTEMPTS}`}
+                          {item.status === 'failed' && ` · next ${formatDistanceToNow(new Date(item.nextAttemptAt), { addSuffix: true })}`}
+                        </span>
+                        {item.lastError && <span className="outbox-item-error">{item.lastError}</span>}
+                      </div>
+                      <div className="outbox-item-actions">
+                        <Button size="sm" variant="ghost" onClick={() => runAction(item.id, () => retryOutboxItem(item.id))} loading={busyId === item.id}>
+                          Retry
+                        </Button>
+                        <Button size="sm" variant="danger" onClick={() => handleDiscard(item)} disabled={busyId === item.id}>
+                          Discard
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default OutboxPanel;
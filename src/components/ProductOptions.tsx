@@ -0,0 +1,28 @@
+/**
+ * Product catalogue suggestions - a <datalist> for product inputs, so
+ * products can be picked from the catalogue by name or SKU while the field
+ * still accepts free text. Inputs link to it with list={PRODUCT_LIST_ID}.
+ */
+
+import React from 'react';
+import { PRODUCT_LIST_ID, useProducts } from '../lib/products';
+
+interface ProductOptionsProps {
+  id?: string;
+}
+
+const ProductOptions: React.FC<ProductOptionsProps> = ({ id = PRODUCT_LIST_ID }) => {
+  const products = useProducts();
+
+  return (
+    <datalist id={id}>
+      {products.filter(p => p.active).map(product => (
+        <option key={product.id} value={product.name}>
+          {product.sku}
+        </option>
+      ))}
+    </datalist>
+  );
+};
+
+export default ProductOptions;
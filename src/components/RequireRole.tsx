@@ -0,0 +1,35 @@
+/**
+ * Route guard - renders its children only for users with at least the given
+ * role, otherwise sends them to the sign-in page and back afterwards.
+ */
+
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { PageSkeleton } from './LoadingSkeleton';
+import { useAuth, hasRole, UserRole } from '../lib/auth';
+
+interface RequireRoleProps {
+  role: UserRole;
+  children: React.ReactNode;
+}
+
+const RequireRole: React.FC<RequireRoleProps> = ({ role, children }) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div role="status" aria-label="Checking sign-in">
+        <PageSkeleton />
+      </div>
+    );
+  }
+
+  if (!hasRole(user, role)) {
+    return <Navigate to="/login" replace state={{ from: location.pathname, requiredRole: role }} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
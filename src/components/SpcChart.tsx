@@ -0,0 +1,132 @@
+/**
+ * SPC chart for sachet mass - individuals or X̄ chart with its range chart,
+ * control limits, spec limits, rule violations and Cp / Cpk.
+ */
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { format } from 'date-fns';
+import { SpcAnalysis, SpecLimits } from '../lib/spc';
+
+interface SpcChartProps {
+  analysis: SpcAnalysis;
+  spec?: SpecLimits | null;
+  height?: number;
+  showRangeChart?: boolean;
+}
+
+const formatIndex = (value: number | null | undefined, digits = 2): string =>
+  value === null || value === undefined || !Number.isFinite(value) ? '—' : value.toFixed(digits);
+
+const SpcChart: React.FC<SpcChartProps> = ({ analysis, spec, height = 220, showRangeChart = true }) => {
+  const { points, limits, limitsSource, violations, capability } = analysis;
+
+  if (points.length < 2) {
+    return (
+      <div className="chart-empty-state">
+        <span className="empty-icon">📈</span>
+        <span className="empty-text">Record at least two sachet masses for the control chart</span>
+      </div>
+    );
+  }
+
+  const violating = new Set(violations.map(v => v.index));
+  const isSubgroups = (limits?.subgroupSize || 1) > 1;
+  const data = points.map(p => ({
+    label: p.timestamp ? format(p.timestamp, 'dd MMM HH:mm') : String(p.index + 1),
+    value: Number(p.value.toFixed(3)),
+    range: p.range !== null ? Number(p.range.toFixed(3)) : null,
+    violation: violating.has(p.index),
+  }));
+
+  const bounds = [
+    ...points.map(p => p.value),
+    ...(limits ? [limits.ucl, limits.lcl] : []),
+    ...(spec ? [spec.lower, spec.upper] : []),
+  ];
+  const padding = (Math.max(...bounds) - Math.min(...bounds)) * 0.1 || 0.1;
+  const domain = [Math.min(...bounds) - padding, Math.max(...bounds) + padding];
+
+  const renderDot = (props: { cx?: number; cy?: number; index?: number; payload?: { violation: boolean } }) => (
+    <circle
+      key={props.index}
+      cx={props.cx}
+      cy={props.cy}
+      r={props.payload?.violation ? 5 : 3}
+      fill={props.payload?.violation ? '#ff4757' : '#00f5ff'}
+      stroke="none"
+    />
+  );
+
+  return (
+    <div className="spc-chart">
+      <div className="spc-summary">
+        <span>{isSubgroups ? `X̄-R (n=${limits?.subgroupSize})` : 'Individuals'}</span>
+        {limits && (
+          <span>
+            CL {limits.center.toFixed(2)} g · UCL {limits.ucl.toFixed(2)} · LCL {limits.lcl.toFixed(2)}
+            {limitsSource === 'history' ? ' (from history)' : ' (from this data)'}
+          </span>
+        )}
+        <span className={capability && capability.cpk < 1 ? 'spc-capability poor' : 'spc-capability'}>
+          Cp {formatIndex(capability?.cp)} · Cpk {formatIndex(capability?.cpk)}
+        </span>
+      </div>
+
+      <ResponsiveContainer width="100%" height={height}>
+        <LineChart data={data} margin={{ top: 10, right: 40, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.08)" />
+          <XAxis dataKey="label" tick={{ fill: '#9ca3af', fontSize: 10 }} minTickGap={20} />
+          <YAxis domain={domain} tick={{ fill: '#9ca3af', fontSize: 11 }} tickFormatter={v => Number(v).toFixed(1)} width={45} />
+          <Tooltip
+            contentStyle={{ background: '#16213e', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8 }}
+            formatter={(value: number) => [`${value} g`, isSubgroups ? 'Subgroup mean' : 'Mass']}
+          />
+          {limits && (
+            <>
+              <ReferenceLine y={limits.center} stroke="#34d399" label={{ value: 'CL', fill: '#34d399', fontSize: 10, position: 'right' }} />
+              <ReferenceLine y={limits.ucl} stroke="#fbbf24" strokeDasharray="4 4" label={{ value: 'UCL', fill: '#fbbf24', fontSize: 10, position: 'right' }} />
+              <ReferenceLine y={limits.lcl} stroke="#fbbf24" strokeDasharray="4 4" label={{ value: 'LCL', fill: '#fbbf24', fontSize: 10, position: 'right' }} />
+            </>
+          )}
+          {spec && (
+            <>
+              <ReferenceLine y={spec.upper} stroke="#ff4757" label={{ value: 'USL', fill: '#ff4757', fontSize: 10, position: 'right' }} />
+              <ReferenceLine y={spec.lower} stroke="#ff4757" label={{ value: 'LSL', fill: '#ff4757', fontSize: 10, position: 'right' }} />
+            </>
+          )}
+          <Line type="linear" dataKey="value" stroke="#00f5ff" strokeWidth={1.5} dot={renderDot} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+
+      {showRangeChart && limits && (
+        <ResponsiveContainer width="100%" height={Math.round(height / 2)}>
+          <LineChart data={data} margin={{ top: 5, right: 40, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.08)" />
+            <XAxis dataKey="label" hide />
+            <YAxis tick={{ fill: '#9ca3af', fontSize: 11 }} tickFormatter={v => Number(v).toFixed(2)} width={45} />
+            <Tooltip
+              contentStyle={{ background: '#16213e', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8 }}
+              formatter={(value: number) => [`${value} g`, isSubgroups ? 'Range' : 'Moving range']}
+            />
+            <ReferenceLine y={limits.rangeCenter} stroke="#34d399" />
+            <ReferenceLine y={limits.rangeUcl} stroke="#fbbf24" strokeDasharray="4 4" />
+            <Line type="linear" dataKey="range" stroke="#a78bfa" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      {violations.length > 0 && (
+        <ul className="spc-violations">
+          {violations.slice(-5).reverse().map(v => (
+            <li key={`${v.index}-${v.rule}`}>
+              <strong>Rule {v.rule}</strong> at {data[v.index]?.label}: {v.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SpcChart;
@@ -0,0 +1,108 @@
+/**
+ * Machine state timeline - one shift as a Gantt lane of run, pause and
+ * changeover segments (pauses coloured by downtime reason category) with
+ * a lane of waste and pallet markers beneath.
+ */
+
+import React from 'react';
+import { format } from 'date-fns';
+import { StateTimeline as StateTimelineData, StateSegmentKind, summarizeStateTimeline } from '../lib/stateTimeline';
+
+interface StateTimelineProps {
+  timeline: StateTimelineData;
+}
+
+const STATE_LABELS: Record<StateSegmentKind, string> = {
+  running: 'Running',
+  paused: 'Paused',
+  changeover: 'Changeover',
+  idle: 'Not started',
+};
+
+// Pause colours, handed out to categories in the order they first appear
+const CATEGORY_COLORS = ['#ffb800', '#ff4757', '#ff8c42', '#4d9fff', '#14b8a6', '#f472b6', '#a3e635'];
+
+const formatMinutes = (minutes: number): string =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m` : `${Math.round(minutes)}m`;
+
+const StateTimeline: React.FC<StateTimelineProps> = ({ timeline }) => {
+  const { start, end, segments, markers } = timeline;
+  const span = Math.max(1, end.getTime() - start.getTime());
+  const position = (date: Date) => `${((date.getTime() - start.getTime()) / span) * 100}%`;
+  const width = (from: Date, to: Date) => `${((to.getTime() - from.getTime()) / span) * 100}%`;
+
+  const categoryMinutes = new Map<string, number>();
+  segments.forEach(s => {
+    if (s.category) {
+      categoryMinutes.set(s.category, (categoryMinutes.get(s.category) || 0) + (s.end.getTime() - s.start.getTime()) / 60000);
+    }
+  });
+  const categories = Array.from(categoryMinutes.keys());
+  const categoryColor = (category?: string) =>
+    CATEGORY_COLORS[Math.max(0, categories.indexOf(category || '')) % CATEGORY_COLORS.length];
+
+  // An hour tick for short shifts, every two hours for long ones
+  const tickStep = (span > 12 * 3600000 ? 2 : 1) * 3600000;
+  const ticks: Date[] = [];
+  for (let t = start.getTime(); t <= end.getTime(); t += tickStep) ticks.push(new Date(t));
+
+  const minutes = summarizeStateTimeline(timeline);
+
+  return (
+    <div className="state-timeline">
+      <div className="state-timeline-axis">
+        {ticks.map(tick => (
+          <span key={tick.getTime()} className="state-timeline-tick" style={{ left: position(tick) }}>
+            {format(tick, 'HH:mm')}
+          </span>
+        ))}
+      </div>
+
+      <div className="state-timeline-lane">
+        {segments.map(segment => (
+          <div
+            key={`${segment.kind}-${segment.start.getTime()}`}
+            className={`state-timeline-segment ${segment.kind}`}
+            style={{
+              left: position(segment.start),
+              width: width(segment.start, segment.end),
+              background: segment.kind === 'paused' ? categoryColor(segment.category) : undefined,
+            }}
+            title={[
+              `${STATE_LABELS[segment.kind]} ${format(segment.start, 'HH:mm')}–${format(segment.end, 'HH:mm')}`,
+              segment.reason,
+            ].filter(Boolean).join(' · ')}
+          />
+        ))}
+      </div>
+
+      <div className="state-timeline-lane markers">
+        {markers.map(marker => (
+          <span
+            key={marker.id}
+            className={`state-timeline-marker ${marker.kind}${marker.ignored ? ' ignored' : ''}`}
+            style={{ left: position(marker.at) }}
+            title={`${format(marker.at, 'HH:mm')} · ${marker.label}`}
+          />
+        ))}
+      </div>
+
+      <div className="state-timeline-legend">
+        <span className="legend-item"><i className="state-timeline-swatch running" />Running {formatMinutes(minutes.running)}</span>
+        {minutes.changeover > 0 && (
+          <span className="legend-item"><i className="state-timeline-swatch changeover" />Changeover {formatMinutes(minutes.changeover)}</span>
+        )}
+        {categories.map(category => (
+          <span key={category} className="legend-item">
+            <i className="state-timeline-swatch" style={{ background: categoryColor(category) }} />
+            {category} {formatMinutes(categoryMinutes.get(category) || 0)}
+          </span>
+        ))}
+        <span className="legend-item"><i className="state-timeline-marker waste" />Waste</span>
+        <span className="legend-item"><i className="state-timeline-marker pallet" />Pallet</span>
+      </div>
+    </div>
+  );
+};
+
+export default StateTimeline;
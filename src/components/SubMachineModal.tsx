@@ -1,6 +1,7 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Machine } from '../types';
+import { getSubMachines, getSubMachineLabel, getMachineLabel } from '../lib/machineHierarchy';
 
 interface SubMachineModalProps {
   isOpen: boolean;
@@ -19,7 +20,7 @@ const SubMachineModal: React.FC<SubMachineModalProps> = ({
 }) => {
   if (!isOpen || !machine || !machine.subMachineCount) return null;
 
-  const subMachines = Array.from({ length: machine.subMachineCount }, (_, i) => i + 1);
+  const subMachines = getSubMachines(machine);
 
   return (
     <AnimatePresence>
@@ -46,7 +47,7 @@ const SubMachineModal: React.FC<SubMachineModalProps> = ({
                   <line x1="12" y1="17" x2="12" y2="21" />
                 </svg>
                 <div>
-                  <h2>{machine.name}</h2>
+                  <h2>{getMachineLabel(machine)}</h2>
                   <span className="sub-machine-subtitle">Select a machine</span>
                 </div>
               </div>
@@ -59,13 +60,13 @@ const SubMachineModal: React.FC<SubMachineModalProps> = ({
             </div>
 
             <div className="sub-machine-grid">
-              {subMachines.map((num) => {
-                const isActive = activeSubMachines.has(num);
+              {subMachines.map((sub) => {
+                const isActive = activeSubMachines.has(sub.number);
                 return (
                   <motion.button
-                    key={num}
+                    key={sub.id}
                     className={`sub-machine-btn ${isActive ? 'busy' : ''}`}
-                    onClick={() => onSelectSubMachine(machine, num, isActive)}
+                    onClick={() => onSelectSubMachine(machine, sub.number, isActive)}
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
                     title={isActive ? 'In Use - Click to continue' : 'Available'}
@@ -80,8 +81,8 @@ const SubMachineModal: React.FC<SubMachineModalProps> = ({
                       </svg>
                     </div>
                     <div className="sub-machine-info">
-                      <span className="sub-machine-name">Machine {num}</span>
-                      <span className="sub-machine-label">{machine.name}</span>
+                      <span className="sub-machine-name">{getSubMachineLabel(sub)}</span>
+                      <span className="sub-machine-label">{getMachineLabel(machine)}</span>
                     </div>
                     <div className="sub-machine-arrow">
                       <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="20" height="20">
@@ -1,11 +1,14 @@
 import React from 'react';
-import { WasteEntry, WASTE_TYPES } from '../types';
+import { WasteEntry, WasteType } from '../types';
+import WasteTypeSelect from './WasteTypeSelect';
+import { formatWasteQuantity } from '../lib/wasteTypes';
 
 interface WasteSectionProps {
   waste: number | '';
   setWaste: (value: number | '') => void;
-  wasteType: string;
-  setWasteType: (value: string) => void;
+  wasteType: WasteType | null;
+  setWasteType: (value: WasteType | null) => void;
+  product?: string;
   handleWasteSubmit: (e: React.MouseEvent<HTMLButtonElement>) => void;
   wasteEntries: WasteEntry[];
   onDeleteEntry?: (id: string) => void;
@@ -16,6 +19,7 @@ const WasteSection: React.FC<WasteSectionProps> = ({
   setWaste,
   wasteType,
   setWasteType,
+  product,
   handleWasteSubmit,
   wasteEntries,
   onDeleteEntry,
@@ -31,15 +35,10 @@ const WasteSection: React.FC<WasteSectionProps> = ({
           id="waste" 
           value={waste} 
           onChange={e => setWaste(Number(e.target.value))} 
-          placeholder="kg"
+          placeholder={wasteType?.unit || 'kg'}
           inputMode="decimal"
         />
-        <select className="form-select" id="wasteType" value={wasteType} onChange={e => setWasteType(e.target.value)}>
-          <option value="">Type</option>
-          {WASTE_TYPES.map(type => (
-            <option key={type} value={type}>{type}</option>
-          ))}
-        </select>
+        <WasteTypeSelect id="wasteType" value={wasteType} onChange={setWasteType} product={product} placeholder="Type" />
         <button className="btn btn-success" onClick={handleWasteSubmit}>+</button>
       </div>
 
@@ -52,7 +51,7 @@ const WasteSection: React.FC<WasteSectionProps> = ({
           <div className="entries-list">
             {wasteEntries.map((entry, index) => (
               <div key={entry.id || index} className="entry-row">
-                <span className="entry-value">{entry.waste} kg</span>
+                <span className="entry-value">{formatWasteQuantity(entry)}</span>
                 <span className="entry-type">{entry.wasteType}</span>
                 {onDeleteEntry && entry.id && (
                   <button 
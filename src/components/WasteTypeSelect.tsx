@@ -0,0 +1,48 @@
+/**
+ * Waste type picker - the admin-managed waste catalogue, limited to types
+ * that apply to the product, with each type's unit of measure.
+ */
+
+import React from 'react';
+import { WasteType } from '../types';
+import { getWasteTypesForProduct, useWasteTypes } from '../lib/wasteTypes';
+
+interface WasteTypeSelectProps {
+  value: WasteType | null;
+  onChange: (type: WasteType | null) => void;
+  product?: string;
+  id?: string;
+  className?: string;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+const WasteTypeSelect: React.FC<WasteTypeSelectProps> = ({
+  value,
+  onChange,
+  product,
+  id,
+  className = 'form-select',
+  placeholder = 'Select waste type...',
+  autoFocus,
+}) => {
+  const types = useWasteTypes();
+  const options = getWasteTypesForProduct(types, product);
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChange(types.find(t => t.code === e.target.value) || null);
+  };
+
+  return (
+    <select id={id} className={className} value={value?.code || ''} onChange={handleChange} autoFocus={autoFocus}>
+      <option value="">{placeholder}</option>
+      {options.map(type => (
+        <option key={type.id} value={type.code}>
+          {type.name} ({type.unit})
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default WasteTypeSelect;
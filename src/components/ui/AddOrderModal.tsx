@@ -3,6 +3,9 @@ import { Modal } from './Modal';
 import { Button } from './Button';
 import { FormField } from './FormField';
 import { addMachineOrder } from '../../lib/supabase';
+import { findProduct, useProducts, PRODUCT_LIST_ID } from '../../lib/products';
+import { parseOrderPlan } from '../../lib/orderProgress';
+import { OrderPlan } from '../../types';
 import './AddOrderModal.css';
 
 interface AddOrderModalProps {
@@ -10,7 +13,7 @@ interface AddOrderModalProps {
   onClose: () => void;
   machineId: string;
   machineName: string;
-  onOrderAdded: (order: { orderNumber: string; product: string; batchNumber: string }) => void;
+  onOrderAdded: (order: { orderNumber: string; product: string; batchNumber: string; plan: OrderPlan }) => void;
 }
 
 export const AddOrderModal: React.FC<AddOrderModalProps> = ({
@@ -23,9 +26,15 @@ export const AddOrderModal: React.FC<AddOrderModalProps> = ({
   const [orderNumber, setOrderNumber] = useState('');
   const [product, setProduct] = useState('');
   const [batchNumber, setBatchNumber] = useState('');
+  const [plannedQuantity, setPlannedQuantity] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [plannedStart, setPlannedStart] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
+  const products = useProducts();
+  const productSpec = findProduct(products, product);
+
   const handleSubmit = async () => {
     // Validation
     if (!orderNumber.trim()) {
@@ -36,30 +45,37 @@ export const AddOrderModal: React.FC<AddOrderModalProps> = ({
       setError('Product is required');
       return;
     }
+    const { plan, error: planError } = parseOrderPlan({ plannedQuantity, dueDate, plannedStart });
+    if (planError) {
+      setError(planError);
+      return;
+    }
 
     setLoading(true);
     setError('');
+    // A SKU picks the catalogue product; orders store the product name
+    const productName = productSpec?.name || product.trim();
 
     try {
       // Add to machine order queue
       await addMachineOrder(
         machineId,
         orderNumber.trim(),
-        product.trim(),
-        batchNumber.trim() || ''
+        productName,
+        batchNumber.trim() || '',
+        plan
       );
 
       // Notify parent and close
       onOrderAdded({
         orderNumber: orderNumber.trim(),
-        product: product.trim(),
+        product: productName,
         batchNumber: batchNumber.trim(),
+        plan,
       });
 
       // Reset form
-      setOrderNumber('');
-      setProduct('');
-      setBatchNumber('');
+      resetForm();
       onClose();
     } catch (err) {
       console.error('Failed to add order:', err);
@@ -69,10 +85,17 @@ export const AddOrderModal: React.FC<AddOrderModalProps> = ({
     }
   };
 
-  const handleClose = () => {
+  const resetForm = () => {
     setOrderNumber('');
     setProduct('');
     setBatchNumber('');
+    setPlannedQuantity('');
+    setDueDate('');
+    setPlannedStart('');
+  };
+
+  const handleClose = () => {
+    resetForm();
     setError('');
     onClose();
   };
@@ -126,9 +149,13 @@ export const AddOrderModal: React.FC<AddOrderModalProps> = ({
             id="product"
             value={product}
             onChange={setProduct}
-            placeholder="e.g., Product A"
+            placeholder="Product name or SKU"
             required
             disabled={loading}
+            list={PRODUCT_LIST_ID}
+            hint={productSpec
+              ? `${productSpec.sku}${productSpec.ratedSpeed ? ` · rated ${productSpec.ratedSpeed} PPM` : ''}`
+              : product.trim() && products.length > 0 ? 'Not in the product catalogue' : undefined}
           />
 
           <FormField
@@ -139,6 +166,36 @@ export const AddOrderModal: React.FC<AddOrderModalProps> = ({
             placeholder="e.g., BATCH-001 (optional)"
             disabled={loading}
           />
+
+          <FormField
+            label="Planned Quantity (cases)"
+            id="planned-quantity"
+            type="number"
+            value={plannedQuantity}
+            onChange={setPlannedQuantity}
+            placeholder="Optional - completes the order when reached"
+            disabled={loading}
+          />
+
+          <div className="mc-add-order__row">
+            <FormField
+              label="Due Date"
+              id="due-date"
+              type="date"
+              value={dueDate}
+              onChange={setDueDate}
+              disabled={loading}
+            />
+
+            <FormField
+              label="Planned Start"
+              id="planned-start"
+              type="datetime-local"
+              value={plannedStart}
+              onChange={setPlannedStart}
+              disabled={loading}
+            />
+          </div>
         </div>
 
         <div className="mc-add-order__hint">
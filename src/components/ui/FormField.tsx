@@ -4,7 +4,7 @@ import './FormField.css';
 interface FormFieldProps {
   label: string;
   id: string;
-  type?: 'text' | 'number' | 'email' | 'password' | 'tel' | 'search';
+  type?: 'text' | 'number' | 'email' | 'password' | 'tel' | 'search' | 'date' | 'datetime-local';
   value: string | number;
   onChange: (value: string) => void;
   placeholder?: string;
@@ -15,6 +15,7 @@ interface FormFieldProps {
   hint?: string;
   icon?: React.ReactNode;
   className?: string;
+  list?: string; // id of a <datalist> with suggestions
 }
 
 export const FormField: React.FC<FormFieldProps> = ({
@@ -31,6 +32,7 @@ export const FormField: React.FC<FormFieldProps> = ({
   hint,
   icon,
   className = '',
+  list,
 }) => {
   return (
     <div className={`mc-field ${error ? 'mc-field--error' : ''} ${disabled ? 'mc-field--disabled' : ''} ${className}`}>
@@ -50,6 +52,7 @@ export const FormField: React.FC<FormFieldProps> = ({
           disabled={disabled}
           readOnly={readOnly}
           required={required}
+          list={list}
         />
         <div className="mc-field__glow" />
       </div>
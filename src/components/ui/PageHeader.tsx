@@ -69,7 +69,7 @@ export const PageHeader: React.FC<PageHeaderProps> = ({
 
 // Shift badge component for headers
 interface ShiftBadgeProps {
-  shift: 'Day' | 'Night';
+  shift: string;
 }
 
 export const ShiftBadge: React.FC<ShiftBadgeProps> = ({ shift }) => {
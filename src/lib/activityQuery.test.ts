@@ -0,0 +1,64 @@
+/**
+ * Tests for activity log query helpers
+ */
+
+import { ActivityEvent, ActivityEventType } from './liveSession';
+import {
+  buildActivityCursorFilter,
+  mergeActivityEvents,
+  nextActivityCursor,
+  queryLocalActivity,
+} from './activityQuery';
+
+const event = (id: string, type: ActivityEventType, machine_name: string, time: string, operator_name?: string): ActivityEvent => ({
+  id,
+  type,
+  machine_name,
+  operator_name,
+  message: `${type.replace('_', ' ')} on ${machine_name}`,
+  details: type === 'waste_recorded' ? 'Start-up Waste' : undefined,
+  timestamp: new Date(`2026-10-${time}:00Z`),
+});
+
+const events = [
+  event('1', 'machine_start', 'Canline', '16T06:00', 'Thandi'),
+  event('2', 'waste_recorded', 'Canline', '17T07:30', 'Thandi'),
+  event('3', 'waste_recorded', 'Universal 2', '18T08:00', 'Sipho'),
+  event('4', 'pallet_scanned', 'Canline', '18T09:15', 'Sipho'),
+];
+
+describe('queryLocalActivity', () => {
+  it('should filter by machine, type, operator, text and period, newest first', () => {
+    const ids = (filters: object) => queryLocalActivity(events, { limit: 10, ...filters }).events.map(e => e.id);
+
+    expect(ids({})).toEqual(['4', '3', '2', '1']);
+    expect(ids({ machine: 'Canline', types: ['waste_recorded', 'pallet_scanned'] })).toEqual(['4', '2']);
+    expect(ids({ operator: 'sip' })).toEqual(['4', '3']);
+    expect(ids({ search: 'start-up' })).toEqual(['3', '2']);
+    expect(ids({ since: new Date('2026-10-17T00:00:00Z') })).toEqual(['4', '3', '2']);
+  });
+
+  it('should page with a cursor', () => {
+    const first = queryLocalActivity(events, { limit: 3 });
+    expect(first.events.map(e => e.id)).toEqual(['4', '3', '2']);
+
+    const second = queryLocalActivity(events, { limit: 3, cursor: first.nextCursor });
+    expect(second.events.map(e => e.id)).toEqual(['1']);
+    expect(second.nextCursor).toBeNull();
+  });
+});
+
+describe('activity log paging', () => {
+  it('should continue after the last event, breaking timestamp ties by id', () => {
+    const cursor = nextActivityCursor({ id: '1760774400000-abc', occurred_at: '2026-10-18T08:00:00.000Z' });
+    expect(buildActivityCursorFilter(cursor)).toBe(
+      'occurred_at.lt."2026-10-18T08:00:00.000Z",' +
+      'and(occurred_at.eq."2026-10-18T08:00:00.000Z",id.lt."1760774400000-abc")'
+    );
+  });
+
+  it('should put live events in front of loaded pages once', () => {
+    const live = [events[3], event('5', 'machine_pause', 'Canline', '18T10:00')];
+    expect(mergeActivityEvents(live, events.slice(1)).map(e => e.id)).toEqual(['5', '4', '3', '2']);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Activity Log Queries
+ *
+ * Query shape for the persisted activity log: machine, operator, event types
+ * and free-text search over the last few days, newest first with cursor
+ * pagination. Supabase runs it server-side (keyset pagination on occurred_at
+ * + id); events held on this device are queried in memory with the same
+ * shape.
+ */
+
+import { ActivityEvent, ActivityEventType } from './liveSession';
+import { ActivityEventRecord } from './supabase';
+import { encodeCursor, decodeCursor, quoteFilterValue } from './historyQuery';
+
+export interface ActivityFilters {
+  machine?: string;              // Exact machine name
+  operator?: string;             // Case-insensitive "contains" match
+  types?: ActivityEventType[];   // Any of these types (every type when empty)
+  search?: string;               // Case-insensitive "contains" on message, details and operator
+  since?: Date;
+}
+
+export interface ActivityQuery extends ActivityFilters {
+  limit: number;
+  cursor?: string | null;        // From the previous page's nextCursor
+}
+
+export interface ActivityPage {
+  events: ActivityEvent[];
+  nextCursor: string | null;
+}
+
+// Position after the last event of a page
+interface ActivityCursor {
+  occurredAt: string;
+  id: string;
+}
+
+// ==========================================
+// RECORDS
+// ==========================================
+
+export const toActivityEventRecord = (event: ActivityEvent): Omit<ActivityEventRecord, 'created_at'> => ({
+  id: event.id,
+  type: event.type,
+  machine_name: event.machine_name,
+  operator_name: event.operator_name || null,
+  message: event.message,
+  details: event.details || null,
+  occurred_at: event.timestamp.toISOString(),
+});
+
+export const fromActivityEventRecord = (record: ActivityEventRecord): ActivityEvent => ({
+  id: record.id,
+  type: record.type as ActivityEventType,
+  machine_name: record.machine_name,
+  operator_name: record.operator_name || undefined,
+  message: record.message,
+  details: record.details || undefined,
+  timestamp: new Date(record.occurred_at),
+});
+
+// ==========================================
+// CURSORS
+// ==========================================
+
+export const nextActivityCursor = (record: Pick<ActivityEventRecord, 'occurred_at' | 'id'>): string => {
+  const cursor: ActivityCursor = { occurredAt: record.occurred_at, id: record.id };
+  return encodeCursor(cursor);
+};
+
+/**
+ * PostgREST "or" filter selecting events older than a cursor (ties on
+ * occurred_at are broken by id, both descending)
+ * @throws When the cursor was not produced by nextActivityCursor
+ */
+export const buildActivityCursorFilter = (cursor: string): string => {
+  const { occurredAt, id } = decodeCursor<ActivityCursor>(cursor);
+  const at = quoteFilterValue(occurredAt);
+  return `occurred_at.lt.${at},and(occurred_at.eq.${at},id.lt.${quoteFilterValue(id)})`;
+};
+
+// ==========================================
+// FILTERING
+// ==========================================
+
+const contains = (value: string | undefined, search?: string): boolean =>
+  !search || (value || '').toLowerCase().includes(search.toLowerCase());
+
+export const matchesActivityFilters = (event: ActivityEvent, filters: ActivityFilters): boolean =>
+  (!filters.machine || event.machine_name === filters.machine) &&
+  contains(event.operator_name, filters.operator) &&
+  (!filters.types?.length || filters.types.includes(event.type)) &&
+  (!filters.since || new Date(event.timestamp) >= filters.since) &&
+  (!filters.search || [event.message, event.details, event.operator_name].some(v => contains(v, filters.search)));
+
+/**
+ * Run an activity query against events held on this device
+ */
+export const queryLocalActivity = (events: ActivityEvent[], query: ActivityQuery): ActivityPage => {
+  const matches = events
+    .filter(event => matchesActivityFilters(event, query))
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  const offset = query.cursor ? decodeCursor<{ offset: number }>(query.cursor).offset : 0;
+  const end = offset + query.limit;
+
+  return {
+    events: matches.slice(offset, end),
+    nextCursor: end < matches.length ? encodeCursor({ offset: end }) : null,
+  };
+};
+
+/**
+ * Live events in front of the loaded pages, each event once, newest first
+ */
+export const mergeActivityEvents = (live: ActivityEvent[], loaded: ActivityEvent[]): ActivityEvent[] => {
+  const byId = new Map<string, ActivityEvent>();
+  [...loaded, ...live].forEach(event => byId.set(event.id, event));
+  return Array.from(byId.values()).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+};
@@ -0,0 +1,370 @@
+/**
+ * Authentication and Roles
+ *
+ * Users sign in with Supabase Auth (email + password); their role comes from
+ * the user_profiles table and is enforced server-side by RLS. When Supabase is
+ * not configured (standalone kiosks), PIN accounts stored on the device are
+ * used instead, with the same roles.
+ *
+ * Roles are ordered: operator < supervisor < admin.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  supabase,
+  isSupabaseConfigured,
+  fetchUserProfile,
+  fetchUserProfiles,
+  updateUserProfile,
+} from './supabase';
+import { logError } from './errorMonitoring';
+
+export type UserRole = 'operator' | 'supervisor' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['operator', 'supervisor', 'admin'];
+
+const ROLE_RANK: Record<UserRole, number> = {
+  operator: 1,
+  supervisor: 2,
+  admin: 3,
+};
+
+export interface AppUser {
+  id: string;
+  displayName: string;
+  email?: string;
+  role: UserRole;
+  source: 'supabase' | 'local';
+}
+
+export interface AuthState {
+  user: AppUser | null;
+  loading: boolean;
+}
+
+// Local PIN accounts (used when Supabase is not configured)
+interface LocalAccount {
+  id: string;
+  displayName: string;
+  role: UserRole;
+  salt: string;
+  pinHash: string;
+  createdAt: string;
+}
+
+const LOCAL_ACCOUNTS_KEY = 'local_auth_accounts';
+const LOCAL_SESSION_KEY = 'local_auth_session';
+const LOCAL_SESSION_HOURS = 12;
+const MIN_PIN_LENGTH = 4;
+
+let authState: AuthState = { user: null, loading: true };
+let authListeners: ((state: AuthState) => void)[] = [];
+
+const setAuthState = (state: AuthState): void => {
+  authState = state;
+  authListeners.forEach(listener => listener(state));
+};
+
+// ==========================================
+// ROLE CHECKS
+// ==========================================
+
+/**
+ * Check whether a user has at least the required role
+ */
+export const hasRole = (user: AppUser | null, required: UserRole): boolean => {
+  if (!user) return false;
+  return ROLE_RANK[user.role] >= ROLE_RANK[required];
+};
+
+export const formatRole = (role: UserRole): string =>
+  role.charAt(0).toUpperCase() + role.slice(1);
+
+// ==========================================
+// AUTH STATE
+// ==========================================
+
+export const getAuthState = (): AuthState => authState;
+
+export const getCurrentUser = (): AppUser | null => authState.user;
+
+/**
+ * Listen for sign-in / sign-out
+ */
+export const subscribeToAuth = (listener: (state: AuthState) => void): (() => void) => {
+  authListeners.push(listener);
+  return () => {
+    authListeners = authListeners.filter(l => l !== listener);
+  };
+};
+
+/**
+ * React hook for the current auth state
+ */
+export const useAuth = (): AuthState => {
+  const [state, setState] = useState<AuthState>(authState);
+  useEffect(() => {
+    setState(authState);
+    return subscribeToAuth(setState);
+  }, []);
+  return state;
+};
+
+/**
+ * Resolve a Supabase auth user to an app user via their profile
+ */
+const loadSupabaseUser = async (userId: string, email?: string): Promise<AppUser | null> => {
+  try {
+    const profile = await fetchUserProfile(userId);
+    if (!profile) {
+      logError('Signed-in user has no profile', { context: email || userId, showToast: false });
+      return null;
+    }
+    return {
+      id: profile.id,
+      displayName: profile.display_name,
+      email: profile.email || email,
+      role: profile.role,
+      source: 'supabase',
+    };
+  } catch (e) {
+    logError('Failed to load user profile', { context: String(e), showToast: false });
+    return null;
+  }
+};
+
+/**
+ * Restore the session and follow sign-in changes.
+ * Call once at app start; returns a cleanup function.
+ */
+export const initializeAuth = (): (() => void) => {
+  if (!isSupabaseConfigured) {
+    setAuthState({ user: getLocalSessionUser(), loading: false });
+    return () => { };
+  }
+
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    if (!session?.user) {
+      setAuthState({ user: null, loading: false });
+      return;
+    }
+    // Profile lookups must not run inside the auth callback itself
+    const { id, email } = session.user;
+    setTimeout(async () => {
+      const user = await loadSupabaseUser(id, email);
+      setAuthState({ user, loading: false });
+    }, 0);
+  });
+
+  return () => {
+    data.subscription.unsubscribe();
+  };
+};
+
+// ==========================================
+// SIGN IN / OUT
+// ==========================================
+
+/**
+ * Sign in with Supabase Auth
+ * @throws When the credentials are wrong or the user has no profile
+ */
+export const signInWithPassword = async (email: string, password: string): Promise<AppUser> => {
+  const { data, error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+  if (error || !data.user) {
+    throw new Error(error?.message || 'Sign in failed');
+  }
+
+  const user = await loadSupabaseUser(data.user.id, data.user.email);
+  if (!user) {
+    await supabase.auth.signOut();
+    throw new Error('Your account has no role yet - ask an admin to set one up');
+  }
+
+  setAuthState({ user, loading: false });
+  return user;
+};
+
+/**
+ * Sign out of Supabase or the local PIN session
+ */
+export const signOut = async (): Promise<void> => {
+  if (isSupabaseConfigured) {
+    const { error } = await supabase.auth.signOut();
+    if (error) logError('Failed to sign out', { context: error.message, showToast: false });
+  } else {
+    localStorage.removeItem(LOCAL_SESSION_KEY);
+  }
+  setAuthState({ user: null, loading: false });
+};
+
+// ==========================================
+// LOCAL PIN ACCOUNTS
+// ==========================================
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Salted SHA-256 of a PIN, for PINs kept on the device
+ */
+export const hashPin = async (pin: string, salt: string): Promise<string> => {
+  const data = new TextEncoder().encode(`${salt}:${pin}`);
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+export const createSalt = (): string => toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+
+/**
+ * @throws When a PIN is not all digits or too short
+ */
+export const assertValidPin = (pin: string): void => {
+  if (!/^\d+$/.test(pin) || pin.length < MIN_PIN_LENGTH) {
+    throw new Error(`PIN must be at least ${MIN_PIN_LENGTH} digits`);
+  }
+};
+
+const getLocalAccounts = (): LocalAccount[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_ACCOUNTS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveLocalAccounts = (accounts: LocalAccount[]): void => {
+  localStorage.setItem(LOCAL_ACCOUNTS_KEY, JSON.stringify(accounts));
+};
+
+const toAppUser = (account: LocalAccount): AppUser => ({
+  id: account.id,
+  displayName: account.displayName,
+  role: account.role,
+  source: 'local',
+});
+
+const getLocalSessionUser = (): AppUser | null => {
+  try {
+    const session = JSON.parse(localStorage.getItem(LOCAL_SESSION_KEY) || 'null');
+    if (!session || new Date(session.expiresAt).getTime() < Date.now()) return null;
+    const account = getLocalAccounts().find(a => a.id === session.userId);
+    return account ? toAppUser(account) : null;
+  } catch {
+    return null;
+  }
+};
+
+const findAccountByPin = async (accounts: LocalAccount[], pin: string): Promise<LocalAccount | undefined> => {
+  for (const account of accounts) {
+    if (await hashPin(pin, account.salt) === account.pinHash) return account;
+  }
+  return undefined;
+};
+
+/**
+ * Whether the device has any PIN accounts yet (the first one must be an admin)
+ */
+export const hasLocalAccounts = (): boolean => getLocalAccounts().length > 0;
+
+/**
+ * Sign in on this device with a PIN
+ * @throws When no account matches
+ */
+export const signInWithPin = async (pin: string): Promise<AppUser> => {
+  const account = await findAccountByPin(getLocalAccounts(), pin);
+  if (!account) {
+    throw new Error('Incorrect PIN');
+  }
+
+  const expiresAt = new Date(Date.now() + LOCAL_SESSION_HOURS * 3600000).toISOString();
+  localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify({ userId: account.id, expiresAt }));
+
+  const user = toAppUser(account);
+  setAuthState({ user, loading: false });
+  return user;
+};
+
+/**
+ * Create a PIN account on this device. PINs must be unique because sign-in
+ * is by PIN alone.
+ * @throws When the PIN is too short or already in use
+ */
+export const createLocalAccount = async (
+  displayName: string,
+  pin: string,
+  role: UserRole
+): Promise<AppUser> => {
+  if (!displayName.trim()) {
+    throw new Error('Name is required');
+  }
+  assertValidPin(pin);
+
+  const accounts = getLocalAccounts();
+  if (await findAccountByPin(accounts, pin)) {
+    throw new Error('PIN is already in use');
+  }
+
+  const salt = createSalt();
+  const account: LocalAccount = {
+    id: `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    displayName: displayName.trim(),
+    // The first account on a device administers the others
+    role: accounts.length === 0 ? 'admin' : role,
+    salt,
+    pinHash: await hashPin(pin, salt),
+    createdAt: new Date().toISOString(),
+  };
+
+  saveLocalAccounts([...accounts, account]);
+  return toAppUser(account);
+};
+
+/**
+ * Remove a PIN account (the last admin cannot be removed)
+ */
+export const removeLocalAccount = (id: string): void => {
+  const accounts = getLocalAccounts();
+  const remaining = accounts.filter(a => a.id !== id);
+  if (!remaining.some(a => a.role === 'admin')) {
+    throw new Error('At least one admin account is required');
+  }
+  saveLocalAccounts(remaining);
+};
+
+// ==========================================
+// USER MANAGEMENT (Admin Console)
+// ==========================================
+
+/**
+ * List users who can sign in (Supabase profiles or local PIN accounts)
+ */
+export const listUsers = async (): Promise<AppUser[]> => {
+  if (!isSupabaseConfigured) {
+    return getLocalAccounts().map(toAppUser);
+  }
+  const profiles = await fetchUserProfiles();
+  return profiles.map(p => ({
+    id: p.id,
+    displayName: p.display_name,
+    email: p.email || undefined,
+    role: p.role,
+    source: 'supabase' as const,
+  }));
+};
+
+/**
+ * Change a user's role
+ * @throws When it would leave no admins
+ */
+export const setUserRole = async (id: string, role: UserRole): Promise<void> => {
+  if (isSupabaseConfigured) {
+    await updateUserProfile(id, { role });
+    return;
+  }
+
+  const accounts = getLocalAccounts().map(a => (a.id === id ? { ...a, role } : a));
+  if (!accounts.some(a => a.role === 'admin')) {
+    throw new Error('At least one admin account is required');
+  }
+  saveLocalAccounts(accounts);
+};
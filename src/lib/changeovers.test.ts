@@ -0,0 +1,47 @@
+/**
+ * Tests for changeover analytics
+ */
+
+import { summarizeChangeovers, getChangeoverMinutes, ChangeoverEvent } from './changeovers';
+
+const at = (time: string) => new Date(`2026-10-18T${time}:00`);
+
+const changeover = (from: string, to: string, start: string, end?: string): ChangeoverEvent => ({
+  id: `${from}-${to}-${start}`,
+  machineName: 'Canline',
+  from: { orderNumber: 'ORD-1', product: from },
+  to: { orderNumber: 'ORD-2', product: to },
+  startedAt: at(start),
+  endedAt: end ? at(end) : undefined,
+});
+
+describe('changeovers', () => {
+  it('should time finished changeovers only', () => {
+    expect(getChangeoverMinutes(changeover('A', 'B', '06:00', '06:45'))).toBe(45);
+    expect(getChangeoverMinutes(changeover('A', 'B', '06:00'))).toBeNull();
+  });
+
+  it('should summarise by product pair with the most time lost first', () => {
+    const summary = summarizeChangeovers([
+      changeover('Rooibos', 'Green Tea', '06:00', '06:20'),
+      changeover('Rooibos', 'Green Tea', '10:00', '10:40'),
+      changeover('Rooibos', 'Green Tea', '14:00', '15:30'),
+      changeover('Green Tea', 'Rooibos', '08:00', '08:30'),
+      changeover('Green Tea', 'Rooibos', '12:00'),
+    ]);
+
+    expect(summary).toHaveLength(2);
+    expect(summary[0]).toMatchObject({
+      fromProduct: 'Rooibos',
+      toProduct: 'Green Tea',
+      count: 3,
+      totalMinutes: 150,
+      averageMinutes: 50,
+      medianMinutes: 40,
+      minMinutes: 20,
+      maxMinutes: 90,
+      lastAt: at('14:00'),
+    });
+    expect(summary[1]).toMatchObject({ fromProduct: 'Green Tea', toProduct: 'Rooibos', count: 1, medianMinutes: 30 });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Changeovers
+ *
+ * A changeover runs from the end of the outgoing order on a machine to the
+ * start of production on the incoming one. It starts when an operator moves
+ * to the next order mid-shift, or when a shift is submitted with a
+ * changeover announced - the incoming order is then filled in when the next
+ * shift starts production.
+ *
+ * The open changeover of each machine is kept on the tablet so it survives
+ * reloads. Events are written to Supabase through the outbox, with a local
+ * history used for analysis without Supabase.
+ *
+ * Durations are summarised per product pair (from -> to) for SMED work.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  isSupabaseConfigured,
+  fetchChangeoverEvents,
+  ChangeoverEventRecord,
+} from './supabase';
+import { sendOrQueue } from './outbox';
+import { logError } from './errorMonitoring';
+
+const ACTIVE_CHANGEOVER_KEY_PREFIX = 'active_changeover_';
+const CHANGEOVER_HISTORY_KEY = 'changeover_history';
+const MAX_LOCAL_HISTORY = 200;
+
+// Downtime reason for the time a changeover stops a running shift
+export const CHANGEOVER_REASON_CODE = 'MAT-CHANGEOVER';
+
+// Order a changeover leaves or goes to (queue ID when it came from the queue)
+export interface ChangeoverOrder {
+  id?: number;
+  orderNumber: string;
+  product: string;
+}
+
+export interface ChangeoverEvent {
+  id: string;
+  machineId?: string;
+  machineName: string;
+  from?: ChangeoverOrder;
+  to?: ChangeoverOrder;         // Unknown until the incoming order starts
+  startedAt: Date;
+  endedAt?: Date;
+  operatorName?: string;
+}
+
+export interface ChangeoverPairSummary {
+  fromProduct: string;
+  toProduct: string;
+  count: number;
+  totalMinutes: number;
+  averageMinutes: number;
+  medianMinutes: number;
+  minMinutes: number;
+  maxMinutes: number;
+  lastAt: Date;
+}
+
+// ==========================================
+// ANALYTICS
+// ==========================================
+
+/**
+ * Length of a finished changeover in minutes (null while it is running)
+ */
+export const getChangeoverMinutes = (event: Pick<ChangeoverEvent, 'startedAt' | 'endedAt'>): number | null =>
+  event.endedAt ? Math.max(0, (event.endedAt.getTime() - event.startedAt.getTime()) / 60000) : null;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Finished changeovers grouped by product pair, the most time lost first
+ */
+export const summarizeChangeovers = (events: ChangeoverEvent[]): ChangeoverPairSummary[] => {
+  const pairs = new Map<string, { fromProduct: string; toProduct: string; minutes: number[]; lastAt: Date }>();
+
+  events.forEach(event => {
+    const minutes = getChangeoverMinutes(event);
+    if (minutes === null) return;
+    const fromProduct = event.from?.product || 'Unknown';
+    const toProduct = event.to?.product || 'Unknown';
+    const key = `${fromProduct}→${toProduct}`;
+    const pair = pairs.get(key) || { fromProduct, toProduct, minutes: [], lastAt: event.startedAt };
+    pair.minutes.push(minutes);
+    if (event.startedAt > pair.lastAt) pair.lastAt = event.startedAt;
+    pairs.set(key, pair);
+  });
+
+  return Array.from(pairs.values())
+    .map(({ fromProduct, toProduct, minutes, lastAt }) => {
+      const totalMinutes = minutes.reduce((sum, m) => sum + m, 0);
+      return {
+        fromProduct,
+        toProduct,
+        count: minutes.length,
+        totalMinutes,
+        averageMinutes: totalMinutes / minutes.length,
+        medianMinutes: median(minutes),
+        minMinutes: Math.min(...minutes),
+        maxMinutes: Math.max(...minutes),
+        lastAt,
+      };
+    })
+    .sort((a, b) => b.totalMinutes - a.totalMinutes);
+};
+
+// ==========================================
+// RECORDS
+// ==========================================
+
+const toRecord = (event: ChangeoverEvent): ChangeoverEventRecord => ({
+  id: event.id,
+  machine_id: event.machineId || null,
+  machine_name: event.machineName,
+  from_order_id: event.from?.id ?? null,
+  from_order_number: event.from?.orderNumber || null,
+  from_product: event.from?.product || null,
+  to_order_id: event.to?.id ?? null,
+  to_order_number: event.to?.orderNumber || null,
+  to_product: event.to?.product || null,
+  started_at: event.startedAt.toISOString(),
+  ended_at: event.endedAt ? event.endedAt.toISOString() : null,
+  operator_name: event.operatorName || null,
+});
+
+export const toChangeoverEvent = (record: ChangeoverEventRecord): ChangeoverEvent => ({
+  id: record.id,
+  machineId: record.machine_id || undefined,
+  machineName: record.machine_name,
+  from: record.from_order_number || record.from_product
+    ? { id: record.from_order_id ?? undefined, orderNumber: record.from_order_number || '', product: record.from_product || '' }
+    : undefined,
+  to: record.to_order_number || record.to_product
+    ? { id: record.to_order_id ?? undefined, orderNumber: record.to_order_number || '', product: record.to_product || '' }
+    : undefined,
+  startedAt: new Date(record.started_at),
+  endedAt: record.ended_at ? new Date(record.ended_at) : undefined,
+  operatorName: record.operator_name || undefined,
+});
+
+// Stored events have ISO strings for dates
+const reviveEvent = (event: ChangeoverEvent): ChangeoverEvent => ({
+  ...event,
+  startedAt: new Date(event.startedAt),
+  endedAt: event.endedAt ? new Date(event.endedAt) : undefined,
+});
+
+const readEvents = (key: string): ChangeoverEvent[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as ChangeoverEvent[]).map(reviveEvent) : [];
+  } catch {
+    return [];
+  }
+};
+
+const persistChangeover = (event: ChangeoverEvent): void => {
+  if (!isSupabaseConfigured) return;
+  sendOrQueue({ kind: 'changeover_upsert', payload: toRecord(event) }, { dedupeKey: `changeover_${event.id}` })
+    .catch(e => logError('Failed to save changeover', { context: String(e), showToast: false }));
+};
+
+// ==========================================
+// OPEN CHANGEOVER PER MACHINE
+// ==========================================
+
+export const getActiveChangeover = (machineName: string): ChangeoverEvent | null =>
+  readEvents(ACTIVE_CHANGEOVER_KEY_PREFIX + machineName)[0] || null;
+
+/**
+ * Start a changeover on a machine (replaces one left open)
+ */
+export const startChangeover = (
+  details: Omit<ChangeoverEvent, 'id' | 'startedAt' | 'endedAt'>,
+  startedAt = new Date()
+): ChangeoverEvent => {
+  const event: ChangeoverEvent = { ...details, id: uuidv4(), startedAt };
+  localStorage.setItem(ACTIVE_CHANGEOVER_KEY_PREFIX + event.machineName, JSON.stringify([event]));
+  persistChangeover(event);
+  return event;
+};
+
+/**
+ * End a machine's changeover when production starts on the incoming order
+ */
+export const finishChangeover = (
+  event: ChangeoverEvent,
+  to: ChangeoverOrder | undefined,
+  endedAt = new Date()
+): ChangeoverEvent => {
+  const finished: ChangeoverEvent = { ...event, to: to || event.to, endedAt };
+  localStorage.removeItem(ACTIVE_CHANGEOVER_KEY_PREFIX + event.machineName);
+
+  const history = [finished, ...readEvents(CHANGEOVER_HISTORY_KEY).filter(e => e.id !== event.id)];
+  localStorage.setItem(CHANGEOVER_HISTORY_KEY, JSON.stringify(history.slice(0, MAX_LOCAL_HISTORY)));
+
+  persistChangeover(finished);
+  return finished;
+};
+
+/**
+ * Changeovers started since a date - from Supabase when configured,
+ * otherwise the ones recorded on this device
+ * @throws When the Supabase lookup fails
+ */
+export const loadChangeovers = async (since: Date, machineName?: string): Promise<ChangeoverEvent[]> => {
+  if (isSupabaseConfigured) {
+    return (await fetchChangeoverEvents(since, machineName)).map(toChangeoverEvent);
+  }
+  return readEvents(CHANGEOVER_HISTORY_KEY)
+    .filter(e => e.startedAt >= since && (!machineName || e.machineName === machineName));
+};
@@ -0,0 +1,54 @@
+/**
+ * Tests for the downtime reason tree helpers
+ */
+
+import {
+  DEFAULT_DOWNTIME_REASONS,
+  buildReasonTree,
+  findDowntimeReason,
+  isPlannedDowntime,
+  summarizeDowntimeByCategory,
+  UNCATEGORISED,
+} from './downtimeReasons';
+import { DowntimeReason } from '../types';
+
+const reasons: DowntimeReason[] = [
+  ...DEFAULT_DOWNTIME_REASONS,
+  { id: 'MECH-SEALER', parentId: 'MECH', code: 'MECH-SEALER', name: 'Sealer Jaw Fault', planned: false, machineIds: ['m2'], sortOrder: 3, active: true },
+  { id: 'ELEC-OLD', parentId: 'ELEC', code: 'ELEC-OLD', name: 'Old Fault', planned: false, machineIds: [], sortOrder: 2, active: false },
+];
+
+describe('downtime reasons', () => {
+  it('should limit the tree to active reasons for the machine', () => {
+    const mechFor = (machineIds: string[]) =>
+      buildReasonTree(reasons, machineIds).find(g => g.category.code === 'MECH')!.reasons.map(r => r.code);
+
+    expect(mechFor(['m1'])).not.toContain('MECH-SEALER');
+    expect(mechFor(['m1', 'm2'])).toContain('MECH-SEALER');
+    expect(buildReasonTree(reasons).map(g => g.category.code)).toEqual(['MECH', 'ELEC', 'MAT', 'PEOPLE']);
+    expect(buildReasonTree(reasons).flatMap(g => g.reasons).some(r => r.code === 'ELEC-OLD')).toBe(false);
+  });
+
+  it('should resolve entries by code and fall back to the name', () => {
+    expect(findDowntimeReason(reasons, { downtimeReason: 'Renamed', reasonCode: 'MECH-JAM' })?.name).toBe('Jam / Blockage');
+    expect(findDowntimeReason(reasons, { downtimeReason: 'changeover' })?.code).toBe('MAT-CHANGEOVER');
+    expect(isPlannedDowntime({ downtimeReason: 'Changeover' }, reasons)).toBe(true);
+    expect(isPlannedDowntime({ downtimeReason: 'Something else' }, reasons)).toBe(false);
+  });
+
+  it('should total downtime per category', () => {
+    const summary = summarizeDowntimeByCategory([
+      { id: 'd1', downtime: 10, downtimeReason: 'Jam / Blockage', reasonCode: 'MECH-JAM', timestamp: new Date() },
+      { id: 'd2', downtime: 15, downtimeReason: 'Machine Breakdown', reasonCode: 'MECH-BREAKDOWN', timestamp: new Date() },
+      { id: 'd3', downtime: 20, downtimeReason: 'Changeover', reasonCode: 'MAT-CHANGEOVER', timestamp: new Date() },
+      { id: 'd4', downtime: 5, downtimeReason: 'Power Cut', timestamp: new Date() },
+    ], reasons);
+
+    expect(summary.map(s => [s.category, s.minutes, s.planned])).toEqual([
+      ['Mechanical', 25, false],
+      ['Material', 20, true],
+      [UNCATEGORISED, 5, false],
+    ]);
+    expect(summary[0].reasons).toHaveLength(2);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Downtime Reason Taxonomy
+ *
+ * Admin-managed reason tree: categories (mechanical, electrical, material,
+ * people, ...) with sub-reasons beneath them. Each node is planned or
+ * unplanned (planned stops are excluded from OEE availability) and can be
+ * limited to specific machines. The tree lives in the Supabase
+ * downtime_reasons table and is cached on the device; without Supabase it
+ * is kept locally, starting from DEFAULT_DOWNTIME_REASONS.
+ *
+ * Entries keep the reason name for display and history, plus the reason
+ * code so reports can resolve its category.
+ */
+
+import { useEffect, useState } from 'react';
+import { DowntimeEntry, DowntimeReason } from '../types';
+import {
+  isSupabaseConfigured,
+  fetchDowntimeReasonRecords,
+  saveDowntimeReasonRecord,
+  DowntimeReasonRecord,
+} from './supabase';
+import { logError } from './errorMonitoring';
+
+const REASONS_CACHE_KEY = 'downtime_reason_tree';
+const RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+
+export const UNCATEGORISED = 'Uncategorised';
+
+export interface DowntimeReasonGroup {
+  category: DowntimeReason;
+  reasons: DowntimeReason[];
+}
+
+export interface DowntimeCategorySummary {
+  category: string;
+  planned: boolean;
+  minutes: number;
+  reasons: { name: string; minutes: number }[];
+}
+
+const node = (
+  code: string,
+  name: string,
+  parentId: string | null,
+  planned: boolean,
+  sortOrder: number
+): DowntimeReason => ({ id: code, parentId, code, name, planned, machineIds: [], sortOrder, active: true });
+
+// Seeded into Supabase by the schema with the same codes. The original four
+// reasons keep their names so existing entries still resolve.
+export const DEFAULT_DOWNTIME_REASONS: DowntimeReason[] = [
+  node('MECH', 'Mechanical', null, false, 0),
+  node('MECH-BREAKDOWN', 'Machine Breakdown', 'MECH', false, 0),
+  node('MECH-JAM', 'Jam / Blockage', 'MECH', false, 1),
+  node('MECH-PM', 'Scheduled Maintenance', 'MECH', true, 2),
+  node('ELEC', 'Electrical', null, false, 1),
+  node('ELEC-FAULT', 'Electrical Fault', 'ELEC', false, 0),
+  node('ELEC-SENSOR', 'Sensor / Controls Fault', 'ELEC', false, 1),
+  node('MAT', 'Material', null, false, 2),
+  node('MAT-SHORTAGE', 'Material Shortage', 'MAT', false, 0),
+  node('MAT-QUALITY', 'Material Quality', 'MAT', false, 1),
+  node('MAT-CHANGEOVER', 'Changeover', 'MAT', true, 2),
+  node('PEOPLE', 'People', null, false, 3),
+  node('PEOPLE-NO-OPERATOR', 'No Operator Available', 'PEOPLE', false, 0),
+  node('PEOPLE-TRAINING', 'Training', 'PEOPLE', true, 1),
+];
+
+let reasonListeners: ((reasons: DowntimeReason[]) => void)[] = [];
+let loadPromise: Promise<DowntimeReason[]> | null = null;
+let lastLoadedAt = 0;
+
+const toDowntimeReason = (record: DowntimeReasonRecord): DowntimeReason => ({
+  id: record.id,
+  parentId: record.parent_id,
+  code: record.code,
+  name: record.name,
+  planned: record.is_planned,
+  machineIds: record.machine_ids || [],
+  sortOrder: record.sort_order,
+  active: record.is_active,
+});
+
+const cacheReasons = (reasons: DowntimeReason[]): void => {
+  localStorage.setItem(REASONS_CACHE_KEY, JSON.stringify(reasons));
+  reasonListeners.forEach(listener => listener(reasons));
+};
+
+// ==========================================
+// TREE HELPERS
+// ==========================================
+
+const bySortOrder = (a: DowntimeReason, b: DowntimeReason): number =>
+  a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+
+const appliesTo = (reason: DowntimeReason, machineIds: string[]): boolean =>
+  reason.machineIds.length === 0 || machineIds.length === 0 || reason.machineIds.some(id => machineIds.includes(id));
+
+/**
+ * Categories with their sub-reasons, limited to active reasons that apply
+ * to any of the given machines (every machine when none are given).
+ * Categories without a selectable reason are left out.
+ */
+export const buildReasonTree = (
+  reasons: DowntimeReason[],
+  machineIds: (string | undefined)[] = [],
+  includeInactive = false
+): DowntimeReasonGroup[] => {
+  const machines = machineIds.filter((id): id is string => Boolean(id));
+  const selectable = (r: DowntimeReason) => (includeInactive || r.active) && appliesTo(r, machines);
+
+  return reasons
+    .filter(r => r.parentId === null && selectable(r))
+    .sort(bySortOrder)
+    .map(category => ({
+      category,
+      reasons: reasons.filter(r => r.parentId === category.id && selectable(r)).sort(bySortOrder),
+    }))
+    .filter(group => includeInactive || group.reasons.length > 0);
+};
+
+/**
+ * Resolve an entry's reason by code, falling back to the name for entries
+ * recorded before the taxonomy
+ */
+export const findDowntimeReason = (
+  reasons: DowntimeReason[],
+  entry: Pick<DowntimeEntry, 'downtimeReason' | 'reasonCode'>
+): DowntimeReason | undefined => {
+  const leaves = reasons.filter(r => r.parentId !== null);
+  return (entry.reasonCode ? leaves.find(r => r.code === entry.reasonCode) : undefined) ||
+    leaves.find(r => r.name.toLowerCase() === entry.downtimeReason.toLowerCase());
+};
+
+export const getReasonCategory = (
+  reasons: DowntimeReason[],
+  reason: DowntimeReason | undefined
+): DowntimeReason | undefined =>
+  reason ? reasons.find(r => r.id === reason.parentId) : undefined;
+
+/**
+ * Whether a downtime entry is a planned stop (unknown reasons are unplanned)
+ */
+export const isPlannedDowntime = (
+  entry: Pick<DowntimeEntry, 'downtimeReason' | 'reasonCode'>,
+  reasons: DowntimeReason[] = getDowntimeReasons()
+): boolean => findDowntimeReason(reasons, entry)?.planned ?? false;
+
+/**
+ * "Category › Reason" label for exports and reports
+ */
+export const formatDowntimeReason = (
+  entry: Pick<DowntimeEntry, 'downtimeReason' | 'reasonCode'>,
+  reasons: DowntimeReason[] = getDowntimeReasons()
+): string => {
+  const category = getReasonCategory(reasons, findDowntimeReason(reasons, entry));
+  return category ? `${category.name} › ${entry.downtimeReason}` : entry.downtimeReason;
+};
+
+/**
+ * Downtime minutes per category (largest first), with the reasons beneath
+ */
+export const summarizeDowntimeByCategory = (
+  entries: DowntimeEntry[],
+  reasons: DowntimeReason[] = getDowntimeReasons()
+): DowntimeCategorySummary[] => {
+  const summaries = new Map<string, DowntimeCategorySummary>();
+
+  entries.forEach(entry => {
+    const reason = findDowntimeReason(reasons, entry);
+    const categoryName = getReasonCategory(reasons, reason)?.name || UNCATEGORISED;
+    const summary = summaries.get(categoryName) ||
+      { category: categoryName, planned: true, minutes: 0, reasons: [] };
+
+    summary.minutes += entry.downtime;
+    // A category is only planned when every stop in it was planned
+    summary.planned = summary.planned && (reason?.planned ?? false);
+    const reasonSummary = summary.reasons.find(r => r.name === entry.downtimeReason);
+    if (reasonSummary) {
+      reasonSummary.minutes += entry.downtime;
+    } else {
+      summary.reasons.push({ name: entry.downtimeReason, minutes: entry.downtime });
+    }
+    summaries.set(categoryName, summary);
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => b.minutes - a.minutes);
+};
+
+// ==========================================
+// REGISTRY
+// ==========================================
+
+/**
+ * The cached reason tree (defaults until one has been loaded or saved)
+ */
+export const getDowntimeReasons = (): DowntimeReason[] => {
+  try {
+    const stored = localStorage.getItem(REASONS_CACHE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_DOWNTIME_REASONS;
+  } catch {
+    return DEFAULT_DOWNTIME_REASONS;
+  }
+};
+
+/**
+ * Load the reason tree from Supabase (falls back to the cached tree offline).
+ * A tree loaded in the last few minutes is reused unless forced.
+ */
+export const loadDowntimeReasons = (force = false): Promise<DowntimeReason[]> => {
+  const isFresh = Date.now() - lastLoadedAt < RELOAD_INTERVAL_MS;
+  if (!isSupabaseConfigured || (isFresh && !force)) return Promise.resolve(getDowntimeReasons());
+
+  if (!loadPromise) {
+    loadPromise = fetchDowntimeReasonRecords()
+      .then(records => {
+        const reasons = records.map(toDowntimeReason);
+        lastLoadedAt = Date.now();
+        cacheReasons(reasons);
+        return reasons;
+      })
+      .catch(e => {
+        logError('Failed to fetch downtime reasons, using cached tree', { context: String(e), showToast: false });
+        return getDowntimeReasons();
+      })
+      .finally(() => {
+        loadPromise = null;
+      });
+  }
+  return loadPromise;
+};
+
+/**
+ * Create or update a category or sub-reason
+ * @throws When the code is already used by another reason
+ */
+export const saveDowntimeReason = async (
+  reason: Omit<DowntimeReason, 'id'> & { id?: string }
+): Promise<DowntimeReason> => {
+  const code = reason.code.trim().toUpperCase();
+  const existing = getDowntimeReasons();
+  if (existing.some(r => r.code === code && r.id !== reason.id)) {
+    throw new Error(`Reason code ${code} is already in use`);
+  }
+
+  let saved: DowntimeReason;
+  if (isSupabaseConfigured) {
+    saved = toDowntimeReason(await saveDowntimeReasonRecord({
+      id: reason.id,
+      parent_id: reason.parentId,
+      code,
+      name: reason.name.trim(),
+      is_planned: reason.planned,
+      machine_ids: reason.machineIds,
+      sort_order: reason.sortOrder,
+      is_active: reason.active,
+    }));
+  } else {
+    saved = { ...reason, id: reason.id || code, code, name: reason.name.trim() };
+  }
+
+  cacheReasons([...existing.filter(r => r.id !== saved.id), saved]);
+  return saved;
+};
+
+export const subscribeToDowntimeReasons = (
+  listener: (reasons: DowntimeReason[]) => void
+): (() => void) => {
+  reasonListeners.push(listener);
+  return () => {
+    reasonListeners = reasonListeners.filter(l => l !== listener);
+  };
+};
+
+/**
+ * React hook for the reason tree - starts from the cache and refreshes
+ * from Supabase on mount
+ */
+export const useDowntimeReasons = (): DowntimeReason[] => {
+  const [reasons, setReasons] = useState<DowntimeReason[]>(getDowntimeReasons);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToDowntimeReasons(setReasons);
+    loadDowntimeReasons();
+    return unsubscribe;
+  }, []);
+
+  return reasons;
+};
@@ -0,0 +1,70 @@
+/**
+ * Tests for the facility clock
+ */
+
+import {
+  getZonedTime,
+  getTimeZoneOffsetMinutes,
+  zonedTimeToDate,
+  isValidTimeZone,
+  timeZoneFromOffset,
+} from './facilityClock';
+
+describe('getZonedTime', () => {
+  it('should convert to the facility date and time', () => {
+    const zoned = getZonedTime(new Date('2026-05-10T23:30:00Z'), 'Africa/Johannesburg');
+    expect(zoned.dateString).toBe('2026-05-11');
+    expect(zoned.minutes).toBe(90);
+  });
+
+  it('should follow daylight saving', () => {
+    expect(getZonedTime(new Date('2026-01-15T12:00:00Z'), 'Europe/London').minutes).toBe(12 * 60);
+    expect(getZonedTime(new Date('2026-07-15T12:00:00Z'), 'Europe/London').minutes).toBe(13 * 60);
+  });
+});
+
+describe('getTimeZoneOffsetMinutes', () => {
+  it('should return the offset in effect at an instant', () => {
+    expect(getTimeZoneOffsetMinutes(new Date('2026-01-15T12:00:00Z'), 'America/New_York')).toBe(-300);
+    expect(getTimeZoneOffsetMinutes(new Date('2026-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+  });
+});
+
+describe('zonedTimeToDate', () => {
+  it('should find the instant for a wall-clock time', () => {
+    expect(zonedTimeToDate('2026-05-10', 6 * 60, 'Africa/Johannesburg').toISOString())
+      .toBe('2026-05-10T04:00:00.000Z');
+  });
+
+  it('should roll minutes past midnight into the next day', () => {
+    expect(zonedTimeToDate('2026-05-10', 30 * 60, 'Africa/Johannesburg').toISOString())
+      .toBe('2026-05-11T04:00:00.000Z');
+  });
+
+  it('should make a night shift across the spring-forward change an hour shorter', () => {
+    // Europe/Berlin skips 02:00-03:00 on 2026-03-29
+    const start = zonedTimeToDate('2026-03-28', 22 * 60, 'Europe/Berlin');
+    const end = zonedTimeToDate('2026-03-28', 30 * 60, 'Europe/Berlin');
+    expect((end.getTime() - start.getTime()) / 60000).toBe(7 * 60);
+  });
+
+  it('should resolve a skipped wall time to after the jump', () => {
+    expect(zonedTimeToDate('2026-03-29', 2 * 60 + 30, 'Europe/Berlin').toISOString())
+      .toBe('2026-03-29T01:30:00.000Z');
+  });
+});
+
+describe('time zone names', () => {
+  it('should validate IANA names', () => {
+    expect(isValidTimeZone('Africa/Johannesburg')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+
+  it('should map legacy offsets to fixed zones', () => {
+    expect(timeZoneFromOffset(0)).toBe('UTC');
+    expect(timeZoneFromOffset(3)).toBe('Etc/GMT-3');
+    expect(timeZoneFromOffset(-5)).toBe('Etc/GMT+5');
+    expect(getZonedTime(new Date('2026-05-10T00:00:00Z'), timeZoneFromOffset(3)).minutes).toBe(180);
+  });
+});
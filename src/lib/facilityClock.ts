@@ -0,0 +1,152 @@
+/**
+ * Facility Clock
+ * Wall-clock date and time in an IANA time zone (e.g. 'Africa/Johannesburg').
+ *
+ * Uses Intl.DateTimeFormat rather than a fixed UTC offset, so daylight saving
+ * transitions are handled by the zone database. Settings-aware wrappers live
+ * in facilitySettings.ts (getFacilityLocalTime etc.) - everything that needs
+ * the facility's date, shift or session key should go through those.
+ */
+
+export const DEFAULT_TIME_ZONE = 'Africa/Johannesburg';
+
+export interface ZonedTime {
+  dateString: string;   // YYYY-MM-DD in the zone
+  minutes: number;      // Minutes since local midnight
+  seconds: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Fallback suggestions for runtimes without Intl.supportedValuesOf
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'Africa/Johannesburg',
+  'Africa/Lagos',
+  'Africa/Nairobi',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Shanghai',
+  'Australia/Sydney',
+  'Europe/Berlin',
+  'Europe/London',
+];
+
+// Creating formatters is expensive - keep one per zone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Check that a time zone name is known to the runtime
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Time zone names to offer in settings
+ */
+export const getTimeZoneOptions = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  try {
+    const zones = intl.supportedValuesOf?.('timeZone');
+    if (zones && zones.length > 0) return zones;
+  } catch {
+    // Fall through to the common list
+  }
+  return COMMON_TIME_ZONES;
+};
+
+/**
+ * Map a legacy whole-hour UTC offset to an IANA zone (note Etc/GMT signs are inverted)
+ */
+export const timeZoneFromOffset = (offsetHours: number): string => {
+  if (offsetHours === 0) return 'UTC';
+  return `Etc/GMT${offsetHours > 0 ? '-' : '+'}${Math.abs(offsetHours)}`;
+};
+
+/**
+ * Wall-clock date and time of an instant in a zone
+ */
+export const getZonedTime = (date: Date, timeZone: string): ZonedTime => {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  // Some engines still report midnight as 24 with hourCycle h23
+  const hour = parseInt(parts.hour, 10) % 24;
+  return {
+    dateString: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: hour * 60 + parseInt(parts.minute, 10),
+    seconds: parseInt(parts.second, 10),
+  };
+};
+
+/**
+ * Offset of a zone from UTC at an instant, in minutes (e.g. 120 for GMT+2)
+ */
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string): number => {
+  const zoned = getZonedTime(date, timeZone);
+  const [y, m, d] = zoned.dateString.split('-').map(Number);
+  const asUtc = Date.UTC(y, m - 1, d, 0, zoned.minutes, zoned.seconds);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+};
+
+/**
+ * Instant at which a zone's wall clock shows the given date and minutes.
+ * Minutes may exceed a day (e.g. a night shift ending at 06:00 next day).
+ * Wall times skipped by a DST jump resolve to the instant after the jump.
+ */
+export const zonedTimeToDate = (dateString: string, minutes: number, timeZone: string): Date => {
+  const [y, m, d] = dateString.split('-').map(Number);
+  const dayOffset = Math.floor(minutes / MINUTES_PER_DAY);
+  const wallMinutes = minutes - dayOffset * MINUTES_PER_DAY;
+  const asUtc = Date.UTC(y, m - 1, d + dayOffset, 0, wallMinutes);
+
+  // Guess with the offset at the naive instant, then correct once for a DST change
+  const firstOffset = getTimeZoneOffsetMinutes(new Date(asUtc), timeZone);
+  const guess = asUtc - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffsetMinutes(new Date(guess), timeZone);
+  if (secondOffset === firstOffset) return new Date(guess);
+  return new Date(asUtc - Math.min(firstOffset, secondOffset) * 60000);
+};
+
+/**
+ * Format an instant as facility wall-clock text, e.g. '14:05:09' or '18 Oct 2026'
+ */
+export const formatZonedTime = (
+  date: Date,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions
+): string => {
+  return new Intl.DateTimeFormat('en-GB', { timeZone, ...options }).format(date);
+};
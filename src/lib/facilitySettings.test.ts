@@ -0,0 +1,56 @@
+/**
+ * Tests for facility settings row mapping and the submission window
+ */
+
+import { DEFAULT_SETTINGS, settingsToRecords, recordsToSettings, checkSubmissionWindow } from './facilitySettings';
+
+describe('facility settings rows', () => {
+  it('should round-trip settings through facility_settings rows', () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      timeZone: 'Europe/London',
+      facilityName: 'Plant 2',
+      lineShiftPatterns: { 'Line 1': 'three-shift' },
+      historyRetentionDays: 30,
+    };
+    expect(recordsToSettings(settingsToRecords(settings))).toEqual(settings);
+  });
+
+  it('should take updatedAt and updatedBy from the newest row', () => {
+    const settings = recordsToSettings([
+      { setting_key: 'shift_config', setting_value: { dayShiftStart: 7 }, updated_at: '2026-10-01T08:00:00Z', updated_by: 'Thandi' },
+      { setting_key: 'facility_info', setting_value: { name: 'Plant 3' }, updated_at: '2026-10-02T08:00:00Z', updated_by: 'Pieter' },
+    ]);
+    expect(settings.dayShiftStart).toBe(7);
+    expect(settings.facilityName).toBe('Plant 3');
+    expect(settings.updatedBy).toBe('Pieter');
+  });
+
+  it('should upgrade a legacy UTC offset to a time zone', () => {
+    const settings = recordsToSettings([
+      { setting_key: 'shift_config', setting_value: { timezoneOffset: 3 } },
+    ]);
+    expect(settings.timeZone).toBe('Etc/GMT-3');
+    expect(settings).not.toHaveProperty('timezoneOffset');
+  });
+});
+
+describe('submission window', () => {
+  // Default settings: Day 06:00-18:00 and Night in Johannesburg (UTC+2), 15 minute window
+  const at = (time: string) => new Date(`2026-10-18T${time}:00+02:00`);
+
+  it('should open the window in the last minutes of a shift', () => {
+    expect(checkSubmissionWindow(at('17:40')).isInWindow).toBe(false);
+    expect(checkSubmissionWindow(at('17:40')).timeToWindow).toBe('5m until window');
+    expect(checkSubmissionWindow(at('17:50')).isInWindow).toBe(true);
+  });
+
+  it('should keep the window open just after the shift ended', () => {
+    expect(checkSubmissionWindow(at('18:05'))).toEqual({
+      isInWindow: true,
+      timeToWindow: 'In submission window',
+      minutesToShiftEnd: 715,
+    });
+    expect(checkSubmissionWindow(at('18:20')).isInWindow).toBe(false);
+  });
+});
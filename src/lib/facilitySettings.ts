@@ -1,22 +1,54 @@
 /**
  * Facility Settings Management
  * Configurable settings for shift times, timezone, and other facility-specific options
- * Settings are stored in localStorage and can be managed via Admin Console
+ * Settings are stored in the Supabase facility_settings table, cached in
+ * localStorage for offline use, and managed via Admin Console
  */
 
+import {
+  ShiftPattern,
+  ShiftContext,
+  BUILT_IN_PATTERNS,
+  DAY_NIGHT_PATTERN_ID,
+  buildDayNightPattern,
+  describeShiftPattern,
+  resolveShift,
+} from './shiftPatterns';
+import {
+  DEFAULT_TIME_ZONE,
+  getZonedTime,
+  isValidTimeZone,
+  timeZoneFromOffset,
+  zonedTimeToDate,
+  formatZonedTime,
+} from './facilityClock';
+import {
+  isSupabaseConfigured,
+  fetchFacilitySettingRecords,
+  upsertFacilitySettingRecords,
+  subscribeFacilitySettingChanges,
+  FacilitySettingRecord,
+} from './supabase';
+import { logError } from './errorMonitoring';
+
 const FACILITY_SETTINGS_KEY = 'facility_settings';
 
 // Default facility settings
 export interface FacilitySettings {
-  // Timezone offset from UTC (e.g., 2 for GMT+2)
-  timezoneOffset: number;
+  // IANA time zone of the facility (e.g., 'Africa/Johannesburg')
+  timeZone: string;
 
   // Shift configuration (24-hour format)
   dayShiftStart: number;  // Hour when day shift starts (e.g., 6 for 06:00)
   dayShiftEnd: number;    // Hour when day shift ends (e.g., 18 for 18:00)
 
+  // Shift patterns
+  shiftPatternId: string;                       // Facility default pattern
+  customShiftPatterns: ShiftPattern[];          // Patterns defined by admins
+  lineShiftPatterns: Record<string, string>;    // Parent machine name -> pattern ID
+
   // Submission window configuration
-  submissionWindowMinutes: number;  // Minutes before/after shift end to allow submission
+  submissionWindowMinutes: number;  // Minutes before and after each shift end that submission is allowed
 
   // Facility info
   facilityName: string;
@@ -31,14 +63,18 @@ export interface FacilitySettings {
 
   // Last updated
   updatedAt?: string;
+  updatedBy?: string;
 }
 
 // Default values (South Africa facility)
 export const DEFAULT_SETTINGS: FacilitySettings = {
-  timezoneOffset: 2,           // GMT+2 (South Africa)
+  timeZone: DEFAULT_TIME_ZONE,  // SAST (South Africa)
   dayShiftStart: 6,            // 06:00
   dayShiftEnd: 18,             // 18:00
-  submissionWindowMinutes: 15,  // 15 min before/after shift end
+  shiftPatternId: DAY_NIGHT_PATTERN_ID,
+  customShiftPatterns: [],
+  lineShiftPatterns: {},
+  submissionWindowMinutes: 15,  // From 15 min before to 15 min after each shift end
   facilityName: 'Production Facility',
   facilityLocation: 'South Africa',
   sessionLockingEnabled: true,
@@ -46,17 +82,168 @@ export const DEFAULT_SETTINGS: FacilitySettings = {
   historyRetentionDays: 90,
 };
 
+// In-memory copy of the settings; localStorage holds the offline cache
+let settingsCache: FacilitySettings | null = null;
+let settingsListeners: ((settings: FacilitySettings) => void)[] = [];
+let unsubscribeRealtime: (() => void) | null = null;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isStringMap = (value: unknown): value is Record<string, string> =>
+  isObject(value) && Object.values(value).every(isString);
+const isShiftPatternList = (value: unknown): value is ShiftPattern[] =>
+  Array.isArray(value) &&
+  value.every(p => isObject(p) && isString(p.id) && isString(p.name) && Array.isArray(p.shifts));
+
+// Stored value when it has the right type, otherwise the default
+const pick = <T>(value: unknown, isValid: (v: unknown) => v is T, fallback: T): T =>
+  isValid(value) ? value : fallback;
+
+/**
+ * Merge raw stored settings with defaults, upgrading legacy fields
+ */
+const normalizeSettings = (raw: Record<string, unknown>): FacilitySettings => {
+  let timeZone = raw.timeZone;
+  // Settings saved before time zones were supported only had a UTC offset
+  if (!timeZone && isNumber(raw.timezoneOffset) && raw.timezoneOffset !== 2) {
+    timeZone = timeZoneFromOffset(raw.timezoneOffset);
+  }
+  if (timeZone && !(isString(timeZone) && isValidTimeZone(timeZone))) {
+    logError(`Unknown facility time zone "${String(timeZone)}", using ${DEFAULT_TIME_ZONE}`, { showToast: false });
+    timeZone = undefined;
+  }
+
+  const defaults = DEFAULT_SETTINGS;
+  return {
+    timeZone: pick(timeZone, isString, defaults.timeZone),
+    dayShiftStart: pick(raw.dayShiftStart, isNumber, defaults.dayShiftStart),
+    dayShiftEnd: pick(raw.dayShiftEnd, isNumber, defaults.dayShiftEnd),
+    shiftPatternId: pick(raw.shiftPatternId, isString, defaults.shiftPatternId),
+    customShiftPatterns: pick(raw.customShiftPatterns, isShiftPatternList, defaults.customShiftPatterns),
+    lineShiftPatterns: pick(raw.lineShiftPatterns, isStringMap, defaults.lineShiftPatterns),
+    submissionWindowMinutes: pick(raw.submissionWindowMinutes, isNumber, defaults.submissionWindowMinutes),
+    facilityName: pick(raw.facilityName, isString, defaults.facilityName),
+    facilityLocation: pick(raw.facilityLocation, isString, defaults.facilityLocation),
+    sessionLockingEnabled: pick(raw.sessionLockingEnabled, isBoolean, defaults.sessionLockingEnabled),
+    maxConcurrentSessions: pick(raw.maxConcurrentSessions, isNumber, defaults.maxConcurrentSessions),
+    historyRetentionDays: pick(raw.historyRetentionDays, isNumber, defaults.historyRetentionDays),
+    updatedAt: isString(raw.updatedAt) ? raw.updatedAt : undefined,
+    updatedBy: isString(raw.updatedBy) ? raw.updatedBy : undefined,
+  };
+};
+
+/**
+ * Replace the cached settings and notify listeners
+ */
+const applySettings = (settings: FacilitySettings): void => {
+  settingsCache = settings;
+  try {
+    localStorage.setItem(FACILITY_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to cache facility settings:', e);
+  }
+  settingsListeners.forEach(listener => listener(settings));
+};
+
+// ==========================================
+// SUPABASE ROW MAPPING
+// ==========================================
+
+/**
+ * Split settings into facility_settings rows (one JSON value per setting_key)
+ */
+export const settingsToRecords = (settings: FacilitySettings): FacilitySettingRecord[] => [
+  {
+    setting_key: 'shift_config',
+    setting_value: {
+      dayShiftStart: settings.dayShiftStart,
+      dayShiftEnd: settings.dayShiftEnd,
+      timeZone: settings.timeZone,
+      submissionWindowMinutes: settings.submissionWindowMinutes,
+    },
+    description: 'Shift timing configuration',
+  },
+  {
+    setting_key: 'shift_patterns',
+    setting_value: {
+      shiftPatternId: settings.shiftPatternId,
+      customShiftPatterns: settings.customShiftPatterns,
+      lineShiftPatterns: settings.lineShiftPatterns,
+    },
+    description: 'Shift patterns and per-line assignments',
+  },
+  {
+    setting_key: 'facility_info',
+    setting_value: {
+      name: settings.facilityName,
+      location: settings.facilityLocation,
+    },
+    description: 'Facility information',
+  },
+  {
+    setting_key: 'session_config',
+    setting_value: {
+      sessionLockingEnabled: settings.sessionLockingEnabled,
+      maxConcurrentSessions: settings.maxConcurrentSessions,
+    },
+    description: 'Machine session locking',
+  },
+  {
+    setting_key: 'data_retention',
+    setting_value: {
+      historyRetentionDays: settings.historyRetentionDays,
+    },
+    description: 'Local history retention',
+  },
+];
+
+/**
+ * Combine facility_settings rows into settings. Missing rows keep defaults.
+ */
+export const recordsToSettings = (records: FacilitySettingRecord[]): FacilitySettings => {
+  const raw: Record<string, unknown> = {};
+  let latest: FacilitySettingRecord | undefined;
+
+  records.forEach(record => {
+    const value = record.setting_value || {};
+    if (record.setting_key === 'facility_info') {
+      if (value.name !== undefined) raw.facilityName = value.name;
+      if (value.location !== undefined) raw.facilityLocation = value.location;
+    } else {
+      Object.assign(raw, value);
+    }
+    if (record.updated_at && (!latest?.updated_at || record.updated_at > latest.updated_at)) {
+      latest = record;
+    }
+  });
+
+  if (latest) {
+    raw.updatedAt = latest.updated_at;
+    raw.updatedBy = latest.updated_by || undefined;
+  }
+  return normalizeSettings(raw);
+};
+
+// ==========================================
+// LOAD / SAVE
+// ==========================================
+
 /**
  * Get current facility settings
- * Returns stored settings merged with defaults
+ * Returns the last loaded settings, falling back to the localStorage cache
  */
 export const getFacilitySettings = (): FacilitySettings => {
+  if (settingsCache) return settingsCache;
+
   try {
     const stored = localStorage.getItem(FACILITY_SETTINGS_KEY);
     if (stored) {
-      const parsed = JSON.parse(stored);
-      // Merge with defaults to ensure all fields exist
-      return { ...DEFAULT_SETTINGS, ...parsed };
+      const parsed: unknown = JSON.parse(stored);
+      settingsCache = normalizeSettings(isObject(parsed) ? parsed : {});
+      return settingsCache;
     }
   } catch (e) {
     console.error('Failed to load facility settings:', e);
@@ -65,21 +252,47 @@ export const getFacilitySettings = (): FacilitySettings => {
 };
 
 /**
- * Save facility settings
+ * Load facility settings from Supabase into the cache
+ * Keeps the cached copy when offline or not configured
+ */
+export const loadFacilitySettings = async (): Promise<FacilitySettings> => {
+  if (!isSupabaseConfigured) return getFacilitySettings();
+
+  try {
+    const records = await fetchFacilitySettingRecords();
+    if (records.length === 0) return getFacilitySettings();
+
+    const settings = recordsToSettings(records);
+    applySettings(settings);
+    return settings;
+  } catch (e) {
+    logError('Failed to load facility settings from Supabase, using cached copy', { context: String(e), showToast: false });
+    return getFacilitySettings();
+  }
+};
+
+/**
+ * Save facility settings to Supabase and the local cache
  * @param settings - Partial settings to update
+ * @param updatedBy - Name recorded against the change
+ * @throws When Supabase rejects the change (the local cache is still updated)
  */
-export const saveFacilitySettings = (settings: Partial<FacilitySettings>): FacilitySettings => {
+export const saveFacilitySettings = async (
+  settings: Partial<FacilitySettings>,
+  updatedBy: string
+): Promise<FacilitySettings> => {
   const current = getFacilitySettings();
   const updated: FacilitySettings = {
     ...current,
     ...settings,
     updatedAt: new Date().toISOString(),
+    updatedBy,
   };
 
-  try {
-    localStorage.setItem(FACILITY_SETTINGS_KEY, JSON.stringify(updated));
-  } catch (e) {
-    console.error('Failed to save facility settings:', e);
+  applySettings(updated);
+
+  if (isSupabaseConfigured) {
+    await upsertFacilitySettingRecords(settingsToRecords(updated), updatedBy);
   }
 
   return updated;
@@ -88,74 +301,159 @@ export const saveFacilitySettings = (settings: Partial<FacilitySettings>): Facil
 /**
  * Reset facility settings to defaults
  */
-export const resetFacilitySettings = (): FacilitySettings => {
-  const defaults = { ...DEFAULT_SETTINGS, updatedAt: new Date().toISOString() };
-  try {
-    localStorage.setItem(FACILITY_SETTINGS_KEY, JSON.stringify(defaults));
-  } catch (e) {
-    console.error('Failed to reset facility settings:', e);
+export const resetFacilitySettings = async (updatedBy: string): Promise<FacilitySettings> => {
+  return saveFacilitySettings(DEFAULT_SETTINGS, updatedBy);
+};
+
+/**
+ * Load settings and keep them in sync with other devices via realtime.
+ * Call once at app start; returns a cleanup function.
+ */
+export const initializeFacilitySettingsSync = (): (() => void) => {
+  loadFacilitySettings();
+
+  if (!isSupabaseConfigured || unsubscribeRealtime) {
+    return () => { };
   }
-  return defaults;
+
+  unsubscribeRealtime = subscribeFacilitySettingChanges(() => {
+    loadFacilitySettings();
+  });
+
+  return () => {
+    unsubscribeRealtime?.();
+    unsubscribeRealtime = null;
+  };
+};
+
+/**
+ * Listen for settings changes (loaded from Supabase, realtime or saved locally)
+ */
+export const subscribeToFacilitySettings = (
+  listener: (settings: FacilitySettings) => void
+): (() => void) => {
+  settingsListeners.push(listener);
+  return () => {
+    settingsListeners = settingsListeners.filter(l => l !== listener);
+  };
 };
 
 // ==========================================
 // SHIFT CALCULATION UTILITIES
 // ==========================================
 
+/**
+ * Facility-local calendar date and minutes since midnight, in the facility time zone
+ */
+export const getFacilityLocalTime = (date: Date = new Date()): { dateString: string; minutes: number } => {
+  const { dateString, minutes } = getZonedTime(date, getFacilitySettings().timeZone);
+  return { dateString, minutes };
+};
+
+/**
+ * Facility-local date string (YYYY-MM-DD)
+ */
+export const getFacilityDateString = (date: Date = new Date()): string => {
+  return getFacilityLocalTime(date).dateString;
+};
+
 /**
  * Get local hours adjusted for facility timezone
  */
 export const getLocalHours = (date: Date = new Date()): number => {
-  const settings = getFacilitySettings();
-  return date.getUTCHours() + settings.timezoneOffset;
+  return Math.floor(getFacilityLocalTime(date).minutes / 60);
+};
+
+/**
+ * Format an instant in the facility time zone, e.g. for the dashboard clock
+ */
+export const formatFacilityTime = (date: Date, options: Intl.DateTimeFormatOptions): string => {
+  return formatZonedTime(date, getFacilitySettings().timeZone, options);
 };
 
 /**
- * Get current shift based on facility settings
+ * All shift patterns available to the facility (Day/Night, built-ins and custom)
+ */
+export const getShiftPatterns = (settings: FacilitySettings = getFacilitySettings()): ShiftPattern[] => [
+  buildDayNightPattern(settings.dayShiftStart, settings.dayShiftEnd),
+  ...BUILT_IN_PATTERNS,
+  ...settings.customShiftPatterns,
+];
+
+/**
+ * Get the shift pattern for a machine. Sub-machines use their line's pattern,
+ * machines without an assignment use the facility default.
  */
-export const getCurrentShift = (date: Date = new Date()): 'Day' | 'Night' => {
+export const getShiftPattern = (machineName?: string): ShiftPattern => {
   const settings = getFacilitySettings();
-  const hours = getLocalHours(date);
-  return hours >= settings.dayShiftStart && hours < settings.dayShiftEnd ? 'Day' : 'Night';
+  const patterns = getShiftPatterns(settings);
+  const lineName = machineName?.replace(/\s*-\s*Machine\s*\d+$/i, '');
+  const patternId = (lineName && settings.lineShiftPatterns[lineName]) || settings.shiftPatternId;
+
+  return patterns.find(p => p.id === patternId) || patterns[0];
+};
+
+/**
+ * Active shift for a machine with the real instants it starts and ends at
+ */
+const resolveShiftAt = (date: Date, machineName?: string): { context: ShiftContext; start: Date; end: Date } => {
+  const { timeZone } = getFacilitySettings();
+  const local = getZonedTime(date, timeZone);
+  const context = resolveShift(getShiftPattern(machineName), local.dateString, local.minutes);
+
+  return {
+    context,
+    start: zonedTimeToDate(context.shiftDate, context.startMinutes, timeZone),
+    end: zonedTimeToDate(context.shiftDate, context.startMinutes + context.durationMinutes, timeZone),
+  };
 };
 
 /**
- * Check if within submission window
+ * Resolve the active shift, its production date and crew for a machine.
+ * Durations are measured between the real start and end instants, so a
+ * shift spanning a DST change is an hour shorter or longer.
  */
-export const checkSubmissionWindow = (date: Date = new Date()): {
+export const getShiftContext = (date: Date = new Date(), machineName?: string): ShiftContext => {
+  const { context, start, end } = resolveShiftAt(date, machineName);
+  const durationMinutes = Math.round((end.getTime() - start.getTime()) / 60000);
+  const minutesIntoShift = Math.max(0, Math.floor((date.getTime() - start.getTime()) / 60000));
+
+  return {
+    ...context,
+    durationMinutes,
+    minutesIntoShift,
+    minutesToEnd: Math.max(0, durationMinutes - minutesIntoShift),
+  };
+};
+
+/**
+ * Get current shift name based on facility settings
+ */
+export const getCurrentShift = (date: Date = new Date(), machineName?: string): string => {
+  return getShiftContext(date, machineName).shift;
+};
+
+/**
+ * Check if within submission window - the last minutes of a shift, or the
+ * first minutes after it ended (shifts follow on from each other, so that is
+ * the start of the next shift)
+ */
+export const checkSubmissionWindow = (date: Date = new Date(), machineName?: string): {
   isInWindow: boolean;
   timeToWindow: string;
   minutesToShiftEnd: number;
 } => {
   const settings = getFacilitySettings();
-  const hours = getLocalHours(date);
-  const minutes = date.getMinutes();
-  const totalMinutes = hours * 60 + minutes;
-
-  const dayShiftEndMinutes = settings.dayShiftEnd * 60;
-  const nightShiftEndMinutes = settings.dayShiftStart * 60;
   const windowSize = settings.submissionWindowMinutes;
+  const { minutesToEnd, minutesIntoShift } = getShiftContext(date, machineName);
 
-  const currentShift = getCurrentShift(date);
-
-  // Calculate minutes to shift end
-  let minutesToEnd: number;
-  if (currentShift === 'Day') {
-    minutesToEnd = dayShiftEndMinutes - totalMinutes;
-  } else {
-    // Night shift - handle midnight crossing
-    if (totalMinutes >= settings.dayShiftEnd * 60) {
-      minutesToEnd = (24 * 60 - totalMinutes) + nightShiftEndMinutes;
-    } else {
-      minutesToEnd = nightShiftEndMinutes - totalMinutes;
-    }
-  }
-
-  const isInWindow = minutesToEnd <= windowSize && minutesToEnd >= -windowSize;
+  const isInWindow = minutesToEnd <= windowSize || minutesIntoShift <= windowSize;
 
   // Format time to window
   let timeToWindow = '';
-  if (minutesToEnd > windowSize) {
+  if (isInWindow) {
+    timeToWindow = 'In submission window';
+  } else {
     const hoursToWindow = Math.floor((minutesToEnd - windowSize) / 60);
     const minsToWindow = (minutesToEnd - windowSize) % 60;
     if (hoursToWindow > 0) {
@@ -163,44 +461,29 @@ export const checkSubmissionWindow = (date: Date = new Date()): {
     } else {
       timeToWindow = `${minsToWindow}m until window`;
     }
-  } else if (minutesToEnd < -windowSize) {
-    timeToWindow = 'Window closed';
-  } else {
-    timeToWindow = 'In submission window';
   }
 
   return { isInWindow, timeToWindow, minutesToShiftEnd: minutesToEnd };
 };
 
 /**
- * Get shift end time as a Date object
+ * Get the end of the shift active at `date` as a Date object
  */
-export const getShiftEndTime = (shift: 'Day' | 'Night', date: Date = new Date()): Date => {
-  const settings = getFacilitySettings();
-  const result = new Date(date);
-
-  if (shift === 'Day') {
-    result.setUTCHours(settings.dayShiftEnd - settings.timezoneOffset, 0, 0, 0);
-  } else {
-    // Night shift ends next day at dayShiftStart
-    result.setUTCHours(settings.dayShiftStart - settings.timezoneOffset, 0, 0, 0);
-    if (date.getUTCHours() + settings.timezoneOffset >= settings.dayShiftEnd) {
-      result.setDate(result.getDate() + 1);
-    }
-  }
-
-  return result;
+export const getShiftEndTime = (date: Date = new Date(), machineName?: string): Date => {
+  return resolveShiftAt(date, machineName).end;
 };
 
 /**
- * Format shift times for display
+ * Start and end of the shift active at `date`
  */
-export const formatShiftTimes = (): { day: string; night: string } => {
-  const settings = getFacilitySettings();
-  const formatHour = (h: number) => h.toString().padStart(2, '0') + ':00';
+export const getShiftWindow = (date: Date = new Date(), machineName?: string): { start: Date; end: Date } => {
+  const { start, end } = resolveShiftAt(date, machineName);
+  return { start, end };
+};
 
-  return {
-    day: `${formatHour(settings.dayShiftStart)} - ${formatHour(settings.dayShiftEnd)}`,
-    night: `${formatHour(settings.dayShiftEnd)} - ${formatHour(settings.dayShiftStart)}`,
-  };
+/**
+ * Format shift times for display, e.g. ['Day 06:00 - 18:00', 'Night 18:00 - 06:00']
+ */
+export const formatShiftTimes = (machineName?: string): string[] => {
+  return describeShiftPattern(getShiftPattern(machineName));
 };
@@ -0,0 +1,93 @@
+/**
+ * Tests for history query helpers
+ */
+
+import { ShiftData } from '../types';
+import { buildKeysetFilter, containsPattern, decodeCursor, encodeCursor, queryLocalHistory, SubmissionQuery } from './historyQuery';
+
+const submission = (id: string, date: string, machine: string, totalWaste: number): ShiftData => ({
+  id,
+  operatorName: 'Thandi',
+  machine,
+  orderNumber: `ORD-${id}`,
+  product: 'Rooibos 100g',
+  batchNumber: 'B1',
+  shift: 'Day',
+  date,
+  wasteEntries: [],
+  downtimeEntries: [],
+  totalWaste,
+  totalDowntime: 0,
+  submittedAt: new Date(`${date}T12:00:00Z`),
+});
+
+const history = [
+  submission('1', '2026-09-01', 'Canline', 5),
+  submission('2', '2026-09-15', 'Universal 2', 12),
+  submission('3', '2026-10-01', 'Canline', 3),
+  submission('4', '2026-10-10', 'Canline', 8),
+];
+
+const baseQuery: SubmissionQuery = { sortBy: 'created_at', ascending: false, limit: 2 };
+
+describe('queryLocalHistory', () => {
+  it('should filter by shift date range and text filters', () => {
+    const page = queryLocalHistory(history, {
+      ...baseQuery,
+      fromDate: '2026-09-10',
+      toDate: '2026-10-05',
+      machine: 'canline',
+    });
+    expect(page.rows.map(r => r.id)).toEqual(['3']);
+    expect(page.totalCount).toBe(1);
+  });
+
+  it('should sort and page with a cursor', () => {
+    const query = { ...baseQuery, sortBy: 'total_waste' as const, ascending: true };
+    const first = queryLocalHistory(history, query);
+    expect(first.rows.map(r => r.id)).toEqual(['3', '1']);
+    expect(first.totalCount).toBe(4);
+
+    const second = queryLocalHistory(history, { ...query, cursor: first.nextCursor });
+    expect(second.rows.map(r => r.id)).toEqual(['4', '2']);
+    expect(second.nextCursor).toBeNull();
+  });
+});
+
+describe('buildKeysetFilter', () => {
+  it('should continue after the cursor row in the sort direction', () => {
+    const cursor = encodeCursor({ value: '2026-10-01', id: 42 });
+    expect(buildKeysetFilter('submission_date', false, cursor)).toBe(
+      'submission_date.lt."2026-10-01",and(submission_date.eq."2026-10-01",id.lt.42)'
+    );
+  });
+
+  it('should quote values containing commas and quotes', () => {
+    const cursor = encodeCursor({ value: 'Smith, "JJ"', id: 7 });
+    expect(buildKeysetFilter('operator_name', true, cursor)).toBe(
+      'operator_name.gt."Smith, \\"JJ\\"",and(operator_name.eq."Smith, \\"JJ\\"",id.gt.7)'
+    );
+  });
+
+  it('should continue into the nulls, which sort last', () => {
+    const cursor = encodeCursor({ value: 3.5, id: 9 });
+    expect(buildKeysetFilter('total_waste', false, cursor)).toBe(
+      'total_waste.lt."3.5",and(total_waste.eq."3.5",id.lt.9),total_waste.is.null'
+    );
+    expect(buildKeysetFilter('total_waste', true, encodeCursor({ value: null, id: 9 }))).toBe(
+      'and(total_waste.is.null,id.gt.9)'
+    );
+  });
+});
+
+describe('cursors and patterns', () => {
+  it('should round-trip sort values outside Latin-1', () => {
+    const cursor = { value: 'Nguyễn 王 🚚', id: 3 };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it('should match %, _ and backslash literally in contains patterns', () => {
+    expect(containsPattern('50%')).toBe('%50\\%%');
+    expect(containsPattern('A_1\\B')).toBe('%A\\_1\\\\B%');
+  });
+});
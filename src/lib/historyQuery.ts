@@ -0,0 +1,150 @@
+/**
+ * Submission History Queries
+ *
+ * Shared query shape for the history view: a date range on the shift date,
+ * text filters, a single sort column and cursor pagination. Supabase runs it
+ * server-side (keyset pagination on the sort column + id); the local history
+ * is queried in memory with the same shape.
+ */
+
+import { ShiftData } from '../types';
+
+export type SubmissionSortField =
+  | 'submission_date'
+  | 'shift'
+  | 'operator_name'
+  | 'machine'
+  | 'product'
+  | 'order_number'
+  | 'total_waste'
+  | 'total_downtime'
+  | 'created_at';
+
+export interface SubmissionFilters {
+  fromDate?: string;     // Shift date (YYYY-MM-DD), inclusive
+  toDate?: string;       // Shift date (YYYY-MM-DD), inclusive
+  machine?: string;      // Case-insensitive "contains" matches
+  operator?: string;
+  product?: string;
+  orderNumber?: string;
+}
+
+export interface SubmissionQuery extends SubmissionFilters {
+  sortBy: SubmissionSortField;
+  ascending: boolean;
+  limit: number;
+  cursor?: string | null;  // From the previous page's nextCursor
+}
+
+export interface SubmissionPage<T> {
+  rows: T[];
+  nextCursor: string | null;
+  totalCount: number | null;  // Only counted for the first page
+}
+
+// Position after the last row of a page
+interface KeysetCursor {
+  value: string | number | null;
+  id: number;
+}
+
+// ==========================================
+// CURSORS
+// ==========================================
+
+// Base64 of the UTF-8 JSON - btoa alone only takes Latin-1, and sort values
+// can be any name
+export const encodeCursor = (cursor: object): string =>
+  btoa(String.fromCharCode(...Array.from(new TextEncoder().encode(JSON.stringify(cursor)))));
+
+/**
+ * @throws When the cursor was not produced by encodeCursor
+ */
+export const decodeCursor = <T extends object>(cursor: string): T => {
+  try {
+    return JSON.parse(new TextDecoder().decode(Uint8Array.from(atob(cursor), c => c.charCodeAt(0))));
+  } catch {
+    throw new Error('Invalid page cursor');
+  }
+};
+
+// "Contains" pattern for ilike - %, _ and \ in the text match themselves
+export const containsPattern = (value: string): string =>
+  `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+
+// PostgREST filter values are double-quoted so commas and dots survive
+export const quoteFilterValue = (value: string | number | null): string =>
+  `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Sort columns without a NOT NULL constraint
+const NULLABLE_SORT_FIELDS: SubmissionSortField[] = ['total_waste', 'total_downtime', 'created_at'];
+
+/**
+ * PostgREST "or" filter selecting rows after a keyset cursor, ordered by the
+ * sort field then id (both in the same direction). Nulls sort last in both
+ * directions, so after a value come the nulls, and after a null only the
+ * nulls with a later id.
+ */
+export const buildKeysetFilter = (field: SubmissionSortField, ascending: boolean, cursor: string): string => {
+  const { value, id } = decodeCursor<KeysetCursor>(cursor);
+  const op = ascending ? 'gt' : 'lt';
+  if (value === null) {
+    return `and(${field}.is.null,id.${op}.${id})`;
+  }
+  const quoted = quoteFilterValue(value);
+  const filter = `${field}.${op}.${quoted},and(${field}.eq.${quoted},id.${op}.${id})`;
+  return NULLABLE_SORT_FIELDS.includes(field) ? `${filter},${field}.is.null` : filter;
+};
+
+export const nextKeysetCursor = <T extends { id: number }>(row: T, field: SubmissionSortField & keyof T): string =>
+  encodeCursor({ value: (row[field] as unknown as string | number | null) ?? null, id: row.id });
+
+// ==========================================
+// LOCAL HISTORY
+// ==========================================
+
+const LOCAL_SORT_VALUES: Record<SubmissionSortField, (item: ShiftData) => string | number> = {
+  submission_date: item => item.date,
+  shift: item => item.shift,
+  operator_name: item => item.operatorName,
+  machine: item => item.machine,
+  product: item => item.product,
+  order_number: item => item.orderNumber,
+  total_waste: item => item.totalWaste,
+  total_downtime: item => item.totalDowntime,
+  created_at: item => new Date(item.submittedAt).getTime(),
+};
+
+const contains = (value: string | undefined, search?: string): boolean =>
+  !search || (value || '').toLowerCase().includes(search.toLowerCase());
+
+/**
+ * Run a history query against submissions kept on this device
+ */
+export const queryLocalHistory = (history: ShiftData[], query: SubmissionQuery): SubmissionPage<ShiftData> => {
+  const getValue = LOCAL_SORT_VALUES[query.sortBy];
+  const matches = history
+    .filter(item =>
+      (!query.fromDate || item.date >= query.fromDate) &&
+      (!query.toDate || item.date <= query.toDate) &&
+      contains(item.machine, query.machine) &&
+      contains(item.operatorName, query.operator) &&
+      contains(item.product, query.product) &&
+      contains(item.orderNumber, query.orderNumber)
+    )
+    .sort((a, b) => {
+      const va = getValue(a);
+      const vb = getValue(b);
+      const order = va < vb ? -1 : va > vb ? 1 : 0;
+      return query.ascending ? order : -order;
+    });
+
+  const offset = query.cursor ? decodeCursor<{ offset: number }>(query.cursor).offset : 0;
+  const end = offset + query.limit;
+
+  return {
+    rows: matches.slice(offset, end),
+    nextCursor: end < matches.length ? encodeCursor({ offset: end }) : null,
+    totalCount: query.cursor ? null : matches.length,
+  };
+};
@@ -0,0 +1,41 @@
+/**
+ * Tests for pallet label formats
+ */
+
+import { parseLabel, parseAnyLabel, resolveLabelFormat, hasValidGs1CheckDigit } from './labelFormats';
+import { getLooseCasesSchema, validateForm } from './validation';
+
+const SSCC = '106141411234567897';
+const GTIN = '09506000134352';
+
+describe('label formats', () => {
+  it('should parse the legacy 13-digit format', () => {
+    expect(parseLabel('1234500070050', 'legacy13').data).toEqual({
+      batchNumber: '12345',
+      palletNumber: '0007',
+      casesCount: 50,
+    });
+    expect(parseLabel('(00)' + SSCC, 'legacy13').valid).toBe(false);
+  });
+
+  it('should parse GS1 element strings with and without brackets', () => {
+    const expected = { batchNumber: 'AB-12', palletNumber: SSCC, casesCount: 60, gtin: GTIN, sscc: SSCC };
+    expect(parseLabel(`(00)${SSCC}(01)${GTIN}(10)AB-12(37)60`, 'gs1').data).toEqual(expected);
+    expect(parseLabel(`]C100${SSCC}01${GTIN}10AB-12\u001d3760`, 'gs1').data).toEqual(expected);
+
+    expect(hasValidGs1CheckDigit(GTIN)).toBe(true);
+    expect(parseLabel(`(00)106141411234567890(10)AB-12(37)60`, 'gs1').error).toMatch(/check digit/);
+    expect(parseLabel(`(00)${SSCC}(37)60`, 'gs1').error).toMatch(/batch/);
+    expect(parseAnyLabel(`(00)${SSCC}(10)B1(37)5`)?.format).toBe('gs1');
+  });
+
+  it('should pick the product format before the machine format', () => {
+    expect(resolveLabelFormat({ labelFormat: 'gs1' }, { labelFormat: 'legacy13' }).id).toBe('gs1');
+    expect(resolveLabelFormat({}, { labelFormat: 'gs1' }).id).toBe('gs1');
+    expect(resolveLabelFormat(undefined, undefined).id).toBe('legacy13');
+    expect(resolveLabelFormat({ labelFormat: 'unknown' }).id).toBe('legacy13');
+
+    expect(validateForm({ batchNumber: 'LOT-7A', cases: 3 }, getLooseCasesSchema('gs1')).isValid).toBe(true);
+    expect(validateForm({ batchNumber: 'LOT-7A', cases: 3 }, getLooseCasesSchema('legacy13')).isValid).toBe(false);
+  });
+});
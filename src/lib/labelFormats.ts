@@ -0,0 +1,244 @@
+/**
+ * Pallet Label Formats
+ *
+ * Registry of the label payloads pallet QR codes and barcodes can carry.
+ * Each format decodes a scanned payload into batch, pallet number and case
+ * count, and knows what a batch number looks like for loose cases.
+ * - legacy13: 13 digits BBBBBPPPPCCCC (batch, pallet, cases)
+ * - gs1: GS1-128 / GS1 DataMatrix / GS1 QR element strings with AIs
+ *   00 (SSCC), 01 (GTIN), 10 (batch) and 37 (count)
+ *
+ * The format is chosen per product, then per machine, then the default.
+ * Further formats can be added with registerLabelFormat().
+ */
+
+import { Machine, Product } from '../types';
+
+export type LabelFormatId = 'legacy13' | 'gs1' | (string & {});
+
+export interface ParsedLabel {
+  batchNumber: string;
+  palletNumber: string;  // Pallet sequence number, or the SSCC / serial for GS1 labels
+  casesCount: number;
+  gtin?: string;
+  sscc?: string;
+}
+
+export interface LabelParseResult {
+  valid: boolean;
+  data?: ParsedLabel;
+  error?: string;
+}
+
+export interface LabelFormat {
+  id: LabelFormatId;
+  name: string;
+  example: string;       // Shown to operators when a scan does not match
+  batchPattern: RegExp;  // Batch numbers as typed for loose cases
+  batchHint: string;
+  parse: (payload: string) => LabelParseResult;
+}
+
+export const DEFAULT_LABEL_FORMAT: LabelFormatId = 'legacy13';
+
+// Group separator (FNC1) ending variable-length GS1 fields
+const GS = '\u001d';
+
+// ==========================================
+// LEGACY 13-DIGIT
+// ==========================================
+
+const parseLegacy13 = (payload: string): LabelParseResult => {
+  const cleaned = payload.trim();
+
+  if (!/^\d{13}$/.test(cleaned)) {
+    return {
+      valid: false,
+      error: 'QR code must be exactly 13 digits',
+    };
+  }
+
+  const casesCount = parseInt(cleaned.substring(9, 13), 10);
+
+  if (isNaN(casesCount) || casesCount < 1) {
+    return {
+      valid: false,
+      error: 'Invalid cases count in QR code',
+    };
+  }
+
+  return {
+    valid: true,
+    data: {
+      batchNumber: cleaned.substring(0, 5),
+      palletNumber: cleaned.substring(5, 9),
+      casesCount,
+    },
+  };
+};
+
+// ==========================================
+// GS1 APPLICATION IDENTIFIERS
+// ==========================================
+
+// Fixed-length AIs (data length without the AI)
+const GS1_FIXED_LENGTHS: Record<string, number> = {
+  '00': 18, '01': 14, '02': 14, '11': 6, '12': 6, '13': 6, '15': 6, '16': 6, '17': 6, '20': 2,
+};
+
+// Variable-length AIs (maximum data length), ended by FNC1 or the end of the payload
+const GS1_VARIABLE_LENGTHS: Record<string, number> = {
+  '10': 20, '21': 20, '22': 20, '30': 8, '37': 8, '240': 30, '241': 30, '400': 30, '401': 30,
+};
+
+/**
+ * Valid GS1 mod-10 check digit (GTIN, SSCC)
+ */
+export const hasValidGs1CheckDigit = (digits: string): boolean => {
+  if (!/^\d{2,}$/.test(digits)) return false;
+  const body = digits.slice(0, -1);
+  const sum = body
+    .split('')
+    .reverse()
+    .reduce((total, d, i) => total + Number(d) * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/**
+ * Split a GS1 element string into AI values. Accepts the bracketed human
+ * readable form "(01)…(10)…", FNC1-separated scanner output and a leading
+ * symbology identifier (]C1, ]d2, ]Q3).
+ * @throws When the payload contains an unknown AI or runs short
+ */
+export const parseGs1ElementString = (payload: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+  const data = payload.trim().replace(/^\][A-Za-z]\d/, '');
+
+  if (data.startsWith('(')) {
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(data)) !== null) {
+      values[match[1]] = match[2].trim();
+    }
+    if (Object.keys(values).length === 0) throw new Error('No GS1 application identifiers found');
+    return values;
+  }
+
+  let position = 0;
+  while (position < data.length) {
+    if (data[position] === GS) {
+      position++;
+      continue;
+    }
+
+    const start = position;
+    const ai = [2, 3, 4]
+      .map(length => data.slice(start, start + length))
+      .find(candidate =>
+        candidate in GS1_FIXED_LENGTHS ||
+        candidate in GS1_VARIABLE_LENGTHS ||
+        /^3[1-6]\d\d$/.test(candidate) // Measures (310n-369n), 6 digits
+      );
+    if (!ai) throw new Error(`Unknown GS1 application identifier at "${data.slice(position, position + 4)}"`);
+    position += ai.length;
+
+    const fixedLength = GS1_FIXED_LENGTHS[ai] ?? (/^3[1-6]\d\d$/.test(ai) ? 6 : undefined);
+    if (fixedLength !== undefined) {
+      const value = data.slice(position, position + fixedLength);
+      if (value.length < fixedLength) throw new Error(`GS1 AI ${ai} is too short`);
+      values[ai] = value;
+      position += fixedLength;
+    } else {
+      const end = data.indexOf(GS, position);
+      const value = data.slice(position, end === -1 ? undefined : end);
+      if (value.length > GS1_VARIABLE_LENGTHS[ai]) throw new Error(`GS1 AI ${ai} is too long`);
+      values[ai] = value;
+      position += value.length;
+    }
+  }
+  return values;
+};
+
+const parseGs1 = (payload: string): LabelParseResult => {
+  let values: Record<string, string>;
+  try {
+    values = parseGs1ElementString(payload);
+  } catch (e) {
+    return { valid: false, error: e instanceof Error ? e.message : 'Invalid GS1 label' };
+  }
+
+  const sscc = values['00'];
+  const gtin = values['01'] || values['02'];
+  if (sscc && !hasValidGs1CheckDigit(sscc)) return { valid: false, error: 'SSCC (00) check digit is wrong' };
+  if (gtin && !hasValidGs1CheckDigit(gtin)) return { valid: false, error: 'GTIN (01) check digit is wrong' };
+
+  const batchNumber = values['10'];
+  if (!batchNumber) return { valid: false, error: 'Label has no batch number (AI 10)' };
+
+  const palletNumber = sscc || values['21'];
+  if (!palletNumber) return { valid: false, error: 'Label has no SSCC (AI 00) or serial number (AI 21)' };
+
+  const casesCount = parseInt(values['37'] || values['30'] || '', 10);
+  if (isNaN(casesCount) || casesCount < 1) return { valid: false, error: 'Label has no case count (AI 37)' };
+
+  return { valid: true, data: { batchNumber, palletNumber, casesCount, gtin, sscc } };
+};
+
+// ==========================================
+// REGISTRY
+// ==========================================
+
+const labelFormats = new Map<LabelFormatId, LabelFormat>();
+
+export const registerLabelFormat = (format: LabelFormat): void => {
+  labelFormats.set(format.id, format);
+};
+
+registerLabelFormat({
+  id: 'legacy13',
+  name: '13-digit QR (BBBBBPPPPCCCC)',
+  example: '13 digits: BBBBBPPPPCCCC',
+  batchPattern: /^\d{5}$/,
+  batchHint: 'Batch number must be exactly 5 digits',
+  parse: parseLegacy13,
+});
+
+registerLabelFormat({
+  id: 'gs1',
+  name: 'GS1-128 / DataMatrix (AIs 00, 01, 10, 37)',
+  example: 'GS1 label with SSCC (00), batch (10) and count (37)',
+  batchPattern: /^[!-~]{1,20}$/,
+  batchHint: 'Batch number must be 1-20 characters without spaces',
+  parse: parseGs1,
+});
+
+export const listLabelFormats = (): LabelFormat[] => Array.from(labelFormats.values());
+
+/**
+ * A registered format (the default format for unknown IDs)
+ */
+export const getLabelFormat = (id?: LabelFormatId | null): LabelFormat =>
+  (id && labelFormats.get(id)) || labelFormats.get(DEFAULT_LABEL_FORMAT)!;
+
+/**
+ * The label format for a product on a machine: the product's, then the machine's
+ */
+export const resolveLabelFormat = (
+  product?: Pick<Product, 'labelFormat'> | null,
+  machine?: Pick<Machine, 'labelFormat'> | null
+): LabelFormat => getLabelFormat(product?.labelFormat || machine?.labelFormat);
+
+export const parseLabel = (payload: string, formatId?: LabelFormatId | null): LabelParseResult =>
+  getLabelFormat(formatId).parse(payload);
+
+/**
+ * Decode a payload with whichever registered format accepts it (lookups
+ * where the product is not known yet)
+ */
+export const parseAnyLabel = (payload: string): (ParsedLabel & { format: LabelFormatId }) | null => {
+  for (const format of listLabelFormats()) {
+    const result = format.parse(payload);
+    if (result.valid && result.data) return { ...result.data, format: format.id };
+  }
+  return null;
+};
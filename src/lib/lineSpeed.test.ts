@@ -0,0 +1,55 @@
+/**
+ * Tests for shared line speed
+ */
+
+import { mergeLineSpeedChanges, getCurrentLineSpeed, getLocalLineSpeedChanges, toLineSpeedChange } from './lineSpeed';
+
+const change = (id: string, speed: number, time: string, machineName = 'Universal 2 - Machine 1') => ({
+  id,
+  speed,
+  machineName,
+  changedAt: new Date(`2026-10-18T${time}:00`),
+});
+
+describe('line speed', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('should merge changes without duplicates and take the latest as current', () => {
+    const merged = mergeLineSpeedChanges(
+      [change('a', 100, '06:00'), change('c', 120, '09:00')],
+      [change('b', 110, '07:30', 'Universal 2 - Machine 3'), change('a', 100, '06:00')]
+    );
+    expect(merged.map(c => c.id)).toEqual(['a', 'b', 'c']);
+    expect(getCurrentLineSpeed(merged)?.speed).toBe(120);
+    expect(getCurrentLineSpeed([])).toBeNull();
+
+    expect(toLineSpeedChange({
+      id: 'd',
+      parent_machine: 'Universal 2',
+      shift: 'Day',
+      shift_date: '2026-10-18',
+      speed: 95,
+      machine_name: 'Universal 2 - Machine 2',
+      operator_name: null,
+      changed_at: '2026-10-18T10:00:00Z',
+    })).toEqual({ id: 'd', speed: 95, machineName: 'Universal 2 - Machine 2', operatorName: undefined, changedAt: new Date('2026-10-18T10:00:00Z') });
+  });
+
+  it('should read the changes of a sub-machine group from its parent machine', () => {
+    localStorage.setItem('line_speed_Universal 2_Day_2026-10-18', JSON.stringify([
+      change('a', 100, '06:00'),
+      { ...change('b', 115, '08:00', 'Universal 2 - Machine 4'), operatorName: 'Thandi' },
+    ]));
+    // Saved before changes were kept
+    localStorage.setItem('line_speed_Cubes_Day_2026-10-18', JSON.stringify({ speed: 90, updatedAt: '2026-10-18T06:00:00Z' }));
+
+    const changes = getLocalLineSpeedChanges('Universal 2 - Machine 2', 'Day', '2026-10-18');
+    expect(changes.map(c => [c.speed, c.machineName, c.operatorName])).toEqual([
+      [100, 'Universal 2 - Machine 1', undefined],
+      [115, 'Universal 2 - Machine 4', 'Thandi'],
+    ]);
+    expect(changes[1].changedAt).toEqual(new Date('2026-10-18T08:00:00'));
+    expect(getLocalLineSpeedChanges('Universal 2 - Machine 2', 'Night', '2026-10-18')).toEqual([]);
+    expect(getLocalLineSpeedChanges('Cubes - Machine 1', 'Day', '2026-10-18')).toEqual([]);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Shared Line Speed
+ *
+ * Sub-machines of a parent machine ("Universal 2 - Machine 1..4") run at one
+ * line speed. Every change is recorded against the parent machine and shift
+ * with the sub-machine and operator that made it, and the latest change is
+ * the current speed. Changes go to Supabase through the outbox and reach
+ * the other tablets over realtime.
+ *
+ * A copy of each shift's changes is kept on the device, so the speed is
+ * still shared between tabs without Supabase and changes made offline are
+ * shown until they sync.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  isSupabaseConfigured,
+  fetchLineSpeedChanges,
+  subscribeLineSpeedChanges,
+  LineSpeedChangeRecord,
+} from './supabase';
+import { getParentMachineName } from './storage';
+import { sendOrQueue } from './outbox';
+import { logError } from './errorMonitoring';
+
+const LINE_SPEED_KEY_PREFIX = 'line_speed_';
+
+// Screens on this device showing a line's speed, told about changes made here
+let changeListeners: ((key: string, change: LineSpeedChange) => void)[] = [];
+
+export interface LineSpeedChange {
+  id: string;
+  speed: number;
+  machineName: string;        // Sub-machine the change was made on
+  operatorName?: string;
+  changedAt: Date;
+}
+
+const getLineSpeedKey = (parentMachineName: string, shift: string, date: string): string =>
+  `${LINE_SPEED_KEY_PREFIX}${parentMachineName}_${shift}_${date}`;
+
+export const toLineSpeedChange = (record: LineSpeedChangeRecord): LineSpeedChange => ({
+  id: record.id,
+  speed: Number(record.speed),
+  machineName: record.machine_name,
+  operatorName: record.operator_name || undefined,
+  changedAt: new Date(record.changed_at),
+});
+
+/**
+ * Two lists of changes as one, without duplicates, oldest first
+ */
+export const mergeLineSpeedChanges = (a: LineSpeedChange[], b: LineSpeedChange[]): LineSpeedChange[] => {
+  const byId = new Map<string, LineSpeedChange>();
+  [...a, ...b].forEach(change => byId.set(change.id, change));
+  return Array.from(byId.values()).sort((x, y) => x.changedAt.getTime() - y.changedAt.getTime());
+};
+
+/**
+ * The speed the line runs at - the latest change
+ */
+export const getCurrentLineSpeed = (changes: LineSpeedChange[]): LineSpeedChange | null =>
+  changes.length > 0 ? changes[changes.length - 1] : null;
+
+// ==========================================
+// DEVICE COPY
+// ==========================================
+
+const readLocalChanges = (key: string): LineSpeedChange[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    const parsed = stored ? JSON.parse(stored) : [];
+    // Entries saved before changes were kept hold a single speed
+    return Array.isArray(parsed)
+      ? parsed.map((c: LineSpeedChange) => ({ ...c, changedAt: new Date(c.changedAt) }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocalChanges = (key: string, changes: LineSpeedChange[]): void => {
+  localStorage.setItem(key, JSON.stringify(changes));
+};
+
+/**
+ * Line speed changes for a machine's line this shift, as known on this device
+ */
+export const getLocalLineSpeedChanges = (machineName: string, shift: string, date: string): LineSpeedChange[] =>
+  readLocalChanges(getLineSpeedKey(getParentMachineName(machineName), shift, date));
+
+/**
+ * Clean up line speeds of shifts older than the retention period
+ */
+export const cleanupOldLineSpeeds = (retentionDays: number = 7): number => {
+  const cutoff = Date.now() - (retentionDays * 24 * 60 * 60 * 1000);
+  let removed = 0;
+
+  for (let i = localStorage.length - 1; i >= 0; i--) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(LINE_SPEED_KEY_PREFIX)) {
+      const latest = getCurrentLineSpeed(readLocalChanges(key));
+      if (!latest || latest.changedAt.getTime() < cutoff) {
+        localStorage.removeItem(key);
+        removed++;
+      }
+    }
+  }
+
+  return removed;
+};
+
+// ==========================================
+// SHARED CHANGES
+// ==========================================
+
+/**
+ * Record a line speed change made on a machine. Shared with the other
+ * sub-machines of its parent through Supabase, queued while offline.
+ */
+export const recordLineSpeedChange = (
+  machineName: string,
+  shift: string,
+  date: string,
+  speed: number,
+  operatorName?: string
+): LineSpeedChange => {
+  const parentName = getParentMachineName(machineName);
+  const key = getLineSpeedKey(parentName, shift, date);
+  const change: LineSpeedChange = { id: uuidv4(), speed, machineName, operatorName, changedAt: new Date() };
+  writeLocalChanges(key, mergeLineSpeedChanges(readLocalChanges(key), [change]));
+  changeListeners.forEach(listener => listener(key, change));
+
+  if (isSupabaseConfigured) {
+    sendOrQueue({
+      kind: 'line_speed_change',
+      payload: {
+        id: change.id,
+        parent_machine: parentName,
+        shift,
+        shift_date: date,
+        speed,
+        machine_name: machineName,
+        operator_name: operatorName || null,
+        changed_at: change.changedAt.toISOString(),
+      },
+    }).catch(e => logError('Failed to share line speed', { context: String(e), showToast: false }));
+  }
+  return change;
+};
+
+/**
+ * A machine's line speed changes this shift - from Supabase with the ones
+ * still waiting to sync on this device, or only this device's when Supabase
+ * is not configured or cannot be reached
+ */
+export const loadLineSpeedChanges = async (
+  machineName: string,
+  shift: string,
+  date: string
+): Promise<LineSpeedChange[]> => {
+  const parentName = getParentMachineName(machineName);
+  const key = getLineSpeedKey(parentName, shift, date);
+  const local = readLocalChanges(key);
+  if (!isSupabaseConfigured) return local;
+
+  try {
+    const remote = (await fetchLineSpeedChanges(parentName, shift, date)).map(toLineSpeedChange);
+    const merged = mergeLineSpeedChanges(remote, local);
+    writeLocalChanges(key, merged);
+    return merged;
+  } catch (e) {
+    logError('Failed to load line speed', { context: String(e), showToast: false });
+    return local;
+  }
+};
+
+/**
+ * Changes made on any sub-machine of a machine's parent, as they happen
+ */
+export const subscribeToLineSpeed = (
+  machineName: string,
+  shift: string,
+  date: string,
+  onChange: (change: LineSpeedChange) => void
+): (() => void) => {
+  if (!isSupabaseConfigured) return () => { };
+
+  const parentName = getParentMachineName(machineName);
+  const key = getLineSpeedKey(parentName, shift, date);
+  return subscribeLineSpeedChanges(parentName, record => {
+    if (record.shift !== shift || record.shift_date !== date) return;
+    const change = toLineSpeedChange(record);
+    writeLocalChanges(key, mergeLineSpeedChanges(readLocalChanges(key), [change]));
+    onChange(change);
+  });
+};
+
+/**
+ * React hook for a machine's line speed changes this shift, kept up to date
+ * with changes from the other sub-machines
+ */
+export const useLineSpeed = (
+  machineName: string,
+  shift: string,
+  date: string,
+  onRemoteChange?: (change: LineSpeedChange) => void
+): LineSpeedChange[] => {
+  const [changes, setChanges] = useState<LineSpeedChange[]>([]);
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  onRemoteChangeRef.current = onRemoteChange;
+
+  useEffect(() => {
+    if (!machineName || !shift || !date) return;
+    let cancelled = false;
+    const key = getLineSpeedKey(getParentMachineName(machineName), shift, date);
+    const addChange = (change: LineSpeedChange) =>
+      setChanges(prev => prev.some(c => c.id === change.id) ? prev : mergeLineSpeedChanges(prev, [change]));
+
+    setChanges(readLocalChanges(key));
+    loadLineSpeedChanges(machineName, shift, date).then(loaded => {
+      if (!cancelled) setChanges(prev => mergeLineSpeedChanges(loaded, prev));
+    });
+
+    const localListener = (changedKey: string, change: LineSpeedChange) => {
+      if (changedKey === key) addChange(change);
+    };
+    changeListeners.push(localListener);
+
+    const unsubscribe = subscribeToLineSpeed(machineName, shift, date, change => {
+      if (cancelled) return;
+      addChange(change);
+      if (change.machineName !== machineName) onRemoteChangeRef.current?.(change);
+    });
+
+    return () => {
+      cancelled = true;
+      changeListeners = changeListeners.filter(l => l !== localListener);
+      unsubscribe();
+    };
+  }, [machineName, shift, date]);
+
+  return changes;
+};
@@ -1,4 +1,11 @@
-import { supabase, isSupabaseConfigured } from './supabase';
+import { supabase, isSupabaseConfigured, queryActivityEvents } from './supabase';
+import { enqueueOutbox, discardOutboxByKey, isNetworkError, sendOrQueue } from './outbox';
+import { ActivityPage, ActivityQuery, queryLocalActivity, toActivityEventRecord, fromActivityEventRecord } from './activityQuery';
+import { logError } from './errorMonitoring';
+import { ProductionTimerState } from './sessionManager';
+import { getShiftContext, getFacilityDateString } from './facilitySettings';
+import { addDaysToDateString } from './shiftPatterns';
+import { WasteEntry, DowntimeEntry, SpeedEntry, SachetMassEntry, LooseCasesEntry, PalletScanEntry } from '../types';
 
 // ==========================================
 // LIVE SESSIONS - Cross-device sync with offline fallback
@@ -16,6 +23,14 @@ export interface LiveSession {
     is_locked: boolean;
     total_waste?: number;
     total_downtime?: number;
+    // Entry snapshots - used by the Dashboard for live OEE
+    waste_entries?: WasteEntry[];
+    downtime_entries?: DowntimeEntry[];
+    speed_entries?: SpeedEntry[];
+    sachet_mass_entries?: SachetMassEntry[];
+    loose_cases_entries?: LooseCasesEntry[];
+    pallet_scan_entries?: PalletScanEntry[];
+    production_timer?: ProductionTimerState | null;
     created_at?: string;
     updated_at?: string;
 }
@@ -25,6 +40,8 @@ export const getLiveSessionId = (machineName: string, shift: string, date: strin
     return `${machineName}_${shift}_${date}`;
 };
 
+const getLiveSessionOutboxKey = (sessionId: string): string => `live_session:${sessionId}`;
+
 // Cache for active sessions (used when offline or for quick lookups)
 let sessionsCache: Map<string, LiveSession> = new Map();
 let lastFetchTime: number = 0;
@@ -44,9 +61,27 @@ export const upsertLiveSession = async (session: {
     locked: boolean;
     totalWaste?: number;
     totalDowntime?: number;
+    entries?: {
+        wasteEntries: WasteEntry[];
+        downtimeEntries: DowntimeEntry[];
+        speedEntries: SpeedEntry[];
+        sachetMassEntries: SachetMassEntry[];
+        looseCasesEntries: LooseCasesEntry[];
+        palletScanEntries: PalletScanEntry[];
+    };
 }): Promise<boolean> => {
     const sessionId = getLiveSessionId(session.machineName, session.shift, session.date);
 
+    // Only send entry columns when provided so totals-only updates don't wipe them
+    const entryColumns = session.entries ? {
+        waste_entries: session.entries.wasteEntries,
+        downtime_entries: session.entries.downtimeEntries,
+        speed_entries: session.entries.speedEntries,
+        sachet_mass_entries: session.entries.sachetMassEntries,
+        loose_cases_entries: session.entries.looseCasesEntries,
+        pallet_scan_entries: session.entries.palletScanEntries,
+    } : {};
+
     const liveSession: LiveSession = {
         id: sessionId,
         machine_name: session.machineName,
@@ -59,39 +94,37 @@ export const upsertLiveSession = async (session: {
         is_locked: session.locked,
         total_waste: session.totalWaste || 0,
         total_downtime: session.totalDowntime || 0,
+        ...entryColumns,
         updated_at: new Date().toISOString(),
     };
 
     // Always update local cache first
-    sessionsCache.set(sessionId, liveSession);
+    sessionsCache.set(sessionId, { ...sessionsCache.get(sessionId), ...liveSession });
 
     // Try to sync to Supabase
     if (isSupabaseConfigured) {
+        const outboxKey = getLiveSessionOutboxKey(sessionId);
+        const row = { ...liveSession, updated_at: liveSession.updated_at! };
+
         try {
             const { error } = await supabase
                 .from('live_sessions')
-                .upsert({
-                    id: sessionId,
-                    machine_name: session.machineName,
-                    operator_name: session.operatorName,
-                    order_number: session.orderNumber,
-                    product: session.product,
-                    batch_number: session.batchNumber,
-                    shift: session.shift,
-                    session_date: session.date,
-                    is_locked: session.locked,
-                    total_waste: session.totalWaste || 0,
-                    total_downtime: session.totalDowntime || 0,
-                    updated_at: new Date().toISOString(),
-                }, { onConflict: 'id' });
+                .upsert(row, { onConflict: 'id' });
 
-            if (error) {
-                console.error('Failed to upsert live session:', error.message);
-                return false;
-            }
+            if (error) throw new Error(error.message);
+
+            // This snapshot supersedes any queued while offline
+            await discardOutboxByKey(outboxKey).catch(() => undefined);
             console.log('✅ Live session synced to Supabase:', sessionId);
             return true;
         } catch (e) {
+            if (isNetworkError(e)) {
+                // Replayed from the outbox when the device is back online
+                return enqueueOutbox(
+                    { kind: 'live_session_upsert', payload: row },
+                    { dedupeKey: outboxKey, error: e }
+                ).then(() => true, () => false);
+            }
             console.error('Failed to upsert live session:', e);
             return false;
         }
@@ -111,8 +144,10 @@ export const deleteLiveSession = async (
 ): Promise<boolean> => {
     const sessionId = getLiveSessionId(machineName, shift, date);
 
-    // Remove from local cache
+    // Remove from local cache, and drop snapshots still waiting to sync so
+    // they can't bring the session back
     sessionsCache.delete(sessionId);
+    await discardOutboxByKey(getLiveSessionOutboxKey(sessionId)).catch(() => undefined);
 
     // Try to delete from Supabase
     if (isSupabaseConfigured) {
@@ -139,9 +174,17 @@ export const deleteLiveSession = async (
 // ==========================================
 // FETCH ACTIVE SESSIONS (For Dashboard)
 // ==========================================
+// A session is active when it belongs to its machine's current shift. Shift
+// dates are the date a shift started, so a night shift can carry yesterday's date.
+const isCurrentShiftSession = (session: LiveSession): boolean => {
+    const context = getShiftContext(new Date(), session.machine_name);
+    return session.is_locked && session.shift === context.shift && session.session_date === context.shiftDate;
+};
+
 export const fetchActiveSessions = async (): Promise<LiveSession[]> => {
     const now = Date.now();
-    const today = new Date().toISOString().split('T')[0];
+    const today = getFacilityDateString();
+    const shiftDates = [addDaysToDateString(today, -1), today];
 
     // Return cache if fresh and online fetch fails
     const shouldUseCache = now - lastFetchTime < CACHE_TTL_MS;
@@ -151,15 +194,13 @@ export const fetchActiveSessions = async (): Promise<LiveSession[]> => {
             const { data, error } = await supabase
                 .from('live_sessions')
                 .select('*')
-                .eq('session_date', today)
+                .in('session_date', shiftDates)
                 .eq('is_locked', true);
 
             if (error) {
                 console.error('Failed to fetch live sessions:', error.message);
                 // Fall back to cache
-                return Array.from(sessionsCache.values()).filter(
-                    s => s.session_date === today && s.is_locked
-                );
+                return Array.from(sessionsCache.values()).filter(isCurrentShiftSession);
             }
 
             // Update cache with fetched data
@@ -169,22 +210,19 @@ export const fetchActiveSessions = async (): Promise<LiveSession[]> => {
             });
             lastFetchTime = now;
 
-            console.log('📋 Fetched active sessions from Supabase:', (data || []).length, data?.map(s => s.machine_name));
-            return data || [];
+            const active = (data || []).filter(isCurrentShiftSession);
+            console.log('📋 Fetched active sessions from Supabase:', active.length, active.map(s => s.machine_name));
+            return active;
         } catch (e) {
             console.error('Failed to fetch live sessions:', e);
             // Fall back to cache
-            return Array.from(sessionsCache.values()).filter(
-                s => s.session_date === today && s.is_locked
-            );
+            return Array.from(sessionsCache.values()).filter(isCurrentShiftSession);
         }
     }
 
     // Offline - return cached sessions
     if (shouldUseCache) {
-        return Array.from(sessionsCache.values()).filter(
-            s => s.session_date === today && s.is_locked
-        );
+        return Array.from(sessionsCache.values()).filter(isCurrentShiftSession);
     }
 
     return [];
@@ -266,8 +304,6 @@ export const subscribeToSessionChanges = (
         return () => { }; // No-op unsubscribe
     }
 
-    const today = new Date().toISOString().split('T')[0];
-
     const channel = supabase
         .channel('live-sessions-changes')
         .on(
@@ -332,7 +368,11 @@ export type ActivityEventType =
     | 'cases_added'
     | 'sachet_mass_added'
     | 'shift_submitted'
-    | 'speed_recorded';
+    | 'speed_recorded'
+    | 'spc_alert'
+    | 'order_completed'
+    | 'changeover_started'
+    | 'changeover_completed';
 
 export interface ActivityEvent {
     id: string;
@@ -344,7 +384,8 @@ export interface ActivityEvent {
     timestamp: Date;
 }
 
-// In-memory activity log (most recent first)
+// Recent events seen by this device (most recent first) - every event is
+// also persisted to activity_events for queryActivityLog
 let activityLog: ActivityEvent[] = [];
 const MAX_ACTIVITY_ITEMS = 50;
 let activityListeners: ((events: ActivityEvent[]) => void)[] = [];
@@ -362,12 +403,19 @@ export const addActivityEvent = (event: Omit<ActivityEvent, 'id' | 'timestamp'>)
     // Notify listeners
     activityListeners.forEach(listener => listener([...activityLog]));
 
-    // Also broadcast to Supabase for cross-device sync
+    // Also broadcast to Supabase for cross-device sync, and keep it in the log
     if (isSupabaseConfigured) {
         broadcastActivityEvent(newEvent);
+        persistActivityEvent(newEvent);
     }
 };
 
+// Write an event to the activity log - queued while the device is offline
+const persistActivityEvent = (event: ActivityEvent) => {
+    sendOrQueue({ kind: 'activity_event', payload: toActivityEventRecord(event) })
+        .catch(e => logError('Failed to save activity event', { context: String(e), showToast: false }));
+};
+
 // Broadcast activity to other clients via Supabase Realtime
 const broadcastActivityEvent = async (event: ActivityEvent) => {
     try {
@@ -429,6 +477,15 @@ export const subscribeToActivityFeed = (
 // Get current activity log
 export const getActivityLog = (): ActivityEvent[] => [...activityLog];
 
+// Query past activity - the persisted log, or this device's events without Supabase
+export const queryActivityLog = async (query: ActivityQuery): Promise<ActivityPage> => {
+    if (!isSupabaseConfigured) {
+        return queryLocalActivity(activityLog, query);
+    }
+    const { records, nextCursor } = await queryActivityEvents(query);
+    return { events: records.map(fromActivityEventRecord), nextCursor };
+};
+
 // Clear activity log
 export const clearActivityLog = () => {
     activityLog = [];
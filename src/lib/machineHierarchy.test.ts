@@ -0,0 +1,73 @@
+/**
+ * Tests for the machine hierarchy
+ */
+
+import { findMachineByName, getSubMachines, getUnitPath, groupByLevel, sortPlantUnits } from './machineHierarchy';
+import { Machine, PlantUnit } from '../types';
+
+const unit = (id: string, level: PlantUnit['level'], parentId?: string, sortOrder = 0): PlantUnit =>
+  ({ id, level, name: id, parentId, sortOrder });
+
+const units: PlantUnit[] = [
+  unit('line-tea-2', 'line', 'area-packing', 1),
+  unit('line-tea-1', 'line', 'area-packing', 0),
+  unit('area-packing', 'area', 'site-main'),
+  unit('site-main', 'site'),
+  unit('line-orphan', 'line', 'area-removed'),
+];
+
+const machines: Machine[] = [
+  { id: 'universal-2', name: 'Universal 2', status: 'idle', lineId: 'line-tea-2', subMachineCount: 2 },
+  { id: 'canline', name: 'Canline', status: 'idle', lineId: 'line-tea-1', sortOrder: 1, subMachineCount: 2,
+    subMachines: [
+      { id: 'canline-sub-1', name: 'Canline - Machine 1', number: 1, sortOrder: 2 },
+      { id: 'canline-sub-2', name: 'Canline - Machine 2', number: 2, displayName: 'Left Filler', sortOrder: 1 },
+    ] },
+  { id: 'cubes', name: 'Cubes', status: 'idle' },
+];
+
+describe('machine hierarchy', () => {
+  it('should list sub-machines from their rows or derive them from the count', () => {
+    expect(getSubMachines(machines[0]).map(s => [s.id, s.name])).toEqual([
+      ['universal-2-sub-1', 'Universal 2 - Machine 1'],
+      ['universal-2-sub-2', 'Universal 2 - Machine 2'],
+    ]);
+    expect(getSubMachines(machines[1]).map(s => s.number)).toEqual([2, 1]);
+    expect(getSubMachines(machines[2])).toEqual([]);
+
+    expect(findMachineByName(machines, 'Canline - Machine 2').subMachine?.displayName).toBe('Left Filler');
+    expect(findMachineByName(machines, 'Cubes').machine?.id).toBe('cubes');
+    expect(findMachineByName(machines, 'Unknown')).toEqual({});
+  });
+
+  it('should order units as a tree and walk up from a line', () => {
+    expect(sortPlantUnits(units).map(u => u.id))
+      .toEqual(['site-main', 'area-packing', 'line-tea-1', 'line-tea-2', 'line-orphan']);
+
+    const path = getUnitPath(units, 'line-tea-2');
+    expect([path.site?.id, path.area?.id, path.line?.id]).toEqual(['site-main', 'area-packing', 'line-tea-2']);
+    expect(getUnitPath(units, 'line-orphan')).toEqual({ line: units[4] });
+  });
+
+  it('should group records by any level in plant order', () => {
+    const records = [
+      { machine: 'Universal 2 - Machine 1', waste: 1 },
+      { machine: 'Canline - Machine 1', waste: 2 },
+      { machine: 'Canline - Machine 2', waste: 3 },
+      { machine: 'Cubes', waste: 4 },
+    ];
+    const summarize = (level: Parameters<typeof groupByLevel>[0]) =>
+      groupByLevel(level, records, r => r.machine, machines, units)
+        .map(g => [g.label, g.items.reduce((sum, r) => sum + r.waste, 0)]);
+
+    expect(summarize('site')).toEqual([['site-main', 6], ['Unassigned', 4]]);
+    expect(summarize('line')).toEqual([['line-tea-1', 5], ['line-tea-2', 1], ['Unassigned', 4]]);
+    expect(summarize('machine')).toEqual([['Cubes', 4], ['Universal 2', 1], ['Canline', 5]]);
+    expect(summarize('sub_machine')).toEqual([
+      ['Cubes', 4],
+      ['Universal 2 › Machine 1', 1],
+      ['Canline › Left Filler', 3],
+      ['Canline › Machine 1', 2],
+    ]);
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Machine Hierarchy
+ *
+ * The plant is organised site -> area -> line -> machine -> sub-machine.
+ * Sites, areas and lines are admin-managed plant units kept in the Supabase
+ * plant_units table and cached on the device (kept locally without
+ * Supabase). Machines belong to a line, and sub-machines are machine rows
+ * beneath their machine with their own display name and order.
+ *
+ * Sub-machines keep the "<machine> - Machine <n>" names and "-sub-<n>" IDs
+ * that sessions and records use. Machines whose sub-machine rows have not
+ * been loaded get them derived from the sub-machine count.
+ *
+ * Anything recorded against a machine name can be grouped by any level to
+ * roll up metrics.
+ */
+
+import { useEffect, useState } from 'react';
+import { HierarchyLevel, Machine, PlantUnit, PlantUnitLevel, SubMachine } from '../types';
+import {
+  isSupabaseConfigured,
+  fetchPlantUnitRecords,
+  savePlantUnitRecord,
+  deletePlantUnitRecord,
+  MachineRecord,
+  PlantUnitRecord,
+} from './supabase';
+import { logError } from './errorMonitoring';
+
+const UNITS_CACHE_KEY = 'plant_units';
+const RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+
+export const UNASSIGNED = 'Unassigned';
+
+export const HIERARCHY_LEVEL_LABELS: Record<HierarchyLevel, string> = {
+  site: 'Site',
+  area: 'Area',
+  line: 'Line',
+  machine: 'Machine',
+  sub_machine: 'Sub-machine',
+};
+
+// Level each kind of unit sits under
+export const PARENT_UNIT_LEVEL: Record<PlantUnitLevel, PlantUnitLevel | null> = {
+  site: null,
+  area: 'site',
+  line: 'area',
+};
+
+export interface HierarchyGroup<T> {
+  key: string;
+  label: string;
+  items: T[];
+}
+
+let unitListeners: ((units: PlantUnit[]) => void)[] = [];
+let loadPromise: Promise<PlantUnit[]> | null = null;
+let lastLoadedAt = 0;
+
+const toPlantUnit = (record: PlantUnitRecord): PlantUnit => ({
+  id: record.id,
+  level: record.level,
+  name: record.name,
+  displayName: record.display_name || undefined,
+  parentId: record.parent_id || undefined,
+  sortOrder: record.sort_order,
+});
+
+const cacheUnits = (units: PlantUnit[]): void => {
+  localStorage.setItem(UNITS_CACHE_KEY, JSON.stringify(units));
+  unitListeners.forEach(listener => listener(units));
+};
+
+// ==========================================
+// SUB-MACHINES
+// ==========================================
+
+export const getSubMachineId = (machineId: string, number: number): string => `${machineId}-sub-${number}`;
+
+export const getSubMachineName = (machineName: string, number: number): string => `${machineName} - Machine ${number}`;
+
+export const toSubMachine = (record: MachineRecord): SubMachine => {
+  const match = record.id.match(/-sub-(\d+)$/);
+  const number = match ? parseInt(match[1], 10) : record.sort_order || 0;
+  return {
+    id: record.id,
+    name: record.name,
+    number,
+    displayName: record.display_name || undefined,
+    sortOrder: record.sort_order ?? number,
+  };
+};
+
+/**
+ * A machine's sub-machines in order - its sub-machine rows when loaded,
+ * otherwise derived from the sub-machine count
+ */
+export const getSubMachines = (machine: Machine): SubMachine[] => {
+  const count = machine.subMachineCount || 0;
+  if (count <= 0) return [];
+  if (machine.subMachines && machine.subMachines.length > 0) {
+    return [...machine.subMachines].sort((a, b) => a.sortOrder - b.sortOrder || a.number - b.number);
+  }
+  return Array.from({ length: count }, (_, i) => ({
+    id: getSubMachineId(machine.id, i + 1),
+    name: getSubMachineName(machine.name, i + 1),
+    number: i + 1,
+    sortOrder: i + 1,
+  }));
+};
+
+export const getMachineLabel = (machine: Pick<Machine, 'name' | 'displayName'>): string =>
+  machine.displayName || machine.name;
+
+export const getSubMachineLabel = (subMachine: SubMachine): string =>
+  subMachine.displayName || `Machine ${subMachine.number}`;
+
+export const getUnitLabel = (unit: PlantUnit): string => unit.displayName || unit.name;
+
+/**
+ * The machine (and sub-machine) a recorded machine name belongs to
+ */
+export const findMachineByName = (
+  machines: Machine[],
+  machineName: string
+): { machine?: Machine; subMachine?: SubMachine } => {
+  const machine = machines.find(m => m.name === machineName);
+  if (machine) return { machine };
+
+  for (const candidate of machines) {
+    const subMachine = getSubMachines(candidate).find(s => s.name === machineName);
+    if (subMachine) return { machine: candidate, subMachine };
+  }
+  return {};
+};
+
+/**
+ * Label for a recorded machine name, e.g. "Universal 2 › Left Bagger"
+ */
+export const getMachineNameLabel = (machines: Machine[], machineName: string): string => {
+  const { machine, subMachine } = findMachineByName(machines, machineName);
+  if (!machine) return machineName;
+  return subMachine ? `${getMachineLabel(machine)} › ${getSubMachineLabel(subMachine)}` : getMachineLabel(machine);
+};
+
+// ==========================================
+// TREE HELPERS
+// ==========================================
+
+const bySortOrder = (a: { sortOrder?: number; name: string }, b: { sortOrder?: number; name: string }): number =>
+  (a.sortOrder || 0) - (b.sortOrder || 0) || a.name.localeCompare(b.name);
+
+const LEVEL_RANK: Record<PlantUnitLevel, number> = { site: 0, area: 1, line: 2 };
+
+/**
+ * Units in tree order - each site followed by its areas and their lines.
+ * Units whose parent is missing come after, highest level first.
+ */
+export const sortPlantUnits = (units: PlantUnit[]): PlantUnit[] => {
+  const ids = new Set(units.map(u => u.id));
+  const sorted: PlantUnit[] = [];
+  const visit = (unit: PlantUnit) => {
+    if (sorted.includes(unit)) return;
+    sorted.push(unit);
+    units.filter(u => u.parentId === unit.id).sort(bySortOrder).forEach(visit);
+  };
+
+  units
+    .filter(u => !u.parentId || !ids.has(u.parentId))
+    .sort((a, b) => LEVEL_RANK[a.level] - LEVEL_RANK[b.level] || bySortOrder(a, b))
+    .forEach(visit);
+  return sorted;
+};
+
+/**
+ * A unit and the units above it, by level
+ */
+export const getUnitPath = (units: PlantUnit[], unitId: string | undefined): Partial<Record<PlantUnitLevel, PlantUnit>> => {
+  const path: Partial<Record<PlantUnitLevel, PlantUnit>> = {};
+  let unit = units.find(u => u.id === unitId);
+  // Three levels at most - also stops on a parent loop
+  for (let depth = 0; unit && depth < 3 && !path[unit.level]; depth++) {
+    path[unit.level] = unit;
+    const parentId: string | undefined = unit.parentId;
+    unit = units.find(u => u.id === parentId);
+  }
+  return path;
+};
+
+/**
+ * Group items recorded against machine names by a level of the hierarchy,
+ * in plant order. Items of machines without a place at that level are
+ * grouped as Unassigned, last.
+ */
+export const groupByLevel = <T>(
+  level: HierarchyLevel,
+  items: T[],
+  getMachineName: (item: T) => string,
+  machines: Machine[],
+  units: PlantUnit[]
+): HierarchyGroup<T>[] => {
+  const orderedUnits = sortPlantUnits(units);
+  const orderedMachines = [...machines].sort(bySortOrder);
+  const groups = new Map<string, HierarchyGroup<T> & { rank: number[] }>();
+
+  const locate = (machineName: string): { key: string; label: string; rank: number[] } => {
+    const { machine, subMachine } = findMachineByName(machines, machineName);
+    if (level === 'machine' || level === 'sub_machine') {
+      if (!machine) return { key: `name:${machineName}`, label: machineName, rank: [Infinity] };
+      const machineRank = orderedMachines.indexOf(machine);
+      if (level === 'sub_machine' && subMachine) {
+        return { key: subMachine.id, label: getMachineNameLabel(machines, machineName), rank: [machineRank, subMachine.sortOrder] };
+      }
+      return { key: machine.id, label: getMachineLabel(machine), rank: [machineRank] };
+    }
+
+    const unit = getUnitPath(units, machine?.lineId)[level];
+    return unit
+      ? { key: unit.id, label: getUnitLabel(unit), rank: [orderedUnits.indexOf(unit)] }
+      : { key: '', label: UNASSIGNED, rank: [Infinity] };
+  };
+
+  items.forEach(item => {
+    const { key, label, rank } = locate(getMachineName(item));
+    const group = groups.get(key) || { key, label, items: [], rank };
+    group.items.push(item);
+    groups.set(key, group);
+  });
+
+  const compareRank = (a: number[], b: number[]): number => {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const diff = (a[i] ?? -1) - (b[i] ?? -1);
+      if (diff !== 0 && !Number.isNaN(diff)) return diff;
+    }
+    return 0;
+  };
+
+  return Array.from(groups.values())
+    .sort((a, b) => compareRank(a.rank, b.rank) || a.label.localeCompare(b.label))
+    .map(({ key, label, items: groupItems }) => ({ key, label, items: groupItems }));
+};
+
+// ==========================================
+// REGISTRY
+// ==========================================
+
+/**
+ * The cached sites, areas and lines
+ */
+export const getPlantUnits = (): PlantUnit[] => {
+  try {
+    const stored = localStorage.getItem(UNITS_CACHE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Load the units from Supabase (falls back to the cache offline). Units
+ * loaded in the last few minutes are reused unless forced.
+ */
+export const loadPlantUnits = (force = false): Promise<PlantUnit[]> => {
+  const isFresh = Date.now() - lastLoadedAt < RELOAD_INTERVAL_MS;
+  if (!isSupabaseConfigured || (isFresh && !force)) return Promise.resolve(getPlantUnits());
+
+  if (!loadPromise) {
+    loadPromise = fetchPlantUnitRecords()
+      .then(records => {
+        const units = records.map(toPlantUnit);
+        lastLoadedAt = Date.now();
+        cacheUnits(units);
+        return units;
+      })
+      .catch(e => {
+        logError('Failed to fetch plant units, using cached units', { context: String(e), showToast: false });
+        return getPlantUnits();
+      })
+      .finally(() => {
+        loadPromise = null;
+      });
+  }
+  return loadPromise;
+};
+
+const makeUnitId = (level: PlantUnitLevel, name: string, existing: PlantUnit[]): string => {
+  const base = `${level}-${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'unit'}`;
+  const ids = new Set(existing.map(u => u.id));
+  let id = base;
+  for (let i = 2; ids.has(id); i++) id = `${base}-${i}`;
+  return id;
+};
+
+/**
+ * Create or update a site, area or line
+ * @throws When the parent is not the level above
+ */
+export const savePlantUnit = async (
+  unit: Omit<PlantUnit, 'id'> & { id?: string }
+): Promise<PlantUnit> => {
+  const existing = getPlantUnits();
+  const parentLevel = PARENT_UNIT_LEVEL[unit.level];
+  const parent = existing.find(u => u.id === unit.parentId);
+  if (unit.parentId && parent?.level !== parentLevel) {
+    throw new Error(`A ${unit.level} can only be placed under a ${parentLevel || 'nothing'}`);
+  }
+
+  const name = unit.name.trim();
+  const draft: PlantUnit = {
+    ...unit,
+    id: unit.id || makeUnitId(unit.level, name, existing),
+    name,
+    displayName: unit.displayName?.trim() || undefined,
+    parentId: unit.parentId || undefined,
+  };
+
+  const saved = isSupabaseConfigured
+    ? toPlantUnit(await savePlantUnitRecord({
+      id: draft.id,
+      level: draft.level,
+      name: draft.name,
+      display_name: draft.displayName || null,
+      parent_id: draft.parentId || null,
+      sort_order: draft.sortOrder,
+    }))
+    : draft;
+
+  cacheUnits([...existing.filter(u => u.id !== saved.id), saved]);
+  return saved;
+};
+
+/**
+ * Delete a unit - the units beneath it are left without a parent
+ */
+export const removePlantUnit = async (id: string): Promise<void> => {
+  if (isSupabaseConfigured) {
+    await deletePlantUnitRecord(id);
+  }
+  cacheUnits(getPlantUnits()
+    .filter(u => u.id !== id)
+    .map(u => u.parentId === id ? { ...u, parentId: undefined } : u));
+};
+
+export const subscribeToPlantUnits = (
+  listener: (units: PlantUnit[]) => void
+): (() => void) => {
+  unitListeners.push(listener);
+  return () => {
+    unitListeners = unitListeners.filter(l => l !== listener);
+  };
+};
+
+/**
+ * React hook for the sites, areas and lines - starts from the cache and
+ * refreshes from Supabase on mount
+ */
+export const usePlantUnits = (): PlantUnit[] => {
+  const [units, setUnits] = useState<PlantUnit[]>(getPlantUnits);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToPlantUnits(setUnits);
+    loadPlantUnits();
+    return unsubscribe;
+  }, []);
+
+  return units;
+};
@@ -0,0 +1,59 @@
+/**
+ * Tests for the machine status engine
+ */
+
+import { deriveMachineStatus, rollUpMachineStatus } from './machineStatus';
+import { ProductionTimerState } from './sessionManager';
+import { CHANGEOVER_REASON_CODE } from './changeovers';
+
+const NOW = new Date('2026-10-18T10:00:00Z').getTime();
+
+const timer = (overrides: Partial<ProductionTimerState> = {}): ProductionTimerState => ({
+  isRunning: true,
+  startTime: '2026-10-18T06:00:00Z',
+  pausedAt: null,
+  totalRunTimeMs: 0,
+  lastResumedAt: '2026-10-18T06:00:00Z',
+  pauseHistory: [],
+  ...overrides,
+});
+
+const session = (production_timer: ProductionTimerState | null, operator_name = 'Thandi') =>
+  ({ is_locked: true, operator_name, production_timer });
+
+const paused = (pauseReason: string, pauseReasonCode: string) =>
+  timer({ isRunning: false, pausedAt: '2026-10-18T09:50:00Z', pauseReason, pauseReasonCode });
+
+describe('machine status engine', () => {
+  it('should derive the status from the session and its timer', () => {
+    expect(deriveMachineStatus({ session: null, now: NOW })).toEqual({ status: 'idle' });
+    expect(deriveMachineStatus({ session: session(timer()), now: NOW })).toEqual({ status: 'running' });
+    expect(deriveMachineStatus({ session: session(paused('Film jam', 'MECH-JAM')), now: NOW }))
+      .toEqual({ status: 'paused', reason: 'Film jam' });
+    expect(deriveMachineStatus({ session: session(paused('Changeover', CHANGEOVER_REASON_CODE)), now: NOW }))
+      .toEqual({ status: 'changeover' });
+    expect(deriveMachineStatus({ session: session(timer({ isRunning: false })), now: NOW }))
+      .toEqual({ status: 'idle' });
+    expect(deriveMachineStatus({ manualStatus: 'maintenance', session: session(timer()), now: NOW }))
+      .toEqual({ status: 'maintenance' });
+  });
+
+  it('should report no operator when nobody is at the tablet', () => {
+    const running = session(timer());
+    expect(deriveMachineStatus({ session: session(timer(), ''), now: NOW }).status).toBe('no_operator');
+    expect(deriveMachineStatus({ session: running, heartbeatAt: null, now: NOW }).status).toBe('no_operator');
+    expect(deriveMachineStatus({ session: running, heartbeatAt: new Date(NOW - 5 * 60000), now: NOW }).status)
+      .toBe('no_operator');
+    expect(deriveMachineStatus({ session: running, heartbeatAt: new Date(NOW - 30000), now: NOW }).status)
+      .toBe('running');
+  });
+
+  it('should roll sub-machine statuses up to the parent', () => {
+    expect(rollUpMachineStatus([{ status: 'idle' }, { status: 'paused', reason: 'Jam' }, { status: 'running' }]))
+      .toEqual({ status: 'running' });
+    expect(rollUpMachineStatus([{ status: 'idle' }, { status: 'paused', reason: 'Jam' }]))
+      .toEqual({ status: 'paused', reason: 'Jam' });
+    expect(rollUpMachineStatus([{ status: 'running' }], 'maintenance')).toEqual({ status: 'maintenance' });
+    expect(rollUpMachineStatus([])).toEqual({ status: 'idle' });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Machine Status Engine
+ *
+ * A machine's status is derived from what is happening on it rather than set
+ * by hand: its live session, the production timer the operator starts and
+ * pauses, and the heartbeat of the tablet holding the session lock.
+ *
+ * - maintenance  set by hand on the machine, overrides everything else
+ * - idle         no locked session, or a session whose timer is not running
+ * - no_operator  a locked session with nobody at the tablet (no operator,
+ *                or the tablet stopped sending heartbeats)
+ * - changeover   production paused for a changeover
+ * - paused       production paused, with the reason when the operator gave one
+ * - running      production timer running
+ *
+ * Dashboards publish the statuses they derive to the machine rows; the
+ * server keeps a history of every transition. Capture screens do not: they
+ * cannot see maintenance or heartbeats, and a second writer working from
+ * other inputs would keep flipping the status.
+ */
+
+import { isSupabaseConfigured, recordMachineStatus, fetchMachineStatusHistory } from './supabase';
+import { isHeartbeatStale, ProductionTimerState } from './sessionManager';
+import { CHANGEOVER_REASON_CODE } from './changeovers';
+import { logError } from './errorMonitoring';
+import { LiveSession } from './liveSession';
+import { LiveMachineStatus, Machine } from '../types';
+
+export const MACHINE_STATUS_LABELS: Record<LiveMachineStatus, string> = {
+  running: 'Running',
+  paused: 'Paused',
+  idle: 'Idle',
+  changeover: 'Changeover',
+  maintenance: 'Maintenance',
+  no_operator: 'No Operator',
+};
+
+export interface MachineStatusInfo {
+  status: LiveMachineStatus;
+  reason?: string;
+}
+
+export interface MachineStatusInput {
+  manualStatus?: Machine['status'];
+  session?: Pick<LiveSession, 'is_locked' | 'operator_name' | 'production_timer'> | null;
+  heartbeatAt?: Date | null;    // undefined when heartbeats are not tracked
+  now?: number;
+}
+
+export interface MachineStatusChange {
+  id: number;
+  fromStatus?: LiveMachineStatus;
+  toStatus: LiveMachineStatus;
+  reason?: string;
+  operatorName?: string;
+  changedAt: Date;
+}
+
+// ==========================================
+// DERIVATION
+// ==========================================
+
+const getPausedStatus = (timer: ProductionTimerState): MachineStatusInfo =>
+  timer.pauseReasonCode === CHANGEOVER_REASON_CODE
+    ? { status: 'changeover' }
+    : { status: 'paused', reason: timer.pauseReason || undefined };
+
+/**
+ * Status of one machine or sub-machine
+ */
+export const deriveMachineStatus = ({ manualStatus, session, heartbeatAt, now = Date.now() }: MachineStatusInput): MachineStatusInfo => {
+  if (manualStatus === 'maintenance') return { status: 'maintenance' };
+  if (!session?.is_locked) return { status: 'idle' };
+
+  if (!session.operator_name) return { status: 'no_operator', reason: 'No operator signed in' };
+  if (heartbeatAt === null || (heartbeatAt && isHeartbeatStale(heartbeatAt, now))) {
+    return { status: 'no_operator', reason: 'Tablet not responding' };
+  }
+
+  // Sessions saved before the timer was shared count as running
+  const timer = session.production_timer;
+  if (!timer || timer.isRunning) return { status: 'running' };
+  if (timer.pausedAt) return getPausedStatus(timer);
+  return { status: 'idle' };
+};
+
+// Which sub-machine status a parent machine shows, most important first
+const ROLL_UP_ORDER: LiveMachineStatus[] = ['running', 'changeover', 'paused', 'no_operator', 'maintenance', 'idle'];
+
+/**
+ * Status of a parent machine from its sub-machines - running while any of
+ * them runs (maintenance set on the parent itself comes first)
+ */
+export const rollUpMachineStatus = (
+  subStatuses: MachineStatusInfo[],
+  manualStatus?: Machine['status']
+): MachineStatusInfo => {
+  if (manualStatus === 'maintenance') return { status: 'maintenance' };
+  for (const status of ROLL_UP_ORDER) {
+    const match = subStatuses.find(s => s.status === status);
+    if (match) return match;
+  }
+  return { status: 'idle' };
+};
+
+// ==========================================
+// PUBLISHING
+// ==========================================
+
+// Last status sent per machine ID, so unchanged statuses are not sent again
+const publishedStatuses = new Map<string, string>();
+
+/**
+ * Write a machine's derived status to its row. Only changes are sent; a
+ * failed write is not retried until the status changes again.
+ */
+export const publishMachineStatus = (machineId: string, info: MachineStatusInfo, operatorName?: string): void => {
+  if (!isSupabaseConfigured) return;
+
+  const key = `${info.status}|${info.reason || ''}`;
+  if (publishedStatuses.get(machineId) === key) return;
+  publishedStatuses.set(machineId, key);
+
+  recordMachineStatus(machineId, info.status, info.reason, operatorName)
+    .catch(e => logError('Failed to record machine status', { context: String(e), showToast: false }));
+};
+
+/**
+ * A machine's latest status transitions, newest first (none without Supabase)
+ * @throws When the Supabase lookup fails
+ */
+export const loadMachineStatusHistory = async (machineId: string, limit?: number): Promise<MachineStatusChange[]> => {
+  if (!isSupabaseConfigured) return [];
+  const records = await fetchMachineStatusHistory(machineId, limit);
+  return records.map(record => ({
+    id: record.id,
+    fromStatus: (record.from_status as LiveMachineStatus | null) || undefined,
+    toStatus: record.to_status as LiveMachineStatus,
+    reason: record.reason || undefined,
+    operatorName: record.operator_name || undefined,
+    changedAt: new Date(record.changed_at),
+  }));
+};
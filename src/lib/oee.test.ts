@@ -0,0 +1,163 @@
+/**
+ * Tests for the OEE calculation engine
+ */
+
+import {
+  calculateOEE,
+  summarizeOEE,
+  splitDowntime,
+  countGoodCases,
+  averageSachetMass,
+  formatOEEPercent,
+  OEEInput,
+} from './oee';
+
+const now = new Date();
+
+const baseInput: OEEInput = {
+  runTimeMs: 0,
+  downtimeEntries: [],
+  speedEntries: [],
+  palletScanEntries: [],
+  looseCasesEntries: [],
+  wasteEntries: [],
+};
+
+describe('splitDowntime', () => {
+  it('should separate planned and unplanned minutes', () => {
+    const result = splitDowntime([
+      { id: '1', downtime: 30, downtimeReason: 'Changeover', timestamp: now },
+      { id: '2', downtime: 15, downtimeReason: 'Machine Breakdown', timestamp: now },
+      { id: '3', downtime: 5, downtimeReason: 'Something Else', timestamp: now },
+    ]);
+    expect(result).toEqual({ plannedMinutes: 30, unplannedMinutes: 20 });
+  });
+});
+
+describe('countGoodCases', () => {
+  it('should sum pallets and loose cases, skipping ignored entries', () => {
+    const total = countGoodCases(
+      [
+        { id: 'p1', qrCode: '1234500010050', batchNumber: '12345', palletNumber: '0001', casesCount: 50, timestamp: now },
+        { id: 'p2', qrCode: '1234500020050', batchNumber: '12345', palletNumber: '0002', casesCount: 50, timestamp: now, ignored: true },
+      ],
+      [{ id: 'l1', batchNumber: '12345', cases: 7, timestamp: now }]
+    );
+    expect(total).toBe(57);
+  });
+});
+
+describe('averageSachetMass', () => {
+  it('should return null when there are no valid samples', () => {
+    expect(averageSachetMass([])).toBeNull();
+    expect(averageSachetMass([{ id: '1', mass: 10, timestamp: now, ignored: true }])).toBeNull();
+  });
+
+  it('should average non-ignored samples', () => {
+    expect(averageSachetMass([
+      { id: '1', mass: 10, timestamp: now },
+      { id: '2', mass: 12, timestamp: now },
+    ])).toBe(11);
+  });
+});
+
+describe('calculateOEE', () => {
+  it('should exclude planned downtime from availability', () => {
+    const result = calculateOEE({
+      ...baseInput,
+      runTimeMs: 90 * 60000,
+      downtimeEntries: [
+        { id: '1', downtime: 60, downtimeReason: 'Scheduled Maintenance', timestamp: now },
+        { id: '2', downtime: 10, downtimeReason: 'Machine Breakdown', timestamp: now },
+      ],
+    });
+    expect(result.availability).toBeCloseTo(0.9);
+    expect(result.plannedDowntimeMinutes).toBe(60);
+    expect(result.unplannedDowntimeMinutes).toBe(10);
+  });
+
+  it('should compute performance against rated speed', () => {
+    const result = calculateOEE({
+      ...baseInput,
+      runTimeMs: 60000,
+      ratedSpeed: 100,
+      speedEntries: [
+        { id: '1', speed: 80, timestamp: now },
+        { id: '2', speed: 90, timestamp: now },
+      ],
+    });
+    expect(result.performance).toBeCloseTo(0.85);
+  });
+
+  it('should leave performance null without a rated speed', () => {
+    const result = calculateOEE({
+      ...baseInput,
+      runTimeMs: 60000,
+      speedEntries: [{ id: '1', speed: 80, timestamp: now }],
+    });
+    expect(result.performance).toBeNull();
+    expect(result.oee).toBeNull();
+  });
+
+  it('should convert waste mass to units for quality', () => {
+    const result = calculateOEE({
+      ...baseInput,
+      runTimeMs: 60000,
+      unitsPerCase: 100,
+      looseCasesEntries: [{ id: 'l1', batchNumber: '12345', cases: 9, timestamp: now }],
+      wasteEntries: [{ id: 'w1', waste: 1, wasteType: 'Defective Product', timestamp: now }],
+      sachetMassEntries: [{ id: 's1', mass: 10, timestamp: now }],
+    });
+    // 900 good units, 1kg / 10g = 100 waste units
+    expect(result.goodUnits).toBe(900);
+    expect(result.wasteUnits).toBe(100);
+    expect(result.quality).toBeCloseTo(0.9);
+  });
+
+  it('should multiply the three components', () => {
+    const result = calculateOEE({
+      ...baseInput,
+      runTimeMs: 80 * 60000,
+      downtimeEntries: [{ id: '1', downtime: 20, downtimeReason: 'Machine Breakdown', timestamp: now }],
+      ratedSpeed: 100,
+      speedEntries: [{ id: '1', speed: 50, timestamp: now }],
+      looseCasesEntries: [{ id: 'l1', batchNumber: '12345', cases: 10, timestamp: now }],
+    });
+    expect(result.availability).toBeCloseTo(0.8);
+    expect(result.performance).toBeCloseTo(0.5);
+    expect(result.quality).toBe(1);
+    expect(result.oee).toBeCloseTo(0.4);
+  });
+});
+
+describe('summarizeOEE', () => {
+  it('should weight availability by planned production time', () => {
+    const a = calculateOEE({
+      ...baseInput,
+      runTimeMs: 60 * 60000,
+      ratedSpeed: 100,
+      speedEntries: [{ id: '1', speed: 100, timestamp: now }],
+      looseCasesEntries: [{ id: 'l1', batchNumber: '12345', cases: 1, timestamp: now }],
+    });
+    const b = calculateOEE({
+      ...baseInput,
+      runTimeMs: 0,
+      downtimeEntries: [{ id: '1', downtime: 60, downtimeReason: 'Machine Breakdown', timestamp: now }],
+    });
+    const summary = summarizeOEE([a, b]);
+    expect(summary.availability).toBeCloseTo(0.5);
+    expect(summary.performance).toBe(1);
+    expect(summary.oee).toBeCloseTo(0.5);
+  });
+
+  it('should return nulls for no results', () => {
+    expect(summarizeOEE([]).oee).toBeNull();
+  });
+});
+
+describe('formatOEEPercent', () => {
+  it('should format values as whole percentages', () => {
+    expect(formatOEEPercent(0.856)).toBe('86%');
+    expect(formatOEEPercent(null)).toBe('--');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * OEE (Overall Equipment Effectiveness) Calculation Engine
+ *
+ * OEE = Availability × Performance × Quality
+ *
+ * - Availability: run time against planned production time. Planned stops
+ *   (reasons flagged planned in the downtime reason tree) are excluded from
+ *   planned production time, unplanned stops count against it.
+ * - Performance: average recorded speed against the rated speed (the
+ *   product's when the product master has one, otherwise the machine's).
+ * - Quality: good units (pallets + loose cases) against good units plus
+ *   waste. Waste is captured in kg, so it is converted to units using the
+ *   average sachet mass recorded during the shift.
+ *
+ * A component is null when the shift does not carry enough data to compute
+ * it (e.g. no rated speed configured), and OEE is then null as well.
+ */
+
+import {
+  DowntimeEntry,
+  LooseCasesEntry,
+  PalletScanEntry,
+  SachetMassEntry,
+  SpeedEntry,
+  WasteEntry,
+} from '../types';
+import { isPlannedDowntime } from './downtimeReasons';
+
+export interface OEEInput {
+  runTimeMs: number;                 // ProductionState.totalRunTimeMs (plus any running segment)
+  downtimeEntries: DowntimeEntry[];
+  speedEntries: SpeedEntry[];
+  ratedSpeed?: number;               // Units per minute, from the product or machine
+  palletScanEntries: PalletScanEntry[];
+  looseCasesEntries: LooseCasesEntry[];
+  wasteEntries: WasteEntry[];
+  sachetMassEntries?: SachetMassEntry[];
+  unitsPerCase?: number;             // Sachets per case (product or machine), needed to express waste against output
+}
+
+export interface OEEResult {
+  availability: number | null;       // 0-1
+  performance: number | null;        // 0-1
+  quality: number | null;            // 0-1
+  oee: number | null;                // 0-1
+  runTimeMs: number;
+  plannedProductionTimeMs: number;
+  plannedDowntimeMinutes: number;
+  unplannedDowntimeMinutes: number;
+  averageSpeed: number | null;
+  goodCases: number;
+  goodUnits: number | null;
+  wasteKg: number;
+  wasteUnits: number | null;
+}
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Split downtime entries into planned and unplanned minutes
+ */
+export const splitDowntime = (
+  entries: DowntimeEntry[]
+): { plannedMinutes: number; unplannedMinutes: number } => {
+  return entries.reduce(
+    (acc, entry) => {
+      if (isPlannedDowntime(entry)) {
+        acc.plannedMinutes += entry.downtime;
+      } else {
+        acc.unplannedMinutes += entry.downtime;
+      }
+      return acc;
+    },
+    { plannedMinutes: 0, unplannedMinutes: 0 }
+  );
+};
+
+/**
+ * Total good cases from pallet scans and loose cases (ignored entries excluded)
+ */
+export const countGoodCases = (
+  pallets: PalletScanEntry[],
+  looseCases: LooseCasesEntry[]
+): number => {
+  const palletCases = pallets
+    .filter(p => !p.ignored)
+    .reduce((sum, p) => sum + p.casesCount, 0);
+  const loose = looseCases
+    .filter(l => !l.ignored)
+    .reduce((sum, l) => sum + l.cases, 0);
+  return palletCases + loose;
+};
+
+/**
+ * Average of non-ignored sachet mass samples in grams, or null when none
+ */
+export const averageSachetMass = (entries: SachetMassEntry[] = []): number | null => {
+  const valid = entries.filter(e => !e.ignored && e.mass > 0);
+  if (valid.length === 0) return null;
+  return valid.reduce((sum, e) => sum + e.mass, 0) / valid.length;
+};
+
+/**
+ * Calculate OEE for a single machine and shift
+ */
+export const calculateOEE = (input: OEEInput): OEEResult => {
+  const { plannedMinutes, unplannedMinutes } = splitDowntime(input.downtimeEntries);
+  const runTimeMs = Math.max(0, input.runTimeMs);
+
+  // Availability: run time / (run time + unplanned stops)
+  const plannedProductionTimeMs = runTimeMs + unplannedMinutes * 60000;
+  const availability = plannedProductionTimeMs > 0
+    ? clamp01(runTimeMs / plannedProductionTimeMs)
+    : null;
+
+  // Performance: average recorded speed / rated speed
+  const speeds = input.speedEntries.filter(s => s.speed > 0);
+  const averageSpeed = speeds.length > 0
+    ? speeds.reduce((sum, s) => sum + s.speed, 0) / speeds.length
+    : null;
+  const performance = averageSpeed !== null && input.ratedSpeed && input.ratedSpeed > 0
+    ? clamp01(averageSpeed / input.ratedSpeed)
+    : null;
+
+  // Quality: good units / (good units + waste units)
+  const goodCases = countGoodCases(input.palletScanEntries, input.looseCasesEntries);
+  const wasteKg = input.wasteEntries.reduce((sum, w) => sum + w.waste, 0);
+  const sachetMass = averageSachetMass(input.sachetMassEntries);
+  const goodUnits = input.unitsPerCase && input.unitsPerCase > 0
+    ? goodCases * input.unitsPerCase
+    : null;
+  const wasteUnits = sachetMass !== null ? (wasteKg * 1000) / sachetMass : null;
+
+  let quality: number | null = null;
+  if (wasteKg === 0 && goodCases > 0) {
+    quality = 1;
+  } else if (goodUnits !== null && wasteUnits !== null && goodUnits + wasteUnits > 0) {
+    quality = clamp01(goodUnits / (goodUnits + wasteUnits));
+  }
+
+  const oee = availability !== null && performance !== null && quality !== null
+    ? availability * performance * quality
+    : null;
+
+  return {
+    availability,
+    performance,
+    quality,
+    oee,
+    runTimeMs,
+    plannedProductionTimeMs,
+    plannedDowntimeMinutes: plannedMinutes,
+    unplannedDowntimeMinutes: unplannedMinutes,
+    averageSpeed,
+    goodCases,
+    goodUnits,
+    wasteKg,
+    wasteUnits,
+  };
+};
+
+/**
+ * Roll several machine/shift results up into one plant-level figure.
+ * Availability is weighted by planned production time, performance by run
+ * time and quality by total units, so a short shift does not skew the result.
+ */
+export const summarizeOEE = (results: OEEResult[]): Pick<OEEResult, 'availability' | 'performance' | 'quality' | 'oee'> => {
+  const weighted = (
+    pick: (r: OEEResult) => number | null,
+    weight: (r: OEEResult) => number
+  ): number | null => {
+    let total = 0;
+    let weights = 0;
+    results.forEach(r => {
+      const value = pick(r);
+      const w = weight(r);
+      if (value !== null && w > 0) {
+        total += value * w;
+        weights += w;
+      }
+    });
+    return weights > 0 ? total / weights : null;
+  };
+
+  const availability = weighted(r => r.availability, r => r.plannedProductionTimeMs);
+  const performance = weighted(r => r.performance, r => r.runTimeMs);
+  const quality = weighted(r => r.quality, r => (r.goodUnits ?? r.goodCases) + (r.wasteUnits ?? 0));
+
+  return {
+    availability,
+    performance,
+    quality,
+    oee: availability !== null && performance !== null && quality !== null
+      ? availability * performance * quality
+      : null,
+  };
+};
+
+/**
+ * Format an OEE component (0-1) as a whole percentage for display
+ */
+export const formatOEEPercent = (value: number | null): string =>
+  value === null ? '--' : `${Math.round(value * 100)}%`;
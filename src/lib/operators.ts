@@ -0,0 +1,218 @@
+/**
+ * Operator Registry
+ *
+ * Operators identify themselves on capture tablets by scanning their badge QR
+ * or entering a PIN. The registry lives in the Supabase operators table (PINs
+ * are hashed and checked server-side); without Supabase it is kept on the
+ * device with salted PIN hashes.
+ *
+ * The identified operator is remembered per tablet and stamped on entries
+ * and session locks until another operator identifies.
+ */
+
+import { useEffect, useState } from 'react';
+import { Operator, OperatorStamp } from '../types';
+import {
+  isSupabaseConfigured,
+  fetchOperatorRecords,
+  saveOperatorRecord,
+  identifyOperatorRecord,
+  OperatorRecord,
+} from './supabase';
+import { hashPin, createSalt, assertValidPin } from './auth';
+import { logError } from './errorMonitoring';
+
+const OPERATORS_CACHE_KEY = 'operators_registry';
+const LOCAL_PINS_KEY = 'operators_local_pins';
+const ACTIVE_OPERATOR_KEY = 'active_operator';
+
+// Salted PIN hashes for the local registry, keyed by operator ID
+type LocalPins = Record<string, { salt: string; pinHash: string }>;
+
+let activeOperatorListeners: ((operator: Operator | null) => void)[] = [];
+
+const toOperator = (record: OperatorRecord): Operator => ({
+  id: record.id,
+  name: record.name,
+  employeeNumber: record.employee_number || undefined,
+  badgeCode: record.badge_code || undefined,
+  active: record.is_active,
+});
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const getCachedOperators = (): Operator[] => readJson<Operator[]>(OPERATORS_CACHE_KEY, []);
+
+const cacheOperators = (operators: Operator[]): void => {
+  localStorage.setItem(OPERATORS_CACHE_KEY, JSON.stringify(operators));
+};
+
+// ==========================================
+// REGISTRY
+// ==========================================
+
+/**
+ * Fetch the operator registry (falls back to the cached copy offline)
+ */
+export const getOperators = async (includeInactive = false): Promise<Operator[]> => {
+  if (isSupabaseConfigured) {
+    try {
+      const operators = (await fetchOperatorRecords(true)).map(toOperator);
+      cacheOperators(operators);
+      return includeInactive ? operators : operators.filter(o => o.active);
+    } catch (e) {
+      logError('Failed to fetch operators, using cached registry', { context: String(e), showToast: false });
+    }
+  }
+  const cached = getCachedOperators();
+  return includeInactive ? cached : cached.filter(o => o.active);
+};
+
+/**
+ * Create or update an operator. A PIN is only changed when one is given.
+ * @throws When the badge code or PIN is already in use
+ */
+export const saveOperator = async (
+  operator: Omit<Operator, 'id'> & { id?: string },
+  pin?: string
+): Promise<Operator> => {
+  if (!operator.name.trim()) {
+    throw new Error('Operator name is required');
+  }
+  if (pin) {
+    assertValidPin(pin);
+  }
+
+  const badgeCode = operator.badgeCode?.trim() || undefined;
+
+  if (isSupabaseConfigured) {
+    const saved = toOperator(await saveOperatorRecord({
+      id: operator.id,
+      name: operator.name.trim(),
+      employee_number: operator.employeeNumber?.trim() || null,
+      badge_code: badgeCode || null,
+      is_active: operator.active,
+    }, pin));
+    cacheOperators([...getCachedOperators().filter(o => o.id !== saved.id), saved]);
+    return saved;
+  }
+
+  const operators = getCachedOperators();
+  if (badgeCode && operators.some(o => o.badgeCode === badgeCode && o.id !== operator.id)) {
+    throw new Error('Badge code is already assigned to another operator');
+  }
+
+  const saved: Operator = {
+    ...operator,
+    id: operator.id || `op-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: operator.name.trim(),
+    employeeNumber: operator.employeeNumber?.trim() || undefined,
+    badgeCode,
+  };
+
+  if (pin) {
+    const pins = readJson<LocalPins>(LOCAL_PINS_KEY, {});
+    if (await findLocalOperatorIdByPin(pins, pin, saved.id)) {
+      throw new Error('PIN is already in use');
+    }
+    const salt = createSalt();
+    pins[saved.id] = { salt, pinHash: await hashPin(pin, salt) };
+    localStorage.setItem(LOCAL_PINS_KEY, JSON.stringify(pins));
+  }
+
+  cacheOperators([...operators.filter(o => o.id !== saved.id), saved]);
+  return saved;
+};
+
+const findLocalOperatorIdByPin = async (
+  pins: LocalPins,
+  pin: string,
+  excludeId?: string
+): Promise<string | undefined> => {
+  for (const [id, entry] of Object.entries(pins)) {
+    if (id !== excludeId && await hashPin(pin, entry.salt) === entry.pinHash) return id;
+  }
+  return undefined;
+};
+
+// ==========================================
+// IDENTIFICATION
+// ==========================================
+
+/**
+ * Resolve a scanned badge or an entered PIN to an active operator
+ * @throws When no active operator matches
+ */
+export const identifyOperator = async (credentials: { badgeCode?: string; pin?: string }): Promise<Operator> => {
+  const badgeCode = credentials.badgeCode?.trim();
+  const pin = credentials.pin?.trim();
+  let operator: Operator | undefined;
+
+  if (isSupabaseConfigured) {
+    try {
+      const record = await identifyOperatorRecord({ badgeCode, pin });
+      operator = record ? toOperator(record) : undefined;
+    } catch (e) {
+      // Offline: badges can still be matched against the cached registry
+      if (!badgeCode) throw e;
+      operator = getCachedOperators().find(o => o.active && o.badgeCode === badgeCode);
+    }
+  } else if (badgeCode) {
+    operator = getCachedOperators().find(o => o.active && o.badgeCode === badgeCode);
+  } else if (pin) {
+    const id = await findLocalOperatorIdByPin(readJson<LocalPins>(LOCAL_PINS_KEY, {}), pin);
+    operator = getCachedOperators().find(o => o.active && o.id === id);
+  }
+
+  if (!operator) {
+    throw new Error(badgeCode ? 'Badge not recognised' : 'Incorrect PIN');
+  }
+  return operator;
+};
+
+// ==========================================
+// ACTIVE OPERATOR (per tablet)
+// ==========================================
+
+export const getActiveOperator = (): Operator | null => readJson<Operator | null>(ACTIVE_OPERATOR_KEY, null);
+
+/**
+ * Set (or clear) the operator working on this tablet
+ */
+export const setActiveOperator = (operator: Operator | null): void => {
+  if (operator) {
+    localStorage.setItem(ACTIVE_OPERATOR_KEY, JSON.stringify(operator));
+  } else {
+    localStorage.removeItem(ACTIVE_OPERATOR_KEY);
+  }
+  activeOperatorListeners.forEach(listener => listener(operator));
+};
+
+export const subscribeToActiveOperator = (listener: (operator: Operator | null) => void): (() => void) => {
+  activeOperatorListeners.push(listener);
+  return () => {
+    activeOperatorListeners = activeOperatorListeners.filter(l => l !== listener);
+  };
+};
+
+/**
+ * React hook for the operator working on this tablet
+ */
+export const useActiveOperator = (): Operator | null => {
+  const [operator, setOperator] = useState<Operator | null>(getActiveOperator);
+  useEffect(() => subscribeToActiveOperator(setOperator), []);
+  return operator;
+};
+
+/**
+ * Identity to stamp on a new entry
+ */
+export const getOperatorStamp = (operator: Operator | null = getActiveOperator()): OperatorStamp =>
+  operator ? { operatorId: operator.id, operatorName: operator.name } : {};
@@ -0,0 +1,46 @@
+/**
+ * Tests for order lifecycle states
+ */
+
+import { applyOrderStatus, canChangeOrderStatus, getOrderStatus, isOpenOrder } from './orderLifecycle';
+import { MachineOrderQueueRecord } from './supabase';
+
+const order: MachineOrderQueueRecord = {
+  id: 1,
+  machine_id: 'canline',
+  order_number: 'ORD-1',
+  product: 'Rooibos 100g',
+  batch_number: '12345',
+  priority: 1,
+  is_active: true,
+};
+
+describe('order lifecycle', () => {
+  it('should derive states for orders saved before states existed', () => {
+    expect(getOrderStatus(order)).toBe('queued');
+    expect(getOrderStatus({ ...order, is_active: false, completed_at: '2026-10-18T07:00:00Z' })).toBe('completed');
+    expect(getOrderStatus({ ...order, is_active: false })).toBe('cancelled');
+    expect(isOpenOrder({ ...order, status: 'paused' })).toBe(true);
+    expect(isOpenOrder({ ...order, status: 'completed' })).toBe(false);
+  });
+
+  it('should only allow the documented transitions', () => {
+    expect(canChangeOrderStatus('queued', 'in_progress')).toBe(true);
+    expect(canChangeOrderStatus('queued', 'paused')).toBe(false);
+    expect(canChangeOrderStatus('paused', 'in_progress')).toBe(true);
+    expect(canChangeOrderStatus('completed', 'in_progress')).toBe(false);
+    expect(canChangeOrderStatus('cancelled', 'queued')).toBe(false);
+  });
+
+  it('should stamp state times and keep the first start', () => {
+    const started = applyOrderStatus(order, 'in_progress', new Date('2026-10-18T06:00:00Z'));
+    expect(started).toMatchObject({ status: 'in_progress', is_active: true, started_at: '2026-10-18T06:00:00.000Z' });
+
+    const paused = applyOrderStatus(started, 'paused', new Date('2026-10-18T07:00:00Z'));
+    const resumed = applyOrderStatus(paused, 'in_progress', new Date('2026-10-18T07:30:00Z'));
+    expect(resumed).toMatchObject({ started_at: '2026-10-18T06:00:00.000Z', paused_at: null, status_changed_at: '2026-10-18T07:30:00.000Z' });
+
+    expect(applyOrderStatus(resumed, 'completed', new Date('2026-10-18T08:00:00Z')))
+      .toMatchObject({ is_active: false, completed_at: '2026-10-18T08:00:00.000Z' });
+  });
+});
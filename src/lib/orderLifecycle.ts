@@ -0,0 +1,93 @@
+/**
+ * Order Lifecycle
+ *
+ * Orders move queued -> in_progress <-> paused -> completed, and can be
+ * cancelled while open. The set_order_status RPC enforces the same
+ * transitions and stamps the time each state was entered; completed and
+ * cancelled orders leave the machine's queue.
+ */
+
+import { OrderStatus } from '../types';
+import { isSupabaseConfigured, MachineOrderQueueRecord } from './supabase';
+import { sendOrQueue } from './outbox';
+import { logError } from './errorMonitoring';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  queued: 'Queued',
+  in_progress: 'In Progress',
+  paused: 'Paused',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  queued: ['in_progress', 'cancelled'],
+  in_progress: ['paused', 'completed', 'cancelled'],
+  paused: ['in_progress', 'completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+// Column stamped when an order enters each state
+const STATUS_TIME_FIELDS: Partial<Record<OrderStatus, keyof MachineOrderQueueRecord>> = {
+  in_progress: 'started_at',
+  paused: 'paused_at',
+  completed: 'completed_at',
+  cancelled: 'cancelled_at',
+};
+
+/**
+ * An order's state; rows saved before states existed are derived from
+ * is_active and completed_at
+ */
+export const getOrderStatus = (order: MachineOrderQueueRecord): OrderStatus =>
+  order.status || (order.completed_at ? 'completed' : order.is_active ? 'queued' : 'cancelled');
+
+export const canChangeOrderStatus = (from: OrderStatus, to: OrderStatus): boolean =>
+  ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+export const isOpenOrder = (order: MachineOrderQueueRecord): boolean =>
+  ORDER_STATUS_TRANSITIONS[getOrderStatus(order)].length > 0;
+
+/**
+ * The order as set_order_status leaves it - used to update screens before
+ * the server answers
+ */
+export const applyOrderStatus = (
+  order: MachineOrderQueueRecord,
+  status: OrderStatus,
+  now = new Date()
+): MachineOrderQueueRecord => {
+  const timestamp = now.toISOString();
+  const timeField = STATUS_TIME_FIELDS[status];
+  return {
+    ...order,
+    status,
+    status_changed_at: timestamp,
+    is_active: status !== 'completed' && status !== 'cancelled',
+    ...(timeField && !(status === 'in_progress' && order.started_at) ? { [timeField]: timestamp } : {}),
+    ...(status === 'in_progress' ? { paused_at: null } : {}),
+  };
+};
+
+/**
+ * Move an order to a new state, queued for replay while offline. Returns
+ * the order unchanged when the transition is not allowed.
+ */
+export const changeOrderStatus = async (
+  order: MachineOrderQueueRecord,
+  status: OrderStatus
+): Promise<MachineOrderQueueRecord> => {
+  const current = getOrderStatus(order);
+  if (order.id === undefined || !canChangeOrderStatus(current, status)) return order;
+
+  if (isSupabaseConfigured) {
+    try {
+      await sendOrQueue({ kind: 'order_queue_status', payload: { orderId: order.id, status } });
+    } catch (e) {
+      logError(`Failed to set order ${order.order_number} to ${ORDER_STATUS_LABELS[status]}`, { context: String(e), showToast: false });
+      return order;
+    }
+  }
+  return applyOrderStatus(order, status);
+};
@@ -0,0 +1,66 @@
+/**
+ * Tests for order plan vs actual
+ */
+
+import { countCasesProduced, getCasesPerMinute, getOrderProgress, findNextOrder, parseOrderPlan } from './orderProgress';
+import { MachineOrderQueueRecord } from './supabase';
+
+const now = new Date('2026-10-18T08:00:00');
+
+const order = (id: number, orderNumber: string, overrides: Partial<MachineOrderQueueRecord> = {}): MachineOrderQueueRecord => ({
+  id,
+  machine_id: 'canline',
+  order_number: orderNumber,
+  product: 'Rooibos 100g',
+  batch_number: '12345',
+  priority: id,
+  is_active: true,
+  ...overrides,
+});
+
+describe('order progress', () => {
+  it('should count pallets and loose cases of the order batch', () => {
+    const pallets = [
+      { id: 'p1', qrCode: '1234500010060', batchNumber: '12345', palletNumber: '0001', casesCount: 60, timestamp: now },
+      { id: 'p2', qrCode: '1234500020060', batchNumber: '12345', palletNumber: '0002', casesCount: 60, timestamp: now, ignored: true },
+      { id: 'p3', qrCode: '5555500010060', batchNumber: '55555', palletNumber: '0001', casesCount: 60, timestamp: now },
+    ];
+    const looseCases = [{ id: 'l1', batchNumber: '12345', cases: 7, timestamp: now }];
+
+    expect(countCasesProduced(pallets, looseCases, '12345')).toBe(67);
+    expect(countCasesProduced(pallets, looseCases)).toBe(127);
+  });
+
+  it('should project completion at the current speed and flag late orders', () => {
+    // 120 packs per minute at 12 per case = 10 cases per minute
+    const casesPerMinute = getCasesPerMinute(120, { sachetsPerCase: 12 });
+    expect(casesPerMinute).toBe(10);
+    expect(getCasesPerMinute(120, {})).toBeNull();
+
+    const progress = getOrderProgress({ plannedQuantity: 1000, dueDate: '2026-10-18' }, 400, casesPerMinute, now)!;
+    expect(progress.remaining).toBe(600);
+    expect(progress.fraction).toBeCloseTo(0.4);
+    expect(progress.projectedCompletion).toEqual(new Date('2026-10-18T09:00:00'));
+    expect(progress.isLate).toBe(false);
+
+    expect(getOrderProgress({ plannedQuantity: 1000, dueDate: '2026-10-17' }, 400, null, now)!.isLate).toBe(true);
+    expect(getOrderProgress({ plannedQuantity: 1000 }, 1060, casesPerMinute, now)).toMatchObject({
+      isComplete: true,
+      fraction: 1,
+      projectedCompletion: null,
+    });
+    expect(getOrderProgress({}, 400, casesPerMinute, now)).toBeNull();
+  });
+
+  it('should offer the next queued order and validate plans', () => {
+    const orders = [order(1, 'ORD-1', { completed_at: '2026-10-18T07:00:00Z' }), order(2, 'ORD-2'), order(3, 'ORD-3')];
+    expect(findNextOrder(orders, 'ORD-2')?.order_number).toBe('ORD-3');
+    expect(findNextOrder([orders[0]], 'ORD-1')).toBeNull();
+
+    expect(parseOrderPlan({ plannedQuantity: '500', dueDate: '2026-10-20', plannedStart: '' }).plan)
+      .toEqual({ plannedQuantity: 500, dueDate: '2026-10-20' });
+    expect(parseOrderPlan({ plannedQuantity: '2.5', dueDate: '', plannedStart: '' }).error).toMatch(/whole number/);
+    expect(parseOrderPlan({ plannedQuantity: '', dueDate: '2026-10-20', plannedStart: '2026-10-21T06:00' }).error)
+      .toMatch(/after the due date/);
+  });
+});
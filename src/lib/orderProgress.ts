@@ -0,0 +1,162 @@
+/**
+ * Order Progress
+ *
+ * Plan vs actual for queued orders. An order carries a planned quantity in
+ * cases, a due date and a planned start. Cases produced are the pallets and
+ * loose cases recorded for the order by submitted shifts plus the shift in
+ * progress - only those of the order's batch when the order has one.
+ *
+ * The projected completion assumes the line keeps its current speed, with
+ * the product's sachets per case turning packs per minute into cases.
+ */
+
+import { endOfDay, parseISO } from 'date-fns';
+import { OrderPlan, PalletScanEntry, LooseCasesEntry, Product } from '../types';
+import { isSupabaseConfigured, fetchOrderCasesProduced, MachineOrderQueueRecord } from './supabase';
+import { getShiftHistory } from './storage';
+import { logError } from './errorMonitoring';
+
+export interface OrderProgress {
+  planned: number;
+  produced: number;
+  remaining: number;
+  fraction: number;                  // Produced / planned, capped at 1
+  isComplete: boolean;
+  projectedCompletion: Date | null;  // At the current speed; null when the line is stopped or the case size unknown
+  isLate: boolean;                   // Past the due date, or projected to finish after it
+}
+
+export const toOrderPlan = (record: MachineOrderQueueRecord): OrderPlan => ({
+  plannedQuantity: record.planned_quantity ?? undefined,
+  dueDate: record.due_date || undefined,
+  plannedStart: record.planned_start || undefined,
+});
+
+/**
+ * Cases on pallets and loose, leaving out ignored entries. With a batch
+ * number only entries of that batch count.
+ */
+export const countCasesProduced = (
+  pallets: PalletScanEntry[],
+  looseCases: LooseCasesEntry[],
+  batchNumber?: string
+): number => {
+  const batch = batchNumber?.trim();
+  const inBatch = (entry: { batchNumber: string; ignored?: boolean }) =>
+    !entry.ignored && (!batch || entry.batchNumber === batch);
+  return pallets.filter(inBatch).reduce((sum, p) => sum + p.casesCount, 0) +
+    looseCases.filter(inBatch).reduce((sum, c) => sum + c.cases, 0);
+};
+
+/**
+ * Line speed in packs per minute as cases per minute
+ */
+export const getCasesPerMinute = (
+  speed: number | null,
+  product?: Pick<Product, 'sachetsPerCase'> | null
+): number | null =>
+  speed && speed > 0 && product?.sachetsPerCase ? speed / product.sachetsPerCase : null;
+
+/**
+ * Progress against the order's planned quantity (null without a plan)
+ */
+export const getOrderProgress = (
+  plan: OrderPlan,
+  produced: number,
+  casesPerMinute: number | null,
+  now = new Date()
+): OrderProgress | null => {
+  const planned = plan.plannedQuantity;
+  if (!planned || planned <= 0) return null;
+
+  const remaining = Math.max(0, planned - produced);
+  const isComplete = remaining === 0;
+  const projectedCompletion = isComplete
+    ? null
+    : casesPerMinute ? new Date(now.getTime() + (remaining / casesPerMinute) * 60000) : null;
+
+  const due = plan.dueDate ? endOfDay(parseISO(plan.dueDate)) : null;
+  const isLate = !!due && !isComplete && (now > due || (projectedCompletion !== null && projectedCompletion > due));
+
+  return {
+    planned,
+    produced,
+    remaining,
+    fraction: Math.min(1, produced / planned),
+    isComplete,
+    projectedCompletion,
+    isLate,
+  };
+};
+
+/**
+ * The queued order to offer once the current one is complete (orders are
+ * sorted by priority)
+ */
+export const findNextOrder = (
+  orders: MachineOrderQueueRecord[],
+  currentOrderNumber: string
+): MachineOrderQueueRecord | null =>
+  orders.find(o => o.is_active && !o.completed_at && o.order_number !== currentOrderNumber) || null;
+
+const countLocalCasesProduced = (orderNumber: string, batchNumber?: string): number =>
+  getShiftHistory()
+    .filter(s => s.orderNumber === orderNumber)
+    .reduce((total, s) => total + countCasesProduced(s.palletScanEntries || [], s.looseCasesEntries || [], batchNumber), 0);
+
+/**
+ * Cases recorded for an order by submitted shifts. Falls back to this
+ * device's shift history without Supabase or when offline.
+ */
+export const loadCasesProducedBefore = async (orderNumber: string, batchNumber?: string): Promise<number> => {
+  if (isSupabaseConfigured) {
+    try {
+      return await fetchOrderCasesProduced(orderNumber, batchNumber);
+    } catch (e) {
+      logError('Failed to load order production', { context: String(e), showToast: false });
+    }
+  }
+  return countLocalCasesProduced(orderNumber, batchNumber);
+};
+
+/**
+ * Read the plan fields of an order form. Blank fields are left out.
+ */
+export const parseOrderPlan = (fields: {
+  plannedQuantity: string;
+  dueDate: string;
+  plannedStart: string;
+}): { plan: OrderPlan; error?: string } => {
+  const plan: OrderPlan = {};
+
+  const quantity = fields.plannedQuantity.trim();
+  if (quantity) {
+    const value = Number(quantity);
+    if (!Number.isInteger(value) || value <= 0) {
+      return { plan, error: 'Planned quantity must be a whole number of cases' };
+    }
+    plan.plannedQuantity = value;
+  }
+
+  const dueDate = fields.dueDate.trim();
+  if (dueDate) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dueDate) || isNaN(parseISO(dueDate).getTime())) {
+      return { plan, error: 'Due date must be a date (yyyy-mm-dd)' };
+    }
+    plan.dueDate = dueDate;
+  }
+
+  const plannedStart = fields.plannedStart.trim();
+  if (plannedStart) {
+    const start = new Date(plannedStart);
+    if (isNaN(start.getTime())) {
+      return { plan, error: 'Planned start must be a date and time' };
+    }
+    if (plan.dueDate && start > endOfDay(parseISO(plan.dueDate))) {
+      return { plan, error: 'Planned start is after the due date' };
+    }
+    plan.plannedStart = start.toISOString();
+  }
+
+  return { plan };
+};
@@ -0,0 +1,61 @@
+/**
+ * Tests for the offline outbox retry policy and queue
+ */
+
+import {
+  getRetryDelay,
+  getFailedAttemptState,
+  mergeOrderPriorities,
+  enqueueOutbox,
+  getOutboxItems,
+  discardOutboxByKey,
+  OUTBOX_MAX_ATTEMPTS,
+} from './outbox';
+
+describe('retry policy', () => {
+  it('should back off exponentially up to a cap', () => {
+    expect(getRetryDelay(1)).toBe(5000);
+    expect(getRetryDelay(3)).toBe(20000);
+    expect(getRetryDelay(20)).toBe(15 * 60 * 1000);
+  });
+
+  it('should dead-letter data errors straight away', () => {
+    const state = getFailedAttemptState({ attempts: 0 }, new Error('null value violates not-null constraint'));
+    expect(state.status).toBe('dead');
+    expect(state.attempts).toBe(1);
+  });
+
+  it('should retry unique conflicts with a concurrent submission', () => {
+    const error = new Error('Failed to submit shift data: duplicate key value violates unique constraint "idx_pallet_scans_unique_pallet"');
+    expect(getFailedAttemptState({ attempts: 0 }, error).status).toBe('failed');
+  });
+
+  it('should dead-letter after the last attempt but keep retrying network failures', () => {
+    const last = { attempts: OUTBOX_MAX_ATTEMPTS - 1 };
+    expect(getFailedAttemptState(last, new Error('Server error')).status).toBe('dead');
+    expect(getFailedAttemptState(last, new TypeError('Failed to fetch')).status).toBe('failed');
+  });
+});
+
+describe('mergeOrderPriorities', () => {
+  it('should drop removed orders and keep new ones after the reordered queue', () => {
+    expect(mergeOrderPriorities([3, 1, 2], [1, 2, 4])).toEqual([1, 2, 4]);
+    expect(mergeOrderPriorities([3, 1, 2], [1, 2, 3, 5])).toEqual([3, 1, 2, 5]);
+  });
+});
+
+describe('outbox queue', () => {
+  it('should replace queued items with the same dedupe key', async () => {
+    const reorder = (orderIds: number[]) => ({ kind: 'order_queue_reorder' as const, payload: { machineId: 'm1', orderIds } });
+    await enqueueOutbox(reorder([1, 2]), { dedupeKey: 'order_queue_reorder:m1' });
+    await enqueueOutbox(reorder([2, 1]), { dedupeKey: 'order_queue_reorder:m1' });
+
+    const items = await getOutboxItems();
+    expect(items).toHaveLength(1);
+    expect(items[0].payload).toEqual({ machineId: 'm1', orderIds: [2, 1] });
+    expect(items[0].status).toBe('queued');
+
+    await discardOutboxByKey('order_queue_reorder:m1');
+    expect(await getOutboxItems()).toHaveLength(0);
+  });
+});
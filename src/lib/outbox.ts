@@ -0,0 +1,515 @@
+/**
+ * Offline Outbox
+ *
+ * Writes that could not reach Supabase - shift submissions, live-session
+ * upserts, order-queue edits, changeovers, line speed changes and activity
+ * events - are kept in IndexedDB and replayed with exponential backoff when
+ * the device is back online (the online event, service-worker Background
+ * Sync, or a periodic check). Items rejected for bad data, or still failing
+ * after OUTBOX_MAX_ATTEMPTS, are dead-lettered until someone retries or
+ * discards them.
+ *
+ * Conflicts are resolved per operation: shift submissions carry an
+ * idempotency key, a live session is only written when the server copy is
+ * not newer, order-queue edits are applied to the queue as it is now, and
+ * changeovers, line speed changes and activity events are written by their
+ * client-generated ID.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  supabase,
+  isSupabaseConfigured,
+  submitShiftData,
+  addMachineOrder,
+  removeMachineOrder,
+  setMachineOrderStatus,
+  upsertChangeoverEvent,
+  ChangeoverEventRecord,
+  insertLineSpeedChange,
+  LineSpeedChangeRecord,
+  insertActivityEvent,
+  ActivityEventRecord,
+  updateMachineOrderPriorities,
+  fetchMachineOrders,
+  FullShiftSubmission,
+} from './supabase';
+import { OrderPlan, OrderStatus } from '../types';
+import { logError } from './errorMonitoring';
+
+const DB_NAME = 'production-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+const LEGACY_QUEUE_KEY = 'failed_submissions_queue';
+const SYNC_TAG = 'sync-outbox';
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+const POLL_INTERVAL_MS = 30000;
+
+export const OUTBOX_MAX_ATTEMPTS = 8;
+
+// A live_sessions row as written by upsertLiveSession
+export interface LiveSessionRow {
+  id: string;
+  updated_at: string;
+  [column: string]: unknown;
+}
+
+export type OutboxOperation =
+  | { kind: 'shift_submission'; payload: FullShiftSubmission }
+  | { kind: 'live_session_upsert'; payload: LiveSessionRow }
+  | { kind: 'order_queue_add'; payload: { machineId: string; orderNumber: string; product: string; batchNumber: string; plan?: OrderPlan } }
+  | { kind: 'order_queue_remove'; payload: { orderId: number } }
+  | { kind: 'order_queue_status'; payload: { orderId: number; status: OrderStatus } }
+  | { kind: 'order_queue_reorder'; payload: { machineId: string; orderIds: number[] } }
+  | { kind: 'changeover_upsert'; payload: ChangeoverEventRecord }
+  | { kind: 'line_speed_change'; payload: LineSpeedChangeRecord }
+  | { kind: 'activity_event'; payload: Omit<ActivityEventRecord, 'created_at'> };
+
+export type OutboxKind = OutboxOperation['kind'];
+
+// queued: waiting for its first replay, failed: waiting to retry, dead: needs attention
+export type OutboxStatus = 'queued' | 'failed' | 'dead';
+
+export type OutboxItem = OutboxOperation & {
+  id: string;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  dedupeKey?: string;  // A newer item with the same key replaces this one
+  lastError?: string;
+};
+
+export interface OutboxFlushResult {
+  sent: number;
+  failed: number;
+  remaining: number;
+}
+
+let outboxListeners: ((items: OutboxItem[]) => void)[] = [];
+let activeFlush: Promise<OutboxFlushResult> | null = null;
+
+// ==========================================
+// RETRY POLICY
+// ==========================================
+
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+export const isNetworkError = (error: unknown): boolean =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) ||
+  /failed to fetch|networkerror|network request failed|load failed/i.test(String(error));
+
+// Unique violations (23505) - another submission recording the same pallet
+// at the same moment; the retry sees its row and stores the pallet as ignored
+export const isConflictError = (error: unknown): boolean =>
+  /duplicate key value/i.test(String(error));
+
+// Errors a retry cannot fix: constraint violations and malformed values
+export const isPermanentError = (error: unknown): boolean =>
+  !isConflictError(error) && /violates|invalid input|out of range|is required/i.test(String(error));
+
+/**
+ * Item state after a failed replay. Network failures keep retrying at the
+ * capped delay; anything else is dead-lettered once attempts run out.
+ */
+export const getFailedAttemptState = (
+  item: Pick<OutboxItem, 'attempts'>,
+  error: unknown,
+  now: Date = new Date()
+): Pick<OutboxItem, 'status' | 'attempts' | 'nextAttemptAt' | 'lastError'> => {
+  const attempts = item.attempts + 1;
+  const dead = !isNetworkError(error) && (isPermanentError(error) || attempts >= OUTBOX_MAX_ATTEMPTS);
+  return {
+    status: dead ? 'dead' : 'failed',
+    attempts,
+    nextAttemptAt: new Date(now.getTime() + getRetryDelay(attempts)).toISOString(),
+    lastError: error instanceof Error ? error.message : String(error),
+  };
+};
+
+/**
+ * Requested order, limited to orders still active; orders added since keep
+ * their place after the reordered ones
+ */
+export const mergeOrderPriorities = (requested: number[], current: number[]): number[] => [
+  ...requested.filter(id => current.includes(id)),
+  ...current.filter(id => !requested.includes(id)),
+];
+
+// ==========================================
+// INDEXEDDB STORE
+// ==========================================
+
+// Tests and very old browsers have no IndexedDB; keep items in memory there
+const hasIndexedDb = typeof indexedDB !== 'undefined';
+const memoryItems = new Map<string, OutboxItem>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// Resolves once the transaction has committed
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const readItems = async (): Promise<OutboxItem[]> => {
+  const items = hasIndexedDb
+    ? await withStore<OutboxItem[]>('readonly', store => store.getAll())
+    : Array.from(memoryItems.values());
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+const writeItem = async (item: OutboxItem): Promise<void> => {
+  if (hasIndexedDb) {
+    await withStore('readwrite', store => store.put(item));
+  } else {
+    memoryItems.set(item.id, item);
+  }
+};
+
+const deleteItem = async (id: string): Promise<void> => {
+  if (hasIndexedDb) {
+    await withStore('readwrite', store => store.delete(id));
+  } else {
+    memoryItems.delete(id);
+  }
+};
+
+const notifyListeners = async (): Promise<void> => {
+  const items = await readItems();
+  outboxListeners.forEach(listener => listener(items));
+};
+
+// Shift submissions queued in localStorage by earlier versions
+const migrateLegacyQueue = async (): Promise<void> => {
+  const stored = localStorage.getItem(LEGACY_QUEUE_KEY);
+  if (!stored) return;
+
+  try {
+    const legacy: { id: string; timestamp: string; data: FullShiftSubmission; error: string }[] = JSON.parse(stored);
+    for (const entry of legacy) {
+      await writeItem({
+        id: entry.id,
+        kind: 'shift_submission',
+        // Entries queued before idempotency keys fall back to their stable queue ID
+        payload: { ...entry.data, idempotencyKey: entry.data.idempotencyKey || entry.id },
+        status: 'queued',
+        attempts: 0,
+        createdAt: entry.timestamp,
+        nextAttemptAt: new Date().toISOString(),
+        lastError: entry.error,
+      });
+    }
+    localStorage.removeItem(LEGACY_QUEUE_KEY);
+  } catch (e) {
+    logError('Failed to migrate the failed submissions queue', { context: String(e), showToast: false });
+  }
+};
+
+// ==========================================
+// REPLAY
+// ==========================================
+
+// Last write wins: a copy saved on the server after this one is kept
+const replayLiveSessionUpsert = async (row: LiveSessionRow): Promise<void> => {
+  const { data: current, error: readError } = await supabase
+    .from('live_sessions')
+    .select('updated_at')
+    .eq('id', row.id)
+    .maybeSingle();
+
+  if (readError) {
+    throw new Error(`Failed to read live session: ${readError.message}`);
+  }
+  if (current?.updated_at && new Date(current.updated_at) > new Date(row.updated_at)) return;
+
+  const { error } = await supabase.from('live_sessions').upsert(row, { onConflict: 'id' });
+  if (error) {
+    throw new Error(`Failed to upsert live session: ${error.message}`);
+  }
+};
+
+const runOperation = async (operation: OutboxOperation): Promise<void> => {
+  switch (operation.kind) {
+    case 'shift_submission':
+      // The idempotency key makes a replay of an already-saved shift a no-op
+      await submitShiftData(operation.payload);
+      return;
+
+    case 'live_session_upsert':
+      await replayLiveSessionUpsert(operation.payload);
+      return;
+
+    case 'order_queue_add': {
+      const { machineId, orderNumber, product, batchNumber, plan } = operation.payload;
+      // Already on the queue from an earlier attempt or another device
+      const existing = await fetchMachineOrders(machineId);
+      if (existing.some(o => o.order_number === orderNumber.trim() && o.batch_number === batchNumber.trim())) return;
+      await addMachineOrder(machineId, orderNumber, product, batchNumber, plan);
+      return;
+    }
+
+    case 'order_queue_remove':
+      if (!(await removeMachineOrder(operation.payload.orderId))) {
+        throw new Error('Failed to remove machine order');
+      }
+      return;
+
+    case 'order_queue_status':
+      // Setting the state an order is already in changes nothing
+      await setMachineOrderStatus(operation.payload.orderId, operation.payload.status);
+      return;
+
+    case 'order_queue_reorder': {
+      const { machineId, orderIds } = operation.payload;
+      const current = (await fetchMachineOrders(machineId)).map(o => o.id!);
+      await updateMachineOrderPriorities(machineId, mergeOrderPriorities(orderIds, current));
+      return;
+    }
+
+    case 'changeover_upsert':
+      await upsertChangeoverEvent(operation.payload);
+      return;
+
+    case 'line_speed_change':
+      await insertLineSpeedChange(operation.payload);
+      return;
+
+    case 'activity_event':
+      await insertActivityEvent(operation.payload);
+      return;
+  }
+};
+
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+// Ask the service worker to wake the app when connectivity returns
+const requestBackgroundSync = (): void => {
+  if (!('serviceWorker' in navigator) || !navigator.serviceWorker.controller) return;
+
+  navigator.serviceWorker.ready
+    .then(registration => (registration as SyncCapableRegistration).sync?.register(SYNC_TAG))
+    .catch(() => {
+      // Background Sync unsupported - the online listener and polling cover it
+    });
+};
+
+// ==========================================
+// PUBLIC API
+// ==========================================
+
+export const getOutboxItems = (): Promise<OutboxItem[]> => readItems();
+
+/**
+ * Queue a write for replay. Items with the same dedupe key are replaced, so
+ * only the latest live-session snapshot or reorder is sent.
+ */
+export const enqueueOutbox = async (
+  operation: OutboxOperation,
+  options: { dedupeKey?: string; error?: unknown } = {}
+): Promise<OutboxItem> => {
+  const now = new Date().toISOString();
+  const item = {
+    ...operation,
+    id: `outbox_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    status: 'queued',
+    attempts: 0,
+    createdAt: now,
+    nextAttemptAt: now,
+    dedupeKey: options.dedupeKey,
+    lastError: options.error === undefined ? undefined : String(options.error),
+  } as OutboxItem;
+
+  if (options.dedupeKey) {
+    const superseded = (await readItems()).filter(i => i.dedupeKey === options.dedupeKey);
+    for (const old of superseded) {
+      await deleteItem(old.id);
+    }
+  }
+
+  await writeItem(item);
+  await notifyListeners();
+  requestBackgroundSync();
+  return item;
+};
+
+/**
+ * Send a write now, or queue it when the device is offline or the request
+ * cannot reach Supabase
+ * @throws When Supabase rejects the write
+ */
+export const sendOrQueue = async (
+  operation: OutboxOperation,
+  options: { dedupeKey?: string } = {}
+): Promise<'sent' | 'queued'> => {
+  if (!navigator.onLine) {
+    await enqueueOutbox(operation, options);
+    return 'queued';
+  }
+
+  try {
+    await runOperation(operation);
+    return 'sent';
+  } catch (e) {
+    if (!isNetworkError(e)) throw e;
+    await enqueueOutbox(operation, { ...options, error: e });
+    return 'queued';
+  }
+};
+
+/**
+ * Drop queued items with this dedupe key (e.g. a live session that has ended)
+ */
+export const discardOutboxByKey = async (dedupeKey: string): Promise<void> => {
+  const matches = (await readItems()).filter(i => i.dedupeKey === dedupeKey);
+  if (matches.length === 0) return;
+  for (const item of matches) {
+    await deleteItem(item.id);
+  }
+  await notifyListeners();
+};
+
+export const discardOutboxItem = async (id: string): Promise<void> => {
+  await deleteItem(id);
+  await notifyListeners();
+};
+
+const runFlush = async (force: boolean): Promise<OutboxFlushResult> => {
+  const now = Date.now();
+  const due = (await readItems()).filter(item =>
+    item.status !== 'dead' && (force || new Date(item.nextAttemptAt).getTime() <= now)
+  );
+  let sent = 0;
+  let failed = 0;
+
+  // Oldest first so order-queue edits replay in the order they were made
+  for (const item of due) {
+    try {
+      await runOperation(item);
+      await deleteItem(item.id);
+      sent++;
+    } catch (e) {
+      await writeItem({ ...item, ...getFailedAttemptState(item, e) });
+      failed++;
+      // Still unreachable - leave the rest for the next attempt
+      if (isNetworkError(e)) break;
+    }
+  }
+
+  const items = await readItems();
+  if (sent > 0 || failed > 0) {
+    outboxListeners.forEach(listener => listener(items));
+  }
+  return { sent, failed, remaining: items.length };
+};
+
+/**
+ * Replay items that are due (or every live item when forced)
+ */
+export const flushOutbox = async (options: { force?: boolean } = {}): Promise<OutboxFlushResult> => {
+  if (!isSupabaseConfigured || !navigator.onLine) {
+    return { sent: 0, failed: 0, remaining: (await readItems()).length };
+  }
+  if (!activeFlush) {
+    activeFlush = runFlush(options.force ?? false).finally(() => {
+      activeFlush = null;
+    });
+  }
+  return activeFlush;
+};
+
+/**
+ * Retry one item now, including a dead-lettered one
+ */
+export const retryOutboxItem = async (id: string): Promise<OutboxFlushResult> => {
+  const item = (await readItems()).find(i => i.id === id);
+  if (item) {
+    await writeItem({ ...item, status: 'queued', attempts: 0, nextAttemptAt: new Date().toISOString() });
+    await notifyListeners();
+  }
+  return flushOutbox();
+};
+
+export const subscribeToOutbox = (listener: (items: OutboxItem[]) => void): (() => void) => {
+  outboxListeners.push(listener);
+  return () => {
+    outboxListeners = outboxListeners.filter(l => l !== listener);
+  };
+};
+
+/**
+ * React hook for the current outbox items
+ */
+export const useOutbox = (): OutboxItem[] => {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    readItems()
+      .then(list => {
+        if (!cancelled) setItems(list);
+      })
+      .catch(e => logError('Failed to read the outbox', { context: String(e), showToast: false }));
+    const unsubscribe = subscribeToOutbox(setItems);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return items;
+};
+
+/**
+ * Move the legacy retry queue into the outbox and replay items when the
+ * device comes online, the service worker signals a sync, or on a timer
+ */
+export const initializeOutboxSync = (): (() => void) => {
+  const flush = () => {
+    flushOutbox().catch(e => logError('Outbox sync failed', { context: String(e), showToast: false }));
+  };
+  const handleWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'SYNC_OUTBOX') flush();
+  };
+
+  migrateLegacyQueue().then(flush);
+  window.addEventListener('online', flush);
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.addEventListener('message', handleWorkerMessage);
+  }
+  const interval = window.setInterval(flush, POLL_INTERVAL_MS);
+
+  return () => {
+    window.removeEventListener('online', flush);
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.removeEventListener('message', handleWorkerMessage);
+    }
+    window.clearInterval(interval);
+  };
+};
@@ -0,0 +1,27 @@
+/**
+ * Tests for pallet sequence and batch checks
+ */
+
+import { checkPalletSequence, findMissingPallets, isBatchMismatch, describeSequenceIssue } from './palletChecks';
+
+describe('pallet checks', () => {
+  it('should flag gaps and out-of-order pallet numbers', () => {
+    expect(checkPalletSequence([], '0007')).toBeNull();
+    expect(checkPalletSequence(['0001', '0002'], '0003')).toBeNull();
+    expect(checkPalletSequence(['0001', '0002'], '0005')).toEqual({ kind: 'gap', missing: ['0003', '0004'] });
+    expect(checkPalletSequence(['0001', '0004'], '0003')).toEqual({ kind: 'out_of_order', highest: '0004' });
+    expect(describeSequenceIssue({ kind: 'gap', missing: ['0003'] }, '12345'))
+      .toBe('Gap in batch 12345 - pallet 0003 not scanned');
+  });
+
+  it('should find pallets missing from a batch', () => {
+    expect(findMissingPallets(['0004', '0001', '0002', '0006'])).toEqual(['0003', '0005']);
+    expect(findMissingPallets(['0001'])).toEqual([]);
+  });
+
+  it('should only flag a batch mismatch when the shift has a batch', () => {
+    expect(isBatchMismatch('12345', '12346')).toBe(true);
+    expect(isBatchMismatch(' 12345 ', '12345')).toBe(false);
+    expect(isBatchMismatch('', '12345')).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Pallet Scan Checks
+ *
+ * Checks a scanned pallet against the pallets of its batch that submitted
+ * shifts have already recorded on any machine or tablet:
+ * - Duplicates: the batch and pallet number were already recorded
+ * - Sequence: pallet numbers skipped, or scanned after a higher number
+ * - Batch mismatch: the pallet's batch differs from the shift's batch
+ *
+ * The submit_shift RPC enforces uniqueness on the server as well - a
+ * pallet recorded by two shifts is stored as ignored the second time.
+ */
+
+import { PalletScanEntry } from '../types';
+import { isSupabaseConfigured, fetchRecordedPallets } from './supabase';
+import { logError } from './errorMonitoring';
+
+// Missing pallet numbers listed in a warning before it is shortened
+const MAX_LISTED_PALLETS = 5;
+
+export interface RecordedPallet {
+  qrCode: string;
+  batchNumber: string;
+  palletNumber: string;
+  casesCount: number;
+  machine: string;
+  shift: string;
+  date: string;
+  recordedAt: Date;
+}
+
+export type PalletSequenceIssue =
+  | { kind: 'gap'; missing: string[] }        // Pallet numbers skipped since the highest recorded
+  | { kind: 'out_of_order'; highest: string }; // Scanned after a higher pallet number
+
+export interface PalletScanCheck {
+  duplicateOf: RecordedPallet | null;          // Already recorded by a submitted shift
+  sequence: PalletSequenceIssue | null;
+  batchMismatch: boolean;
+}
+
+const toPalletNumber = (value: number): string => String(value).padStart(4, '0');
+
+/**
+ * Pallet numbers missing between the lowest and highest of a batch
+ */
+export const findMissingPallets = (palletNumbers: string[]): string[] => {
+  const numbers = new Set(palletNumbers.map(Number).filter(n => Number.isSafeInteger(n)));
+  if (numbers.size === 0) return [];
+  const values = Array.from(numbers);
+  const missing: string[] = [];
+  for (let n = Math.min(...values) + 1; n < Math.max(...values); n++) {
+    if (!numbers.has(n)) missing.push(toPalletNumber(n));
+  }
+  return missing;
+};
+
+/**
+ * Compare a pallet number with the batch's known pallet numbers. The first
+ * pallet of a batch, and the next number in sequence, are fine.
+ */
+export const checkPalletSequence = (known: string[], palletNumber: string): PalletSequenceIssue | null => {
+  const numbers = known.map(Number).filter(n => Number.isSafeInteger(n));
+  const value = Number(palletNumber);
+  if (numbers.length === 0 || !Number.isSafeInteger(value)) return null;
+
+  const highest = Math.max(...numbers);
+  if (value < highest && !numbers.includes(value)) {
+    return { kind: 'out_of_order', highest: toPalletNumber(highest) };
+  }
+  if (value > highest + 1) {
+    const missing: string[] = [];
+    for (let n = highest + 1; n < value; n++) missing.push(toPalletNumber(n));
+    return { kind: 'gap', missing };
+  }
+  return null;
+};
+
+export const isBatchMismatch = (sessionBatch: string, palletBatch: string): boolean =>
+  sessionBatch.trim() !== '' && sessionBatch.trim() !== palletBatch;
+
+export const describeSequenceIssue = (issue: PalletSequenceIssue, batchNumber: string): string => {
+  if (issue.kind === 'out_of_order') {
+    return `Out of sequence - pallet ${issue.highest} of batch ${batchNumber} is already recorded`;
+  }
+  const listed = issue.missing.slice(0, MAX_LISTED_PALLETS).join(', ');
+  const more = issue.missing.length > MAX_LISTED_PALLETS ? ` and ${issue.missing.length - MAX_LISTED_PALLETS} more` : '';
+  return `Gap in batch ${batchNumber} - pallet${issue.missing.length > 1 ? 's' : ''} ${listed}${more} not scanned`;
+};
+
+/**
+ * Pallets of a batch recorded by submitted shifts. Empty without Supabase
+ * or when offline, so scanning is never blocked by the lookup.
+ */
+export const loadRecordedPallets = async (batchNumber: string): Promise<RecordedPallet[]> => {
+  if (!isSupabaseConfigured) return [];
+  try {
+    const records = await fetchRecordedPallets(batchNumber);
+    return records.map(r => ({
+      qrCode: r.qr_code,
+      batchNumber: r.batch_number,
+      palletNumber: r.pallet_number,
+      casesCount: r.cases_count,
+      machine: r.shift_submissions?.sub_machine || r.shift_submissions?.machine || 'another machine',
+      shift: r.shift_submissions?.shift || '',
+      date: r.shift_submissions?.submission_date || '',
+      recordedAt: new Date(r.recorded_at),
+    }));
+  } catch (e) {
+    logError('Failed to load recorded pallets', { context: String(e), showToast: false });
+    return [];
+  }
+};
+
+/**
+ * Check a scanned pallet against the recorded pallets of its batch and the
+ * pallets already scanned this shift
+ */
+export const checkPalletScan = async (
+  scan: { batchNumber: string; palletNumber: string },
+  sessionBatch: string,
+  sessionPallets: PalletScanEntry[]
+): Promise<PalletScanCheck> => {
+  const recorded = await loadRecordedPallets(scan.batchNumber);
+  const scanned = sessionPallets.filter(p => !p.ignored && p.batchNumber === scan.batchNumber);
+
+  return {
+    duplicateOf: recorded.find(p => p.palletNumber === scan.palletNumber) || null,
+    sequence: checkPalletSequence([...recorded, ...scanned].map(p => p.palletNumber), scan.palletNumber),
+    batchMismatch: isBatchMismatch(sessionBatch, scan.batchNumber),
+  };
+};
@@ -0,0 +1,53 @@
+/**
+ * Tests for product targets
+ */
+
+import { findProduct, getMassLimits, checkSachetMass, summarizeProductTargets } from './products';
+import { Product } from '../types';
+
+const rooibos: Product = {
+  id: 'p1',
+  sku: 'RB-100',
+  name: 'Rooibos 100g',
+  ratedSpeed: 120,
+  targetMass: 2.5,
+  massToleranceBelow: 0.1,
+  massToleranceAbove: 0.2,
+  sachetsPerCase: 40,
+  casesPerPallet: 60,
+  active: true,
+};
+
+describe('products', () => {
+  it('should find products by name or SKU', () => {
+    expect(findProduct([rooibos], ' rooibos 100G ')?.id).toBe('p1');
+    expect(findProduct([rooibos], 'rb-100')?.id).toBe('p1');
+    expect(findProduct([rooibos], 'Green Tea')).toBeUndefined();
+  });
+
+  it('should check sachet mass against the tolerances', () => {
+    expect(getMassLimits(rooibos)).toEqual({ lower: 2.4, upper: 2.7 });
+    expect(checkSachetMass(rooibos, 2.35)).toBe('low');
+    expect(checkSachetMass(rooibos, 2.6)).toBe('ok');
+    expect(checkSachetMass(rooibos, 2.8)).toBe('high');
+    expect(checkSachetMass({ ...rooibos, targetMass: undefined }, 2.8)).toBeNull();
+  });
+
+  it('should summarize a shift against the targets', () => {
+    const now = new Date();
+    const summary = summarizeProductTargets(
+      rooibos,
+      [{ id: 's1', speed: 100, timestamp: now }, { id: 's2', speed: 116, timestamp: now }],
+      [
+        { id: 'm1', mass: 2.5, timestamp: now },
+        { id: 'm2', mass: 2.9, timestamp: now },
+        { id: 'm3', mass: 1.0, timestamp: now, ignored: true },
+      ]
+    );
+    expect(summary.averageSpeed).toBe(108);
+    expect(summary.speedAttainment).toBeCloseTo(0.9);
+    expect(summary.averageMass).toBeCloseTo(2.7);
+    expect([summary.massInSpec, summary.massChecked]).toEqual([1, 2]);
+    expect(summarizeProductTargets(undefined, [], []).speedAttainment).toBeNull();
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Product Master Data
+ *
+ * Admin-managed product catalogue: SKU code, rated line speed, target
+ * sachet mass with tolerances, sachets per case and cases per pallet.
+ * Orders and shifts still store the product name, so products are matched
+ * by name (or SKU) to find the targets that speed and sachet mass entries
+ * are compared against. The catalogue lives in the Supabase products table
+ * and is cached on the device; without Supabase it is kept locally.
+ */
+
+import { useEffect, useState } from 'react';
+import { Product, SachetMassEntry, SpeedEntry } from '../types';
+import {
+  isSupabaseConfigured,
+  fetchProductRecords,
+  saveProductRecord,
+  ProductRecord,
+} from './supabase';
+import { logError } from './errorMonitoring';
+
+const PRODUCTS_CACHE_KEY = 'product_catalogue';
+const RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+
+// Shared <datalist> id for product inputs (see ProductOptions)
+export const PRODUCT_LIST_ID = 'product-catalogue';
+
+export type MassCheck = 'low' | 'ok' | 'high';
+
+export interface ProductTargetSummary {
+  ratedSpeed: number | null;
+  averageSpeed: number | null;
+  speedAttainment: number | null; // average speed / rated speed
+  targetMass: number | null;
+  averageMass: number | null;
+  massChecked: number;            // Sachet mass entries compared against the limits
+  massInSpec: number;
+}
+
+let productListeners: ((products: Product[]) => void)[] = [];
+let loadPromise: Promise<Product[]> | null = null;
+let lastLoadedAt = 0;
+
+const optionalNumber = (value: number | null): number | undefined =>
+  value === null ? undefined : Number(value);
+
+const toProduct = (record: ProductRecord): Product => ({
+  id: record.id,
+  sku: record.sku,
+  name: record.name,
+  ratedSpeed: optionalNumber(record.rated_speed),
+  targetMass: optionalNumber(record.target_mass),
+  massToleranceBelow: optionalNumber(record.mass_tolerance_below),
+  massToleranceAbove: optionalNumber(record.mass_tolerance_above),
+  sachetsPerCase: optionalNumber(record.sachets_per_case),
+  casesPerPallet: optionalNumber(record.cases_per_pallet),
+  labelFormat: record.label_format || undefined,
+  active: record.is_active,
+});
+
+const cacheProducts = (products: Product[]): void => {
+  localStorage.setItem(PRODUCTS_CACHE_KEY, JSON.stringify(products));
+  productListeners.forEach(listener => listener(products));
+};
+
+// ==========================================
+// TARGET HELPERS
+// ==========================================
+
+/**
+ * Find a product by name or SKU (case-insensitive)
+ */
+export const findProduct = (products: Product[], value?: string): Product | undefined => {
+  const key = value?.trim().toLowerCase();
+  if (!key) return undefined;
+  return products.find(p => p.name.toLowerCase() === key) ||
+    products.find(p => p.sku.toLowerCase() === key);
+};
+
+/**
+ * Sachet mass spec limits, or null when the product has no target mass
+ */
+export const getMassLimits = (product?: Product): { lower: number; upper: number } | null => {
+  if (!product?.targetMass) return null;
+  return {
+    lower: product.targetMass - (product.massToleranceBelow || 0),
+    upper: product.targetMass + (product.massToleranceAbove || 0),
+  };
+};
+
+export const checkSachetMass = (product: Product | undefined, mass: number): MassCheck | null => {
+  const limits = getMassLimits(product);
+  if (!limits) return null;
+  if (mass < limits.lower) return 'low';
+  if (mass > limits.upper) return 'high';
+  return 'ok';
+};
+
+/**
+ * Speed as a fraction of the product's rated speed (null without a rating)
+ */
+export const getSpeedAttainment = (product: Product | undefined, speed: number): number | null =>
+  product?.ratedSpeed ? speed / product.ratedSpeed : null;
+
+/**
+ * Compare a shift's speed and sachet mass entries with the product targets.
+ * Ignored sachet mass entries are left out.
+ */
+export const summarizeProductTargets = (
+  product: Product | undefined,
+  speedEntries: SpeedEntry[] = [],
+  sachetMassEntries: SachetMassEntry[] = []
+): ProductTargetSummary => {
+  const averageSpeed = speedEntries.length > 0
+    ? speedEntries.reduce((sum, e) => sum + e.speed, 0) / speedEntries.length
+    : null;
+  const masses = sachetMassEntries.filter(e => !e.ignored).map(e => e.mass);
+  const averageMass = masses.length > 0 ? masses.reduce((sum, m) => sum + m, 0) / masses.length : null;
+  const checks = masses.map(m => checkSachetMass(product, m)).filter(c => c !== null);
+
+  return {
+    ratedSpeed: product?.ratedSpeed ?? null,
+    averageSpeed,
+    speedAttainment: averageSpeed !== null ? getSpeedAttainment(product, averageSpeed) : null,
+    targetMass: product?.targetMass ?? null,
+    averageMass,
+    massChecked: checks.length,
+    massInSpec: checks.filter(c => c === 'ok').length,
+  };
+};
+
+// ==========================================
+// REGISTRY
+// ==========================================
+
+/**
+ * The cached catalogue (empty until one has been loaded or saved)
+ */
+export const getProducts = (): Product[] => {
+  try {
+    const stored = localStorage.getItem(PRODUCTS_CACHE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Load the catalogue from Supabase (falls back to the cached catalogue
+ * offline). A catalogue loaded in the last few minutes is reused unless forced.
+ */
+export const loadProducts = (force = false): Promise<Product[]> => {
+  const isFresh = Date.now() - lastLoadedAt < RELOAD_INTERVAL_MS;
+  if (!isSupabaseConfigured || (isFresh && !force)) return Promise.resolve(getProducts());
+
+  if (!loadPromise) {
+    loadPromise = fetchProductRecords()
+      .then(records => {
+        const products = records.map(toProduct);
+        lastLoadedAt = Date.now();
+        cacheProducts(products);
+        return products;
+      })
+      .catch(e => {
+        logError('Failed to fetch products, using cached catalogue', { context: String(e), showToast: false });
+        return getProducts();
+      })
+      .finally(() => {
+        loadPromise = null;
+      });
+  }
+  return loadPromise;
+};
+
+/**
+ * Create or update a product
+ * @throws When the SKU or name is already used by another product
+ */
+export const saveProduct = async (
+  product: Omit<Product, 'id'> & { id?: string }
+): Promise<Product> => {
+  const sku = product.sku.trim().toUpperCase();
+  const name = product.name.trim();
+  const existing = getProducts();
+  const others = existing.filter(p => p.id !== product.id);
+  if (others.some(p => p.sku === sku)) {
+    throw new Error(`SKU ${sku} is already in use`);
+  }
+  if (others.some(p => p.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A product named "${name}" already exists`);
+  }
+
+  let saved: Product;
+  if (isSupabaseConfigured) {
+    saved = toProduct(await saveProductRecord({
+      id: product.id,
+      sku,
+      name,
+      rated_speed: product.ratedSpeed ?? null,
+      target_mass: product.targetMass ?? null,
+      mass_tolerance_below: product.massToleranceBelow ?? null,
+      mass_tolerance_above: product.massToleranceAbove ?? null,
+      sachets_per_case: product.sachetsPerCase ?? null,
+      cases_per_pallet: product.casesPerPallet ?? null,
+      label_format: product.labelFormat || null,
+      is_active: product.active,
+    }));
+  } else {
+    saved = { ...product, id: product.id || sku, sku, name };
+  }
+
+  cacheProducts([...others, saved].sort((a, b) => a.name.localeCompare(b.name)));
+  return saved;
+};
+
+export const subscribeToProducts = (
+  listener: (products: Product[]) => void
+): (() => void) => {
+  productListeners.push(listener);
+  return () => {
+    productListeners = productListeners.filter(l => l !== listener);
+  };
+};
+
+/**
+ * React hook for the catalogue - starts from the cache and refreshes from
+ * Supabase on mount
+ */
+export const useProducts = (): Product[] => {
+  const [products, setProducts] = useState<Product[]>(getProducts);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToProducts(setProducts);
+    loadProducts();
+    return unsubscribe;
+  }, []);
+
+  return products;
+};
@@ -0,0 +1,64 @@
+/**
+ * Tests for keyboard-wedge scanner capture
+ */
+
+import { renderHook } from '@testing-library/react';
+import { createScanBuffer, classifyScan, useScanCapture } from './scanCapture';
+
+const type = (buffer: ReturnType<typeof createScanBuffer>, text: string, start: number, interval: number) => {
+  let result: string | null = null;
+  text.split('').forEach((key, i) => {
+    result = buffer.push(key, start + i * interval);
+  });
+  return { result, end: start + (text.length - 1) * interval };
+};
+
+describe('scan capture', () => {
+  it('should report fast bursts ended by Enter and ignore typing', () => {
+    const buffer = createScanBuffer();
+
+    const scanned = type(buffer, '1234500070050', 1000, 10);
+    expect(scanned.result).toBeNull();
+    expect(buffer.push('Enter', scanned.end + 10)).toBe('1234500070050');
+
+    const typed = type(buffer, '12345', 5000, 200);
+    expect(buffer.push('Enter', typed.end + 200)).toBeNull();
+
+    // A pause before Enter, or a payload that is too short, is not a scan
+    const paused = type(buffer, 'BADGE01', 9000, 10);
+    expect(buffer.push('Enter', paused.end + 500)).toBeNull();
+    const short = type(buffer, '12', 12000, 10);
+    expect(buffer.push('Enter', short.end + 10)).toBeNull();
+  });
+
+  it('should start a new burst after a slow keystroke and skip modifier keys', () => {
+    const buffer = createScanBuffer({ maxKeyIntervalMs: 30 });
+    buffer.push('x', 0);
+    const scanned = type(buffer, 'OP-77', 1000, 5);
+    buffer.push('Shift', scanned.end + 5);
+    buffer.push('A', scanned.end + 10);
+    expect(buffer.push('Enter', scanned.end + 15)).toBe('OP-77A');
+  });
+
+  it('should route pallet labels and badges by format', () => {
+    expect(classifyScan('1234500070050')).toBe('pallet');
+    expect(classifyScan('(00)106141411234567897(10)AB-12(37)60')).toBe('pallet');
+    expect(classifyScan('OP-0042')).toBe('badge');
+    expect(classifyScan('1234500070000')).toBe('badge');
+  });
+
+  it('should keep the group separator a scanner types as Ctrl+]', () => {
+    const onScan = jest.fn();
+    renderHook(() => useScanCapture(onScan));
+    const press = (key: string, ctrlKey = false) =>
+      window.dispatchEvent(new KeyboardEvent('keydown', { key, ctrlKey }));
+
+    '0010614141123456789710AB-12'.split('').forEach(key => press(key));
+    press('Control', true);
+    press(']', true);
+    '3760'.split('').forEach(key => press(key));
+    press('Enter');
+
+    expect(onScan).toHaveBeenCalledWith('0010614141123456789710AB-12\u001d3760', 'pallet');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Keyboard-Wedge Scanner Capture
+ *
+ * USB and Bluetooth handheld scanners act as keyboards: they type the
+ * barcode's characters a few milliseconds apart and finish with Enter.
+ * Keystrokes are collected into a buffer and a scan is reported when Enter
+ * ends a burst that was typed faster than a person could type it.
+ *
+ * Keystrokes into text fields are left alone so typing in forms and PIN
+ * fields works as before. A scan is routed by its format: payloads that a
+ * registered pallet label format accepts are pallets, anything else is an
+ * operator badge.
+ */
+
+import { useEffect, useRef } from 'react';
+import { parseAnyLabel } from './labelFormats';
+
+export type ScanKind = 'pallet' | 'badge';
+
+export interface ScanCaptureOptions {
+  maxKeyIntervalMs?: number; // Longest gap between two scanned characters
+  minLength?: number;        // Shortest payload reported as a scan
+}
+
+export interface ScanBuffer {
+  // Feed a key press; returns the scanned payload when Enter ends a burst
+  push: (key: string, timestamp: number) => string | null;
+  reset: () => void;
+}
+
+const DEFAULT_MAX_KEY_INTERVAL_MS = 50;
+const DEFAULT_MIN_LENGTH = 4;
+
+// GS1 group separator (FNC1); scanners type it as Ctrl+]
+const GS = '\u001d';
+
+/**
+ * Collects keystrokes and recognises scanner bursts. A slow keystroke
+ * starts a new burst, so characters typed by hand never reach a scan.
+ */
+export const createScanBuffer = (options: ScanCaptureOptions = {}): ScanBuffer => {
+  const maxInterval = options.maxKeyIntervalMs ?? DEFAULT_MAX_KEY_INTERVAL_MS;
+  const minLength = options.minLength ?? DEFAULT_MIN_LENGTH;
+  let chars = '';
+  let lastKeyAt = 0;
+
+  const reset = () => {
+    chars = '';
+    lastKeyAt = 0;
+  };
+
+  const push = (key: string, timestamp: number): string | null => {
+    const inBurst = chars !== '' && timestamp - lastKeyAt <= maxInterval;
+
+    if (key === 'Enter') {
+      const payload = inBurst && chars.length >= minLength ? chars : null;
+      reset();
+      return payload;
+    }
+
+    // Shift, Alt and the like arrive between characters; they neither
+    // add to nor break a burst
+    if (key.length !== 1) return null;
+
+    chars = inBurst ? chars + key : key;
+    lastKeyAt = timestamp;
+    return null;
+  };
+
+  return { push, reset };
+};
+
+/**
+ * Pallet when any registered label format accepts the payload, otherwise
+ * an operator badge
+ */
+export const classifyScan = (payload: string): ScanKind =>
+  parseAnyLabel(payload) ? 'pallet' : 'badge';
+
+const isTextField = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * React hook reporting keyboard-wedge scans anywhere on the page while
+ * enabled. The Enter that ends a scan is swallowed so it does not also
+ * press the focused button.
+ */
+export const useScanCapture = (
+  onScan: (payload: string, kind: ScanKind) => void,
+  { enabled = true, ...options }: ScanCaptureOptions & { enabled?: boolean } = {}
+) => {
+  // Latest handler without re-registering the listener on every render
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  const { maxKeyIntervalMs, minLength } = options;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const buffer = createScanBuffer({ maxKeyIntervalMs, minLength });
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.ctrlKey && e.key === ']' ? GS : e.key;
+      const isShortcut = (e.ctrlKey || e.metaKey) && key !== GS && key !== 'Control' && key !== 'Meta';
+      if (isShortcut || isTextField(e.target)) {
+        buffer.reset();
+        return;
+      }
+      const payload = buffer.push(key, e.timeStamp);
+      if (payload) {
+        e.preventDefault();
+        e.stopPropagation();
+        onScanRef.current(payload, classifyScan(payload));
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled, maxKeyIntervalMs, minLength]);
+};
@@ -6,6 +6,7 @@
 import { supabase, isSupabaseConfigured } from './supabase';
 import { getFacilitySettings } from './facilitySettings';
 import { logError, showWarning, showInfo } from './errorMonitoring';
+import { ProductionState } from '../types';
 
 // ==========================================
 // SESSION LOCKING
@@ -15,6 +16,7 @@ export interface ActiveSession {
   id: string;
   machine_name: string;
   operator_name: string;
+  operator_id?: string | null;
   shift: string;
   session_date: string;
   browser_id: string;
@@ -81,8 +83,7 @@ export const checkForActiveSession = async (
 
     // Check each session
     for (const session of sessions) {
-      const lastHeartbeat = new Date(session.last_heartbeat).getTime();
-      const isStale = (now - lastHeartbeat) > SESSION_STALE_THRESHOLD;
+      const isStale = isHeartbeatStale(new Date(session.last_heartbeat), now);
 
       if (session.browser_id === browserId) {
         // This is our own session
@@ -104,12 +105,14 @@ export const checkForActiveSession = async (
 
 /**
  * Acquire session lock
+ * @param operatorId - Registry ID of the identified operator, when known
  */
 export const acquireSessionLock = async (
   machineName: string,
   operatorName: string,
   shift: string,
-  sessionDate: string
+  sessionDate: string,
+  operatorId?: string
 ): Promise<{ success: boolean; error?: string }> => {
   if (!isSupabaseConfigured) {
     return { success: true }; // Offline mode - no locking
@@ -149,6 +152,7 @@ export const acquireSessionLock = async (
       .upsert({
         machine_name: machineName,
         operator_name: operatorName,
+        operator_id: operatorId || null,
         shift,
         session_date: sessionDate,
         browser_id: browserId,
@@ -285,6 +289,49 @@ export const subscribeToSessionConflicts = (
   };
 };
 
+// ==========================================
+// HEARTBEATS
+// ==========================================
+
+/**
+ * Whether a tablet has stopped sending heartbeats for its session
+ */
+export const isHeartbeatStale = (lastHeartbeat: Date, now: number = Date.now()): boolean =>
+  now - lastHeartbeat.getTime() > SESSION_STALE_THRESHOLD;
+
+/**
+ * Latest heartbeat of each machine's session lock, or null when heartbeats
+ * are not tracked (no Supabase, locking disabled) or cannot be fetched
+ */
+export const fetchSessionHeartbeats = async (): Promise<Map<string, Date> | null> => {
+  if (!isSupabaseConfigured || !getFacilitySettings().sessionLockingEnabled) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('active_sessions')
+      .select('machine_name, last_heartbeat')
+      .eq('is_active', true);
+
+    if (error) {
+      logError('Failed to fetch session heartbeats', { context: error.message, showToast: false });
+      return null;
+    }
+
+    const heartbeats = new Map<string, Date>();
+    (data || []).forEach(session => {
+      const heartbeat = new Date(session.last_heartbeat);
+      const latest = heartbeats.get(session.machine_name);
+      if (!latest || heartbeat > latest) heartbeats.set(session.machine_name, heartbeat);
+    });
+    return heartbeats;
+  } catch (e) {
+    logError('Error fetching session heartbeats', { context: String(e), showToast: false });
+    return null;
+  }
+};
+
 // ==========================================
 // PRODUCTION TIMER PERSISTENCE
 // ==========================================
@@ -295,16 +342,58 @@ export interface ProductionTimerState {
   pausedAt: string | null;   // ISO string
   totalRunTimeMs: number;
   lastResumedAt: string | null; // ISO string
+  pauseReason?: string | null;  // Why the current pause happened, when known
+  pauseReasonCode?: string | null;
   pauseHistory: Array<{
     pausedAt: string;
     resumedAt: string;
     durationMs: number;
     reason?: string;
+    reasonCode?: string;
   }>;
 }
 
 const TIMER_STORAGE_KEY_PREFIX = 'production_timer_';
 
+/**
+ * Timer state to persist for the capture screen's production state
+ */
+export const toProductionTimerState = (state: ProductionState): ProductionTimerState => ({
+  isRunning: state.isRunning,
+  startTime: state.startTime?.toISOString() || null,
+  pausedAt: state.pausedAt?.toISOString() || null,
+  totalRunTimeMs: state.totalRunTimeMs,
+  lastResumedAt: state.lastResumedAt?.toISOString() || null,
+  pauseReason: state.pauseReason || null,
+  pauseReasonCode: state.pauseReasonCode || null,
+  pauseHistory: (state.pauseHistory || []).map(pause => ({
+    pausedAt: pause.pausedAt.toISOString(),
+    resumedAt: pause.resumedAt.toISOString(),
+    durationMs: pause.resumedAt.getTime() - pause.pausedAt.getTime(),
+    reason: pause.reason,
+    reasonCode: pause.reasonCode,
+  })),
+});
+
+/**
+ * Production state restored from a persisted timer
+ */
+export const fromProductionTimerState = (timer: ProductionTimerState): ProductionState => ({
+  isRunning: timer.isRunning,
+  startTime: timer.startTime ? new Date(timer.startTime) : null,
+  pausedAt: timer.pausedAt ? new Date(timer.pausedAt) : null,
+  totalRunTimeMs: timer.totalRunTimeMs,
+  lastResumedAt: timer.lastResumedAt ? new Date(timer.lastResumedAt) : null,
+  pauseReason: timer.pauseReason || null,
+  pauseReasonCode: timer.pauseReasonCode || null,
+  pauseHistory: (timer.pauseHistory || []).map(pause => ({
+    pausedAt: new Date(pause.pausedAt),
+    resumedAt: new Date(pause.resumedAt),
+    reason: pause.reason,
+    reasonCode: pause.reasonCode,
+  })),
+});
+
 /**
  * Get timer storage key
  */
@@ -412,12 +501,11 @@ const syncTimerToSupabase = async (
 /**
  * Calculate current run time from timer state
  */
-export const calculateCurrentRunTime = (state: ProductionTimerState): number => {
+export const calculateCurrentRunTime = (state: ProductionTimerState, now: number = Date.now()): number => {
   if (!state.isRunning || !state.lastResumedAt) {
     return state.totalRunTimeMs;
   }
 
-  const now = Date.now();
   const lastResumed = new Date(state.lastResumedAt).getTime();
   return state.totalRunTimeMs + (now - lastResumed);
 };
@@ -0,0 +1,81 @@
+/**
+ * Tests for shift pattern resolution
+ */
+
+import {
+  resolveShift,
+  buildDayNightPattern,
+  THREE_SHIFT_PATTERN,
+  CONTINENTAL_PATTERN,
+  parseShiftTime,
+  formatShiftTime,
+  addDaysToDateString,
+  describeShiftPattern,
+} from './shiftPatterns';
+
+describe('time helpers', () => {
+  it('should parse and format HH:mm', () => {
+    expect(parseShiftTime('06:30')).toBe(390);
+    expect(formatShiftTime(390)).toBe('06:30');
+    expect(formatShiftTime(24 * 60 + 5)).toBe('00:05');
+  });
+
+  it('should add days across month boundaries', () => {
+    expect(addDaysToDateString('2026-03-01', -1)).toBe('2026-02-28');
+    expect(addDaysToDateString('2026-12-31', 1)).toBe('2027-01-01');
+  });
+});
+
+describe('resolveShift', () => {
+  const dayNight = buildDayNightPattern(6, 18);
+
+  it('should resolve the day shift', () => {
+    const context = resolveShift(dayNight, '2026-05-10', 10 * 60);
+    expect(context.shift).toBe('Day');
+    expect(context.shiftDate).toBe('2026-05-10');
+    expect(context.minutesToEnd).toBe(8 * 60);
+  });
+
+  it('should keep a night shift on the date it started after midnight', () => {
+    const evening = resolveShift(dayNight, '2026-05-10', 23 * 60);
+    const earlyMorning = resolveShift(dayNight, '2026-05-11', 2 * 60);
+    expect(evening.shift).toBe('Night');
+    expect(earlyMorning.shift).toBe('Night');
+    expect(earlyMorning.shiftDate).toBe('2026-05-10');
+    expect(earlyMorning.minutesToEnd).toBe(4 * 60);
+  });
+
+  it('should resolve three 8-hour shifts', () => {
+    expect(resolveShift(THREE_SHIFT_PATTERN, '2026-05-10', 6 * 60).shift).toBe('Morning');
+    expect(resolveShift(THREE_SHIFT_PATTERN, '2026-05-10', 14 * 60 + 1).shift).toBe('Afternoon');
+    const night = resolveShift(THREE_SHIFT_PATTERN, '2026-05-11', 5 * 60 + 59);
+    expect(night.shift).toBe('Night');
+    expect(night.shiftDate).toBe('2026-05-10');
+    expect(night.durationMinutes).toBe(8 * 60);
+  });
+
+  it('should look up the crew from the rotation calendar', () => {
+    // Anchor date is day 0 of the cycle
+    expect(resolveShift(CONTINENTAL_PATTERN, '2026-01-05', 7 * 60).crew).toBe('A');
+    expect(resolveShift(CONTINENTAL_PATTERN, '2026-01-07', 15 * 60).crew).toBe('A');
+    // Cycle repeats every 8 days
+    expect(resolveShift(CONTINENTAL_PATTERN, '2026-01-13', 7 * 60).crew).toBe('A');
+    // Dates before the anchor wrap backwards
+    expect(resolveShift(CONTINENTAL_PATTERN, '2026-01-04', 7 * 60).crew).toBe('D');
+  });
+
+  it('should cover every shift exactly once per day in the continental rotation', () => {
+    CONTINENTAL_PATTERN.rotation!.cycle.forEach(day => {
+      expect(new Set(day).size).toBe(day.length);
+    });
+  });
+});
+
+describe('describeShiftPattern', () => {
+  it('should list shifts with start and end times', () => {
+    expect(describeShiftPattern(buildDayNightPattern(6, 18))).toEqual([
+      'Day 06:00 - 18:00',
+      'Night 18:00 - 06:00',
+    ]);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Shift Pattern Model
+ * Named shifts with start times and an optional crew rotation calendar.
+ *
+ * A pattern's shifts cover the full 24 hours: each shift runs from its start
+ * time until the next shift's start time (the last shift wraps past midnight).
+ * A shift belongs to the production date on which it started, so a night
+ * shift that crosses midnight keeps one session key for its whole duration.
+ */
+
+export interface ShiftDefinition {
+  name: string;   // e.g. 'Day', 'Morning', 'Night'
+  start: string;  // Local start time, 'HH:mm'
+}
+
+export interface CrewRotation {
+  anchorDate: string;   // YYYY-MM-DD - first day of the rotation cycle
+  crews: string[];      // e.g. ['A', 'B', 'C', 'D']
+  cycle: string[][];    // One row per day of the cycle, crew per shift index ('' = not worked)
+}
+
+export interface ShiftPattern {
+  id: string;
+  name: string;
+  shifts: ShiftDefinition[];
+  rotation?: CrewRotation;
+}
+
+export interface ShiftContext {
+  shift: string;              // Shift name
+  shiftIndex: number;         // Index into pattern.shifts
+  shiftDate: string;          // Production date the shift started on (YYYY-MM-DD)
+  crew?: string;              // Crew on shift, when the pattern has a rotation
+  startMinutes: number;       // Start time in minutes from local midnight
+  durationMinutes: number;
+  minutesIntoShift: number;
+  minutesToEnd: number;
+  patternId: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// ==========================================
+// BUILT-IN PATTERNS
+// ==========================================
+
+export const DAY_NIGHT_PATTERN_ID = 'day-night';
+
+/**
+ * Classic 2×12h Day/Night pattern - start hours come from facility settings
+ */
+export const buildDayNightPattern = (dayShiftStart: number, dayShiftEnd: number): ShiftPattern => ({
+  id: DAY_NIGHT_PATTERN_ID,
+  name: '2 × 12h (Day / Night)',
+  shifts: [
+    { name: 'Day', start: formatShiftTime(dayShiftStart * 60) },
+    { name: 'Night', start: formatShiftTime(dayShiftEnd * 60) },
+  ],
+});
+
+export const THREE_SHIFT_PATTERN: ShiftPattern = {
+  id: 'three-shift',
+  name: '3 × 8h (Morning / Afternoon / Night)',
+  shifts: [
+    { name: 'Morning', start: '06:00' },
+    { name: 'Afternoon', start: '14:00' },
+    { name: 'Night', start: '22:00' },
+  ],
+};
+
+// 4 crews, each working 2 mornings, 2 afternoons, 2 nights then 2 days off
+export const CONTINENTAL_PATTERN: ShiftPattern = {
+  id: 'continental-4-crew',
+  name: '4-crew continental (3 × 8h)',
+  shifts: THREE_SHIFT_PATTERN.shifts,
+  rotation: {
+    anchorDate: '2026-01-05',
+    crews: ['A', 'B', 'C', 'D'],
+    cycle: [
+      ['A', 'D', 'C'],
+      ['A', 'D', 'C'],
+      ['B', 'A', 'D'],
+      ['B', 'A', 'D'],
+      ['C', 'B', 'A'],
+      ['C', 'B', 'A'],
+      ['D', 'C', 'B'],
+      ['D', 'C', 'B'],
+    ],
+  },
+};
+
+export const BUILT_IN_PATTERNS: ShiftPattern[] = [THREE_SHIFT_PATTERN, CONTINENTAL_PATTERN];
+
+// ==========================================
+// TIME HELPERS
+// ==========================================
+
+/**
+ * Parse 'HH:mm' to minutes from midnight
+ */
+export const parseShiftTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return ((hours || 0) * 60 + (minutes || 0)) % MINUTES_PER_DAY;
+};
+
+/**
+ * Format minutes from midnight as 'HH:mm'
+ */
+export const formatShiftTime = (minutes: number): string => {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const h = Math.floor(normalized / 60).toString().padStart(2, '0');
+  const m = (normalized % 60).toString().padStart(2, '0');
+  return `${h}:${m}`;
+};
+
+/**
+ * Add days to a YYYY-MM-DD date string
+ */
+export const addDaysToDateString = (date: string, days: number): string => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().split('T')[0];
+};
+
+/**
+ * Whole days between two YYYY-MM-DD date strings (b - a)
+ */
+export const daysBetween = (a: string, b: string): number => {
+  const [ay, am, ad] = a.split('-').map(Number);
+  const [by, bm, bd] = b.split('-').map(Number);
+  return Math.round((Date.UTC(by, bm - 1, bd) - Date.UTC(ay, am - 1, ad)) / 86400000);
+};
+
+// ==========================================
+// PATTERN RESOLUTION
+// ==========================================
+
+/**
+ * Shifts sorted by start time, with their start in minutes
+ */
+const sortedShifts = (pattern: ShiftPattern) =>
+  pattern.shifts
+    .map((shift, index) => ({ ...shift, index, startMinutes: parseShiftTime(shift.start) }))
+    .sort((a, b) => a.startMinutes - b.startMinutes);
+
+/**
+ * Crew working a shift on a given production date, if the pattern has a rotation
+ */
+export const getCrewForShift = (
+  pattern: ShiftPattern,
+  shiftIndex: number,
+  shiftDate: string
+): string | undefined => {
+  const rotation = pattern.rotation;
+  if (!rotation || rotation.cycle.length === 0) return undefined;
+
+  const length = rotation.cycle.length;
+  const dayInCycle = ((daysBetween(rotation.anchorDate, shiftDate) % length) + length) % length;
+  return rotation.cycle[dayInCycle][shiftIndex] || undefined;
+};
+
+/**
+ * Resolve which shift is active at a facility-local date and time
+ * @param pattern - Shift pattern to resolve against
+ * @param localDate - Facility-local calendar date (YYYY-MM-DD)
+ * @param localMinutes - Facility-local minutes since midnight
+ */
+export const resolveShift = (
+  pattern: ShiftPattern,
+  localDate: string,
+  localMinutes: number
+): ShiftContext => {
+  const shifts = sortedShifts(pattern);
+  if (shifts.length === 0) {
+    throw new Error(`Shift pattern "${pattern.id}" has no shifts`);
+  }
+
+  // Last shift that has started today; before the first start we are still in
+  // the previous day's last shift
+  let position = -1;
+  shifts.forEach((shift, i) => {
+    if (shift.startMinutes <= localMinutes) position = i;
+  });
+  const startedYesterday = position === -1;
+  if (startedYesterday) position = shifts.length - 1;
+
+  const current = shifts[position];
+  const next = shifts[(position + 1) % shifts.length];
+  const durationMinutes = shifts.length === 1
+    ? MINUTES_PER_DAY
+    : ((next.startMinutes - current.startMinutes) + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+  const minutesIntoShift = ((localMinutes - current.startMinutes) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const shiftDate = startedYesterday ? addDaysToDateString(localDate, -1) : localDate;
+
+  return {
+    shift: current.name,
+    shiftIndex: current.index,
+    shiftDate,
+    crew: getCrewForShift(pattern, current.index, shiftDate),
+    startMinutes: current.startMinutes,
+    durationMinutes,
+    minutesIntoShift,
+    minutesToEnd: durationMinutes - minutesIntoShift,
+    patternId: pattern.id,
+  };
+};
+
+/**
+ * Display string for each shift in a pattern, e.g. 'Morning 06:00 - 14:00'
+ */
+export const describeShiftPattern = (pattern: ShiftPattern): string[] => {
+  const shifts = sortedShifts(pattern);
+  return shifts.map((shift, i) => {
+    const next = shifts[(i + 1) % shifts.length];
+    return `${shift.name} ${formatShiftTime(shift.startMinutes)} - ${formatShiftTime(next.startMinutes)}`;
+  });
+};
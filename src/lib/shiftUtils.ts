@@ -1,78 +1,58 @@
 /**
  * Shared utilities for shift-related calculations
  *
- * Shift Schedule (GMT+2):
- * - Day Shift: 06:00 - 18:00
- * - Night Shift: 18:00 - 06:00
+ * Shifts come from the configured shift pattern (see shiftPatterns.ts and
+ * facilitySettings.ts) - Day/Night, 3 × 8h or a crew rotation, per line.
+ * All dates and times are facility-local, in the facility's IANA time zone.
  */
 
-// GMT offset for the facility (South Africa = GMT+2)
-export const GMT_OFFSET = 2;
-
-// Shift boundaries in hours (24-hour format)
-export const DAY_SHIFT_START = 6;  // 06:00
-export const DAY_SHIFT_END = 18;   // 18:00
+import { getShiftContext, getShiftEndTime, getFacilityLocalTime, getFacilitySettings } from './facilitySettings';
+import { ShiftContext } from './shiftPatterns';
 
 /**
  * Get the current shift based on time
  * @param date - Optional date to check (defaults to now)
- * @returns 'Day' or 'Night'
+ * @param machineName - Optional machine, to use its line's shift pattern
+ * @returns Shift name (e.g. 'Day', 'Morning')
  */
-export const getCurrentShift = (date: Date = new Date()): 'Day' | 'Night' => {
-  const hours = date.getUTCHours() + GMT_OFFSET;
-  return hours >= DAY_SHIFT_START && hours < DAY_SHIFT_END ? 'Day' : 'Night';
+export const getCurrentShift = (date: Date = new Date(), machineName?: string): string => {
+  return getShiftContext(date, machineName).shift;
 };
 
 /**
- * Get the local hours adjusted for GMT offset
+ * Get the local hours in the facility time zone
  * @param date - Optional date (defaults to now)
  * @returns Hours in 24-hour format
  */
 export const getLocalHours = (date: Date = new Date()): number => {
-  return date.getUTCHours() + GMT_OFFSET;
+  return Math.floor(getFacilityLocalTime(date).minutes / 60);
 };
 
 /**
- * Check if currently within submission window (15 min before/after shift end)
+ * Check if currently within submission window (from the facility's
+ * submission window before each shift end until the same time after it)
  * @param date - Optional date to check (defaults to now)
+ * @param machineName - Optional machine, to use its line's shift pattern
  * @returns Object with isInWindow and timeToWindow
  */
-export const checkSubmissionWindow = (date: Date = new Date()): {
+export const checkSubmissionWindow = (date: Date = new Date(), machineName?: string): {
   isInWindow: boolean;
   timeToWindow: string;
   shiftEndMinutes: number;
 } => {
-  const hours = getLocalHours(date);
-  const minutes = date.getMinutes();
-  const totalMinutes = hours * 60 + minutes;
-
-  // Day shift ends at 18:00 (1080 min), Night shift ends at 06:00 (360 min)
-  const dayShiftEnd = DAY_SHIFT_END * 60; // 1080
-  const nightShiftEnd = DAY_SHIFT_START * 60; // 360
-  const windowSize = 15; // 15 minutes before/after
-
-  // Determine which shift end we're closest to
-  const currentShift = getCurrentShift(date);
-  const shiftEndMinutes = currentShift === 'Day' ? dayShiftEnd : nightShiftEnd;
-
-  // Calculate if within window
-  let minutesToEnd: number;
-  if (currentShift === 'Day') {
-    minutesToEnd = dayShiftEnd - totalMinutes;
-  } else {
-    // Night shift - handle midnight crossing
-    if (totalMinutes >= DAY_SHIFT_END * 60) {
-      minutesToEnd = (24 * 60 - totalMinutes) + nightShiftEnd;
-    } else {
-      minutesToEnd = nightShiftEnd - totalMinutes;
-    }
-  }
+  const { minutesToEnd, minutesIntoShift } = getShiftContext(date, machineName);
+  const windowSize = getFacilitySettings().submissionWindowMinutes;
+  const shiftEndMinutes = getFacilityLocalTime(getShiftEndTime(date, machineName)).minutes;
 
-  const isInWindow = minutesToEnd <= windowSize && minutesToEnd >= -windowSize;
+  // Shifts follow on from each other, so the minutes into this shift are the
+  // minutes since the previous one ended
+  const isInWindow = minutesToEnd <= windowSize || minutesIntoShift <= windowSize;
 
   // Format time to window
   let timeToWindow = '';
-  if (minutesToEnd > windowSize) {
+  if (isInWindow) {
+    timeToWindow = 'In submission window';
+  } else {
     const hoursToWindow = Math.floor((minutesToEnd - windowSize) / 60);
     const minsToWindow = (minutesToEnd - windowSize) % 60;
     if (hoursToWindow > 0) {
@@ -80,30 +60,42 @@ export const checkSubmissionWindow = (date: Date = new Date()): {
     } else {
       timeToWindow = `${minsToWindow}m until submission window`;
     }
-  } else if (minutesToEnd < -windowSize) {
-    timeToWindow = 'Submission window closed';
-  } else {
-    timeToWindow = 'In submission window';
   }
 
   return { isInWindow, timeToWindow, shiftEndMinutes };
 };
 
 /**
- * Get today's date string in ISO format (YYYY-MM-DD)
+ * Get today's facility-local date string in ISO format (YYYY-MM-DD)
+ * @param date - Optional date (defaults to now)
  * @returns Date string
  */
-export const getTodayDateString = (): string => {
-  return new Date().toISOString().split('T')[0];
+export const getTodayDateString = (date: Date = new Date()): string => {
+  return getFacilityLocalTime(date).dateString;
+};
+
+/**
+ * Get the active shift and the production date it belongs to
+ * @param machineName - Machine whose line pattern applies
+ * @param date - Optional date (defaults to now)
+ * @returns Shift context with shift name, shift date and crew
+ */
+export const getCurrentShiftContext = (machineName?: string, date: Date = new Date()): ShiftContext => {
+  return getShiftContext(date, machineName);
 };
 
 /**
  * Generate session key for localStorage
  * @param machineName - Name of the machine
- * @param shift - Current shift ('Day' or 'Night')
- * @param date - Date string (YYYY-MM-DD)
+ * @param shift - Shift name (defaults to the machine's current shift)
+ * @param date - Shift date string (YYYY-MM-DD, defaults to the current shift's date)
  * @returns Session key string
  */
-export const getSessionKey = (machineName: string, shift: string, date: string): string => {
+export const getSessionKey = (machineName: string, shift?: string, date?: string): string => {
+  if (!shift || !date) {
+    const context = getShiftContext(new Date(), machineName);
+    shift = shift || context.shift;
+    date = date || context.shiftDate;
+  }
   return `shift_session_${machineName}_${shift}_${date}`;
 };
@@ -0,0 +1,61 @@
+/**
+ * Tests for sachet mass SPC
+ */
+
+import {
+  buildChartPoints,
+  computeControlLimits,
+  detectRuleViolations,
+  computeCapability,
+  analyzeSachetMass,
+  MassSample,
+} from './spc';
+
+const samples = (masses: number[]): MassSample[] =>
+  masses.map((mass, i) => ({ mass, timestamp: new Date(2026, 0, 1, 8, i) }));
+
+describe('spc', () => {
+  it('should compute individuals and X-bar R control limits', () => {
+    const individuals = computeControlLimits(buildChartPoints(samples([2.5, 2.6, 2.5, 2.6])));
+    expect(individuals?.center).toBeCloseTo(2.55);
+    expect(individuals?.rangeCenter).toBeCloseTo(0.1);
+    expect(individuals?.ucl).toBeCloseTo(2.55 + 3 * (0.1 / 1.128));
+
+    const points = buildChartPoints(samples([2.4, 2.6, 2.5, 2.5, 2.45, 2.55, 2.7]), 2);
+    expect(points.map(p => p.value)).toEqual([2.5, 2.5, 2.5]);
+    const subgroups = computeControlLimits(points, 2);
+    expect(subgroups?.ucl).toBeCloseTo(2.5 + 1.88 * 0.1);
+    expect(computeControlLimits(buildChartPoints(samples([2.5])))).toBeNull();
+  });
+
+  it('should detect Western Electric rule violations', () => {
+    const limits = computeControlLimits(buildChartPoints(samples([2.5, 2.6, 2.5, 2.6])))!;
+
+    const outside = detectRuleViolations(buildChartPoints(samples([2.55, 3.0])), limits);
+    expect(outside).toEqual([expect.objectContaining({ index: 1, rule: 1 })]);
+
+    const run = detectRuleViolations(buildChartPoints(samples(Array(8).fill(2.56))), limits);
+    expect(run.map(v => [v.index, v.rule])).toEqual([[7, 4]]);
+  });
+
+  it('should use history limits and compute capability against the spec', () => {
+    const baseline = samples(Array.from({ length: 20 }, (_, i) => (i % 2 ? 2.6 : 2.5)));
+    const analysis = analyzeSachetMass(
+      [
+        { id: 'm1', mass: 2.55, timestamp: new Date() },
+        { id: 'm2', mass: 1.0, timestamp: new Date(), ignored: true },
+        { id: 'm3', mass: 3.0, timestamp: new Date() },
+      ],
+      { baseline, spec: { lower: 2.4, upper: 2.7 } }
+    );
+    expect(analysis.limitsSource).toBe('history');
+    expect(analysis.points).toHaveLength(2);
+    expect(analysis.violations.map(v => v.rule)).toEqual([1]);
+    expect(analyzeSachetMass(baseline.slice(0, 5)).limitsSource).toBe('current');
+
+    const capability = computeCapability(samples([2.55, 2.65]), { lower: 2.4, upper: 2.7 }, 0.05);
+    expect(capability?.cp).toBeCloseTo(1);
+    expect(capability?.cpk).toBeCloseTo(0.1 / 0.15);
+    expect(computeCapability(samples([2.5]), null, 0.05)).toBeNull();
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Statistical Process Control for Sachet Mass
+ *
+ * - Charts: individuals / moving range (subgroup size 1) or X̄-R for
+ *   subgroups of 2-10 consecutive samples.
+ * - Control limits come from the product's recent history when there is
+ *   enough of it, otherwise from the data being charted.
+ * - Western Electric rules flag out-of-control patterns against the limits.
+ * - Cp / Cpk compare the process spread with the product's sachet mass
+ *   tolerances from the product master.
+ *
+ * Ignored sachet mass entries are left out of every calculation.
+ */
+
+import { SachetMassEntry } from '../types';
+import { isSupabaseConfigured, fetchSachetMassHistory } from './supabase';
+import { getShiftHistory } from './storage';
+import { logError } from './errorMonitoring';
+
+// Fewest baseline samples for limits from history instead of the current data
+export const MIN_BASELINE_SAMPLES = 20;
+
+// Control chart constants by subgroup size (n = 2..10)
+const CHART_CONSTANTS: Record<number, { a2: number; d2: number; d3: number; d4: number }> = {
+  2: { a2: 1.88, d2: 1.128, d3: 0, d4: 3.267 },
+  3: { a2: 1.023, d2: 1.693, d3: 0, d4: 2.574 },
+  4: { a2: 0.729, d2: 2.059, d3: 0, d4: 2.282 },
+  5: { a2: 0.577, d2: 2.326, d3: 0, d4: 2.114 },
+  6: { a2: 0.483, d2: 2.534, d3: 0, d4: 2.004 },
+  7: { a2: 0.419, d2: 2.704, d3: 0.076, d4: 1.924 },
+  8: { a2: 0.373, d2: 2.847, d3: 0.136, d4: 1.864 },
+  9: { a2: 0.337, d2: 2.97, d3: 0.184, d4: 1.816 },
+  10: { a2: 0.308, d2: 3.078, d3: 0.223, d4: 1.777 },
+};
+
+export const SUBGROUP_SIZES = [1, ...Object.keys(CHART_CONSTANTS).map(Number)];
+
+export interface ControlLimits {
+  subgroupSize: number;
+  center: number;      // X̄ (individuals) or X̿ (subgroups)
+  ucl: number;
+  lcl: number;
+  rangeCenter: number; // MR̄ or R̄
+  rangeUcl: number;
+  rangeLcl: number;
+  sigma: number;       // Within-subgroup standard deviation of individual samples
+}
+
+export interface ChartPoint {
+  index: number;
+  value: number;       // Sample, or subgroup mean
+  range: number | null; // Moving range (null for the first sample), or subgroup range
+  timestamp?: Date;
+}
+
+export type WesternElectricRule = 1 | 2 | 3 | 4;
+
+export interface RuleViolation {
+  index: number;
+  rule: WesternElectricRule;
+  message: string;
+}
+
+export interface ProcessCapability {
+  cp: number;
+  cpk: number;
+  mean: number;
+  sigma: number;
+}
+
+export interface SpecLimits {
+  lower: number;
+  upper: number;
+}
+
+export interface SpcAnalysis {
+  points: ChartPoint[];
+  limits: ControlLimits | null;
+  limitsSource: 'history' | 'current' | null;
+  violations: RuleViolation[];
+  capability: ProcessCapability | null;
+}
+
+export interface MassSample {
+  mass: number;
+  timestamp: Date;
+}
+
+const RULE_MESSAGES: Record<WesternElectricRule, string> = {
+  1: 'Point beyond a 3σ control limit',
+  2: '2 of 3 points beyond 2σ on one side',
+  3: '4 of 5 points beyond 1σ on one side',
+  4: '8 points in a row on one side of the centre line',
+};
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const includedSamples = (entries: (SachetMassEntry | MassSample)[]): MassSample[] =>
+  entries
+    .filter(e => !('ignored' in e && e.ignored))
+    .map(e => ({ mass: e.mass, timestamp: e.timestamp }));
+
+// ==========================================
+// CHARTS AND LIMITS
+// ==========================================
+
+/**
+ * Chart points: each sample with its moving range, or the mean and range of
+ * each complete subgroup of consecutive samples
+ */
+export const buildChartPoints = (samples: MassSample[], subgroupSize = 1): ChartPoint[] => {
+  if (subgroupSize <= 1) {
+    return samples.map((s, i) => ({
+      index: i,
+      value: s.mass,
+      range: i > 0 ? Math.abs(s.mass - samples[i - 1].mass) : null,
+      timestamp: s.timestamp,
+    }));
+  }
+
+  const points: ChartPoint[] = [];
+  for (let start = 0; start + subgroupSize <= samples.length; start += subgroupSize) {
+    const masses = samples.slice(start, start + subgroupSize).map(s => s.mass);
+    points.push({
+      index: points.length,
+      value: mean(masses),
+      range: Math.max(...masses) - Math.min(...masses),
+      timestamp: samples[start + subgroupSize - 1].timestamp,
+    });
+  }
+  return points;
+};
+
+/**
+ * Control limits for the chart points (null until there are at least two
+ * ranges to estimate the spread from)
+ */
+export const computeControlLimits = (points: ChartPoint[], subgroupSize = 1): ControlLimits | null => {
+  const ranges = points.map(p => p.range).filter((r): r is number => r !== null);
+  if (points.length < 2 || ranges.length < (subgroupSize <= 1 ? 1 : 2)) return null;
+
+  const center = mean(points.map(p => p.value));
+  const rangeCenter = mean(ranges);
+
+  if (subgroupSize <= 1) {
+    const { d2, d4 } = CHART_CONSTANTS[2];
+    return {
+      subgroupSize: 1,
+      center,
+      ucl: center + 3 * (rangeCenter / d2),
+      lcl: center - 3 * (rangeCenter / d2),
+      rangeCenter,
+      rangeUcl: d4 * rangeCenter,
+      rangeLcl: 0,
+      sigma: rangeCenter / d2,
+    };
+  }
+
+  const { a2, d2, d3, d4 } = CHART_CONSTANTS[subgroupSize];
+  return {
+    subgroupSize,
+    center,
+    ucl: center + a2 * rangeCenter,
+    lcl: center - a2 * rangeCenter,
+    rangeCenter,
+    rangeUcl: d4 * rangeCenter,
+    rangeLcl: d3 * rangeCenter,
+    sigma: rangeCenter / d2,
+  };
+};
+
+// ==========================================
+// WESTERN ELECTRIC RULES
+// ==========================================
+
+/**
+ * Western Electric rule violations, reported at the point that completes
+ * each pattern
+ */
+export const detectRuleViolations = (points: ChartPoint[], limits: ControlLimits): RuleViolation[] => {
+  const zone = (limits.ucl - limits.center) / 3;
+  if (zone <= 0) return [];
+
+  const sides = points.map(p => Math.sign(p.value - limits.center));
+  const beyond = (i: number, sigmas: number, side: number) =>
+    side !== 0 && sides[i] === side && Math.abs(points[i].value - limits.center) > sigmas * zone;
+  const countBeyond = (end: number, window: number, sigmas: number, side: number) => {
+    let count = 0;
+    for (let i = Math.max(0, end - window + 1); i <= end; i++) {
+      if (beyond(i, sigmas, side)) count++;
+    }
+    return count;
+  };
+
+  const violations: RuleViolation[] = [];
+  const flag = (index: number, rule: WesternElectricRule) =>
+    violations.push({ index, rule, message: RULE_MESSAGES[rule] });
+
+  points.forEach((point, i) => {
+    const side = sides[i];
+    if (point.value > limits.ucl || point.value < limits.lcl) flag(i, 1);
+    if (beyond(i, 2, side) && countBeyond(i, 3, 2, side) >= 2) flag(i, 2);
+    if (beyond(i, 1, side) && countBeyond(i, 5, 1, side) >= 4) flag(i, 3);
+    if (side !== 0 && i >= 7 && sides.slice(i - 7, i + 1).every(s => s === side)) flag(i, 4);
+  });
+
+  return violations;
+};
+
+// ==========================================
+// CAPABILITY
+// ==========================================
+
+/**
+ * Cp and Cpk of the samples against the spec limits, using the
+ * within-subgroup sigma from the control limits
+ */
+export const computeCapability = (
+  samples: MassSample[],
+  spec: SpecLimits | null,
+  sigma: number | undefined
+): ProcessCapability | null => {
+  if (!spec || !sigma || sigma <= 0 || samples.length === 0) return null;
+  const processMean = mean(samples.map(s => s.mass));
+  return {
+    cp: (spec.upper - spec.lower) / (6 * sigma),
+    cpk: Math.min(spec.upper - processMean, processMean - spec.lower) / (3 * sigma),
+    mean: processMean,
+    sigma,
+  };
+};
+
+/**
+ * Full SPC analysis of sachet mass entries. Limits are computed from the
+ * baseline (the product's history) when it has enough samples.
+ */
+export const analyzeSachetMass = (
+  entries: (SachetMassEntry | MassSample)[],
+  options: { baseline?: MassSample[]; subgroupSize?: number; spec?: SpecLimits | null } = {}
+): SpcAnalysis => {
+  const subgroupSize = options.subgroupSize || 1;
+  const samples = includedSamples(entries);
+  const points = buildChartPoints(samples, subgroupSize);
+
+  const baseline = options.baseline || [];
+  const fromHistory = baseline.length >= MIN_BASELINE_SAMPLES
+    ? computeControlLimits(buildChartPoints(baseline, subgroupSize), subgroupSize)
+    : null;
+  const limits = fromHistory || computeControlLimits(points, subgroupSize);
+
+  return {
+    points,
+    limits,
+    limitsSource: limits ? (fromHistory ? 'history' : 'current') : null,
+    violations: limits ? detectRuleViolations(points, limits) : [],
+    capability: computeCapability(samples, options.spec || null, limits?.sigma),
+  };
+};
+
+// ==========================================
+// HISTORY
+// ==========================================
+
+/**
+ * Sachet mass samples recorded for a product over the last few days,
+ * oldest first. Uses Supabase when configured, otherwise this device's
+ * shift history.
+ */
+export const loadSachetMassHistory = async (product: string, days = 30): Promise<MassSample[]> => {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  if (!product.trim()) return [];
+
+  if (isSupabaseConfigured) {
+    try {
+      const records = await fetchSachetMassHistory(product.trim(), since.toISOString());
+      return records
+        .filter(r => !r.is_ignored)
+        .map(r => ({ mass: Number(r.mass_grams), timestamp: new Date(r.recorded_at) }));
+    } catch (e) {
+      logError('Failed to load sachet mass history', { context: String(e), showToast: false });
+      return [];
+    }
+  }
+
+  const productName = product.trim().toLowerCase();
+  return getShiftHistory()
+    .filter(shift => shift.product.toLowerCase() === productName)
+    .flatMap(shift => includedSamples(shift.sachetMassEntries || []))
+    .filter(sample => sample.timestamp >= since)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
@@ -0,0 +1,120 @@
+/**
+ * Tests for the machine state timeline
+ */
+
+import { buildStateTimeline, summarizeStateTimeline, StateTimeline } from './stateTimeline';
+import { DEFAULT_DOWNTIME_REASONS } from './downtimeReasons';
+import { CHANGEOVER_REASON_CODE } from './changeovers';
+import { ActivityEvent, ActivityEventType } from './liveSession';
+import { DowntimeEntry } from '../types';
+
+const at = (time: string) => new Date(`2026-10-18T${time}:00Z`);
+
+const shift = { start: at('06:00'), end: at('14:00'), reasons: DEFAULT_DOWNTIME_REASONS };
+
+const describeSegments = (timeline: StateTimeline) =>
+  timeline.segments.map(s => [s.kind, s.start.toISOString().slice(11, 16), s.end.toISOString().slice(11, 16), s.category]);
+
+const downtime = (id: string, time: string, minutes: number, downtimeReason: string, reasonCode?: string): DowntimeEntry =>
+  ({ id, downtime: minutes, downtimeReason, reasonCode, timestamp: at(time) });
+
+describe('machine state timeline', () => {
+  it('should lay out runs and pauses from the production timer up to now', () => {
+    const timeline = buildStateTimeline({
+      ...shift,
+      now: at('10:00'),
+      production: {
+        isRunning: false,
+        startTime: at('06:30'),
+        pausedAt: at('09:30'),
+        totalRunTimeMs: 0,
+        lastResumedAt: at('08:20'),
+        pauseReason: 'Changeover',
+        pauseReasonCode: CHANGEOVER_REASON_CODE,
+        pauseHistory: [{ pausedAt: at('08:00'), resumedAt: at('08:20'), reason: 'Jam / Blockage', reasonCode: 'MECH-JAM' }],
+      },
+      // Recorded when the first pause ended - already on the timeline
+      downtimeEntries: [downtime('d1', '08:00', 20, 'Jam / Blockage', 'MECH-JAM')],
+      wasteEntries: [{ id: 'w1', waste: 2.5, wasteType: 'Start-up Waste', timestamp: at('06:40') }],
+    });
+
+    expect(describeSegments(timeline)).toEqual([
+      ['idle', '06:00', '06:30', undefined],
+      ['running', '06:30', '08:00', undefined],
+      ['paused', '08:00', '08:20', 'Mechanical'],
+      ['running', '08:20', '09:30', undefined],
+      ['changeover', '09:30', '10:00', undefined],
+    ]);
+    expect(timeline.markers.map(m => [m.kind, m.label])).toEqual([['waste', 'Start-up Waste 2.5 kg']]);
+    expect(summarizeStateTimeline(timeline)).toEqual({ idle: 30, running: 160, paused: 20, changeover: 30 });
+  });
+
+  it('should draw manually entered downtime from when the stop started', () => {
+    const timeline = buildStateTimeline({
+      ...shift,
+      now: at('10:00'),
+      production: {
+        isRunning: true,
+        startTime: at('06:00'),
+        pausedAt: null,
+        totalRunTimeMs: 0,
+        lastResumedAt: at('06:00'),
+      },
+      // Logged at 09:55 for a 25 minute stop that ended at 09:55
+      downtimeEntries: [downtime('d1', '09:30', 25, 'Material Shortage')],
+      wasteEntries: [],
+    });
+
+    expect(describeSegments(timeline)).toEqual([
+      ['running', '06:00', '09:30', undefined],
+      ['paused', '09:30', '09:55', 'Material'],
+      ['running', '09:55', '10:00', undefined],
+    ]);
+  });
+
+  it('should take stops from activity events when there is no timer', () => {
+    const event = (type: ActivityEventType, time: string, details?: string): ActivityEvent =>
+      ({ id: `${type}-${time}`, type, machine_name: 'Canline', message: '', details, timestamp: at(time) });
+
+    const timeline = buildStateTimeline({
+      ...shift,
+      now: at('09:00'),
+      downtimeEntries: [],
+      wasteEntries: [],
+      activityEvents: [
+        event('machine_resume', '08:15', 'Reason: Material Shortage'),
+        event('machine_start', '07:00'),
+        event('machine_pause', '08:00'),
+      ],
+    });
+
+    expect(describeSegments(timeline)).toEqual([
+      ['idle', '06:00', '07:00', undefined],
+      ['running', '07:00', '08:00', undefined],
+      ['paused', '08:00', '08:15', 'Material'],
+      ['running', '08:15', '09:00', undefined],
+    ]);
+  });
+
+  it('should treat a submitted shift as running apart from its downtime', () => {
+    const timeline = buildStateTimeline({
+      ...shift,
+      downtimeEntries: [
+        downtime('d1', '13:50', 30, 'Machine Breakdown'),
+        downtime('d2', '07:00', 15, 'Changeover', CHANGEOVER_REASON_CODE),
+      ],
+      wasteEntries: [],
+      palletScanEntries: [
+        { id: 'p1', qrCode: '1', batchNumber: 'B1', palletNumber: '0001', casesCount: 60, timestamp: at('12:00') },
+      ],
+    });
+
+    expect(describeSegments(timeline)).toEqual([
+      ['running', '06:00', '07:00', undefined],
+      ['changeover', '07:00', '07:15', undefined],
+      ['running', '07:15', '13:50', undefined],
+      ['paused', '13:50', '14:00', 'Mechanical'],
+    ]);
+    expect(timeline.markers.map(m => m.label)).toEqual(['Pallet 0001 (60 cases)']);
+  });
+});
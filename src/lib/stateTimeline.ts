@@ -0,0 +1,239 @@
+/**
+ * Machine State Timeline
+ *
+ * Lays a machine's shift out on one time axis for a Gantt view: when it ran,
+ * when it stopped and why, changeovers, and the waste and pallets recorded
+ * along the way.
+ *
+ * Stops come from the production timer's pauses when the capture screen has
+ * them, then from activity events (pause / resume, changeover start / end)
+ * and finally from downtime entries, each stop only once. The machine runs
+ * from the timer's start - or the first start event - outside the stops.
+ * A submitted shift has neither, so it is taken to run for the whole shift
+ * apart from its recorded downtime.
+ */
+
+import { DowntimeEntry, DowntimeReason, PalletScanEntry, ProductionState, WasteEntry } from '../types';
+import { ActivityEvent } from './liveSession';
+import { CHANGEOVER_REASON_CODE } from './changeovers';
+import { findDowntimeReason, getDowntimeReasons, getReasonCategory, UNCATEGORISED } from './downtimeReasons';
+import { formatWasteQuantity } from './wasteTypes';
+
+export type StateSegmentKind = 'idle' | 'running' | 'paused' | 'changeover';
+
+export interface StateSegment {
+  kind: StateSegmentKind;
+  start: Date;
+  end: Date;
+  reason?: string;
+  category?: string;       // Downtime reason category of a pause
+}
+
+export type TimelineMarkerKind = 'waste' | 'pallet';
+
+export interface TimelineMarker {
+  id: string;
+  kind: TimelineMarkerKind;
+  at: Date;
+  label: string;
+  ignored?: boolean;
+}
+
+export interface StateTimeline {
+  start: Date;
+  end: Date;
+  segments: StateSegment[];
+  markers: TimelineMarker[];
+}
+
+export interface StateTimelineInput {
+  start: Date;                          // Axis start - the shift start
+  end: Date;                            // Axis end - the shift end
+  now?: Date;                           // States are known up to here (default: end)
+  production?: ProductionState | null;
+  downtimeEntries: DowntimeEntry[];
+  wasteEntries: WasteEntry[];
+  palletScanEntries?: PalletScanEntry[];
+  activityEvents?: ActivityEvent[];     // Events of this machine
+  reasons?: DowntimeReason[];
+}
+
+interface Stop {
+  start: Date;
+  end: Date;
+  reason?: string;
+  reasonCode?: string;
+}
+
+// ==========================================
+// STOPS
+// ==========================================
+
+const getProductionStops = (production: ProductionState, now: Date): Stop[] => {
+  const stops: Stop[] = (production.pauseHistory || []).map(pause => ({
+    start: new Date(pause.pausedAt),
+    end: new Date(pause.resumedAt),
+    reason: pause.reason,
+    reasonCode: pause.reasonCode,
+  }));
+  if (production.pausedAt) {
+    stops.push({
+      start: new Date(production.pausedAt),
+      end: now,
+      reason: production.pauseReason || undefined,
+      reasonCode: production.pauseReasonCode || undefined,
+    });
+  }
+  return stops;
+};
+
+const STOP_EVENTS = ['machine_pause', 'changeover_started'];
+const RESTART_EVENTS = ['machine_resume', 'changeover_completed', 'machine_start', 'shift_submitted'];
+
+const getActivityStops = (events: ActivityEvent[], now: Date): Stop[] => {
+  const stops: Stop[] = [];
+  let open: Stop | null = null;
+
+  const sorted = [...events].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  for (const event of sorted) {
+    const at = new Date(event.timestamp);
+    if (STOP_EVENTS.includes(event.type) && !open) {
+      open = event.type === 'changeover_started'
+        ? { start: at, end: at, reason: 'Changeover', reasonCode: CHANGEOVER_REASON_CODE }
+        : { start: at, end: at };
+    } else if (RESTART_EVENTS.includes(event.type) && open) {
+      // Resume events carry the reason the operator gave for the pause
+      const reason = event.type === 'machine_resume' ? event.details?.replace(/^Reason: /, '') : undefined;
+      stops.push({ ...open, end: at, reason: open.reason || reason });
+      open = null;
+    }
+  }
+
+  if (open) stops.push({ ...open, end: now });
+  return stops;
+};
+
+const getDowntimeStops = (entries: DowntimeEntry[]): Stop[] =>
+  entries.map(entry => {
+    const start = new Date(entry.timestamp);
+    return {
+      start,
+      end: new Date(start.getTime() + entry.downtime * 60000),
+      reason: entry.downtimeReason,
+      reasonCode: entry.reasonCode,
+    };
+  });
+
+const overlaps = (a: Stop, b: Stop): boolean => a.start < b.end && b.start < a.end;
+
+// Stops from every source, each stop once - the first source to report it wins
+const mergeStops = (sources: Stop[][], start: Date, now: Date): Stop[] => {
+  const merged: Stop[] = [];
+  sources.forEach(stops => stops.forEach(stop => {
+    const clipped = {
+      ...stop,
+      start: new Date(Math.max(stop.start.getTime(), start.getTime())),
+      end: new Date(Math.min(stop.end.getTime(), now.getTime())),
+    };
+    if (clipped.end <= clipped.start || merged.some(s => overlaps(s, clipped))) return;
+    merged.push(clipped);
+  }));
+  return merged.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+// ==========================================
+// TIMELINE
+// ==========================================
+
+/**
+ * When the machine started running: the timer's start, else the first start
+ * event; null when it has not started. A shift with neither runs from the start.
+ */
+const getRunStart = (input: StateTimelineInput): Date | null => {
+  if (input.production) {
+    return input.production.startTime ? new Date(input.production.startTime) : null;
+  }
+  const started = (input.activityEvents || [])
+    .filter(e => e.type === 'machine_start')
+    .map(e => new Date(e.timestamp))
+    .sort((a, b) => a.getTime() - b.getTime());
+  return started[0] || input.start;
+};
+
+/**
+ * The shift of one machine as state segments and event markers, oldest first
+ */
+export const buildStateTimeline = (input: StateTimelineInput): StateTimeline => {
+  const { start, end, production } = input;
+  const now = input.now && input.now < end ? input.now : end;
+  const reasons = input.reasons || getDowntimeReasons();
+  const runStart = getRunStart(input);
+
+  const stops = mergeStops([
+    production ? getProductionStops(production, now) : [],
+    getActivityStops(input.activityEvents || [], now),
+    getDowntimeStops(input.downtimeEntries),
+  ], start, now);
+
+  const segments: StateSegment[] = [];
+  const fill = (from: Date, to: Date) => {
+    if (to <= from) return;
+    if (!runStart || to <= runStart) {
+      segments.push({ kind: 'idle', start: from, end: to });
+    } else if (from >= runStart) {
+      segments.push({ kind: 'running', start: from, end: to });
+    } else {
+      segments.push({ kind: 'idle', start: from, end: runStart });
+      segments.push({ kind: 'running', start: runStart, end: to });
+    }
+  };
+
+  let cursor = start;
+  stops.forEach(stop => {
+    fill(cursor, stop.start);
+    const isChangeover = stop.reasonCode === CHANGEOVER_REASON_CODE;
+    const category = stop.reason
+      ? getReasonCategory(reasons, findDowntimeReason(reasons, { downtimeReason: stop.reason, reasonCode: stop.reasonCode }))?.name
+      : undefined;
+    segments.push({
+      kind: isChangeover ? 'changeover' : 'paused',
+      start: stop.start,
+      end: stop.end,
+      reason: stop.reason,
+      category: isChangeover ? undefined : category || UNCATEGORISED,
+    });
+    cursor = stop.end;
+  });
+  fill(cursor, now);
+
+  const markers: TimelineMarker[] = [
+    ...input.wasteEntries.map(e => ({
+      id: `waste-${e.id}`,
+      kind: 'waste' as const,
+      at: new Date(e.timestamp),
+      label: `${e.wasteType} ${formatWasteQuantity(e)}`,
+    })),
+    ...(input.palletScanEntries || []).map(e => ({
+      id: `pallet-${e.id}`,
+      kind: 'pallet' as const,
+      at: new Date(e.timestamp),
+      label: `Pallet ${e.palletNumber} (${e.casesCount} cases)`,
+      ignored: e.ignored,
+    })),
+  ]
+    .filter(m => m.at >= start && m.at <= end)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  return { start, end, segments, markers };
+};
+
+/**
+ * Minutes spent in each state
+ */
+export const summarizeStateTimeline = (timeline: StateTimeline): Record<StateSegmentKind, number> => {
+  const minutes: Record<StateSegmentKind, number> = { idle: 0, running: 0, paused: 0, changeover: 0 };
+  timeline.segments.forEach(segment => {
+    minutes[segment.kind] += (segment.end.getTime() - segment.start.getTime()) / 60000;
+  });
+  return minutes;
+};
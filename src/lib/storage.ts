@@ -1,136 +1,26 @@
-import { ShiftData, Machine, MACHINES } from '../types';
+import { ShiftData, Machine, SubMachine, MACHINES } from '../types';
 import {
   fetchMachines,
+  fetchAllSubmachines,
+  fetchSubmachinesForParent,
+  updateSubmachines,
   upsertMachine,
   removeMachine,
   syncMachinesToSupabase,
   subscribeMachineChanges,
-  MachineRecord,
-  submitShiftData,
-  isSupabaseConfigured
+  MachineRecord
 } from './supabase';
+import { getTodayDateString } from './shiftUtils';
+import { formatDowntimeReason } from './downtimeReasons';
+import { getSubMachines, toSubMachine } from './machineHierarchy';
+import { logError } from './errorMonitoring';
 
 const STORAGE_KEY = 'waste_downtime_history';
 const MACHINES_KEY = 'machines_data';
 const MACHINES_SYNC_KEY = 'machines_last_sync';
-const FAILED_SUBMISSIONS_KEY = 'failed_submissions_queue';
 const HISTORY_MAX_DAYS = 90; // Keep history for 90 days
 const HISTORY_MAX_ENTRIES = 1000; // Maximum entries to keep
 
-// ==========================================
-// FAILED SUBMISSIONS RETRY QUEUE
-// ==========================================
-
-interface FailedSubmission {
-  id: string;
-  timestamp: string;
-  retryCount: number;
-  maxRetries: number;
-  data: {
-    shiftData: any;
-    wasteEntries: any[];
-    downtimeEntries: any[];
-    speedEntries?: any[];
-    sachetMassEntries?: any[];
-    looseCasesEntries?: any[];
-    palletScanEntries?: any[];
-  };
-  error: string;
-}
-
-// Get failed submissions queue
-export const getFailedSubmissions = (): FailedSubmission[] => {
-  const stored = localStorage.getItem(FAILED_SUBMISSIONS_KEY);
-  if (!stored) return [];
-  try {
-    return JSON.parse(stored);
-  } catch {
-    return [];
-  }
-};
-
-// Add a failed submission to the retry queue
-export const addFailedSubmission = (
-  data: FailedSubmission['data'],
-  error: string
-): void => {
-  const queue = getFailedSubmissions();
-  const newEntry: FailedSubmission = {
-    id: `failed_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    timestamp: new Date().toISOString(),
-    retryCount: 0,
-    maxRetries: 3,
-    data,
-    error,
-  };
-  queue.push(newEntry);
-  localStorage.setItem(FAILED_SUBMISSIONS_KEY, JSON.stringify(queue));
-};
-
-// Remove a submission from the failed queue
-export const removeFailedSubmission = (id: string): void => {
-  const queue = getFailedSubmissions();
-  const filtered = queue.filter(s => s.id !== id);
-  localStorage.setItem(FAILED_SUBMISSIONS_KEY, JSON.stringify(filtered));
-};
-
-// Retry all failed submissions
-export const retryFailedSubmissions = async (): Promise<{
-  succeeded: number;
-  failed: number;
-  remaining: number;
-}> => {
-  if (!isSupabaseConfigured) {
-    return { succeeded: 0, failed: 0, remaining: getFailedSubmissions().length };
-  }
-
-  const queue = getFailedSubmissions();
-  let succeeded = 0;
-  let failed = 0;
-
-  for (const submission of queue) {
-    if (submission.retryCount >= submission.maxRetries) {
-      // Max retries reached, keep in queue but don't retry
-      failed++;
-      continue;
-    }
-
-    try {
-      await submitShiftData(
-        submission.data.shiftData,
-        submission.data.wasteEntries,
-        submission.data.downtimeEntries,
-        submission.data.speedEntries,
-        submission.data.sachetMassEntries,
-        submission.data.looseCasesEntries,
-        submission.data.palletScanEntries
-      );
-      removeFailedSubmission(submission.id);
-      succeeded++;
-    } catch (e) {
-      // Update retry count
-      const updatedQueue = getFailedSubmissions().map(s =>
-        s.id === submission.id
-          ? { ...s, retryCount: s.retryCount + 1, error: String(e) }
-          : s
-      );
-      localStorage.setItem(FAILED_SUBMISSIONS_KEY, JSON.stringify(updatedQueue));
-      failed++;
-    }
-  }
-
-  return {
-    succeeded,
-    failed,
-    remaining: getFailedSubmissions().length,
-  };
-};
-
-// Clear all failed submissions (manual clear)
-export const clearFailedSubmissions = (): void => {
-  localStorage.removeItem(FAILED_SUBMISSIONS_KEY);
-};
-
 // ==========================================
 // LOCALSTORAGE CLEANUP
 // ==========================================
@@ -165,12 +55,10 @@ export const cleanupOldHistory = (): { removed: number; remaining: number } => {
 // Get localStorage usage stats
 export const getStorageStats = (): {
   historyCount: number;
-  failedCount: number;
   totalSizeKB: number;
   oldestEntry: string | null;
 } => {
   const history = getShiftHistory();
-  const failed = getFailedSubmissions();
 
   // Estimate total localStorage size
   let totalSize = 0;
@@ -188,7 +76,6 @@ export const getStorageStats = (): {
 
   return {
     historyCount: history.length,
-    failedCount: failed.length,
     totalSizeKB: Math.round(totalSize / 1024),
     oldestEntry,
   };
@@ -234,6 +121,12 @@ const toLocalMachine = (record: MachineRecord): Machine => ({
   todayWaste: record.today_waste,
   todayDowntime: record.today_downtime,
   subMachineCount: record.sub_machine_count,
+  ratedSpeed: record.rated_speed,
+  unitsPerCase: record.units_per_case,
+  labelFormat: record.label_format || undefined,
+  lineId: record.line_id || undefined,
+  displayName: record.display_name || undefined,
+  sortOrder: record.sort_order,
 });
 
 // Convert local Machine to Supabase record
@@ -248,15 +141,36 @@ const toSupabaseRecord = (machine: Machine): MachineRecord => ({
   today_waste: machine.todayWaste,
   today_downtime: machine.todayDowntime,
   sub_machine_count: machine.subMachineCount,
+  rated_speed: machine.ratedSpeed,
+  units_per_case: machine.unitsPerCase,
+  label_format: machine.labelFormat || null,
+  line_id: machine.lineId || null,
+  display_name: machine.displayName || null,
+  sort_order: machine.sortOrder ?? 0,
 });
 
+// Sub-machine rows of each machine, by machine ID
+const groupSubmachines = (records: MachineRecord[]): Map<string, SubMachine[]> => {
+  const byParent = new Map<string, SubMachine[]>();
+  records.forEach(record => {
+    if (!record.parent_machine_id) return;
+    byParent.set(record.parent_machine_id, [...(byParent.get(record.parent_machine_id) || []), toSubMachine(record)]);
+  });
+  return byParent;
+};
+
 // Initialize machines from Supabase
 export const initializeMachines = async (): Promise<Machine[]> => {
   try {
     const records = await fetchMachines();
 
     if (records.length > 0) {
-      machinesCache = records.map(toLocalMachine);
+      // Without sub-machine rows they are derived from the count
+      const submachines = groupSubmachines(await fetchAllSubmachines().catch(e => {
+        logError('Failed to load sub-machines', { context: String(e), showToast: false });
+        return [];
+      }));
+      machinesCache = records.map(record => ({ ...toLocalMachine(record), subMachines: submachines.get(record.id) }));
       // Also save to localStorage as backup
       localStorage.setItem(MACHINES_KEY, JSON.stringify(machinesCache));
       localStorage.setItem(MACHINES_SYNC_KEY, new Date().toISOString());
@@ -290,7 +204,12 @@ export const subscribeToMachineUpdates = (callback: (machines: Machine[]) => voi
   // Set up Supabase real-time subscription with optimized handler
   const unsubscribe = subscribeMachineChanges(
     (records) => {
-      machinesCache = records.map(toLocalMachine);
+      // Sub-machine rows are not part of the update - keep the ones loaded
+      const previous = machinesCache || getMachinesDataLocal();
+      machinesCache = records.map(record => ({
+        ...toLocalMachine(record),
+        subMachines: previous.find(m => m.id === record.id)?.subMachines,
+      }));
       localStorage.setItem(MACHINES_KEY, JSON.stringify(machinesCache));
 
       // Notify all listeners
@@ -340,17 +259,18 @@ export const getShiftHistory = (): ShiftData[] => {
 
   try {
     const parsed = JSON.parse(stored);
+    const reviveTimestamps = <T extends { timestamp: string | Date }>(entries?: T[]) =>
+      entries?.map(e => ({ ...e, timestamp: new Date(e.timestamp) }));
+
     return parsed.map((item: any) => ({
       ...item,
       submittedAt: new Date(item.submittedAt),
-      wasteEntries: item.wasteEntries.map((w: any) => ({
-        ...w,
-        timestamp: new Date(w.timestamp),
-      })),
-      downtimeEntries: item.downtimeEntries.map((d: any) => ({
-        ...d,
-        timestamp: new Date(d.timestamp),
-      })),
+      wasteEntries: reviveTimestamps(item.wasteEntries) || [],
+      downtimeEntries: reviveTimestamps(item.downtimeEntries) || [],
+      speedEntries: reviveTimestamps(item.speedEntries),
+      sachetMassEntries: reviveTimestamps(item.sachetMassEntries),
+      looseCasesEntries: reviveTimestamps(item.looseCasesEntries),
+      palletScanEntries: reviveTimestamps(item.palletScanEntries),
     }));
   } catch {
     return [];
@@ -374,7 +294,7 @@ export const getShiftHistoryByMachine = (machineName: string): ShiftData[] => {
 
 // Get today's statistics
 export const getTodayStats = () => {
-  const today = new Date().toISOString().split('T')[0];
+  const today = getTodayDateString();
   const history = getShiftHistory();
   const todayData = history.filter(item => item.date === today);
 
@@ -419,6 +339,9 @@ export const updateMachine = async (machineId: string, updates: Partial<Machine>
     if (useSupabase) {
       try {
         await upsertMachine(toSupabaseRecord(machines[index]));
+        if (updates.subMachineCount !== undefined) {
+          await refreshSubMachines(machineId);
+        }
       } catch (error) {
         console.error('Failed to sync machine update to Supabase:', error);
       }
@@ -426,6 +349,38 @@ export const updateMachine = async (machineId: string, updates: Partial<Machine>
   }
 };
 
+// Reload a machine's sub-machine rows after its count changed
+const refreshSubMachines = async (machineId: string): Promise<void> => {
+  const records = await fetchSubmachinesForParent(machineId);
+  const machines = getMachinesData();
+  const index = machines.findIndex(m => m.id === machineId);
+  if (index === -1) return;
+  machines[index] = { ...machines[index], subMachines: records.map(toSubMachine) };
+  machinesCache = machines;
+  localStorage.setItem(MACHINES_KEY, JSON.stringify(machines));
+};
+
+/**
+ * Rename and reorder a machine's sub-machines
+ */
+export const updateSubMachines = async (machineId: string, subMachines: SubMachine[]): Promise<void> => {
+  const machines = getMachinesData();
+  const index = machines.findIndex(m => m.id === machineId);
+  if (index === -1) return;
+
+  machines[index] = { ...machines[index], subMachines };
+  machinesCache = machines;
+  localStorage.setItem(MACHINES_KEY, JSON.stringify(machines));
+
+  if (useSupabase) {
+    await updateSubmachines(subMachines.map(sub => ({
+      id: sub.id,
+      display_name: sub.displayName || null,
+      sort_order: sub.sortOrder,
+    })));
+  }
+};
+
 // Add a new machine
 export const addMachine = async (machine: Machine): Promise<void> => {
   const machines = getMachinesData();
@@ -437,6 +392,9 @@ export const addMachine = async (machine: Machine): Promise<void> => {
   if (useSupabase) {
     try {
       await upsertMachine(toSupabaseRecord(machine));
+      if (machine.subMachineCount) {
+        await refreshSubMachines(machine.id);
+      }
     } catch (error) {
       console.error('Failed to sync new machine to Supabase:', error);
     }
@@ -501,7 +459,10 @@ export const exportToCSV = (data: ShiftData[], filename: string): void => {
     'Batch Number',
     'Entry Type',
     'Waste Type',
+    'Waste Quantity',
+    'Waste Unit',
     'Waste (kg)',
+    'Waste Cost',
     'Downtime Reason',
     'Downtime (min)',
     'Submitted At',
@@ -528,7 +489,10 @@ export const exportToCSV = (data: ShiftData[], filename: string): void => {
           ...baseRow,
           'Waste',
           w.wasteType,
+          String(w.quantity ?? w.waste),
+          w.unit || 'kg',
           w.waste.toFixed(2),
+          w.cost !== undefined ? w.cost.toFixed(2) : '',
           '',
           '',
           submittedAt,
@@ -544,7 +508,10 @@ export const exportToCSV = (data: ShiftData[], filename: string): void => {
           'Downtime',
           '',
           '',
-          d.downtimeReason,
+          '',
+          '',
+          '',
+          formatDowntimeReason(d),
           d.downtime.toString(),
           submittedAt,
         ]);
@@ -558,8 +525,11 @@ export const exportToCSV = (data: ShiftData[], filename: string): void => {
         ...baseRow,
         'Summary',
         '',
+        '',
+        '',
         item.totalWaste.toFixed(2),
         '',
+        '',
         item.totalDowntime.toString(),
         submittedAt,
       ]);
@@ -591,17 +561,20 @@ export const clearHistory = (): void => {
 };
 
 // ==========================================
-// SHARED LINE SPEED - Syncs across sub-machines
+// SUB-MACHINES
 // ==========================================
 
-const LINE_SPEED_KEY_PREFIX = 'line_speed_';
-
 /**
  * Extract parent machine name from a sub-machine name
  * e.g., "Cubes - Machine 1" → "Cubes"
  * e.g., "Universal 2 - Machine 3" → "Universal 2"
  */
 export const getParentMachineName = (machineName: string): string => {
+  // A sub-machine of a known machine
+  const parent = getMachinesData().find(m => getSubMachines(m).some(sub => sub.name === machineName));
+  if (parent) {
+    return parent.name;
+  }
   // Check if it matches the pattern "Parent - Machine N"
   const match = machineName.match(/^(.+?)\s*-\s*Machine\s*\d+$/i);
   if (match) {
@@ -610,99 +583,3 @@ export const getParentMachineName = (machineName: string): string => {
   // Return the original name if no sub-machine pattern found
   return machineName;
 };
-
-/**
- * Get the storage key for shared line speed
- */
-const getLineSpeedKey = (parentMachineName: string, shift: string, date: string): string => {
-  return `${LINE_SPEED_KEY_PREFIX}${parentMachineName}_${shift}_${date}`;
-};
-
-/**
- * Save shared line speed (called when any sub-machine sets speed)
- */
-export const saveLineSpeed = (
-  machineName: string,
-  shift: string,
-  date: string,
-  speed: number
-): void => {
-  const parentName = getParentMachineName(machineName);
-  const key = getLineSpeedKey(parentName, shift, date);
-
-  const data = {
-    speed,
-    updatedAt: new Date().toISOString(),
-    updatedBy: machineName,
-  };
-
-  localStorage.setItem(key, JSON.stringify(data));
-  console.log(`💾 Saved line speed ${speed} PPM for ${parentName}`);
-};
-
-/**
- * Get shared line speed (returns the speed set by any sibling machine)
- */
-export const getLineSpeed = (
-  machineName: string,
-  shift: string,
-  date: string
-): { speed: number; updatedBy: string; updatedAt: string } | null => {
-  const parentName = getParentMachineName(machineName);
-  const key = getLineSpeedKey(parentName, shift, date);
-
-  const stored = localStorage.getItem(key);
-  if (!stored) return null;
-
-  try {
-    const data = JSON.parse(stored);
-    console.log(`📖 Loaded line speed ${data.speed} PPM for ${parentName} (set by ${data.updatedBy})`);
-    return data;
-  } catch {
-    return null;
-  }
-};
-
-/**
- * Clear shared line speed (called when session ends)
- */
-export const clearLineSpeed = (
-  machineName: string,
-  shift: string,
-  date: string
-): void => {
-  const parentName = getParentMachineName(machineName);
-  const key = getLineSpeedKey(parentName, shift, date);
-  localStorage.removeItem(key);
-};
-
-/**
- * Clean up old line speed entries (called periodically)
- */
-export const cleanupOldLineSpeeds = (retentionDays: number = 7): number => {
-  const cutoff = Date.now() - (retentionDays * 24 * 60 * 60 * 1000);
-  let removed = 0;
-
-  for (let i = localStorage.length - 1; i >= 0; i--) {
-    const key = localStorage.key(i);
-    if (key?.startsWith(LINE_SPEED_KEY_PREFIX)) {
-      try {
-        const data = localStorage.getItem(key);
-        if (data) {
-          const parsed = JSON.parse(data);
-          const updatedAt = new Date(parsed.updatedAt).getTime();
-          if (updatedAt < cutoff) {
-            localStorage.removeItem(key);
-            removed++;
-          }
-        }
-      } catch {
-        // Invalid data - remove it
-        localStorage.removeItem(key);
-        removed++;
-      }
-    }
-  }
-
-  return removed;
-};
@@ -0,0 +1,52 @@
+/**
+ * Tests for submission detail mapping and the shift timeline
+ */
+
+import { toShiftData, buildShiftTimeline } from './submissionDetail';
+
+const detail = {
+  id: 17,
+  operator_name: 'Thandi',
+  machine: 'Canline',
+  order_number: 'ORD-1',
+  product: 'Rooibos 100g',
+  batch_number: 'B1',
+  shift: 'Day',
+  submission_date: '2026-10-15',
+  will_changeover: true,
+  will_maintenance_cleaning: false,
+  total_waste: 4.5,
+  total_downtime: 20,
+  created_at: '2026-10-15T16:05:00Z',
+  waste_records: [
+    { id: 1, shift_submission_id: 17, waste_amount: 4.5, waste_type: 'Start-up Waste', operator_name: 'Thandi', recorded_at: '2026-10-15T06:30:00Z' },
+  ],
+  downtime_records: [
+    { id: 2, shift_submission_id: 17, downtime_minutes: 20, downtime_reason: 'Changeover', recorded_at: '2026-10-15T10:00:00Z' },
+  ],
+  speed_records: [
+    { id: 3, shift_submission_id: 17, speed_ppm: 120, recorded_at: '2026-10-15T06:10:00Z' },
+  ],
+  pallet_scan_records: [
+    { id: 4, shift_submission_id: 17, qr_code: '1234500010060', batch_number: '12345', pallet_number: '0001', cases_count: 60, recorded_at: '2026-10-15T12:00:00Z' },
+  ],
+};
+
+describe('submission detail', () => {
+  it('should map child records and shift flags', () => {
+    const data = toShiftData(detail);
+    expect(data.id).toBe('17');
+    expect(data.willChangeover).toBe(true);
+    expect(data.willMaintenanceCleaning).toBe(false);
+    expect(data.wasteEntries[0].operatorName).toBe('Thandi');
+    expect(data.speedEntries?.[0].speed).toBe(120);
+    expect(data.palletScanEntries?.[0].casesCount).toBe(60);
+    expect(data.sachetMassEntries).toBeUndefined();
+  });
+
+  it('should order every entry into a timeline', () => {
+    const timeline = buildShiftTimeline(toShiftData(detail));
+    expect(timeline.map(e => e.kind)).toEqual(['speed', 'waste', 'downtime', 'pallet']);
+    expect(timeline[1].label).toBe('Waste 4.5 kg');
+  });
+});
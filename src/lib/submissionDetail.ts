@@ -0,0 +1,172 @@
+/**
+ * Shift Submission Detail
+ *
+ * Loads one submission with every entry recorded during the shift, from
+ * Supabase (numeric IDs) or this device's history, and orders the entries
+ * into a timeline for the detail view.
+ */
+
+import { ShiftData, WasteUnit } from '../types';
+import {
+  isSupabaseConfigured,
+  fetchSubmissionDetail,
+  ShiftSubmissionWithRecords,
+  ShiftSubmissionDetail,
+} from './supabase';
+import { getShiftHistory } from './storage';
+import { formatDowntimeReason } from './downtimeReasons';
+import { formatWasteQuantity } from './wasteTypes';
+
+export type TimelineEventKind = 'waste' | 'downtime' | 'speed' | 'sachet_mass' | 'loose_cases' | 'pallet';
+
+export interface TimelineEvent {
+  id: string;
+  kind: TimelineEventKind;
+  timestamp: Date;
+  label: string;
+  detail?: string;
+  operatorName?: string;
+  ignored?: boolean;
+}
+
+const toDate = (recordedAt?: string, createdAt?: string): Date =>
+  new Date(recordedAt || createdAt || Date.now());
+
+/**
+ * Map a Supabase submission (with whichever child records were selected) to ShiftData
+ */
+export const toShiftData = (sub: ShiftSubmissionWithRecords & Partial<ShiftSubmissionDetail>): ShiftData => ({
+  id: sub.id.toString(),
+  operatorName: sub.operator_name,
+  machine: sub.machine,
+  subMachine: sub.sub_machine || undefined,
+  orderNumber: sub.order_number,
+  product: sub.product,
+  batchNumber: sub.batch_number,
+  shift: sub.shift,
+  crew: sub.crew || undefined,
+  date: sub.submission_date,
+  wasteEntries: (sub.waste_records || []).map(w => ({
+    id: String(w.id),
+    waste: Number(w.waste_amount),
+    wasteType: w.waste_type,
+    wasteTypeCode: w.waste_type_code || undefined,
+    quantity: w.quantity != null ? Number(w.quantity) : undefined,
+    unit: (w.unit as WasteUnit | null) || undefined,
+    cost: w.cost != null ? Number(w.cost) : undefined,
+    operatorId: w.operator_id || undefined,
+    operatorName: w.operator_name || undefined,
+    timestamp: toDate(w.recorded_at, w.created_at),
+  })),
+  downtimeEntries: (sub.downtime_records || []).map(d => ({
+    id: String(d.id),
+    downtime: d.downtime_minutes,
+    downtimeReason: d.downtime_reason,
+    reasonCode: d.reason_code || undefined,
+    operatorId: d.operator_id || undefined,
+    operatorName: d.operator_name || undefined,
+    timestamp: toDate(d.recorded_at, d.created_at),
+  })),
+  speedEntries: sub.speed_records?.map(r => ({
+    id: String(r.id),
+    speed: Number(r.speed_ppm),
+    timestamp: toDate(r.recorded_at, r.created_at),
+  })),
+  sachetMassEntries: sub.sachet_mass_records?.map(r => ({
+    id: String(r.id),
+    mass: Number(r.mass_grams),
+    ignored: r.is_ignored || undefined,
+    timestamp: toDate(r.recorded_at, r.created_at),
+  })),
+  looseCasesEntries: sub.loose_cases_records?.map(r => ({
+    id: String(r.id),
+    batchNumber: r.batch_number,
+    cases: r.cases_count,
+    timestamp: toDate(r.recorded_at, r.created_at),
+  })),
+  palletScanEntries: sub.pallet_scan_records?.map(r => ({
+    id: String(r.id),
+    qrCode: r.qr_code,
+    batchNumber: r.batch_number,
+    palletNumber: r.pallet_number,
+    casesCount: r.cases_count,
+    ignored: r.is_ignored || undefined,
+    operatorId: r.operator_id || undefined,
+    operatorName: r.operator_name || undefined,
+    timestamp: toDate(r.recorded_at, r.created_at),
+  })),
+  isEarlySubmission: sub.is_early_submission ?? undefined,
+  willChangeover: sub.will_changeover ?? undefined,
+  willMaintenanceCleaning: sub.will_maintenance_cleaning ?? undefined,
+  totalWaste: Number(sub.total_waste) || 0,
+  totalDowntime: sub.total_downtime || 0,
+  submittedAt: new Date(sub.created_at),
+});
+
+/**
+ * Load a submission by ID: this device's history first, then Supabase
+ */
+export const loadSubmissionDetail = async (id: string): Promise<ShiftData | null> => {
+  const local = getShiftHistory().find(item => item.id === id);
+  if (local) return local;
+
+  if (!isSupabaseConfigured || !/^\d+$/.test(id)) return null;
+  const detail = await fetchSubmissionDetail(Number(id));
+  return detail ? toShiftData(detail) : null;
+};
+
+/**
+ * Every entry recorded during the shift, oldest first
+ */
+export const buildShiftTimeline = (data: ShiftData): TimelineEvent[] => {
+  const events: TimelineEvent[] = [
+    ...data.wasteEntries.map(e => ({
+      id: `waste-${e.id}`,
+      kind: 'waste' as const,
+      timestamp: e.timestamp,
+      label: `Waste ${formatWasteQuantity(e)}`,
+      detail: e.wasteType,
+      operatorName: e.operatorName,
+    })),
+    ...data.downtimeEntries.map(e => ({
+      id: `downtime-${e.id}`,
+      kind: 'downtime' as const,
+      timestamp: e.timestamp,
+      label: `Downtime ${e.downtime} min`,
+      detail: e.notes ? `${formatDowntimeReason(e)} - ${e.notes}` : formatDowntimeReason(e),
+      operatorName: e.operatorName,
+    })),
+    ...(data.speedEntries || []).map(e => ({
+      id: `speed-${e.id}`,
+      kind: 'speed' as const,
+      timestamp: e.timestamp,
+      label: `Speed ${e.speed} PPM`,
+    })),
+    ...(data.sachetMassEntries || []).map(e => ({
+      id: `sachet-${e.id}`,
+      kind: 'sachet_mass' as const,
+      timestamp: e.timestamp,
+      label: `Sachet mass ${e.mass} g`,
+      ignored: e.ignored,
+    })),
+    ...(data.looseCasesEntries || []).map(e => ({
+      id: `loose-${e.id}`,
+      kind: 'loose_cases' as const,
+      timestamp: e.timestamp,
+      label: `${e.cases} loose cases`,
+      detail: `Batch ${e.batchNumber}`,
+      ignored: e.ignored,
+    })),
+    ...(data.palletScanEntries || []).map(e => ({
+      id: `pallet-${e.id}`,
+      kind: 'pallet' as const,
+      timestamp: e.timestamp,
+      label: `Pallet ${e.palletNumber} (${e.casesCount} cases)`,
+      detail: `Batch ${e.batchNumber}`,
+      operatorName: e.operatorName,
+      ignored: e.ignored,
+    })),
+  ];
+
+  return events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+};
@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
+import { SubmissionQuery, SubmissionPage, buildKeysetFilter, nextKeysetCursor, containsPattern } from './historyQuery';
+import { ActivityQuery, buildActivityCursorFilter, nextActivityCursor } from './activityQuery';
+import { OrderPlan, OrderStatus } from '../types';
 
 // Supabase project credentials must be provided via environment variables.
 // CRA only exposes env vars prefixed with REACT_APP_ and they are baked into the build.
@@ -31,20 +34,28 @@ export interface ShiftSubmission {
   product: string;
   batch_number: string;
   shift: string;
+  crew?: string;
   submission_date: string;
   is_early_submission?: boolean;
   will_changeover?: boolean;
   will_maintenance_cleaning?: boolean;
   total_waste?: number;
   total_downtime?: number;
+  idempotency_key?: string | null;
   created_at?: string;
 }
 
 export interface WasteRecord {
   id?: number;
   shift_submission_id: number;
-  waste_amount: number;
+  waste_amount: number; // kg
   waste_type: string;
+  waste_type_code?: string | null;
+  quantity?: number | null;
+  unit?: string | null;
+  cost?: number | null;
+  operator_id?: string | null;
+  operator_name?: string | null;
   recorded_at?: string;
   created_at?: string;
 }
@@ -54,6 +65,9 @@ export interface DowntimeRecord {
   shift_submission_id: number;
   downtime_minutes: number;
   downtime_reason: string;
+  reason_code?: string | null;
+  operator_id?: string | null;
+  operator_name?: string | null;
   recorded_at?: string;
   created_at?: string;
 }
@@ -70,6 +84,7 @@ export interface SachetMassRecord {
   id?: number;
   shift_submission_id: number;
   mass_grams: number;
+  is_ignored?: boolean;
   recorded_at: string;
   created_at?: string;
 }
@@ -101,6 +116,9 @@ export interface PalletScanRecord {
   batch_number: string;
   pallet_number: string;
   cases_count: number;
+  is_ignored?: boolean;
+  operator_id?: string | null;
+  operator_name?: string | null;
   recorded_at: string;
   created_at?: string;
 }
@@ -130,204 +148,293 @@ export interface ChatMessageRecord {
   created_at?: string;
 }
 
-// Enhanced shift data submission with all new fields
+// Complete shift submission, written in one transaction by submit_shift()
 export interface FullShiftSubmission {
-  shiftData: Omit<ShiftSubmission, 'id' | 'created_at'>;
-  wasteEntries: { waste: number; wasteType: string; timestamp: Date }[];
-  downtimeEntries: { downtime: number; downtimeReason: string; timestamp: Date }[];
+  // Client-generated key; resubmitting with the same key returns the first submission
+  idempotencyKey: string;
+  shiftData: Omit<ShiftSubmission, 'id' | 'created_at' | 'total_waste' | 'total_downtime'>;
+  wasteEntries: {
+    waste: number;
+    wasteType: string;
+    wasteTypeCode?: string;
+    quantity?: number;
+    unit?: string;
+    cost?: number;
+    timestamp?: Date;
+    operatorId?: string;
+    operatorName?: string;
+  }[];
+  downtimeEntries: { downtime: number; downtimeReason: string; reasonCode?: string; timestamp?: Date; operatorId?: string; operatorName?: string }[];
   speedEntries?: { speed: number; timestamp: Date }[];
-  sachetMassEntries?: { mass: number; timestamp: Date }[];
+  sachetMassEntries?: { mass: number; ignored?: boolean; timestamp: Date }[];
   casesPerHourEntries?: { cases: number; hour: number; timestamp: Date }[]; // Legacy
   looseCasesEntries?: { batchNumber: string; cases: number; timestamp: Date }[];
-  palletScanEntries?: { qrCode: string; batchNumber: string; palletNumber: string; casesCount: number; timestamp: Date }[];
+  palletScanEntries?: { qrCode: string; batchNumber: string; palletNumber: string; casesCount: number; ignored?: boolean; timestamp: Date; operatorId?: string; operatorName?: string }[];
 }
 
-// Result type for submission with warnings
 export interface SubmitShiftResult {
-  success: boolean;
-  shiftSubmission: ShiftSubmission | null;
-  warnings: string[];
-  errors: string[];
+  submissionId: number;
+  duplicate: boolean; // The idempotency key had already been submitted
+  duplicatePallets: string[]; // QR codes of pallets another shift had already recorded (stored as ignored)
 }
 
-// Database operations
-export const submitShiftData = async (
-  shiftData: Omit<ShiftSubmission, 'id' | 'created_at'>,
-  wasteEntries: { waste: number; wasteType: string; timestamp?: Date }[],
-  downtimeEntries: { downtime: number; downtimeReason: string; timestamp?: Date }[],
-  speedEntries?: { speed: number; timestamp: Date }[],
-  sachetMassEntries?: { mass: number; timestamp: Date }[],
-  looseCasesEntries?: { batchNumber: string; cases: number; timestamp: Date }[],
-  palletScanEntries?: { qrCode: string; batchNumber: string; palletNumber: string; casesCount: number; timestamp: Date }[]
-): Promise<SubmitShiftResult> => {
+const toIsoString = (timestamp?: Date | string): string =>
+  (timestamp ? new Date(timestamp) : new Date()).toISOString();
+
+// JSON payload for submit_shift(): the shift row plus each child table's rows
+export const toSubmitShiftPayload = (submission: FullShiftSubmission) => ({
+  shift: submission.shiftData,
+  waste_records: submission.wasteEntries.map(entry => ({
+    waste_amount: entry.waste,
+    waste_type: entry.wasteType,
+    waste_type_code: entry.wasteTypeCode || null,
+    quantity: entry.quantity ?? null,
+    unit: entry.unit || null,
+    cost: entry.cost ?? null,
+    operator_id: entry.operatorId || null,
+    operator_name: entry.operatorName || null,
+    recorded_at: toIsoString(entry.timestamp),
+  })),
+  downtime_records: submission.downtimeEntries.map(entry => ({
+    downtime_minutes: entry.downtime,
+    downtime_reason: entry.downtimeReason,
+    reason_code: entry.reasonCode || null,
+    operator_id: entry.operatorId || null,
+    operator_name: entry.operatorName || null,
+    recorded_at: toIsoString(entry.timestamp),
+  })),
+  speed_records: (submission.speedEntries || []).map(entry => ({
+    speed_ppm: entry.speed,
+    recorded_at: toIsoString(entry.timestamp),
+  })),
+  sachet_mass_records: (submission.sachetMassEntries || []).map(entry => ({
+    mass_grams: entry.mass,
+    is_ignored: entry.ignored || false,
+    recorded_at: toIsoString(entry.timestamp),
+  })),
+  cases_per_hour_records: (submission.casesPerHourEntries || []).map(entry => ({
+    cases_count: entry.cases,
+    hour_of_day: entry.hour,
+    recorded_at: toIsoString(entry.timestamp),
+  })),
+  loose_cases_records: (submission.looseCasesEntries || []).map(entry => ({
+    batch_number: entry.batchNumber,
+    cases_count: entry.cases,
+    recorded_at: toIsoString(entry.timestamp),
+  })),
+  pallet_scan_records: (submission.palletScanEntries || []).map(entry => ({
+    qr_code: entry.qrCode,
+    batch_number: entry.batchNumber,
+    pallet_number: entry.palletNumber,
+    cases_count: entry.casesCount,
+    is_ignored: entry.ignored || false,
+    operator_id: entry.operatorId || null,
+    operator_name: entry.operatorName || null,
+    recorded_at: toIsoString(entry.timestamp),
+  })),
+});
+
+// Submit a shift and all of its entries atomically - every record is written or none
+export const submitShiftData = async (submission: FullShiftSubmission): Promise<SubmitShiftResult> => {
   requireSupabaseConfigured();
 
-  const warnings: string[] = [];
-  const errors: string[] = [];
+  const { data, error } = await supabase.rpc('submit_shift', {
+    p_idempotency_key: submission.idempotencyKey,
+    p_submission: toSubmitShiftPayload(submission),
+  });
 
-  // Calculate totals
-  const totalWaste = wasteEntries.reduce((sum, e) => sum + e.waste, 0);
-  const totalDowntime = downtimeEntries.reduce((sum, e) => sum + e.downtime, 0);
+  if (error) {
+    throw new Error(`Failed to submit shift data: ${error.message}`);
+  }
+
+  const result = data as { id: number; duplicate: boolean; duplicate_pallets?: string[] };
+  return { submissionId: result.id, duplicate: result.duplicate, duplicatePallets: result.duplicate_pallets || [] };
+};
 
-  // Insert shift submission (critical - must succeed)
-  const { data: shiftSubmission, error: shiftError } = await supabase
+// Fetch recent submissions
+export const getRecentSubmissions = async (limit = 10) => {
+  requireSupabaseConfigured();
+  const { data, error } = await supabase
     .from('shift_submissions')
-    .insert([{
-      ...shiftData,
-      total_waste: totalWaste,
-      total_downtime: totalDowntime,
-    }])
-    .select()
-    .single();
+    .select(`
+      *,
+      waste_records (*),
+      downtime_records (*)
+    `)
+    .order('created_at', { ascending: false })
+    .limit(limit);
 
-  if (shiftError) {
-    throw new Error(`Failed to submit shift data: ${shiftError.message}`);
+  if (error) {
+    throw new Error(`Failed to fetch submissions: ${error.message}`);
   }
 
-  const shiftId = shiftSubmission.id;
+  return data;
+};
 
-  // Insert waste records (critical - must succeed)
-  if (wasteEntries.length > 0) {
-    const wasteRecords = wasteEntries.map(entry => ({
-      shift_submission_id: shiftId,
-      waste_amount: entry.waste,
-      waste_type: entry.wasteType,
-      recorded_at: entry.timestamp ? new Date(entry.timestamp).toISOString() : new Date().toISOString(),
-    }));
+export interface ShiftSubmissionWithRecords extends ShiftSubmission {
+  id: number;
+  created_at: string;
+  waste_records?: WasteRecord[];
+  downtime_records?: DowntimeRecord[];
+}
 
-    const { error: wasteError } = await supabase
-      .from('waste_records')
-      .insert(wasteRecords);
+// Query submissions with filters, server-side sorting and cursor pagination
+export const querySubmissions = async (
+  query: SubmissionQuery
+): Promise<SubmissionPage<ShiftSubmissionWithRecords>> => {
+  requireSupabaseConfigured();
 
-    if (wasteError) {
-      throw new Error(`Failed to submit waste records: ${wasteError.message}`);
-    }
+  // The total is only counted for the first page
+  let request = supabase
+    .from('shift_submissions')
+    .select(`
+      *,
+      waste_records (*),
+      downtime_records (*)
+    `, query.cursor ? undefined : { count: 'exact' })
+    .order(query.sortBy, { ascending: query.ascending, nullsFirst: false })
+    .order('id', { ascending: query.ascending })
+    .limit(query.limit + 1);
+
+  if (query.fromDate) request = request.gte('submission_date', query.fromDate);
+  if (query.toDate) request = request.lte('submission_date', query.toDate);
+  if (query.machine) request = request.ilike('machine', containsPattern(query.machine));
+  if (query.operator) request = request.ilike('operator_name', containsPattern(query.operator));
+  if (query.product) request = request.ilike('product', containsPattern(query.product));
+  if (query.orderNumber) request = request.ilike('order_number', containsPattern(query.orderNumber));
+  if (query.cursor) request = request.or(buildKeysetFilter(query.sortBy, query.ascending, query.cursor));
+
+  const { data, error, count } = await request;
+  if (error) {
+    throw new Error(`Failed to query submissions: ${error.message}`);
   }
 
-  // Insert downtime records (critical - must succeed)
-  if (downtimeEntries.length > 0) {
-    const downtimeRecords = downtimeEntries.map(entry => ({
-      shift_submission_id: shiftId,
-      downtime_minutes: entry.downtime,
-      downtime_reason: entry.downtimeReason,
-      recorded_at: entry.timestamp ? new Date(entry.timestamp).toISOString() : new Date().toISOString(),
-    }));
+  // One extra row tells us whether there is another page
+  const rows = (data || []) as ShiftSubmissionWithRecords[];
+  const pageRows = rows.slice(0, query.limit);
+  const last = pageRows[pageRows.length - 1];
 
-    const { error: downtimeError } = await supabase
-      .from('downtime_records')
-      .insert(downtimeRecords);
-
-    if (downtimeError) {
-      throw new Error(`Failed to submit downtime records: ${downtimeError.message}`);
-    }
-  }
+  return {
+    rows: pageRows,
+    nextCursor: rows.length > query.limit && last ? nextKeysetCursor(last, query.sortBy) : null,
+    totalCount: count ?? null,
+  };
+};
 
-  // Insert speed records (non-critical - warn on failure)
-  if (speedEntries && speedEntries.length > 0) {
-    const speedRecords = speedEntries.map(entry => ({
-      shift_submission_id: shiftId,
-      speed_ppm: entry.speed,
-      recorded_at: new Date(entry.timestamp).toISOString(),
-    }));
+export interface ShiftSubmissionDetail extends ShiftSubmissionWithRecords {
+  speed_records?: SpeedRecord[];
+  sachet_mass_records?: SachetMassRecord[];
+  loose_cases_records?: LooseCasesRecord[];
+  pallet_scan_records?: PalletScanRecord[];
+}
 
-    const { error: speedError } = await supabase
-      .from('speed_records')
-      .insert(speedRecords);
+// Fetch one submission with all of its entry records
+export const fetchSubmissionDetail = async (id: number): Promise<ShiftSubmissionDetail | null> => {
+  requireSupabaseConfigured();
+  const { data, error } = await supabase
+    .from('shift_submissions')
+    .select(`
+      *,
+      waste_records (*),
+      downtime_records (*),
+      speed_records (*),
+      sachet_mass_records (*),
+      loose_cases_records (*),
+      pallet_scan_records (*)
+    `)
+    .eq('id', id)
+    .maybeSingle();
 
-    if (speedError) {
-      const msg = `Speed records failed: ${speedError.message}`;
-      console.error(msg);
-      warnings.push(msg);
-    }
+  if (error) {
+    throw new Error(`Failed to fetch submission: ${error.message}`);
   }
+  return data;
+};
 
-  // Insert sachet mass records (non-critical - warn on failure)
-  if (sachetMassEntries && sachetMassEntries.length > 0) {
-    const sachetRecords = sachetMassEntries.map(entry => ({
-      shift_submission_id: shiftId,
-      mass_grams: entry.mass,
-      recorded_at: new Date(entry.timestamp).toISOString(),
-    }));
-
-    const { error: sachetError } = await supabase
-      .from('sachet_mass_records')
-      .insert(sachetRecords);
+// Sachet mass samples for a product since a date, oldest first (for SPC limits)
+export const fetchSachetMassHistory = async (
+  product: string,
+  since: string,
+  limit = 1000
+): Promise<SachetMassRecord[]> => {
+  requireSupabaseConfigured();
+  const { data, error } = await supabase
+    .from('sachet_mass_records')
+    .select('id, shift_submission_id, mass_grams, is_ignored, recorded_at, shift_submissions!inner(product)')
+    .eq('shift_submissions.product', product)
+    .gte('recorded_at', since)
+    .order('recorded_at', { ascending: false })
+    .limit(limit);
 
-    if (sachetError) {
-      const msg = `Sachet mass records failed: ${sachetError.message}`;
-      console.error(msg);
-      warnings.push(msg);
-    }
+  if (error) {
+    throw new Error(`Failed to fetch sachet mass history: ${error.message}`);
   }
+  return ((data || []) as unknown as SachetMassRecord[]).reverse();
+};
 
-  // Insert loose cases records (non-critical - warn on failure)
-  if (looseCasesEntries && looseCasesEntries.length > 0) {
-    const looseCasesRecords = looseCasesEntries.map(entry => ({
-      shift_submission_id: shiftId,
-      batch_number: entry.batchNumber,
-      cases_count: entry.cases,
-      recorded_at: new Date(entry.timestamp).toISOString(),
-    }));
+export interface RecordedPalletRecord extends PalletScanRecord {
+  shift_submissions: Pick<ShiftSubmission, 'machine' | 'sub_machine' | 'shift' | 'submission_date'> | null;
+}
 
-    const { error: looseCasesError } = await supabase
-      .from('loose_cases_records')
-      .insert(looseCasesRecords);
+// Pallets of a batch recorded by submitted shifts (ignored scans left out), by pallet number
+export const fetchRecordedPallets = async (batchNumber: string): Promise<RecordedPalletRecord[]> => {
+  requireSupabaseConfigured();
+  const { data, error } = await supabase
+    .from('pallet_scan_records')
+    .select('*, shift_submissions (machine, sub_machine, shift, submission_date)')
+    .eq('batch_number', batchNumber)
+    .eq('is_ignored', false)
+    .order('pallet_number', { ascending: true })
+    .limit(2000);
 
-    if (looseCasesError) {
-      const msg = `Loose cases records failed: ${looseCasesError.message}`;
-      console.error(msg);
-      warnings.push(msg);
-    }
+  if (error) {
+    throw new Error(`Failed to fetch pallets for batch ${batchNumber}: ${error.message}`);
   }
+  return (data || []) as unknown as RecordedPalletRecord[];
+};
 
-  // Insert pallet scan records (non-critical - warn on failure)
-  if (palletScanEntries && palletScanEntries.length > 0) {
-    const palletRecords = palletScanEntries.map(entry => ({
-      shift_submission_id: shiftId,
-      qr_code: entry.qrCode,
-      batch_number: entry.batchNumber,
-      pallet_number: entry.palletNumber,
-      cases_count: entry.casesCount,
-      recorded_at: new Date(entry.timestamp).toISOString(),
-    }));
-
-    const { error: palletError } = await supabase
-      .from('pallet_scan_records')
-      .insert(palletRecords);
-
-    if (palletError) {
-      const msg = `Pallet scan records failed: ${palletError.message}`;
-      console.error(msg);
-      warnings.push(msg);
-    }
+// Submissions that produced a batch - by the shift's batch number or the
+// pallets and loose cases scanned for it - with all of their entry records
+export const fetchBatchSubmissions = async (
+  batchNumber: string,
+  limit = 50
+): Promise<ShiftSubmissionDetail[]> => {
+  requireSupabaseConfigured();
+  const [pallets, looseCases] = await Promise.all([
+    supabase.from('pallet_scan_records').select('shift_submission_id').eq('batch_number', batchNumber).limit(1000),
+    supabase.from('loose_cases_records').select('shift_submission_id').eq('batch_number', batchNumber).limit(1000),
+  ]);
+  const lookupError = pallets.error || looseCases.error;
+  if (lookupError) {
+    throw new Error(`Failed to look up batch ${batchNumber}: ${lookupError.message}`);
   }
 
-  return {
-    success: true,
-    shiftSubmission,
-    warnings,
-    errors,
-  };
-};
+  const ids = Array.from(new Set(
+    [...(pallets.data || []), ...(looseCases.data || [])].map(r => r.shift_submission_id as number)
+  ));
+  // GS1 batch numbers may contain commas and brackets, so the value is quoted
+  const batchFilter = `batch_number.eq."${batchNumber.replace(/["\\]/g, '\\$&')}"`;
+  const filter = ids.length > 0 ? `${batchFilter},id.in.(${ids.join(',')})` : batchFilter;
 
-// Fetch recent submissions
-export const getRecentSubmissions = async (limit = 10) => {
-  requireSupabaseConfigured();
   const { data, error } = await supabase
     .from('shift_submissions')
     .select(`
       *,
       waste_records (*),
-      downtime_records (*)
+      downtime_records (*),
+      speed_records (*),
+      sachet_mass_records (*),
+      loose_cases_records (*),
+      pallet_scan_records (*)
     `)
-    .order('created_at', { ascending: false })
+    .or(filter)
+    .order('created_at', { ascending: true })
     .limit(limit);
 
   if (error) {
-    throw new Error(`Failed to fetch submissions: ${error.message}`);
+    throw new Error(`Failed to fetch batch submissions: ${error.message}`);
   }
-
-  return data;
+  return (data || []) as ShiftSubmissionDetail[];
 };
 
 // ==========================================
@@ -345,7 +452,13 @@ export interface MachineRecord {
   today_waste?: number;
   today_downtime?: number;
   sub_machine_count?: number;
-  parent_machine_id?: string; // null for parent machines, set for submachines
+  rated_speed?: number;
+  units_per_case?: number;
+  label_format?: string | null;
+  parent_machine_id?: string | null; // null for parent machines, set for submachines
+  line_id?: string | null;
+  display_name?: string | null;
+  sort_order?: number;
   created_at?: string;
   updated_at?: string;
 }
@@ -358,6 +471,7 @@ export const fetchMachines = async (): Promise<MachineRecord[]> => {
     .from('machines')
     .select('*')
     .is('parent_machine_id', null)
+    .order('sort_order', { ascending: true })
     .order('name', { ascending: true });
 
   if (error) {
@@ -394,6 +508,7 @@ export const fetchSubmachinesForParent = async (parentMachineId: string): Promis
     .from('machines')
     .select('*')
     .eq('parent_machine_id', parentMachineId)
+    .order('sort_order', { ascending: true })
     .order('name', { ascending: true });
 
   if (error) {
@@ -404,6 +519,42 @@ export const fetchSubmachinesForParent = async (parentMachineId: string): Promis
   return data || [];
 };
 
+// Fetch the submachines of every machine
+export const fetchAllSubmachines = async (): Promise<MachineRecord[]> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase
+    .from('machines')
+    .select('*')
+    .not('parent_machine_id', 'is', null)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch submachines: ${error.message}`);
+  }
+  return data || [];
+};
+
+// Save the display names and order of a machine's submachines
+export const updateSubmachines = async (
+  submachines: Pick<MachineRecord, 'id' | 'display_name' | 'sort_order'>[]
+): Promise<void> => {
+  requireSupabaseConfigured();
+
+  const results = await Promise.all(submachines.map(sub =>
+    supabase
+      .from('machines')
+      .update({ display_name: sub.display_name, sort_order: sub.sort_order, updated_at: new Date().toISOString() })
+      .eq('id', sub.id)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) {
+    throw new Error(`Failed to update submachines: ${failed.error.message}`);
+  }
+};
+
 // Get active (running) submachine numbers for a parent machine
 export const getActiveSubmachineNumbers = async (parentMachineId: string, subMachineCount: number): Promise<Set<number>> => {
   const activeSet = new Set<number>();
@@ -440,6 +591,12 @@ export const upsertMachine = async (machine: MachineRecord): Promise<MachineReco
       today_waste: machine.today_waste,
       today_downtime: machine.today_downtime,
       sub_machine_count: machine.sub_machine_count,
+      rated_speed: machine.rated_speed,
+      units_per_case: machine.units_per_case,
+      label_format: machine.label_format,
+      line_id: machine.line_id,
+      display_name: machine.display_name,
+      sort_order: machine.sort_order,
       updated_at: new Date().toISOString(),
     }, { onConflict: 'id' })
     .select()
@@ -478,6 +635,7 @@ export const generateSubmachines = async (
         name: subName,
         status: 'idle',
         parent_machine_id: parentId,
+        sort_order: i,
       });
     }
 
@@ -492,8 +650,16 @@ export const generateSubmachines = async (
         { onConflict: 'id', ignoreDuplicates: true }
       );
 
-    if (error) {
-      console.error('Failed to generate submachines:', error.message);
+    // Drop the submachines beyond a reduced count
+    const trimmed = error ? null : await supabase
+      .from('machines')
+      .delete()
+      .eq('parent_machine_id', parentId)
+      .not('id', 'in', `(${submachines.map(sub => `"${sub.id}"`).join(',')})`);
+
+    const failure = error || trimmed?.error;
+    if (failure) {
+      console.error('Failed to generate submachines:', failure.message);
       return false;
     }
 
@@ -535,7 +701,8 @@ export const removeMachine = async (machineId: string): Promise<boolean> => {
   return true;
 };
 
-// Update machine status (running/idle/maintenance)
+// Update machine status (running/idle/maintenance) through the set_machine_status
+// RPC - idle clears the operator, order and shift
 export const updateMachineStatus = async (
   machineId: string,
   status: 'running' | 'idle' | 'maintenance',
@@ -546,26 +713,13 @@ export const updateMachineStatus = async (
   if (!isSupabaseConfigured) return false;
 
   try {
-    const updateData: Record<string, unknown> = {
-      status,
-      updated_at: new Date().toISOString(),
-    };
-
-    // Set or clear operator/order based on status
-    if (status === 'running') {
-      if (operatorName) updateData.current_operator = operatorName;
-      if (orderNumber) updateData.current_order = orderNumber;
-      if (shift) updateData.current_shift = shift;
-    } else if (status === 'idle') {
-      updateData.current_operator = null;
-      updateData.current_order = null;
-      updateData.current_shift = null;
-    }
-
-    const { error } = await supabase
-      .from('machines')
-      .update(updateData)
-      .eq('id', machineId);
+    const { error } = await supabase.rpc('set_machine_status', {
+      p_machine_id: machineId,
+      p_status: status,
+      p_operator_name: operatorName || null,
+      p_order_number: orderNumber || null,
+      p_shift: shift || null,
+    });
 
     if (error) {
       console.error('Failed to update machine status:', error.message);
@@ -594,6 +748,12 @@ export const syncMachinesToSupabase = async (machines: MachineRecord[]): Promise
         today_waste: m.today_waste,
         today_downtime: m.today_downtime,
         sub_machine_count: m.sub_machine_count,
+        rated_speed: m.rated_speed,
+        units_per_case: m.units_per_case,
+        label_format: m.label_format,
+        line_id: m.line_id,
+        display_name: m.display_name,
+        sort_order: m.sort_order,
         updated_at: new Date().toISOString(),
       })),
       { onConflict: 'id' }
@@ -621,8 +781,9 @@ export const subscribeMachineChanges = (
       'postgres_changes',
       { event: 'INSERT', schema: 'public', table: 'machines' },
       (payload) => {
-        // Add new machine to current list
+        // Add new machine to current list (submachines are not listed)
         const newMachine = payload.new as MachineRecord;
+        if (newMachine.parent_machine_id) return;
         const currentMachines = getCurrentMachines();
         const updatedMachines = [...currentMachines, newMachine];
         callback(updatedMachines);
@@ -855,6 +1016,15 @@ export interface MachineOrderQueueRecord {
   batch_number: string;
   priority: number;
   is_active: boolean;
+  status?: OrderStatus;
+  planned_quantity?: number | null;
+  due_date?: string | null;
+  planned_start?: string | null;
+  started_at?: string | null;
+  paused_at?: string | null;
+  completed_at?: string | null;
+  cancelled_at?: string | null;
+  status_changed_at?: string | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -959,7 +1129,8 @@ export const addMachineOrder = async (
   machineId: string,
   orderNumber: string,
   product: string,
-  batchNumber: string
+  batchNumber: string,
+  plan: OrderPlan = {}
 ): Promise<MachineOrderQueueRecord | null> => {
   requireSupabaseConfigured();
 
@@ -983,7 +1154,10 @@ export const addMachineOrder = async (
         product: product.trim(),
         batch_number: batchNumber.trim(),
         priority: nextPriority,
-        is_active: true
+        is_active: true,
+        planned_quantity: plan.plannedQuantity ?? null,
+        due_date: plan.dueDate || null,
+        planned_start: plan.plannedStart || null
       }])
       .select()
       .single();
@@ -996,17 +1170,12 @@ export const addMachineOrder = async (
   }
 };
 
-// Remove an order from a machine's queue
+// Remove an order from a machine's queue (cancels it)
 export const removeMachineOrder = async (orderId: number): Promise<boolean> => {
   requireSupabaseConfigured();
 
   try {
-    const { error } = await supabase
-      .from('machine_order_queue')
-      .update({ is_active: false })
-      .eq('id', orderId);
-
-    if (error) throw error;
+    await setMachineOrderStatus(orderId, 'cancelled');
     return true;
   } catch (e) {
     console.error('Failed to remove machine order:', e);
@@ -1014,6 +1183,42 @@ export const removeMachineOrder = async (orderId: number): Promise<boolean> => {
   }
 };
 
+// Move an order to a new state (set_order_status RPC - validates the
+// transition and stamps the state's time)
+export const setMachineOrderStatus = async (orderId: number, status: OrderStatus): Promise<MachineOrderQueueRecord> => {
+  requireSupabaseConfigured();
+  const { data, error } = await supabase.rpc('set_order_status', {
+    p_order_id: orderId,
+    p_status: status,
+  });
+
+  if (error) {
+    throw new Error(`Failed to set order status: ${error.message}`);
+  }
+  return data as MachineOrderQueueRecord;
+};
+
+// Cases recorded against an order by submitted shifts (pallets and loose
+// cases, only those of the batch when one is given)
+export const fetchOrderCasesProduced = async (orderNumber: string, batchNumber?: string): Promise<number> => {
+  requireSupabaseConfigured();
+  const { data, error } = await supabase
+    .from('shift_submissions')
+    .select('id, loose_cases_records (batch_number, cases_count), pallet_scan_records (batch_number, cases_count, is_ignored)')
+    .eq('order_number', orderNumber);
+
+  if (error) {
+    throw new Error(`Failed to fetch order production: ${error.message}`);
+  }
+  const batch = batchNumber?.trim();
+  const inBatch = (r: { batch_number: string }) => !batch || r.batch_number === batch;
+  return (data || []).reduce((total, submission) =>
+    total +
+    (submission.pallet_scan_records || []).filter(r => inBatch(r) && !r.is_ignored).reduce((sum, r) => sum + r.cases_count, 0) +
+    (submission.loose_cases_records || []).filter(inBatch).reduce((sum, r) => sum + r.cases_count, 0),
+  0);
+};
+
 // Update priorities for a machine's orders (for reordering) - ATOMIC version
 export const updateMachineOrderPriorities = async (
   machineId: string,
@@ -1070,9 +1275,10 @@ export const clearMachineOrders = async (machineId: string): Promise<boolean> =>
   requireSupabaseConfigured();
 
   try {
+    const now = new Date().toISOString();
     const { error } = await supabase
       .from('machine_order_queue')
-      .update({ is_active: false })
+      .update({ is_active: false, status: 'cancelled', cancelled_at: now, status_changed_at: now })
       .eq('machine_id', machineId)
       .eq('is_active', true);
 
@@ -1083,3 +1289,671 @@ export const clearMachineOrders = async (machineId: string): Promise<boolean> =>
     return false;
   }
 };
+
+// ==========================================
+// FACILITY SETTINGS
+// ==========================================
+
+export interface FacilitySettingRecord {
+  id?: number;
+  setting_key: string;
+  setting_value: Record<string, unknown>;
+  description?: string;
+  updated_at?: string;
+  updated_by?: string | null;
+}
+
+// Fetch all facility setting rows
+export const fetchFacilitySettingRecords = async (): Promise<FacilitySettingRecord[]> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase
+    .from('facility_settings')
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to fetch facility settings: ${error.message}`);
+  }
+  return data || [];
+};
+
+// Upsert facility setting rows by key
+export const upsertFacilitySettingRecords = async (
+  records: FacilitySettingRecord[],
+  updatedBy: string
+): Promise<void> => {
+  requireSupabaseConfigured();
+
+  const updatedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('facility_settings')
+    .upsert(
+      records.map(r => ({ ...r, updated_at: updatedAt, updated_by: updatedBy })),
+      { onConflict: 'setting_key' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to save facility settings: ${error.message}`);
+  }
+};
+
+// Subscribe to facility settings changes (any row)
+export const subscribeFacilitySettingChanges = (onChange: () => void) => {
+  requireSupabaseConfigured();
+
+  const channel = supabase
+    .channel('facility-settings-changes')
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'facility_settings' },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// ==========================================
+// USER PROFILES (Roles)
+// ==========================================
+
+export interface UserProfileRecord {
+  id: string;                 // auth.users id
+  display_name: string;
+  email?: string | null;
+  role: 'operator' | 'supervisor' | 'admin';
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Fetch the profile for a signed-in user
+export const fetchUserProfile = async (userId: string): Promise<UserProfileRecord | null> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch user profile: ${error.message}`);
+  }
+  return data;
+};
+
+// Fetch all user profiles (admins only under RLS)
+export const fetchUserProfiles = async (): Promise<UserProfileRecord[]> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .order('display_name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch user profiles: ${error.message}`);
+  }
+  return data || [];
+};
+
+// Update a user's role or display name (admins only under RLS)
+export const updateUserProfile = async (
+  userId: string,
+  updates: Partial<Pick<UserProfileRecord, 'display_name' | 'role'>>
+): Promise<void> => {
+  requireSupabaseConfigured();
+
+  const { error } = await supabase
+    .from('user_profiles')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to update user profile: ${error.message}`);
+  }
+};
+
+// ==========================================
+// OPERATOR REGISTRY
+// ==========================================
+
+export interface OperatorRecord {
+  id: string;
+  name: string;
+  employee_number?: string | null;
+  badge_code?: string | null;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// pin_hash is never readable by clients, so columns are listed explicitly
+const OPERATOR_COLUMNS = 'id, name, employee_number, badge_code, is_active, created_at, updated_at';
+
+// Fetch the operator registry
+export const fetchOperatorRecords = async (includeInactive = false): Promise<OperatorRecord[]> => {
+  requireSupabaseConfigured();
+
+  let query = supabase
+    .from('operators')
+    .select(OPERATOR_COLUMNS)
+    .order('name', { ascending: true });
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch operators: ${error.message}`);
+  }
+  return data || [];
+};
+
+// Create or update an operator; the PIN is hashed server-side (supervisors only)
+export const saveOperatorRecord = async (
+  operator: Omit<OperatorRecord, 'id' | 'created_at' | 'updated_at'> & { id?: string },
+  pin?: string
+): Promise<OperatorRecord> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase.rpc('save_operator', {
+    p_id: operator.id || null,
+    p_name: operator.name,
+    p_employee_number: operator.employee_number || null,
+    p_badge_code: operator.badge_code || null,
+    p_pin: pin || null,
+    p_is_active: operator.is_active,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save operator: ${error.message}`);
+  }
+  return data as OperatorRecord;
+};
+
+// Resolve a badge code or PIN to an active operator
+export const identifyOperatorRecord = async (
+  credentials: { badgeCode?: string; pin?: string }
+): Promise<OperatorRecord | null> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase.rpc('identify_operator', {
+    p_badge_code: credentials.badgeCode || null,
+    p_pin: credentials.pin || null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to identify operator: ${error.message}`);
+  }
+  const rows = (data || []) as OperatorRecord[];
+  return rows[0] || null;
+};
+
+// ==========================================
+// DOWNTIME REASONS (Admin-managed reason tree)
+// ==========================================
+
+export interface DowntimeReasonRecord {
+  id: string;
+  parent_id: string | null;
+  code: string;
+  name: string;
+  is_planned: boolean;
+  machine_ids: string[];
+  sort_order: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Fetch the whole reason tree (inactive nodes included so old entries still resolve)
+export const fetchDowntimeReasonRecords = async (): Promise<DowntimeReasonRecord[]> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase
+    .from('downtime_reasons')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch downtime reasons: ${error.message}`);
+  }
+  return data || [];
+};
+
+// Create or update a reason (admins only)
+export const saveDowntimeReasonRecord = async (
+  record: Omit<DowntimeReasonRecord, 'id' | 'created_at' | 'updated_at'> & { id?: string }
+): Promise<DowntimeReasonRecord> => {
+  requireSupabaseConfigured();
+
+  const { id, ...fields } = record;
+  const row = { ...fields, updated_at: new Date().toISOString() };
+  const { data, error } = id
+    ? await supabase.from('downtime_reasons').update(row).eq('id', id).select().single()
+    : await supabase.from('downtime_reasons').insert([row]).select().single();
+
+  if (error) {
+    throw new Error(`Failed to save downtime reason: ${error.message}`);
+  }
+  return data;
+};
+
+// ==========================================
+// WASTE TYPES (Admin-managed waste catalogue)
+// ==========================================
+
+export interface WasteTypeRecord {
+  id: string;
+  code: string;
+  name: string;
+  unit: string;
+  kg_per_unit: number;
+  cost_per_unit: number;
+  products: string[];
+  sort_order: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Fetch the catalogue (inactive types included so old entries still resolve)
+export const fetchWasteTypeRecords = async (): Promise<WasteTypeRecord[]> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase
+    .from('waste_types')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch waste types: ${error.message}`);
+  }
+  return data || [];
+};
+
+// Create or update a waste type (admins only)
+export const saveWasteTypeRecord = async (
+  record: Omit<WasteTypeRecord, 'id' | 'created_at' | 'updated_at'> & { id?: string }
+): Promise<WasteTypeRecord> => {
+  requireSupabaseConfigured();
+
+  const { id, ...fields } = record;
+  const row = { ...fields, updated_at: new Date().toISOString() };
+  const { data, error } = id
+    ? await supabase.from('waste_types').update(row).eq('id', id).select().single()
+    : await supabase.from('waste_types').insert([row]).select().single();
+
+  if (error) {
+    throw new Error(`Failed to save waste type: ${error.message}`);
+  }
+  return data;
+};
+
+// ==========================================
+// PRODUCTS (Product master data)
+// ==========================================
+
+export interface ProductRecord {
+  id: string;
+  sku: string;
+  name: string;
+  rated_speed: number | null;
+  target_mass: number | null;
+  mass_tolerance_below: number | null;
+  mass_tolerance_above: number | null;
+  sachets_per_case: number | null;
+  cases_per_pallet: number | null;
+  label_format: string | null;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Fetch every product (inactive ones included so old orders still resolve)
+export const fetchProductRecords = async (): Promise<ProductRecord[]> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch products: ${error.message}`);
+  }
+  return data || [];
+};
+
+// Create or update a product (admins only)
+export const saveProductRecord = async (
+  record: Omit<ProductRecord, 'id' | 'created_at' | 'updated_at'> & { id?: string }
+): Promise<ProductRecord> => {
+  requireSupabaseConfigured();
+
+  const { id, ...fields } = record;
+  const row = { ...fields, updated_at: new Date().toISOString() };
+  const { data, error } = id
+    ? await supabase.from('products').update(row).eq('id', id).select().single()
+    : await supabase.from('products').insert([row]).select().single();
+
+  if (error) {
+    throw new Error(`Failed to save product: ${error.message}`);
+  }
+  return data;
+};
+
+// ==========================================
+// CHANGEOVER EVENTS
+// ==========================================
+
+export interface ChangeoverEventRecord {
+  id: string;
+  machine_id: string | null;
+  machine_name: string;
+  from_order_id: number | null;
+  from_order_number: string | null;
+  from_product: string | null;
+  to_order_id: number | null;
+  to_order_number: string | null;
+  to_product: string | null;
+  started_at: string;
+  ended_at: string | null;
+  operator_name: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Record a changeover, or its end (the client generates the ID, so replays are safe)
+export const upsertChangeoverEvent = async (
+  record: Omit<ChangeoverEventRecord, 'created_at' | 'updated_at'>
+): Promise<void> => {
+  requireSupabaseConfigured();
+  const { error } = await supabase.from('changeover_events').upsert(record, { onConflict: 'id' });
+
+  if (error) {
+    throw new Error(`Failed to save changeover: ${error.message}`);
+  }
+};
+
+// Changeovers started since a date, newest first
+export const fetchChangeoverEvents = async (
+  since: Date,
+  machineName?: string
+): Promise<ChangeoverEventRecord[]> => {
+  requireSupabaseConfigured();
+  let query = supabase
+    .from('changeover_events')
+    .select('*')
+    .gte('started_at', since.toISOString())
+    .order('started_at', { ascending: false })
+    .limit(1000);
+  if (machineName) query = query.eq('machine_name', machineName);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch changeovers: ${error.message}`);
+  }
+  return data || [];
+};
+
+// ==========================================
+// LINE SPEED CHANGES
+// ==========================================
+
+export interface LineSpeedChangeRecord {
+  id: string;
+  parent_machine: string;
+  shift: string;
+  shift_date: string;         // yyyy-MM-dd
+  speed: number;
+  machine_name: string;       // Sub-machine the change was made on
+  operator_name: string | null;
+  changed_by?: string | null; // auth.users id, set by the database
+  changed_at: string;
+  created_at?: string;
+}
+
+// Record a line speed change (the client generates the ID, so replays are safe)
+export const insertLineSpeedChange = async (
+  record: Omit<LineSpeedChangeRecord, 'changed_by' | 'created_at'>
+): Promise<void> => {
+  requireSupabaseConfigured();
+  const { error } = await supabase
+    .from('line_speed_changes')
+    .upsert(record, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to save line speed: ${error.message}`);
+  }
+};
+
+// A parent machine's line speed changes for a shift, oldest first
+export const fetchLineSpeedChanges = async (
+  parentMachine: string,
+  shift: string,
+  shiftDate: string
+): Promise<LineSpeedChangeRecord[]> => {
+  requireSupabaseConfigured();
+  const { data, error } = await supabase
+    .from('line_speed_changes')
+    .select('*')
+    .eq('parent_machine', parentMachine)
+    .eq('shift', shift)
+    .eq('shift_date', shiftDate)
+    .order('changed_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch line speed: ${error.message}`);
+  }
+  return data || [];
+};
+
+// Line speed changes made on any sub-machine of a parent machine
+export const subscribeLineSpeedChanges = (
+  parentMachine: string,
+  onChange: (record: LineSpeedChangeRecord) => void
+) => {
+  requireSupabaseConfigured();
+
+  const channel = supabase
+    .channel(`line-speed-${parentMachine}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'line_speed_changes', filter: `parent_machine=eq.${parentMachine}` },
+      payload => onChange(payload.new as LineSpeedChangeRecord)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// ==========================================
+// PLANT UNITS (Sites, areas and lines above the machines)
+// ==========================================
+
+export interface PlantUnitRecord {
+  id: string;
+  level: 'site' | 'area' | 'line';
+  name: string;
+  display_name: string | null;
+  parent_id: string | null;
+  sort_order: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Fetch every site, area and line
+export const fetchPlantUnitRecords = async (): Promise<PlantUnitRecord[]> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase
+    .from('plant_units')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch plant units: ${error.message}`);
+  }
+  return data || [];
+};
+
+// Create or update a unit (admins only)
+export const savePlantUnitRecord = async (
+  record: Omit<PlantUnitRecord, 'created_at' | 'updated_at'>
+): Promise<PlantUnitRecord> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase
+    .from('plant_units')
+    .upsert({ ...record, updated_at: new Date().toISOString() }, { onConflict: 'id' })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save plant unit: ${error.message}`);
+  }
+  return data;
+};
+
+// Delete a unit (admins only) - units and machines beneath it become unassigned
+export const deletePlantUnitRecord = async (id: string): Promise<void> => {
+  requireSupabaseConfigured();
+
+  const { error } = await supabase
+    .from('plant_units')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete plant unit: ${error.message}`);
+  }
+};
+
+// ==========================================
+// MACHINE STATUS (Derived status and its transitions)
+// ==========================================
+
+export interface MachineStatusHistoryRecord {
+  id: number;
+  machine_id: string;
+  machine_name: string;
+  from_status: string | null;
+  to_status: string;
+  reason: string | null;
+  operator_name: string | null;
+  changed_at: string;
+}
+
+// Record a machine's derived status (record_machine_status RPC - a repeat of
+// the current status is a no-op, a change is added to the history)
+export const recordMachineStatus = async (
+  machineId: string,
+  status: string,
+  reason?: string,
+  operatorName?: string
+): Promise<void> => {
+  requireSupabaseConfigured();
+  const { error } = await supabase.rpc('record_machine_status', {
+    p_machine_id: machineId,
+    p_status: status,
+    p_reason: reason || null,
+    p_operator_name: operatorName || null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record machine status: ${error.message}`);
+  }
+};
+
+// A machine's latest status transitions, newest first
+export const fetchMachineStatusHistory = async (
+  machineId: string,
+  limit = 20
+): Promise<MachineStatusHistoryRecord[]> => {
+  requireSupabaseConfigured();
+
+  const { data, error } = await supabase
+    .from('machine_status_history')
+    .select('*')
+    .eq('machine_id', machineId)
+    .order('changed_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch machine status history: ${error.message}`);
+  }
+  return data || [];
+};
+
+// ==========================================
+// ACTIVITY EVENTS (Persisted activity feed)
+// ==========================================
+
+export interface ActivityEventRecord {
+  id: string;
+  type: string;
+  machine_name: string;
+  operator_name: string | null;
+  message: string;
+  details: string | null;
+  occurred_at: string;
+  created_at?: string;
+}
+
+// Record an activity event (the client generates the ID, so replays are safe)
+export const insertActivityEvent = async (record: Omit<ActivityEventRecord, 'created_at'>): Promise<void> => {
+  requireSupabaseConfigured();
+  const { error } = await supabase
+    .from('activity_events')
+    .upsert(record, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to save activity event: ${error.message}`);
+  }
+};
+
+// Query the activity log with filters, newest first with cursor pagination
+export const queryActivityEvents = async (
+  query: ActivityQuery
+): Promise<{ records: ActivityEventRecord[]; nextCursor: string | null }> => {
+  requireSupabaseConfigured();
+
+  let request = supabase
+    .from('activity_events')
+    .select('id, type, machine_name, operator_name, message, details, occurred_at, created_at')
+    .order('occurred_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(query.limit + 1);
+
+  if (query.machine) request = request.eq('machine_name', query.machine);
+  if (query.operator) request = request.ilike('operator_name', containsPattern(query.operator));
+  if (query.types?.length) request = request.in('type', query.types);
+  if (query.since) request = request.gte('occurred_at', query.since.toISOString());
+  // search_text is message, details and operator in one indexed column
+  if (query.search) request = request.ilike('search_text', containsPattern(query.search));
+  if (query.cursor) request = request.or(buildActivityCursorFilter(query.cursor));
+
+  const { data, error } = await request;
+  if (error) {
+    throw new Error(`Failed to query activity events: ${error.message}`);
+  }
+
+  // One extra row tells us whether there is another page
+  const rows = (data || []) as ActivityEventRecord[];
+  const records = rows.slice(0, query.limit);
+  const last = records[records.length - 1];
+
+  return {
+    records,
+    nextCursor: rows.length > query.limit && last ? nextActivityCursor(last) : null,
+  };
+};
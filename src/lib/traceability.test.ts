@@ -0,0 +1,64 @@
+/**
+ * Tests for pallet and batch traceability
+ */
+
+import { parseTraceQuery, buildTraceResult } from './traceability';
+import { ShiftData } from '../types';
+
+const shift = (id: string, batchNumber: string, submittedAt: string, overrides: Partial<ShiftData> = {}): ShiftData => ({
+  id,
+  operatorName: 'Thandi',
+  machine: 'Canline',
+  orderNumber: 'ORD-1',
+  product: 'Rooibos 100g',
+  batchNumber,
+  shift: 'Day',
+  date: '2026-10-15',
+  wasteEntries: [],
+  downtimeEntries: [],
+  totalWaste: 0,
+  totalDowntime: 0,
+  submittedAt: new Date(submittedAt),
+  ...overrides,
+});
+
+const pallet = (id: string, qrCode: string, ignored?: boolean) => ({
+  id,
+  qrCode,
+  batchNumber: qrCode.substring(0, 5),
+  palletNumber: qrCode.substring(5, 9),
+  casesCount: Number(qrCode.substring(9)),
+  timestamp: new Date('2026-10-15T12:00:00Z'),
+  ignored,
+});
+
+describe('traceability', () => {
+  it('should parse pallet QR codes and batch numbers', () => {
+    expect(parseTraceQuery(' 1234500010060 ')).toEqual({
+      kind: 'pallet',
+      qrCode: '1234500010060',
+      batchNumber: '12345',
+      palletNumber: '0001',
+      casesCount: 60,
+      format: 'legacy13',
+    });
+    expect(parseTraceQuery('12345')).toEqual({ kind: 'batch', batchNumber: '12345' });
+    expect(parseTraceQuery('1234500010000')).toBeNull();
+    expect(parseTraceQuery('12,345')).toBeNull();
+  });
+
+  it('should find the shifts that produced a batch, oldest first', () => {
+    const history = [
+      shift('night', '99999', '2026-10-16T06:00:00Z', { palletScanEntries: [pallet('p2', '1234500020060')] }),
+      shift('day', '12345', '2026-10-15T18:00:00Z', { palletScanEntries: [pallet('p1', '1234500010060')] }),
+      shift('other', '55555', '2026-10-15T18:00:00Z', { palletScanEntries: [pallet('p3', '1234500030060', true)] }),
+    ];
+
+    const result = buildTraceResult(parseTraceQuery('1234500020060')!, history);
+    expect(result.records.map(r => r.submission.id)).toEqual(['day', 'night']);
+    expect(result.records[1].pallets.map(p => p.palletNumber)).toEqual(['0002']);
+    expect(result.pallet?.submissionId).toBe('night');
+
+    expect(buildTraceResult(parseTraceQuery('1234500090060')!, history).pallet).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Pallet Traceability
+ *
+ * Looks up a pallet QR code or a batch number and returns every shift that
+ * produced the batch - order, product, machine, operator and shift, with the
+ * sachet mass readings, waste and downtime recorded during those shifts.
+ * Used for customer complaints and recalls.
+ *
+ * A shift produced a batch when it was submitted under that batch number, or
+ * when pallets or loose cases of the batch were scanned during it. Uses
+ * Supabase when configured, otherwise this device's shift history.
+ */
+
+import { ShiftData, PalletScanEntry, LooseCasesEntry } from '../types';
+import { isSupabaseConfigured, fetchBatchSubmissions } from './supabase';
+import { getShiftHistory } from './storage';
+import { toShiftData } from './submissionDetail';
+import { parseAnyLabel } from './labelFormats';
+
+export type TraceQuery =
+  | { kind: 'pallet'; qrCode: string; batchNumber: string; palletNumber: string; casesCount: number; format: string }
+  | { kind: 'batch'; batchNumber: string };
+
+export interface TraceRecord {
+  submission: ShiftData;
+  pallets: PalletScanEntry[];    // Pallets of the batch scanned during the shift
+  looseCases: LooseCasesEntry[]; // Loose cases of the batch recorded during the shift
+}
+
+export interface TraceResult {
+  query: TraceQuery;
+  pallet: { entry: PalletScanEntry; submissionId: string } | null; // The scanned pallet, when found
+  records: TraceRecord[];        // Oldest shift first
+}
+
+/**
+ * Read a scanned or typed pallet label (any registered label format) or
+ * batch number. Returns null for input that is neither.
+ */
+export const parseTraceQuery = (input: string): TraceQuery | null => {
+  const trimmed = input.trim();
+  const label = parseAnyLabel(trimmed);
+  if (label) {
+    return {
+      kind: 'pallet',
+      qrCode: trimmed,
+      batchNumber: label.batchNumber,
+      palletNumber: label.palletNumber,
+      casesCount: label.casesCount,
+      format: label.format,
+    };
+  }
+  const cleaned = trimmed.replace(/\s+/g, '');
+  if (/^\d{13}$/.test(cleaned)) return null;
+  if (/^[A-Za-z0-9\-./_]{1,30}$/.test(cleaned)) {
+    return { kind: 'batch', batchNumber: cleaned };
+  }
+  return null;
+};
+
+/**
+ * Shifts that produced the queried batch, with the batch's pallets and
+ * loose cases. Ignored scans are left out.
+ */
+export const buildTraceResult = (query: TraceQuery, submissions: ShiftData[]): TraceResult => {
+  const batch = query.batchNumber.toLowerCase();
+  const records = submissions
+    .map(submission => ({
+      submission,
+      pallets: (submission.palletScanEntries || []).filter(e => !e.ignored && e.batchNumber.toLowerCase() === batch),
+      looseCases: (submission.looseCasesEntries || []).filter(e => !e.ignored && e.batchNumber.toLowerCase() === batch),
+    }))
+    .filter(r => r.submission.batchNumber.toLowerCase() === batch || r.pallets.length > 0 || r.looseCases.length > 0)
+    .sort((a, b) => new Date(a.submission.submittedAt).getTime() - new Date(b.submission.submittedAt).getTime());
+
+  let pallet: TraceResult['pallet'] = null;
+  if (query.kind === 'pallet') {
+    for (const record of records) {
+      const entry = record.pallets.find(p =>
+        p.qrCode === query.qrCode || p.palletNumber === query.palletNumber
+      );
+      if (entry) {
+        pallet = { entry, submissionId: record.submission.id };
+        break;
+      }
+    }
+  }
+
+  return { query, pallet, records };
+};
+
+/**
+ * Trace a pallet or batch
+ * @throws When the Supabase lookup fails
+ */
+export const loadTraceability = async (query: TraceQuery): Promise<TraceResult> => {
+  const submissions = isSupabaseConfigured
+    ? (await fetchBatchSubmissions(query.batchNumber)).map(toShiftData)
+    : getShiftHistory();
+  return buildTraceResult(query, submissions);
+};
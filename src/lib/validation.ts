@@ -2,6 +2,8 @@
  * Form validation utilities for production-ready validation
  */
 
+import { getLabelFormat, LabelFormatId, DEFAULT_LABEL_FORMAT } from './labelFormats';
+
 // Validation result type
 export interface ValidationResult {
   isValid: boolean;
@@ -165,20 +167,26 @@ export const sachetMassSchema = {
   },
 };
 
-export const looseCasesSchema = {
-  batchNumber: {
-    required: true,
-    pattern: /^\d{5}$/,
-    message: 'Batch number must be exactly 5 digits',
-  },
-  cases: {
-    required: true,
-    min: 1,
-    max: 9999,
-    message: 'Cases must be between 1 and 9999',
-  },
+// Loose cases batch numbers follow the product or machine's label format
+export const getLooseCasesSchema = (formatId: LabelFormatId = DEFAULT_LABEL_FORMAT) => {
+  const format = getLabelFormat(formatId);
+  return {
+    batchNumber: {
+      required: true,
+      pattern: format.batchPattern,
+      message: format.batchHint,
+    },
+    cases: {
+      required: true,
+      min: 1,
+      max: 9999,
+      message: 'Cases must be between 1 and 9999',
+    },
+  };
 };
 
+export const looseCasesSchema = getLooseCasesSchema();
+
 export const palletQRSchema = {
   qrCode: {
     required: true,
@@ -210,37 +218,11 @@ export const sanitizeNumber = (
   return num;
 };
 
-// Validate and parse QR code
+// Validate and parse a legacy 13-digit QR code (see lib/labelFormats for other formats)
 export const parseAndValidateQRCode = (
   qrCode: string
-): { valid: boolean; data?: { batchNumber: string; palletNumber: string; casesCount: number }; error?: string } => {
-  const cleaned = qrCode.trim();
-
-  if (!/^\d{13}$/.test(cleaned)) {
-    return {
-      valid: false,
-      error: 'QR code must be exactly 13 digits',
-    };
-  }
-
-  const casesCount = parseInt(cleaned.substring(9, 13), 10);
-
-  if (isNaN(casesCount) || casesCount < 1) {
-    return {
-      valid: false,
-      error: 'Invalid cases count in QR code',
-    };
-  }
-
-  return {
-    valid: true,
-    data: {
-      batchNumber: cleaned.substring(0, 5),
-      palletNumber: cleaned.substring(5, 9),
-      casesCount,
-    },
-  };
-};
+): { valid: boolean; data?: { batchNumber: string; palletNumber: string; casesCount: number }; error?: string } =>
+  getLabelFormat('legacy13').parse(qrCode);
 
 // Hook for form validation
 export const useFormValidation = <T extends Record<string, unknown>>(
@@ -266,5 +248,6 @@ export default {
   speedEntrySchema,
   sachetMassSchema,
   looseCasesSchema,
+  getLooseCasesSchema,
   palletQRSchema,
 };
@@ -0,0 +1,41 @@
+/**
+ * Tests for the waste type catalogue helpers
+ */
+
+import {
+  DEFAULT_WASTE_TYPES,
+  getWasteTypesForProduct,
+  findWasteType,
+  measureWaste,
+  formatWasteQuantity,
+  getWasteCost,
+} from './wasteTypes';
+import { WasteType } from '../types';
+
+const cans: WasteType = {
+  id: 'CANS', code: 'CANS', name: 'Scrapped Cans', unit: 'units', kgPerUnit: 0.015, costPerUnit: 0.8,
+  products: ['Rooibos 450g Tin'], sortOrder: 4, active: true,
+};
+const types: WasteType[] = [...DEFAULT_WASTE_TYPES.filter(t => t.code !== 'CANS'), cans];
+
+describe('waste types', () => {
+  it('should limit types to the product', () => {
+    expect(getWasteTypesForProduct(types, 'Rooibos 100g').map(t => t.code)).not.toContain('CANS');
+    expect(getWasteTypesForProduct(types, 'rooibos 450g tin').map(t => t.code)).toContain('CANS');
+    expect(getWasteTypesForProduct(types).map(t => t.code)).toContain('CANS');
+  });
+
+  it('should convert unit-counted waste to kg and cost it', () => {
+    const measured = measureWaste(cans, 120);
+    expect(measured).toMatchObject({ waste: 1.8, quantity: 120, unit: 'units', wasteTypeCode: 'CANS', cost: 96 });
+    expect(formatWasteQuantity(measured)).toBe('120 units (1.8 kg)');
+    expect(measureWaste(DEFAULT_WASTE_TYPES[0], 4.5).waste).toBe(4.5);
+    expect(getWasteCost([measured, { cost: undefined }])).toBe(96);
+  });
+
+  it('should resolve entries recorded before the catalogue by name', () => {
+    expect(findWasteType(types, { wasteType: 'Start-up Waste' })?.code).toBe('STARTUP');
+    expect(findWasteType(types, { wasteType: 'Renamed', wasteTypeCode: 'CANS' })?.name).toBe('Scrapped Cans');
+    expect(formatWasteQuantity({ waste: 4.5 })).toBe('4.5 kg');
+  });
+});
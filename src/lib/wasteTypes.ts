@@ -0,0 +1,237 @@
+/**
+ * Waste Type Catalogue
+ *
+ * Admin-managed waste types, each with a unit of measure (kg, units or
+ * metres), a conversion factor to kg, a cost per unit and the products it
+ * applies to. Entries store the converted kg in `waste` so shift totals add
+ * up across types, alongside the quantity and unit the operator entered.
+ * The catalogue lives in the Supabase waste_types table and is cached on
+ * the device; without Supabase it is kept locally, starting from
+ * DEFAULT_WASTE_TYPES.
+ */
+
+import { useEffect, useState } from 'react';
+import { WasteEntry, WasteType, WasteUnit } from '../types';
+import {
+  isSupabaseConfigured,
+  fetchWasteTypeRecords,
+  saveWasteTypeRecord,
+  WasteTypeRecord,
+} from './supabase';
+import { logError } from './errorMonitoring';
+
+const WASTE_TYPES_CACHE_KEY = 'waste_type_catalogue';
+const RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+
+export const WASTE_UNITS: { value: WasteUnit; label: string }[] = [
+  { value: 'kg', label: 'Kilograms (kg)' },
+  { value: 'units', label: 'Units' },
+  { value: 'm', label: 'Metres (m)' },
+];
+
+const wasteType = (
+  code: string,
+  name: string,
+  unit: WasteUnit,
+  kgPerUnit: number,
+  sortOrder: number
+): WasteType => ({ id: code, code, name, unit, kgPerUnit, costPerUnit: 0, products: [], sortOrder, active: true });
+
+// Seeded into Supabase by the schema with the same codes. The original four
+// kg types keep their names so existing entries still resolve.
+export const DEFAULT_WASTE_TYPES: WasteType[] = [
+  wasteType('STARTUP', 'Start-up Waste', 'kg', 1, 0),
+  wasteType('CHANGEOVER', 'Changeover Waste', 'kg', 1, 1),
+  wasteType('DEFECTIVE', 'Defective Product', 'kg', 1, 2),
+  wasteType('SPILLAGE', 'Material Spillage', 'kg', 1, 3),
+  wasteType('CANS', 'Scrapped Cans', 'units', 0.015, 4),
+  wasteType('SACHETS', 'Scrapped Sachets', 'units', 0.002, 5),
+  wasteType('LABELS', 'Label Stock', 'm', 0.005, 6),
+];
+
+let wasteTypeListeners: ((types: WasteType[]) => void)[] = [];
+let loadPromise: Promise<WasteType[]> | null = null;
+let lastLoadedAt = 0;
+
+const toWasteType = (record: WasteTypeRecord): WasteType => ({
+  id: record.id,
+  code: record.code,
+  name: record.name,
+  unit: record.unit as WasteUnit,
+  kgPerUnit: Number(record.kg_per_unit),
+  costPerUnit: Number(record.cost_per_unit),
+  products: record.products || [],
+  sortOrder: record.sort_order,
+  active: record.is_active,
+});
+
+const cacheWasteTypes = (types: WasteType[]): void => {
+  localStorage.setItem(WASTE_TYPES_CACHE_KEY, JSON.stringify(types));
+  wasteTypeListeners.forEach(listener => listener(types));
+};
+
+// ==========================================
+// CATALOGUE HELPERS
+// ==========================================
+
+/**
+ * Active waste types that apply to the product (every type when no product
+ * is set), in display order
+ */
+export const getWasteTypesForProduct = (types: WasteType[], product?: string): WasteType[] => {
+  const productName = product?.trim().toLowerCase();
+  return types
+    .filter(t => t.active)
+    .filter(t => !productName || t.products.length === 0 || t.products.some(p => p.toLowerCase() === productName))
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+};
+
+/**
+ * Resolve an entry's waste type by code, falling back to the name for
+ * entries recorded before the catalogue
+ */
+export const findWasteType = (
+  types: WasteType[],
+  entry: Pick<WasteEntry, 'wasteType' | 'wasteTypeCode'>
+): WasteType | undefined =>
+  (entry.wasteTypeCode ? types.find(t => t.code === entry.wasteTypeCode) : undefined) ||
+  types.find(t => t.name.toLowerCase() === entry.wasteType.toLowerCase());
+
+/**
+ * Convert a quantity in the type's unit to kg
+ */
+export const toWasteKg = (type: WasteType, quantity: number): number =>
+  type.unit === 'kg' ? quantity : quantity * type.kgPerUnit;
+
+/**
+ * The measured fields of a waste entry: quantity and unit as entered, the
+ * converted kg and the cost at the current price
+ */
+export const measureWaste = (
+  type: WasteType,
+  quantity: number
+): Pick<WasteEntry, 'waste' | 'wasteType' | 'wasteTypeCode' | 'quantity' | 'unit' | 'cost'> => ({
+  waste: Math.round(toWasteKg(type, quantity) * 1000) / 1000,
+  wasteType: type.name,
+  wasteTypeCode: type.code,
+  quantity,
+  unit: type.unit,
+  cost: Math.round(quantity * type.costPerUnit * 100) / 100,
+});
+
+/**
+ * Entry amount as entered, e.g. "4.5 kg" or "120 units (1.8 kg)"
+ */
+export const formatWasteQuantity = (entry: Pick<WasteEntry, 'waste' | 'quantity' | 'unit'>): string => {
+  const kg = `${entry.waste.toFixed(1)} kg`;
+  if (!entry.unit || entry.unit === 'kg' || entry.quantity === undefined) return kg;
+  return `${entry.quantity} ${entry.unit} (${kg})`;
+};
+
+export const getWasteCost = (entries: Pick<WasteEntry, 'cost'>[]): number =>
+  entries.reduce((sum, e) => sum + (e.cost || 0), 0);
+
+// ==========================================
+// REGISTRY
+// ==========================================
+
+/**
+ * The cached catalogue (defaults until one has been loaded or saved)
+ */
+export const getWasteTypes = (): WasteType[] => {
+  try {
+    const stored = localStorage.getItem(WASTE_TYPES_CACHE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_WASTE_TYPES;
+  } catch {
+    return DEFAULT_WASTE_TYPES;
+  }
+};
+
+/**
+ * Load the catalogue from Supabase (falls back to the cached catalogue
+ * offline). A catalogue loaded in the last few minutes is reused unless forced.
+ */
+export const loadWasteTypes = (force = false): Promise<WasteType[]> => {
+  const isFresh = Date.now() - lastLoadedAt < RELOAD_INTERVAL_MS;
+  if (!isSupabaseConfigured || (isFresh && !force)) return Promise.resolve(getWasteTypes());
+
+  if (!loadPromise) {
+    loadPromise = fetchWasteTypeRecords()
+      .then(records => {
+        const types = records.map(toWasteType);
+        lastLoadedAt = Date.now();
+        cacheWasteTypes(types);
+        return types;
+      })
+      .catch(e => {
+        logError('Failed to fetch waste types, using cached catalogue', { context: String(e), showToast: false });
+        return getWasteTypes();
+      })
+      .finally(() => {
+        loadPromise = null;
+      });
+  }
+  return loadPromise;
+};
+
+/**
+ * Create or update a waste type
+ * @throws When the code is already used by another type
+ */
+export const saveWasteType = async (
+  type: Omit<WasteType, 'id'> & { id?: string }
+): Promise<WasteType> => {
+  const code = type.code.trim().toUpperCase();
+  const existing = getWasteTypes();
+  if (existing.some(t => t.code === code && t.id !== type.id)) {
+    throw new Error(`Waste type code ${code} is already in use`);
+  }
+
+  const products = type.products.map(p => p.trim()).filter(Boolean);
+  const kgPerUnit = type.unit === 'kg' ? 1 : type.kgPerUnit;
+
+  let saved: WasteType;
+  if (isSupabaseConfigured) {
+    saved = toWasteType(await saveWasteTypeRecord({
+      id: type.id,
+      code,
+      name: type.name.trim(),
+      unit: type.unit,
+      kg_per_unit: kgPerUnit,
+      cost_per_unit: type.costPerUnit,
+      products,
+      sort_order: type.sortOrder,
+      is_active: type.active,
+    }));
+  } else {
+    saved = { ...type, id: type.id || code, code, name: type.name.trim(), kgPerUnit, products };
+  }
+
+  cacheWasteTypes([...existing.filter(t => t.id !== saved.id), saved]);
+  return saved;
+};
+
+export const subscribeToWasteTypes = (
+  listener: (types: WasteType[]) => void
+): (() => void) => {
+  wasteTypeListeners.push(listener);
+  return () => {
+    wasteTypeListeners = wasteTypeListeners.filter(l => l !== listener);
+  };
+};
+
+/**
+ * React hook for the catalogue - starts from the cache and refreshes from
+ * Supabase on mount
+ */
+export const useWasteTypes = (): WasteType[] => {
+  const [types, setTypes] = useState<WasteType[]>(getWasteTypes);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToWasteTypes(setTypes);
+    loadWasteTypes();
+    return unsubscribe;
+  }, []);
+
+  return types;
+};
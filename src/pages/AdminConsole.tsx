@@ -4,22 +4,58 @@ import { motion, AnimatePresence } from 'framer-motion';
 import {
     isSupabaseConfigured,
     fetchAllMachineOrders,
-    addMachineOrder,
-    removeMachineOrder,
-    updateMachineOrderPriorities,
     clearMachineOrders,
     MachineOrderQueueRecord
 } from '../lib/supabase';
-import { getMachinesData } from '../lib/storage';
-import { Machine } from '../types';
+import { getMachinesData, updateMachine, updateSubMachines } from '../lib/storage';
+import { Machine, Operator, DowntimeReason, WasteType, WasteUnit, Product, OrderPlan, PlantUnit, PlantUnitLevel, SubMachine } from '../types';
 import {
     getFacilitySettings,
     saveFacilitySettings,
     resetFacilitySettings,
     FacilitySettings,
-    formatShiftTimes
+    getShiftPatterns,
+    getFacilityDateString,
+    subscribeToFacilitySettings
 } from '../lib/facilitySettings';
+import { isValidTimeZone, formatZonedTime, getTimeZoneOptions } from '../lib/facilityClock';
+import { ShiftDefinition, describeShiftPattern } from '../lib/shiftPatterns';
 import { showSuccess, showError } from '../lib/errorMonitoring';
+import {
+    useAuth,
+    hasRole,
+    formatRole,
+    signOut,
+    listUsers,
+    setUserRole,
+    createLocalAccount,
+    removeLocalAccount,
+    AppUser,
+    UserRole,
+    USER_ROLES
+} from '../lib/auth';
+import { getOperators, saveOperator } from '../lib/operators';
+import { sendOrQueue } from '../lib/outbox';
+import { getDowntimeReasons, loadDowntimeReasons, saveDowntimeReason, buildReasonTree } from '../lib/downtimeReasons';
+import { getWasteTypes, loadWasteTypes, saveWasteType, WASTE_UNITS } from '../lib/wasteTypes';
+import { findProduct, loadProducts, saveProduct, useProducts, PRODUCT_LIST_ID } from '../lib/products';
+import { listLabelFormats, getLabelFormat } from '../lib/labelFormats';
+import { parseOrderPlan } from '../lib/orderProgress';
+import { getOrderStatus, ORDER_STATUS_LABELS } from '../lib/orderLifecycle';
+import {
+    getPlantUnits,
+    loadPlantUnits,
+    savePlantUnit,
+    removePlantUnit,
+    sortPlantUnits,
+    getSubMachines,
+    getMachineLabel,
+    getUnitLabel,
+    PARENT_UNIT_LEVEL,
+    HIERARCHY_LEVEL_LABELS,
+} from '../lib/machineHierarchy';
+
+const TIME_ZONE_OPTIONS = getTimeZoneOptions();
 
 // Parsed order from bulk paste
 interface ParsedOrder {
@@ -28,18 +64,35 @@ interface ParsedOrder {
     orderNumber: string;
     product: string;
     batchNumber: string;
+    plan: OrderPlan;
     valid: boolean;
     error?: string;
 }
 
+type ProductNumberField = 'ratedSpeed' | 'targetMass' | 'massToleranceBelow' | 'massToleranceAbove' | 'sachetsPerCase' | 'casesPerPallet';
+
+const PRODUCT_NUMBER_FIELDS: { key: ProductNumberField; label: string; step: number }[] = [
+    { key: 'ratedSpeed', label: 'Rated Speed (PPM)', step: 1 },
+    { key: 'targetMass', label: 'Target Sachet Mass (g)', step: 0.1 },
+    { key: 'massToleranceBelow', label: 'Tolerance Below (g)', step: 0.1 },
+    { key: 'massToleranceAbove', label: 'Tolerance Above (g)', step: 0.1 },
+    { key: 'sachetsPerCase', label: 'Sachets per Case', step: 1 },
+    { key: 'casesPerPallet', label: 'Cases per Pallet', step: 1 },
+];
+
 const AdminConsole: React.FC = () => {
     const navigate = useNavigate();
+    const { user } = useAuth();
+    const isAdmin = hasRole(user, 'admin');
 
     // Form state for adding new orders
     const [selectedMachine, setSelectedMachine] = useState('');
     const [orderNumber, setOrderNumber] = useState('');
     const [product, setProduct] = useState('');
     const [batchNumber, setBatchNumber] = useState('');
+    const [plannedQuantity, setPlannedQuantity] = useState('');
+    const [dueDate, setDueDate] = useState('');
+    const [plannedStart, setPlannedStart] = useState('');
 
     // Bulk paste state
     const [bulkPasteText, setBulkPasteText] = useState('');
@@ -57,6 +110,67 @@ const AdminConsole: React.FC = () => {
     // Facility settings state
     const [facilitySettings, setFacilitySettings] = useState<FacilitySettings>(getFacilitySettings());
     const [showSettingsPanel, setShowSettingsPanel] = useState(false);
+    const [timeZoneInput, setTimeZoneInput] = useState(facilitySettings.timeZone);
+    const [isSavingSettings, setIsSavingSettings] = useState(false);
+
+    // Custom shift pattern editor state
+    const [newPatternName, setNewPatternName] = useState('');
+    const [newPatternShifts, setNewPatternShifts] = useState<ShiftDefinition[]>([
+        { name: 'Morning', start: '06:00' },
+        { name: 'Afternoon', start: '14:00' },
+        { name: 'Night', start: '22:00' },
+    ]);
+    const [newPatternRotation, setNewPatternRotation] = useState('');
+    const [newPatternAnchorDate, setNewPatternAnchorDate] = useState('');
+
+    // User management state (admins only)
+    const [showUsersPanel, setShowUsersPanel] = useState(false);
+    const [users, setUsers] = useState<AppUser[]>([]);
+    const [newUserName, setNewUserName] = useState('');
+    const [newUserPin, setNewUserPin] = useState('');
+    const [newUserRole, setNewUserRole] = useState<UserRole>('operator');
+
+    // Operator registry (badge / PIN identification on capture tablets)
+    const [showOperatorsPanel, setShowOperatorsPanel] = useState(false);
+    const [operators, setOperators] = useState<Operator[]>([]);
+    const [editingOperatorId, setEditingOperatorId] = useState<string | null>(null);
+    const [operatorForm, setOperatorForm] = useState({ name: '', employeeNumber: '', badgeCode: '', pin: '' });
+
+    // Downtime reason tree (categories and sub-reasons)
+    const emptyReasonForm = { parentId: '', name: '', code: '', planned: false, machineIds: [] as string[], sortOrder: 0 };
+    const [showReasonsPanel, setShowReasonsPanel] = useState(false);
+    const [downtimeReasons, setDowntimeReasons] = useState<DowntimeReason[]>(getDowntimeReasons);
+    const [editingReasonId, setEditingReasonId] = useState<string | null>(null);
+    const [reasonForm, setReasonForm] = useState(emptyReasonForm);
+
+    // Plant structure (sites, areas and lines) and where machines sit in it
+    const emptyUnitForm = { level: 'site' as PlantUnitLevel, name: '', displayName: '', parentId: '', sortOrder: 0 };
+    const emptyPlacementForm = { lineId: '', displayName: '', sortOrder: 0, subMachines: [] as SubMachine[] };
+    const [showPlantPanel, setShowPlantPanel] = useState(false);
+    const [plantUnits, setPlantUnits] = useState<PlantUnit[]>(getPlantUnits);
+    const [editingUnitId, setEditingUnitId] = useState<string | null>(null);
+    const [unitForm, setUnitForm] = useState(emptyUnitForm);
+    const [placementMachineId, setPlacementMachineId] = useState('');
+    const [placementForm, setPlacementForm] = useState(emptyPlacementForm);
+
+    // Waste type catalogue
+    const emptyWasteTypeForm = { name: '', code: '', unit: 'kg' as WasteUnit, kgPerUnit: 1, costPerUnit: 0, products: '', sortOrder: 0 };
+    const [showWasteTypesPanel, setShowWasteTypesPanel] = useState(false);
+    const [wasteTypes, setWasteTypes] = useState<WasteType[]>(getWasteTypes);
+    const [editingWasteTypeId, setEditingWasteTypeId] = useState<string | null>(null);
+    const [wasteTypeForm, setWasteTypeForm] = useState(emptyWasteTypeForm);
+
+    // Product catalogue - number fields are kept as text so they can be left blank
+    const emptyProductForm: Record<'sku' | 'name' | 'labelFormat' | ProductNumberField, string> = {
+        sku: '', name: '', labelFormat: '', ratedSpeed: '', targetMass: '', massToleranceBelow: '', massToleranceAbove: '', sachetsPerCase: '', casesPerPallet: '',
+    };
+    const products = useProducts();
+    const [showProductsPanel, setShowProductsPanel] = useState(false);
+    const [editingProductId, setEditingProductId] = useState<string | null>(null);
+    const [productForm, setProductForm] = useState(emptyProductForm);
+
+    const shiftPatterns = getShiftPatterns(facilitySettings);
+    const defaultPattern = shiftPatterns.find(p => p.id === facilitySettings.shiftPatternId) || shiftPatterns[0];
 
     const showToast = (message: string, type: 'success' | 'error') => {
         setToast({ message, type });
@@ -64,26 +178,541 @@ const AdminConsole: React.FC = () => {
     };
 
     // Handle facility settings save
-    const handleSaveSettings = () => {
+    const handleSaveSettings = async () => {
+        if (!isValidTimeZone(timeZoneInput)) {
+            showError(`Unknown time zone "${timeZoneInput}"`);
+            return;
+        }
+        setIsSavingSettings(true);
         try {
-            const updated = saveFacilitySettings(facilitySettings);
+            const updated = await saveFacilitySettings(facilitySettings, user?.displayName || 'Unknown');
             setFacilitySettings(updated);
             showSuccess('Facility settings saved');
             setShowSettingsPanel(false);
         } catch (e) {
-            showError('Failed to save settings');
+            showError('Settings saved on this device only - failed to sync');
+        } finally {
+            setIsSavingSettings(false);
+        }
+    };
+
+    // Add a custom shift pattern from the editor
+    const handleAddShiftPattern = () => {
+        const shifts = newPatternShifts.filter(shift => shift.name.trim() && shift.start);
+        if (!newPatternName.trim() || shifts.length === 0) {
+            showError('Pattern needs a name and at least one shift');
+            return;
+        }
+
+        // Rotation: one line per day of the cycle, crews per shift separated by commas
+        const cycle = newPatternRotation
+            .split('\n')
+            .map(line => line.trim())
+            .filter(Boolean)
+            .map(line => line.split(',').map(crew => crew.trim()));
+        if (cycle.some(day => day.length !== shifts.length)) {
+            showError(`Each rotation day needs ${shifts.length} crew entries (one per shift)`);
+            return;
+        }
+
+        const pattern = {
+            id: `custom-${Date.now()}`,
+            name: newPatternName.trim(),
+            shifts,
+            rotation: cycle.length > 0 ? {
+                anchorDate: newPatternAnchorDate || getFacilityDateString(),
+                crews: Array.from(new Set(cycle.flat().filter(Boolean))),
+                cycle,
+            } : undefined,
+        };
+
+        setFacilitySettings(prev => ({
+            ...prev,
+            customShiftPatterns: [...prev.customShiftPatterns, pattern],
+        }));
+        setNewPatternName('');
+        setNewPatternRotation('');
+        setNewPatternAnchorDate('');
+    };
+
+    // Remove a custom shift pattern and any line assignments that use it
+    const handleRemoveShiftPattern = (patternId: string) => {
+        setFacilitySettings(prev => ({
+            ...prev,
+            customShiftPatterns: prev.customShiftPatterns.filter(p => p.id !== patternId),
+            shiftPatternId: prev.shiftPatternId === patternId ? 'day-night' : prev.shiftPatternId,
+            lineShiftPatterns: Object.fromEntries(
+                Object.entries(prev.lineShiftPatterns).filter(([, id]) => id !== patternId)
+            ),
+        }));
+    };
+
+    // Assign a pattern to a line (empty = facility default)
+    const handleLinePatternChange = (lineName: string, patternId: string) => {
+        setFacilitySettings(prev => {
+            const lineShiftPatterns = { ...prev.lineShiftPatterns };
+            if (patternId) {
+                lineShiftPatterns[lineName] = patternId;
+            } else {
+                delete lineShiftPatterns[lineName];
+            }
+            return { ...prev, lineShiftPatterns };
+        });
+    };
+
+    // Only valid zone names reach the settings; the input keeps whatever is typed
+    const handleTimeZoneChange = (value: string) => {
+        setTimeZoneInput(value);
+        if (isValidTimeZone(value)) {
+            setFacilitySettings(prev => ({ ...prev, timeZone: value }));
         }
     };
 
     // Handle facility settings reset
-    const handleResetSettings = () => {
+    const handleResetSettings = async () => {
         if (window.confirm('Reset all facility settings to defaults?')) {
-            const defaults = resetFacilitySettings();
-            setFacilitySettings(defaults);
-            showSuccess('Settings reset to defaults');
+            setIsSavingSettings(true);
+            try {
+                const defaults = await resetFacilitySettings(user?.displayName || 'Unknown');
+                setFacilitySettings(defaults);
+                setTimeZoneInput(defaults.timeZone);
+                showSuccess('Settings reset to defaults');
+            } catch (e) {
+                showError('Settings reset on this device only - failed to sync');
+            } finally {
+                setIsSavingSettings(false);
+            }
+        }
+    };
+
+    // Load users when the panel opens
+    const loadUsers = useCallback(async () => {
+        try {
+            setUsers(await listUsers());
+        } catch (e) {
+            showError('Failed to load users');
+        }
+    }, []);
+
+    useEffect(() => {
+        if (showUsersPanel && isAdmin) loadUsers();
+    }, [showUsersPanel, isAdmin, loadUsers]);
+
+    const handleUserRoleChange = async (id: string, role: UserRole) => {
+        try {
+            await setUserRole(id, role);
+            showSuccess('Role updated');
+            loadUsers();
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to update role');
+        }
+    };
+
+    // PIN accounts only exist when Supabase is not configured
+    const handleAddLocalUser = async () => {
+        try {
+            await createLocalAccount(newUserName, newUserPin, newUserRole);
+            setNewUserName('');
+            setNewUserPin('');
+            showSuccess('User added');
+            loadUsers();
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to add user');
+        }
+    };
+
+    const handleRemoveLocalUser = (id: string) => {
+        if (!window.confirm('Remove this user?')) return;
+        try {
+            removeLocalAccount(id);
+            loadUsers();
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to remove user');
+        }
+    };
+
+    // Load the operator registry when the panel opens
+    const loadOperators = useCallback(async () => {
+        setOperators(await getOperators(true));
+    }, []);
+
+    useEffect(() => {
+        if (showOperatorsPanel) loadOperators();
+    }, [showOperatorsPanel, loadOperators]);
+
+    const resetOperatorForm = () => {
+        setEditingOperatorId(null);
+        setOperatorForm({ name: '', employeeNumber: '', badgeCode: '', pin: '' });
+    };
+
+    const handleEditOperator = (operator: Operator) => {
+        setEditingOperatorId(operator.id);
+        setOperatorForm({
+            name: operator.name,
+            employeeNumber: operator.employeeNumber || '',
+            badgeCode: operator.badgeCode || '',
+            pin: '',
+        });
+    };
+
+    // A blank PIN keeps the operator's existing PIN
+    const handleSaveOperator = async () => {
+        const existing = operators.find(o => o.id === editingOperatorId);
+        try {
+            await saveOperator({
+                id: existing?.id,
+                name: operatorForm.name,
+                employeeNumber: operatorForm.employeeNumber,
+                badgeCode: operatorForm.badgeCode,
+                active: existing ? existing.active : true,
+            }, operatorForm.pin || undefined);
+            showSuccess(existing ? 'Operator updated' : 'Operator added');
+            resetOperatorForm();
+            loadOperators();
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to save operator');
+        }
+    };
+
+    const handleToggleOperatorActive = async (operator: Operator) => {
+        try {
+            await saveOperator({ ...operator, active: !operator.active });
+            loadOperators();
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to update operator');
+        }
+    };
+
+    // Load the latest reason tree when the panel opens
+    useEffect(() => {
+        if (showReasonsPanel) loadDowntimeReasons(true).then(setDowntimeReasons);
+    }, [showReasonsPanel]);
+
+    const resetReasonForm = () => {
+        setEditingReasonId(null);
+        setReasonForm(emptyReasonForm);
+    };
+
+    const handleEditReason = (reason: DowntimeReason) => {
+        setEditingReasonId(reason.id);
+        setReasonForm({
+            parentId: reason.parentId || '',
+            name: reason.name,
+            code: reason.code,
+            planned: reason.planned,
+            machineIds: reason.machineIds,
+            sortOrder: reason.sortOrder,
+        });
+    };
+
+    const handleToggleReasonMachine = (machineId: string) => {
+        setReasonForm(prev => ({
+            ...prev,
+            machineIds: prev.machineIds.includes(machineId)
+                ? prev.machineIds.filter(id => id !== machineId)
+                : [...prev.machineIds, machineId],
+        }));
+    };
+
+    const handleSaveReason = async () => {
+        if (!reasonForm.name.trim() || !reasonForm.code.trim()) {
+            showError('Enter a name and code for the reason');
+            return;
+        }
+        const existing = downtimeReasons.find(r => r.id === editingReasonId);
+        try {
+            await saveDowntimeReason({
+                id: existing?.id,
+                parentId: reasonForm.parentId || null,
+                name: reasonForm.name,
+                code: reasonForm.code,
+                planned: reasonForm.planned,
+                machineIds: reasonForm.machineIds,
+                sortOrder: reasonForm.sortOrder,
+                active: existing ? existing.active : true,
+            });
+            showSuccess(existing ? 'Downtime reason updated' : 'Downtime reason added');
+            setDowntimeReasons(getDowntimeReasons());
+            resetReasonForm();
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to save downtime reason');
+        }
+    };
+
+    // Inactive reasons stay in the tree so earlier entries still resolve
+    const handleToggleReasonActive = async (reason: DowntimeReason) => {
+        try {
+            await saveDowntimeReason({ ...reason, active: !reason.active });
+            setDowntimeReasons(getDowntimeReasons());
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to update downtime reason');
+        }
+    };
+
+    const describeReason = (reason: DowntimeReason): string => {
+        const machineNames = reason.machineIds.map(id => machines.find(m => m.id === id)?.name || id);
+        return [
+            reason.code,
+            reason.planned ? 'planned' : 'unplanned',
+            machineNames.length > 0 ? machineNames.join(', ') : 'all machines',
+            reason.active ? '' : 'inactive',
+        ].filter(Boolean).join(' · ');
+    };
+
+    // Load the latest plant units when the panel opens
+    useEffect(() => {
+        if (showPlantPanel) loadPlantUnits(true).then(setPlantUnits);
+    }, [showPlantPanel]);
+
+    const resetUnitForm = () => {
+        setEditingUnitId(null);
+        setUnitForm(emptyUnitForm);
+    };
+
+    const handleEditUnit = (unit: PlantUnit) => {
+        setEditingUnitId(unit.id);
+        setUnitForm({
+            level: unit.level,
+            name: unit.name,
+            displayName: unit.displayName || '',
+            parentId: unit.parentId || '',
+            sortOrder: unit.sortOrder,
+        });
+    };
+
+    const handleSaveUnit = async () => {
+        if (!unitForm.name.trim()) {
+            showError(`Enter a name for the ${unitForm.level}`);
+            return;
+        }
+        try {
+            await savePlantUnit({
+                id: editingUnitId || undefined,
+                level: unitForm.level,
+                name: unitForm.name,
+                displayName: unitForm.displayName,
+                parentId: unitForm.parentId || undefined,
+                sortOrder: unitForm.sortOrder,
+            });
+            showSuccess(editingUnitId ? `${HIERARCHY_LEVEL_LABELS[unitForm.level]} updated` : `${HIERARCHY_LEVEL_LABELS[unitForm.level]} added`);
+            setPlantUnits(getPlantUnits());
+            resetUnitForm();
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to save plant unit');
+        }
+    };
+
+    const handleDeleteUnit = async (unit: PlantUnit) => {
+        if (!window.confirm(`Delete ${getUnitLabel(unit)}? Anything placed under it becomes unassigned.`)) return;
+        try {
+            await removePlantUnit(unit.id);
+            setPlantUnits(getPlantUnits());
+            if (editingUnitId === unit.id) resetUnitForm();
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to delete plant unit');
+        }
+    };
+
+    const handleSelectPlacementMachine = (machineId: string) => {
+        const machine = machines.find(m => m.id === machineId);
+        setPlacementMachineId(machineId);
+        setPlacementForm(machine ? {
+            lineId: machine.lineId || '',
+            displayName: machine.displayName || '',
+            sortOrder: machine.sortOrder || 0,
+            subMachines: getSubMachines(machine),
+        } : emptyPlacementForm);
+    };
+
+    const handleUpdatePlacementSubMachine = (id: string, updates: Partial<SubMachine>) => {
+        setPlacementForm(prev => ({
+            ...prev,
+            subMachines: prev.subMachines.map(sub => sub.id === id ? { ...sub, ...updates } : sub),
+        }));
+    };
+
+    const handleSavePlacement = async () => {
+        if (!placementMachineId) return;
+        try {
+            await updateMachine(placementMachineId, {
+                lineId: placementForm.lineId || undefined,
+                displayName: placementForm.displayName.trim() || undefined,
+                sortOrder: placementForm.sortOrder,
+            });
+            if (placementForm.subMachines.length > 0) {
+                await updateSubMachines(placementMachineId, placementForm.subMachines.map(sub => ({
+                    ...sub,
+                    displayName: sub.displayName?.trim() || undefined,
+                })));
+            }
+            setMachines([...getMachinesData()]);
+            showSuccess('Machine placement saved');
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to save machine placement');
+        }
+    };
+
+    const describeUnit = (unit: PlantUnit): string => {
+        const lineMachines = unit.level === 'line'
+            ? machines.filter(m => m.lineId === unit.id).map(getMachineLabel)
+            : [];
+        return [
+            HIERARCHY_LEVEL_LABELS[unit.level],
+            unit.displayName ? unit.name : '',
+            lineMachines.length > 0 ? lineMachines.join(', ') : '',
+        ].filter(Boolean).join(' · ');
+    };
+
+    // Load the latest waste catalogue when the panel opens
+    useEffect(() => {
+        if (showWasteTypesPanel) loadWasteTypes(true).then(setWasteTypes);
+    }, [showWasteTypesPanel]);
+
+    const resetWasteTypeForm = () => {
+        setEditingWasteTypeId(null);
+        setWasteTypeForm(emptyWasteTypeForm);
+    };
+
+    const handleEditWasteType = (type: WasteType) => {
+        setEditingWasteTypeId(type.id);
+        setWasteTypeForm({
+            name: type.name,
+            code: type.code,
+            unit: type.unit,
+            kgPerUnit: type.kgPerUnit,
+            costPerUnit: type.costPerUnit,
+            products: type.products.join(', '),
+            sortOrder: type.sortOrder,
+        });
+    };
+
+    const handleSaveWasteType = async () => {
+        if (!wasteTypeForm.name.trim() || !wasteTypeForm.code.trim()) {
+            showError('Enter a name and code for the waste type');
+            return;
+        }
+        if (wasteTypeForm.unit !== 'kg' && wasteTypeForm.kgPerUnit <= 0) {
+            showError('Enter the weight of one unit in kg');
+            return;
+        }
+        const existing = wasteTypes.find(t => t.id === editingWasteTypeId);
+        try {
+            await saveWasteType({
+                id: existing?.id,
+                name: wasteTypeForm.name,
+                code: wasteTypeForm.code,
+                unit: wasteTypeForm.unit,
+                kgPerUnit: wasteTypeForm.kgPerUnit,
+                costPerUnit: wasteTypeForm.costPerUnit,
+                products: wasteTypeForm.products.split(','),
+                sortOrder: wasteTypeForm.sortOrder,
+                active: existing ? existing.active : true,
+            });
+            showSuccess(existing ? 'Waste type updated' : 'Waste type added');
+            setWasteTypes(getWasteTypes());
+            resetWasteTypeForm();
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to save waste type');
+        }
+    };
+
+    // Inactive types stay in the catalogue so earlier entries still resolve
+    const handleToggleWasteTypeActive = async (type: WasteType) => {
+        try {
+            await saveWasteType({ ...type, active: !type.active });
+            setWasteTypes(getWasteTypes());
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to update waste type');
+        }
+    };
+
+    const describeWasteType = (type: WasteType): string => [
+        type.code,
+        type.unit === 'kg' ? 'kg' : `${type.unit} · ${type.kgPerUnit} kg each`,
+        `${type.costPerUnit.toFixed(2)} per ${type.unit === 'units' ? 'unit' : type.unit}`,
+        type.products.length > 0 ? type.products.join(', ') : 'all products',
+        type.active ? '' : 'inactive',
+    ].filter(Boolean).join(' · ');
+
+    // Load the latest product catalogue when the panel opens
+    useEffect(() => {
+        if (showProductsPanel) loadProducts(true);
+    }, [showProductsPanel]);
+
+    const resetProductForm = () => {
+        setEditingProductId(null);
+        setProductForm(emptyProductForm);
+    };
+
+    const handleEditProduct = (item: Product) => {
+        setEditingProductId(item.id);
+        setProductForm({
+            sku: item.sku,
+            name: item.name,
+            labelFormat: item.labelFormat || '',
+            ...Object.fromEntries(PRODUCT_NUMBER_FIELDS.map(({ key }) => [key, item[key] !== undefined ? String(item[key]) : ''])),
+        } as typeof emptyProductForm);
+    };
+
+    const handleSaveProduct = async () => {
+        if (!productForm.sku.trim() || !productForm.name.trim()) {
+            showError('Enter a SKU and name for the product');
+            return;
+        }
+        const targets = Object.fromEntries(PRODUCT_NUMBER_FIELDS.map(({ key }) => [
+            key,
+            productForm[key].trim() !== '' ? Number(productForm[key]) : undefined,
+        ])) as Pick<Product, ProductNumberField>;
+        const existing = products.find(p => p.id === editingProductId);
+        try {
+            await saveProduct({
+                id: existing?.id,
+                sku: productForm.sku,
+                name: productForm.name,
+                ...targets,
+                labelFormat: productForm.labelFormat || undefined,
+                active: existing ? existing.active : true,
+            });
+            showSuccess(existing ? 'Product updated' : 'Product added');
+            resetProductForm();
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to save product');
+        }
+    };
+
+    const handleToggleProductActive = async (item: Product) => {
+        try {
+            await saveProduct({ ...item, active: !item.active });
+        } catch (e) {
+            showError(e instanceof Error ? e.message : 'Failed to update product');
         }
     };
 
+    const describeProduct = (item: Product): string => [
+        item.sku,
+        item.ratedSpeed ? `${item.ratedSpeed} PPM` : '',
+        item.targetMass
+            ? `${item.targetMass} g (-${item.massToleranceBelow || 0} / +${item.massToleranceAbove || 0})`
+            : '',
+        item.sachetsPerCase ? `${item.sachetsPerCase}/case` : '',
+        item.casesPerPallet ? `${item.casesPerPallet} cases/pallet` : '',
+        item.labelFormat ? getLabelFormat(item.labelFormat).name : '',
+        item.active ? '' : 'inactive',
+    ].filter(Boolean).join(' · ');
+
+    // Follow changes made on other devices while the settings panel is closed
+    // (an open panel keeps the admin's unsaved edits)
+    useEffect(() => {
+        if (showSettingsPanel) return;
+
+        const applySettings = (settings: FacilitySettings) => {
+            setFacilitySettings(settings);
+            setTimeZoneInput(settings.timeZone);
+        };
+        applySettings(getFacilitySettings());
+        return subscribeToFacilitySettings(applySettings);
+    }, [showSettingsPanel]);
+
     // Load machines and orders
     const loadData = useCallback(async () => {
         setIsLoading(true);
@@ -146,20 +775,25 @@ const AdminConsole: React.FC = () => {
             parts = parts.map(p => p.trim());
 
             if (parts.length >= 4) {
-                const [machineName, orderNum, prod, batch] = parts;
+                const [machineName, orderNum, prod, batch, quantity = '', due = ''] = parts;
                 const machine = findMachine(machineName);
+                // A SKU or name from the catalogue is stored as the product name
+                const productSpec = findProduct(products, prod);
+                const { plan, error: planError } = parseOrderPlan({ plannedQuantity: quantity, dueDate: due, plannedStart: '' });
 
                 orders.push({
                     machineName: machineName,
                     machineId: machine?.id || '',
                     orderNumber: orderNum,
-                    product: prod,
+                    product: productSpec?.name || prod,
                     batchNumber: batch,
-                    valid: !!machine && !!orderNum && !!prod && !!batch,
+                    plan,
+                    valid: !!machine && !!orderNum && !!prod && !!batch && (!!productSpec || products.length === 0) && !planError,
                     error: !machine ? `Machine "${machineName}" not found` :
                            !orderNum ? 'Missing order number' :
                            !prod ? 'Missing product' :
-                           !batch ? 'Missing batch' : undefined
+                           !productSpec && products.length > 0 ? `Product "${prod}" not in catalogue` :
+                           !batch ? 'Missing batch' : planError
                 });
             } else if (parts.length > 0 && parts[0]) {
                 // Invalid line format
@@ -169,6 +803,7 @@ const AdminConsole: React.FC = () => {
                     orderNumber: parts[1] || '',
                     product: parts[2] || '',
                     batchNumber: parts[3] || '',
+                    plan: {},
                     valid: false,
                     error: 'Invalid format. Expected: Machine, Order, Product, Batch'
                 });
@@ -176,7 +811,7 @@ const AdminConsole: React.FC = () => {
         }
 
         return orders;
-    }, [findMachine]);
+    }, [findMachine, products]);
 
     // Handle bulk text change
     const handleBulkTextChange = (text: string) => {
@@ -205,21 +840,32 @@ const AdminConsole: React.FC = () => {
                 ordersByMachine[order.machineId].push(order);
             });
 
-            // Add orders for each machine in sequence
+            // Add orders for each machine in sequence (queued while offline)
+            let queued = 0;
             for (const machineId of Object.keys(ordersByMachine)) {
                 const machineOrders = ordersByMachine[machineId];
                 for (const order of machineOrders) {
-                    await addMachineOrder(
-                        order.machineId,
-                        order.orderNumber,
-                        order.product,
-                        order.batchNumber
-                    );
+                    const result = await sendOrQueue({
+                        kind: 'order_queue_add',
+                        payload: {
+                            machineId: order.machineId,
+                            orderNumber: order.orderNumber,
+                            product: order.product,
+                            batchNumber: order.batchNumber,
+                            plan: order.plan
+                        }
+                    });
+                    if (result === 'queued') queued++;
                 }
             }
 
             await loadData();
-            showToast(`Successfully imported ${validOrders.length} orders`, 'success');
+            showToast(
+                queued > 0
+                    ? `Imported ${validOrders.length} orders (${queued} will sync when back online)`
+                    : `Successfully imported ${validOrders.length} orders`,
+                'success'
+            );
 
             // Clear the form
             setBulkPasteText('');
@@ -242,17 +888,37 @@ const AdminConsole: React.FC = () => {
             showToast('Please fill in all fields', 'error');
             return;
         }
+        const { plan, error: planError } = parseOrderPlan({ plannedQuantity, dueDate, plannedStart });
+        if (planError) {
+            showToast(planError, 'error');
+            return;
+        }
 
         setIsSaving(true);
         try {
             if (isSupabaseConfigured) {
-                await addMachineOrder(selectedMachine, orderNumber, product, batchNumber);
-                await loadData();
-                showToast('Order added successfully', 'success');
+                const result = await sendOrQueue({
+                    kind: 'order_queue_add',
+                    payload: {
+                        machineId: selectedMachine,
+                        orderNumber,
+                        product: findProduct(products, product)?.name || product.trim(),
+                        batchNumber,
+                        plan
+                    }
+                });
+                if (result === 'sent') await loadData();
+                showToast(
+                    result === 'queued' ? 'Offline - order will be added when back online' : 'Order added successfully',
+                    'success'
+                );
                 // Clear form
                 setOrderNumber('');
                 setProduct('');
                 setBatchNumber('');
+                setPlannedQuantity('');
+                setDueDate('');
+                setPlannedStart('');
             } else {
                 showToast('Supabase not configured', 'error');
             }
@@ -268,7 +934,15 @@ const AdminConsole: React.FC = () => {
         if (!window.confirm('Remove this order from the queue?')) return;
 
         try {
-            await removeMachineOrder(orderId);
+            const result = await sendOrQueue({ kind: 'order_queue_remove', payload: { orderId } });
+            if (result === 'queued') {
+                // Hide it now; the removal syncs when back online
+                setMachineOrders(prev => Object.fromEntries(
+                    Object.entries(prev).map(([id, orders]) => [id, orders.filter(o => o.id !== orderId)])
+                ));
+                showToast('Offline - order will be removed when back online', 'success');
+                return;
+            }
             await loadData();
             showToast('Order removed', 'success');
         } catch (error) {
@@ -298,7 +972,11 @@ const AdminConsole: React.FC = () => {
         // Update priorities in database
         try {
             const orderIds = newOrders.map(o => o.id!);
-            await updateMachineOrderPriorities(machineId, orderIds);
+            // Only the latest order per machine needs to sync
+            await sendOrQueue(
+                { kind: 'order_queue_reorder', payload: { machineId, orderIds } },
+                { dedupeKey: `order_queue_reorder:${machineId}` }
+            );
         } catch (error) {
             console.error('Error updating order priorities:', error);
             // Reload data to restore correct state
@@ -370,6 +1048,12 @@ const AdminConsole: React.FC = () => {
                     <h1>Admin Console</h1>
                     <span className="admin-subtitle">Machine Order Queues</span>
                 </div>
+                {user && (
+                    <div className="admin-user">
+                        <span>{user.displayName} · {formatRole(user.role)}</span>
+                        <button className="admin-clear-btn" onClick={signOut}>Sign out</button>
+                    </div>
+                )}
             </header>
 
             <main className="admin-main">
@@ -401,7 +1085,7 @@ const AdminConsole: React.FC = () => {
                             <div className="form-field">
                                 <label className="form-label">
                                     Paste Orders (one per line)
-                                    <span className="form-hint">Format: Machine, Order Number, Product, Batch Number</span>
+                                    <span className="form-hint">Format: Machine, Order Number, Product, Batch Number[, Cases, Due Date]</span>
                                 </label>
                                 <textarea
                                     className="form-textarea"
@@ -430,6 +1114,9 @@ const AdminConsole: React.FC = () => {
                                                     <span className="preview-order">{order.orderNumber}</span>
                                                     <span className="preview-product">{order.product}</span>
                                                     <span className="preview-batch">{order.batchNumber}</span>
+                                                    {order.plan.plannedQuantity && (
+                                                        <span className="preview-batch">{order.plan.plannedQuantity} cases</span>
+                                                    )}
                                                 </div>
                                                 {!order.valid && (
                                                     <span className="preview-error">{order.error}</span>
@@ -496,9 +1183,10 @@ const AdminConsole: React.FC = () => {
                                 <input
                                     type="text"
                                     className="form-input"
-                                    placeholder="Enter product name"
+                                    placeholder="Enter product name or SKU"
                                     value={product}
                                     onChange={e => setProduct(e.target.value)}
+                                    list={PRODUCT_LIST_ID}
                                 />
                             </div>
 
@@ -513,6 +1201,38 @@ const AdminConsole: React.FC = () => {
                                 />
                             </div>
 
+                            <div className="form-field">
+                                <label className="form-label">Planned Quantity (cases)</label>
+                                <input
+                                    type="number"
+                                    className="form-input"
+                                    placeholder="Optional"
+                                    min={1}
+                                    value={plannedQuantity}
+                                    onChange={e => setPlannedQuantity(e.target.value)}
+                                />
+                            </div>
+
+                            <div className="form-field">
+                                <label className="form-label">Due Date</label>
+                                <input
+                                    type="date"
+                                    className="form-input"
+                                    value={dueDate}
+                                    onChange={e => setDueDate(e.target.value)}
+                                />
+                            </div>
+
+                            <div className="form-field">
+                                <label className="form-label">Planned Start</label>
+                                <input
+                                    type="datetime-local"
+                                    className="form-input"
+                                    value={plannedStart}
+                                    onChange={e => setPlannedStart(e.target.value)}
+                                />
+                            </div>
+
                             <div className="admin-actions">
                                 <button
                                     className="admin-save-btn"
@@ -576,9 +1296,23 @@ const AdminConsole: React.FC = () => {
                                                             {index + 1}
                                                         </div>
                                                         <div className="queue-item-details">
-                                                            <div className="queue-order-number">{order.order_number}</div>
+                                                            <div className="queue-order-number">
+                                                                {order.order_number}
+                                                                {getOrderStatus(order) !== 'queued' && (
+                                                                    <span className={`order-status-chip ${getOrderStatus(order)}`}>
+                                                                        {ORDER_STATUS_LABELS[getOrderStatus(order)]}
+                                                                    </span>
+                                                                )}
+                                                            </div>
                                                             <div className="queue-product">{order.product}</div>
                                                             <div className="queue-batch">Batch: {order.batch_number}</div>
+                                                            {(order.planned_quantity || order.due_date) && (
+                                                                <div className="queue-plan">
+                                                                    {order.planned_quantity ? `${order.planned_quantity} cases` : ''}
+                                                                    {order.planned_quantity && order.due_date ? ' · ' : ''}
+                                                                    {order.due_date ? `Due ${order.due_date}` : ''}
+                                                                </div>
+                                                            )}
                                                         </div>
                                                         <div className="queue-item-actions">
                                                             <button
@@ -633,6 +1367,7 @@ const AdminConsole: React.FC = () => {
                 </section>
 
                 {/* Facility Settings Section */}
+                {isAdmin && (
                 <section className="admin-settings-section">
                     <div className="settings-header" onClick={() => setShowSettingsPanel(!showSettingsPanel)}>
                         <h2 className="section-heading">
@@ -685,30 +1420,149 @@ const AdminConsole: React.FC = () => {
                                                 ))}
                                             </select>
                                         </div>
-                                        <div className="settings-preview">
-                                            Current: Day {formatShiftTimes().day}, Night {formatShiftTimes().night}
+                                        <div className="settings-hint">
+                                            Used by the Day / Night pattern
                                         </div>
                                     </div>
 
-                                    {/* Timezone */}
+                                    {/* Shift Patterns */}
                                     <div className="settings-group">
-                                        <h3>Timezone</h3>
+                                        <h3>Shift Pattern</h3>
                                         <div className="settings-row">
-                                            <label>UTC Offset</label>
+                                            <label>Facility Default</label>
                                             <select
-                                                value={facilitySettings.timezoneOffset}
+                                                value={defaultPattern.id}
                                                 onChange={(e) => setFacilitySettings(prev => ({
                                                     ...prev,
-                                                    timezoneOffset: parseInt(e.target.value)
+                                                    shiftPatternId: e.target.value
                                                 }))}
                                             >
-                                                {Array.from({ length: 25 }, (_, i) => i - 12).map(offset => (
-                                                    <option key={offset} value={offset}>
-                                                        UTC{offset >= 0 ? '+' : ''}{offset}
-                                                    </option>
+                                                {shiftPatterns.map(pattern => (
+                                                    <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
                                                 ))}
                                             </select>
                                         </div>
+                                        <div className="settings-preview">
+                                            Current: {describeShiftPattern(defaultPattern).join(', ')}
+                                        </div>
+                                        {machines.map(machine => (
+                                            <div key={machine.id} className="settings-row">
+                                                <label>{machine.name}</label>
+                                                <select
+                                                    value={facilitySettings.lineShiftPatterns[machine.name] || ''}
+                                                    onChange={(e) => handleLinePatternChange(machine.name, e.target.value)}
+                                                >
+                                                    <option value="">Facility default</option>
+                                                    {shiftPatterns.map(pattern => (
+                                                        <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    {/* Custom Shift Patterns */}
+                                    <div className="settings-group">
+                                        <h3>Custom Patterns</h3>
+                                        {facilitySettings.customShiftPatterns.map(pattern => (
+                                            <div key={pattern.id} className="settings-row">
+                                                <label>{pattern.name}</label>
+                                                <button
+                                                    className="admin-clear-btn"
+                                                    onClick={() => handleRemoveShiftPattern(pattern.id)}
+                                                >
+                                                    Remove
+                                                </button>
+                                            </div>
+                                        ))}
+                                        <div className="settings-row">
+                                            <label>Name</label>
+                                            <input
+                                                type="text"
+                                                value={newPatternName}
+                                                onChange={(e) => setNewPatternName(e.target.value)}
+                                                placeholder="e.g., Line 3 - 2 × 12h"
+                                            />
+                                        </div>
+                                        {newPatternShifts.map((shift, index) => (
+                                            <div key={index} className="settings-row">
+                                                <input
+                                                    type="text"
+                                                    value={shift.name}
+                                                    onChange={(e) => setNewPatternShifts(prev => prev.map((s, i) =>
+                                                        i === index ? { ...s, name: e.target.value } : s
+                                                    ))}
+                                                    placeholder="Shift name"
+                                                />
+                                                <input
+                                                    type="time"
+                                                    value={shift.start}
+                                                    onChange={(e) => setNewPatternShifts(prev => prev.map((s, i) =>
+                                                        i === index ? { ...s, start: e.target.value } : s
+                                                    ))}
+                                                />
+                                                <button
+                                                    className="admin-clear-btn"
+                                                    onClick={() => setNewPatternShifts(prev => prev.filter((_, i) => i !== index))}
+                                                >
+                                                    &times;
+                                                </button>
+                                            </div>
+                                        ))}
+                                        <button
+                                            className="admin-clear-btn"
+                                            onClick={() => setNewPatternShifts(prev => [...prev, { name: '', start: '' }])}
+                                        >
+                                            + Shift
+                                        </button>
+                                        <div className="settings-row">
+                                            <label>Crew Rotation</label>
+                                            <textarea
+                                                value={newPatternRotation}
+                                                onChange={(e) => setNewPatternRotation(e.target.value)}
+                                                placeholder={'Optional - one line per day, e.g.\nA, D, C\nB, A, D'}
+                                                rows={4}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Rotation Starts</label>
+                                            <input
+                                                type="date"
+                                                value={newPatternAnchorDate}
+                                                onChange={(e) => setNewPatternAnchorDate(e.target.value)}
+                                            />
+                                        </div>
+                                        <div className="settings-hint">
+                                            Each shift runs until the next shift starts. Crew order follows the shift order above.
+                                        </div>
+                                        <button className="admin-save-btn" onClick={handleAddShiftPattern}>
+                                            Add Pattern
+                                        </button>
+                                    </div>
+
+                                    {/* Timezone */}
+                                    <div className="settings-group">
+                                        <h3>Timezone</h3>
+                                        <div className="settings-row">
+                                            <label>Time Zone</label>
+                                            <input
+                                                type="text"
+                                                list="facility-time-zones"
+                                                value={timeZoneInput}
+                                                onChange={(e) => handleTimeZoneChange(e.target.value)}
+                                                placeholder="e.g. Africa/Johannesburg"
+                                            />
+                                            <datalist id="facility-time-zones">
+                                                {TIME_ZONE_OPTIONS.map(zone => (
+                                                    <option key={zone} value={zone} />
+                                                ))}
+                                            </datalist>
+                                        </div>
+                                        <div className="settings-hint">
+                                            {isValidTimeZone(timeZoneInput)
+                                                ? `Facility time now: ${formatZonedTime(new Date(), timeZoneInput, { dateStyle: 'medium', timeStyle: 'short' })}`
+                                                : 'Unknown time zone - enter an IANA name such as Europe/London'}
+                                        </div>
                                     </div>
 
                                     {/* Submission Window */}
@@ -781,11 +1635,18 @@ const AdminConsole: React.FC = () => {
                                     </div>
                                 </div>
 
+                                {facilitySettings.updatedAt && (
+                                    <div className="settings-hint">
+                                        Last changed {new Date(facilitySettings.updatedAt).toLocaleString()}
+                                        {facilitySettings.updatedBy ? ` by ${facilitySettings.updatedBy}` : ''}
+                                    </div>
+                                )}
+
                                 <div className="settings-actions">
-                                    <button className="admin-save-btn" onClick={handleSaveSettings}>
-                                        Save Settings
+                                    <button className="admin-save-btn" onClick={handleSaveSettings} disabled={isSavingSettings}>
+                                        {isSavingSettings ? 'Saving...' : 'Save Settings'}
                                     </button>
-                                    <button className="admin-clear-btn" onClick={handleResetSettings}>
+                                    <button className="admin-clear-btn" onClick={handleResetSettings} disabled={isSavingSettings}>
                                         Reset to Defaults
                                     </button>
                                 </div>
@@ -793,7 +1654,779 @@ const AdminConsole: React.FC = () => {
                         )}
                     </AnimatePresence>
                 </section>
-            </main>
+                )}
+
+                {/* Operators Section */}
+                <section className="admin-settings-section">
+                    <div className="settings-header" onClick={() => setShowOperatorsPanel(!showOperatorsPanel)}>
+                        <h2 className="section-heading">
+                            <span className="section-icon">&#9873;</span>
+                            Operators
+                        </h2>
+                        <span className={`expand-icon ${showOperatorsPanel ? 'expanded' : ''}`}>
+                            {showOperatorsPanel ? '−' : '+'}
+                        </span>
+                    </div>
+
+                    <AnimatePresence>
+                        {showOperatorsPanel && (
+                            <motion.div
+                                className="settings-panel"
+                                initial={{ height: 0, opacity: 0 }}
+                                animate={{ height: 'auto', opacity: 1 }}
+                                exit={{ height: 0, opacity: 0 }}
+                                transition={{ duration: 0.2 }}
+                            >
+                                <div className="settings-grid">
+                                    <div className="settings-group">
+                                        <h3>Registry</h3>
+                                        {operators.length === 0 && (
+                                            <div className="settings-hint">No operators yet.</div>
+                                        )}
+                                        {operators.map(operator => (
+                                            <div key={operator.id} className="settings-row">
+                                                <label>
+                                                    {operator.name}
+                                                    {operator.employeeNumber ? ` #${operator.employeeNumber}` : ''}
+                                                    {operator.active ? '' : ' (inactive)'}
+                                                </label>
+                                                <button className="admin-save-btn" onClick={() => handleEditOperator(operator)}>
+                                                    Edit
+                                                </button>
+                                                <button
+                                                    className="admin-clear-btn"
+                                                    onClick={() => handleToggleOperatorActive(operator)}
+                                                >
+                                                    {operator.active ? 'Deactivate' : 'Reactivate'}
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    <div className="settings-group">
+                                        <h3>{editingOperatorId ? 'Edit Operator' : 'Add Operator'}</h3>
+                                        <div className="settings-row">
+                                            <label>Name</label>
+                                            <input
+                                                type="text"
+                                                value={operatorForm.name}
+                                                onChange={(e) => setOperatorForm({ ...operatorForm, name: e.target.value })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Employee No.</label>
+                                            <input
+                                                type="text"
+                                                value={operatorForm.employeeNumber}
+                                                onChange={(e) => setOperatorForm({ ...operatorForm, employeeNumber: e.target.value })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Badge Code</label>
+                                            <input
+                                                type="text"
+                                                value={operatorForm.badgeCode}
+                                                onChange={(e) => setOperatorForm({ ...operatorForm, badgeCode: e.target.value })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>PIN</label>
+                                            <input
+                                                type="password"
+                                                inputMode="numeric"
+                                                value={operatorForm.pin}
+                                                onChange={(e) => setOperatorForm({ ...operatorForm, pin: e.target.value.replace(/\D/g, '') })}
+                                            />
+                                        </div>
+                                        <div className="settings-hint">
+                                            The badge code is the text encoded in the operator's badge QR.
+                                            {editingOperatorId && ' Leave the PIN blank to keep the current one.'}
+                                        </div>
+                                        <button className="admin-save-btn" onClick={handleSaveOperator}>
+                                            {editingOperatorId ? 'Save Operator' : 'Add Operator'}
+                                        </button>
+                                        {editingOperatorId && (
+                                            <button className="admin-clear-btn" onClick={resetOperatorForm}>
+                                                Cancel
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </section>
+
+                {/* Downtime Reasons Section */}
+                {isAdmin && (
+                <section className="admin-settings-section">
+                    <div className="settings-header" onClick={() => setShowReasonsPanel(!showReasonsPanel)}>
+                        <h2 className="section-heading">
+                            <span className="section-icon">&#9201;</span>
+                            Downtime Reasons
+                        </h2>
+                        <span className={`expand-icon ${showReasonsPanel ? 'expanded' : ''}`}>
+                            {showReasonsPanel ? '−' : '+'}
+                        </span>
+                    </div>
+
+                    <AnimatePresence>
+                        {showReasonsPanel && (
+                            <motion.div
+                                className="settings-panel"
+                                initial={{ height: 0, opacity: 0 }}
+                                animate={{ height: 'auto', opacity: 1 }}
+                                exit={{ height: 0, opacity: 0 }}
+                                transition={{ duration: 0.2 }}
+                            >
+                                <div className="settings-grid">
+                                    <div className="settings-group">
+                                        <h3>Reason Tree</h3>
+                                        {buildReasonTree(downtimeReasons, [], true).map(({ category, reasons }) => (
+                                            <div key={category.id} className="reason-tree-category">
+                                                <div className="settings-row">
+                                                    <label>
+                                                        <strong>{category.name}</strong>
+                                                        <span className="reason-tree-meta">{describeReason(category)}</span>
+                                                    </label>
+                                                    <button className="admin-save-btn" onClick={() => handleEditReason(category)}>
+                                                        Edit
+                                                    </button>
+                                                    <button className="admin-clear-btn" onClick={() => handleToggleReasonActive(category)}>
+                                                        {category.active ? 'Deactivate' : 'Reactivate'}
+                                                    </button>
+                                                </div>
+                                                {reasons.map(reason => (
+                                                    <div key={reason.id} className="settings-row reason-tree-child">
+                                                        <label>
+                                                            {reason.name}
+                                                            <span className="reason-tree-meta">{describeReason(reason)}</span>
+                                                        </label>
+                                                        <button className="admin-save-btn" onClick={() => handleEditReason(reason)}>
+                                                            Edit
+                                                        </button>
+                                                        <button className="admin-clear-btn" onClick={() => handleToggleReasonActive(reason)}>
+                                                            {reason.active ? 'Deactivate' : 'Reactivate'}
+                                                        </button>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    <div className="settings-group">
+                                        <h3>{editingReasonId ? 'Edit Reason' : 'Add Reason'}</h3>
+                                        <div className="settings-row">
+                                            <label>Category</label>
+                                            <select
+                                                value={reasonForm.parentId}
+                                                onChange={(e) => setReasonForm({ ...reasonForm, parentId: e.target.value })}
+                                            >
+                                                <option value="">None - this is a category</option>
+                                                {downtimeReasons
+                                                    .filter(r => r.parentId === null && r.id !== editingReasonId)
+                                                    .map(category => (
+                                                        <option key={category.id} value={category.id}>{category.name}</option>
+                                                    ))}
+                                            </select>
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Name</label>
+                                            <input
+                                                type="text"
+                                                value={reasonForm.name}
+                                                onChange={(e) => setReasonForm({ ...reasonForm, name: e.target.value })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Code</label>
+                                            <input
+                                                type="text"
+                                                value={reasonForm.code}
+                                                onChange={(e) => setReasonForm({ ...reasonForm, code: e.target.value.toUpperCase() })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Sort Order</label>
+                                            <input
+                                                type="number"
+                                                value={reasonForm.sortOrder}
+                                                onChange={(e) => setReasonForm({ ...reasonForm, sortOrder: Number(e.target.value) || 0 })}
+                                            />
+                                        </div>
+                                        <div className="settings-row checkbox-row">
+                                            <label>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={reasonForm.planned}
+                                                    onChange={(e) => setReasonForm({ ...reasonForm, planned: e.target.checked })}
+                                                />
+                                                Planned stop (excluded from OEE availability)
+                                            </label>
+                                        </div>
+                                        <div className="settings-row reason-machines">
+                                            <label>Machines</label>
+                                            <div className="reason-machine-options checkbox-row">
+                                                {machines.map(machine => (
+                                                    <label key={machine.id}>
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={reasonForm.machineIds.includes(machine.id)}
+                                                            onChange={() => handleToggleReasonMachine(machine.id)}
+                                                        />
+                                                        {machine.name}
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        </div>
+                                        <div className="settings-hint">
+                                            Leave every machine unticked for a reason that applies to all machines.
+                                            The code is stored on downtime entries, so keep it stable once in use.
+                                        </div>
+                                        <button className="admin-save-btn" onClick={handleSaveReason}>
+                                            {editingReasonId ? 'Save Reason' : 'Add Reason'}
+                                        </button>
+                                        {editingReasonId && (
+                                            <button className="admin-clear-btn" onClick={resetReasonForm}>
+                                                Cancel
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </section>
+                )}
+
+                {/* Plant Structure Section */}
+                {isAdmin && (
+                <section className="admin-settings-section">
+                    <div className="settings-header" onClick={() => setShowPlantPanel(!showPlantPanel)}>
+                        <h2 className="section-heading">
+                            <span className="section-icon">&#127981;</span>
+                            Plant Structure
+                        </h2>
+                        <span className={`expand-icon ${showPlantPanel ? 'expanded' : ''}`}>
+                            {showPlantPanel ? '−' : '+'}
+                        </span>
+                    </div>
+
+                    <AnimatePresence>
+                        {showPlantPanel && (
+                            <motion.div
+                                className="settings-panel"
+                                initial={{ height: 0, opacity: 0 }}
+                                animate={{ height: 'auto', opacity: 1 }}
+                                exit={{ height: 0, opacity: 0 }}
+                                transition={{ duration: 0.2 }}
+                            >
+                                <div className="settings-grid">
+                                    <div className="settings-group">
+                                        <h3>Sites, Areas &amp; Lines</h3>
+                                        {plantUnits.length === 0 && (
+                                            <div className="settings-hint">No sites, areas or lines yet.</div>
+                                        )}
+                                        {sortPlantUnits(plantUnits).map(unit => (
+                                            <div key={unit.id} className={`settings-row plant-tree-${unit.level}`}>
+                                                <label>
+                                                    {unit.level === 'site' ? <strong>{getUnitLabel(unit)}</strong> : getUnitLabel(unit)}
+                                                    <span className="plant-tree-meta">{describeUnit(unit)}</span>
+                                                </label>
+                                                <button className="admin-save-btn" onClick={() => handleEditUnit(unit)}>
+                                                    Edit
+                                                </button>
+                                                <button className="admin-clear-btn" onClick={() => handleDeleteUnit(unit)}>
+                                                    Delete
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    <div className="settings-group">
+                                        <h3>{editingUnitId ? `Edit ${HIERARCHY_LEVEL_LABELS[unitForm.level]}` : 'Add Site, Area or Line'}</h3>
+                                        <div className="settings-row">
+                                            <label>Level</label>
+                                            <select
+                                                value={unitForm.level}
+                                                disabled={Boolean(editingUnitId)}
+                                                onChange={(e) => setUnitForm({ ...unitForm, level: e.target.value as PlantUnitLevel, parentId: '' })}
+                                            >
+                                                {(['site', 'area', 'line'] as PlantUnitLevel[]).map(level => (
+                                                    <option key={level} value={level}>{HIERARCHY_LEVEL_LABELS[level]}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        {PARENT_UNIT_LEVEL[unitForm.level] && (
+                                            <div className="settings-row">
+                                                <label>{HIERARCHY_LEVEL_LABELS[PARENT_UNIT_LEVEL[unitForm.level]!]}</label>
+                                                <select
+                                                    value={unitForm.parentId}
+                                                    onChange={(e) => setUnitForm({ ...unitForm, parentId: e.target.value })}
+                                                >
+                                                    <option value="">None</option>
+                                                    {sortPlantUnits(plantUnits)
+                                                        .filter(u => u.level === PARENT_UNIT_LEVEL[unitForm.level])
+                                                        .map(parent => (
+                                                            <option key={parent.id} value={parent.id}>{getUnitLabel(parent)}</option>
+                                                        ))}
+                                                </select>
+                                            </div>
+                                        )}
+                                        <div className="settings-row">
+                                            <label>Name</label>
+                                            <input
+                                                type="text"
+                                                value={unitForm.name}
+                                                onChange={(e) => setUnitForm({ ...unitForm, name: e.target.value })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Display Name</label>
+                                            <input
+                                                type="text"
+                                                placeholder="Same as name"
+                                                value={unitForm.displayName}
+                                                onChange={(e) => setUnitForm({ ...unitForm, displayName: e.target.value })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Sort Order</label>
+                                            <input
+                                                type="number"
+                                                value={unitForm.sortOrder}
+                                                onChange={(e) => setUnitForm({ ...unitForm, sortOrder: Number(e.target.value) || 0 })}
+                                            />
+                                        </div>
+                                        <button className="admin-save-btn" onClick={handleSaveUnit}>
+                                            {editingUnitId ? 'Save' : 'Add'}
+                                        </button>
+                                        {editingUnitId && (
+                                            <button className="admin-clear-btn" onClick={resetUnitForm}>
+                                                Cancel
+                                            </button>
+                                        )}
+                                    </div>
+
+                                    <div className="settings-group">
+                                        <h3>Machine Placement</h3>
+                                        <div className="settings-row">
+                                            <label>Machine</label>
+                                            <select
+                                                value={placementMachineId}
+                                                onChange={(e) => handleSelectPlacementMachine(e.target.value)}
+                                            >
+                                                <option value="">Select a machine</option>
+                                                {machines.map(machine => (
+                                                    <option key={machine.id} value={machine.id}>{getMachineLabel(machine)}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        {placementMachineId && (
+                                            <>
+                                                <div className="settings-row">
+                                                    <label>Line</label>
+                                                    <select
+                                                        value={placementForm.lineId}
+                                                        onChange={(e) => setPlacementForm({ ...placementForm, lineId: e.target.value })}
+                                                    >
+                                                        <option value="">Unassigned</option>
+                                                        {sortPlantUnits(plantUnits)
+                                                            .filter(u => u.level === 'line')
+                                                            .map(line => (
+                                                                <option key={line.id} value={line.id}>{getUnitLabel(line)}</option>
+                                                            ))}
+                                                    </select>
+                                                </div>
+                                                <div className="settings-row">
+                                                    <label>Display Name</label>
+                                                    <input
+                                                        type="text"
+                                                        placeholder="Same as name"
+                                                        value={placementForm.displayName}
+                                                        onChange={(e) => setPlacementForm({ ...placementForm, displayName: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="settings-row">
+                                                    <label>Sort Order</label>
+                                                    <input
+                                                        type="number"
+                                                        value={placementForm.sortOrder}
+                                                        onChange={(e) => setPlacementForm({ ...placementForm, sortOrder: Number(e.target.value) || 0 })}
+                                                    />
+                                                </div>
+                                                {placementForm.subMachines.map(sub => (
+                                                    <div key={sub.id} className="settings-row plant-sub-machine-row">
+                                                        <label>Machine {sub.number}</label>
+                                                        <input
+                                                            type="text"
+                                                            placeholder={`Machine ${sub.number}`}
+                                                            value={sub.displayName || ''}
+                                                            onChange={(e) => handleUpdatePlacementSubMachine(sub.id, { displayName: e.target.value })}
+                                                        />
+                                                        <input
+                                                            type="number"
+                                                            aria-label={`Machine ${sub.number} sort order`}
+                                                            value={sub.sortOrder}
+                                                            onChange={(e) => handleUpdatePlacementSubMachine(sub.id, { sortOrder: Number(e.target.value) || 0 })}
+                                                        />
+                                                    </div>
+                                                ))}
+                                                <div className="settings-hint">
+                                                    Sub-machines keep their recorded names; display names and order only change how they are shown.
+                                                </div>
+                                                <button className="admin-save-btn" onClick={handleSavePlacement}>
+                                                    Save Placement
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </section>
+                )}
+
+                {/* Waste Types Section */}
+                {isAdmin && (
+                <section className="admin-settings-section">
+                    <div className="settings-header" onClick={() => setShowWasteTypesPanel(!showWasteTypesPanel)}>
+                        <h2 className="section-heading">
+                            <span className="section-icon">&#128465;</span>
+                            Waste Types
+                        </h2>
+                        <span className={`expand-icon ${showWasteTypesPanel ? 'expanded' : ''}`}>
+                            {showWasteTypesPanel ? '−' : '+'}
+                        </span>
+                    </div>
+
+                    <AnimatePresence>
+                        {showWasteTypesPanel && (
+                            <motion.div
+                                className="settings-panel"
+                                initial={{ height: 0, opacity: 0 }}
+                                animate={{ height: 'auto', opacity: 1 }}
+                                exit={{ height: 0, opacity: 0 }}
+                                transition={{ duration: 0.2 }}
+                            >
+                                <div className="settings-grid">
+                                    <div className="settings-group">
+                                        <h3>Catalogue</h3>
+                                        <div className="reason-tree-category">
+                                            {[...wasteTypes]
+                                                .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+                                                .map(type => (
+                                                    <div key={type.id} className="settings-row">
+                                                        <label>
+                                                            {type.name}
+                                                            <span className="reason-tree-meta">{describeWasteType(type)}</span>
+                                                        </label>
+                                                        <button className="admin-save-btn" onClick={() => handleEditWasteType(type)}>
+                                                            Edit
+                                                        </button>
+                                                        <button className="admin-clear-btn" onClick={() => handleToggleWasteTypeActive(type)}>
+                                                            {type.active ? 'Deactivate' : 'Reactivate'}
+                                                        </button>
+                                                    </div>
+                                                ))}
+                                        </div>
+                                    </div>
+
+                                    <div className="settings-group">
+                                        <h3>{editingWasteTypeId ? 'Edit Waste Type' : 'Add Waste Type'}</h3>
+                                        <div className="settings-row">
+                                            <label>Name</label>
+                                            <input
+                                                type="text"
+                                                value={wasteTypeForm.name}
+                                                onChange={(e) => setWasteTypeForm({ ...wasteTypeForm, name: e.target.value })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Code</label>
+                                            <input
+                                                type="text"
+                                                value={wasteTypeForm.code}
+                                                onChange={(e) => setWasteTypeForm({ ...wasteTypeForm, code: e.target.value.toUpperCase() })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Unit</label>
+                                            <select
+                                                value={wasteTypeForm.unit}
+                                                onChange={(e) => setWasteTypeForm({ ...wasteTypeForm, unit: e.target.value as WasteUnit })}
+                                            >
+                                                {WASTE_UNITS.map(unit => (
+                                                    <option key={unit.value} value={unit.value}>{unit.label}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        {wasteTypeForm.unit !== 'kg' && (
+                                            <div className="settings-row">
+                                                <label>kg per {wasteTypeForm.unit === 'units' ? 'unit' : 'metre'}</label>
+                                                <input
+                                                    type="number"
+                                                    step="0.001"
+                                                    min={0}
+                                                    value={wasteTypeForm.kgPerUnit}
+                                                    onChange={(e) => setWasteTypeForm({ ...wasteTypeForm, kgPerUnit: Number(e.target.value) || 0 })}
+                                                />
+                                            </div>
+                                        )}
+                                        <div className="settings-row">
+                                            <label>Cost per {wasteTypeForm.unit === 'units' ? 'unit' : wasteTypeForm.unit}</label>
+                                            <input
+                                                type="number"
+                                                step="0.01"
+                                                min={0}
+                                                value={wasteTypeForm.costPerUnit}
+                                                onChange={(e) => setWasteTypeForm({ ...wasteTypeForm, costPerUnit: Number(e.target.value) || 0 })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Products</label>
+                                            <input
+                                                type="text"
+                                                placeholder="All products"
+                                                value={wasteTypeForm.products}
+                                                onChange={(e) => setWasteTypeForm({ ...wasteTypeForm, products: e.target.value })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Sort Order</label>
+                                            <input
+                                                type="number"
+                                                value={wasteTypeForm.sortOrder}
+                                                onChange={(e) => setWasteTypeForm({ ...wasteTypeForm, sortOrder: Number(e.target.value) || 0 })}
+                                            />
+                                        </div>
+                                        <div className="settings-hint">
+                                            Separate products with commas, or leave blank for a type used on every product.
+                                            Unit-counted waste is converted to kg with the weight per unit.
+                                        </div>
+                                        <button className="admin-save-btn" onClick={handleSaveWasteType}>
+                                            {editingWasteTypeId ? 'Save Waste Type' : 'Add Waste Type'}
+                                        </button>
+                                        {editingWasteTypeId && (
+                                            <button className="admin-clear-btn" onClick={resetWasteTypeForm}>
+                                                Cancel
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </section>
+                )}
+
+                {/* Products Section */}
+                {isAdmin && (
+                <section className="admin-settings-section">
+                    <div className="settings-header" onClick={() => setShowProductsPanel(!showProductsPanel)}>
+                        <h2 className="section-heading">
+                            <span className="section-icon">&#128230;</span>
+                            Products
+                        </h2>
+                        <span className={`expand-icon ${showProductsPanel ? 'expanded' : ''}`}>
+                            {showProductsPanel ? '−' : '+'}
+                        </span>
+                    </div>
+
+                    <AnimatePresence>
+                        {showProductsPanel && (
+                            <motion.div
+                                className="settings-panel"
+                                initial={{ height: 0, opacity: 0 }}
+                                animate={{ height: 'auto', opacity: 1 }}
+                                exit={{ height: 0, opacity: 0 }}
+                                transition={{ duration: 0.2 }}
+                            >
+                                <div className="settings-grid">
+                                    <div className="settings-group">
+                                        <h3>Catalogue</h3>
+                                        {products.length === 0 && (
+                                            <div className="settings-hint">No products yet.</div>
+                                        )}
+                                        <div className="reason-tree-category">
+                                            {products.map(item => (
+                                                <div key={item.id} className="settings-row">
+                                                    <label>
+                                                        {item.name}
+                                                        <span className="reason-tree-meta">{describeProduct(item)}</span>
+                                                    </label>
+                                                    <button className="admin-save-btn" onClick={() => handleEditProduct(item)}>
+                                                        Edit
+                                                    </button>
+                                                    <button className="admin-clear-btn" onClick={() => handleToggleProductActive(item)}>
+                                                        {item.active ? 'Deactivate' : 'Reactivate'}
+                                                    </button>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    <div className="settings-group">
+                                        <h3>{editingProductId ? 'Edit Product' : 'Add Product'}</h3>
+                                        <div className="settings-row">
+                                            <label>SKU</label>
+                                            <input
+                                                type="text"
+                                                value={productForm.sku}
+                                                onChange={(e) => setProductForm({ ...productForm, sku: e.target.value.toUpperCase() })}
+                                            />
+                                        </div>
+                                        <div className="settings-row">
+                                            <label>Name</label>
+                                            <input
+                                                type="text"
+                                                value={productForm.name}
+                                                onChange={(e) => setProductForm({ ...productForm, name: e.target.value })}
+                                            />
+                                        </div>
+                                        {PRODUCT_NUMBER_FIELDS.map(field => (
+                                            <div key={field.key} className="settings-row">
+                                                <label>{field.label}</label>
+                                                <input
+                                                    type="number"
+                                                    step={field.step}
+                                                    min={0}
+                                                    value={productForm[field.key]}
+                                                    onChange={(e) => setProductForm({ ...productForm, [field.key]: e.target.value })}
+                                                />
+                                            </div>
+                                        ))}
+                                        <div className="settings-row">
+                                            <label>Pallet Label Format</label>
+                                            <select
+                                                value={productForm.labelFormat}
+                                                onChange={(e) => setProductForm({ ...productForm, labelFormat: e.target.value })}
+                                            >
+                                                <option value="">Machine default</option>
+                                                {listLabelFormats().map(format => (
+                                                    <option key={format.id} value={format.id}>{format.name}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div className="settings-hint">
+                                            Leave a target blank when it does not apply. The rated speed is used for OEE
+                                            performance instead of the machine's rated speed. The label format decides how
+                                            pallet labels and loose case batch numbers are read for this product.
+                                        </div>
+                                        <button className="admin-save-btn" onClick={handleSaveProduct}>
+                                            {editingProductId ? 'Save Product' : 'Add Product'}
+                                        </button>
+                                        {editingProductId && (
+                                            <button className="admin-clear-btn" onClick={resetProductForm}>
+                                                Cancel
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </section>
+                )}
+
+                {/* Users Section */}
+                {isAdmin && (
+                <section className="admin-settings-section">
+                    <div className="settings-header" onClick={() => setShowUsersPanel(!showUsersPanel)}>
+                        <h2 className="section-heading">
+                            <span className="section-icon">&#9787;</span>
+                            Users &amp; Roles
+                        </h2>
+                        <span className={`expand-icon ${showUsersPanel ? 'expanded' : ''}`}>
+                            {showUsersPanel ? '−' : '+'}
+                        </span>
+                    </div>
+
+                    <AnimatePresence>
+                        {showUsersPanel && (
+                            <motion.div
+                                className="settings-panel"
+                                initial={{ height: 0, opacity: 0 }}
+                                animate={{ height: 'auto', opacity: 1 }}
+                                exit={{ height: 0, opacity: 0 }}
+                                transition={{ duration: 0.2 }}
+                            >
+                                <div className="settings-grid">
+                                    <div className="settings-group">
+                                        <h3>Users</h3>
+                                        {users.map(u => (
+                                            <div key={u.id} className="settings-row">
+                                                <label>{u.displayName}{u.email ? ` (${u.email})` : ''}</label>
+                                                <select
+                                                    value={u.role}
+                                                    onChange={(e) => handleUserRoleChange(u.id, e.target.value as UserRole)}
+                                                    disabled={u.id === user?.id}
+                                                >
+                                                    {USER_ROLES.map(role => (
+                                                        <option key={role} value={role}>{formatRole(role)}</option>
+                                                    ))}
+                                                </select>
+                                                {u.source === 'local' && u.id !== user?.id && (
+                                                    <button
+                                                        className="admin-clear-btn"
+                                                        onClick={() => handleRemoveLocalUser(u.id)}
+                                                    >
+                                                        Remove
+                                                    </button>
+                                                )}
+                                            </div>
+                                        ))}
+                                        {isSupabaseConfigured && (
+                                            <div className="settings-hint">
+                                                Accounts are created in Supabase Auth and join as operators. Change roles here.
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {!isSupabaseConfigured && (
+                                        <div className="settings-group">
+                                            <h3>Add PIN User</h3>
+                                            <div className="settings-row">
+                                                <label>Name</label>
+                                                <input
+                                                    type="text"
+                                                    value={newUserName}
+                                                    onChange={(e) => setNewUserName(e.target.value)}
+                                                />
+                                            </div>
+                                            <div className="settings-row">
+                                                <label>PIN</label>
+                                                <input
+                                                    type="password"
+                                                    inputMode="numeric"
+                                                    value={newUserPin}
+                                                    onChange={(e) => setNewUserPin(e.target.value.replace(/\D/g, ''))}
+                                                />
+                                            </div>
+                                            <div className="settings-row">
+                                                <label>Role</label>
+                                                <select
+                                                    value={newUserRole}
+                                                    onChange={(e) => setNewUserRole(e.target.value as UserRole)}
+                                                >
+                                                    {USER_ROLES.map(role => (
+                                                        <option key={role} value={role}>{formatRole(role)}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                            <button className="admin-save-btn" onClick={handleAddLocalUser}>
+                                                Add User
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </section>
+                )}
+            </main>
 
             {/* Settings Panel Styles */}
             <style>{`
@@ -901,6 +2534,41 @@ const AdminConsole: React.FC = () => {
                     accent-color: #20C997;
                 }
 
+                .reason-tree-category {
+                    margin-bottom: 0.75rem;
+                }
+
+                .reason-tree-category .settings-row {
+                    gap: 0.5rem;
+                    margin-bottom: 0.4rem;
+                }
+
+                .reason-tree-category .settings-row label {
+                    flex: 1;
+                    display: flex;
+                    flex-direction: column;
+                }
+
+                .reason-tree-child {
+                    padding-left: 1.25rem;
+                }
+
+                .reason-tree-meta {
+                    font-size: 0.75rem;
+                    color: rgba(255, 255, 255, 0.5);
+                }
+
+                .reason-machines {
+                    align-items: flex-start;
+                }
+
+                .reason-machine-options {
+                    display: flex;
+                    flex-wrap: wrap;
+                    justify-content: flex-end;
+                    gap: 0.5rem 1rem;
+                }
+
                 .settings-preview {
                     font-size: 0.8rem;
                     color: rgba(255, 255, 255, 0.5);
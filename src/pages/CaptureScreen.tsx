@@ -1,17 +1,40 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useParams, useLocation, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
 import ShiftInfo from '../components/ShiftInfo';
 import MainForm from '../components/MainForm';
 import DashboardCharts from '../components/DashboardCharts';
+import DowntimeReasonSelect from '../components/DowntimeReasonSelect';
+import WasteTypeSelect from '../components/WasteTypeSelect';
+import { measureWaste, formatWasteQuantity } from '../lib/wasteTypes';
+import { useProducts, findProduct, getMassLimits, checkSachetMass, getSpeedAttainment } from '../lib/products';
+import { analyzeSachetMass, loadSachetMassHistory, MassSample } from '../lib/spc';
+import { checkPalletScan, describeSequenceIssue, PalletScanCheck } from '../lib/palletChecks';
+import SpcChart from '../components/SpcChart';
+import StateTimeline from '../components/StateTimeline';
 import ConfirmDialog from '../components/ConfirmDialog';
 import QRScanner from '../components/QRScanner';
-import { WasteEntry, DowntimeEntry, ShiftData, SpeedEntry, SachetMassEntry, LooseCasesEntry, PalletScanEntry, ShiftSession, ProductionState, WASTE_TYPES, DOWNTIME_REASONS } from '../types';
-import { submitShiftData, fetchMachineOrders, MachineOrderQueueRecord, updateMachineStatus } from '../lib/supabase';
-import { saveShiftData, addFailedSubmission, saveLineSpeed, getLineSpeed } from '../lib/storage';
-import { upsertLiveSession, deleteLiveSession, addActivityEvent } from '../lib/liveSession';
-import { getCurrentShift, checkSubmissionWindow, getLocalHours } from '../lib/facilitySettings';
+import OperatorIdentify from '../components/OperatorIdentify';
+import { Operator, WasteEntry, DowntimeEntry, ShiftData, SpeedEntry, SachetMassEntry, LooseCasesEntry, PalletScanEntry, ShiftSession, ProductionState, DowntimeReason, WasteType } from '../types';
+import { submitShiftData, fetchMachineOrders, MachineOrderQueueRecord, updateMachineStatus, FullShiftSubmission } from '../lib/supabase';
+import { saveShiftData, getMachinesData } from '../lib/storage';
+import { useLineSpeed, recordLineSpeedChange, loadLineSpeedChanges, getCurrentLineSpeed, LineSpeedChange } from '../lib/lineSpeed';
+import { resolveLabelFormat, parseLabel } from '../lib/labelFormats';
+import { validateField, getLooseCasesSchema } from '../lib/validation';
+import { enqueueOutbox } from '../lib/outbox';
+import { countCasesProduced, getCasesPerMinute, getOrderProgress, findNextOrder, loadCasesProducedBefore, toOrderPlan } from '../lib/orderProgress';
+import { changeOrderStatus, getOrderStatus, isOpenOrder, ORDER_STATUS_LABELS } from '../lib/orderLifecycle';
+import { getActiveChangeover, startChangeover, finishChangeover, ChangeoverEvent, ChangeoverOrder, CHANGEOVER_REASON_CODE } from '../lib/changeovers';
+import { getDowntimeReasons } from '../lib/downtimeReasons';
+import { upsertLiveSession, deleteLiveSession, addActivityEvent, getActivityLog } from '../lib/liveSession';
+import { getShiftContext, getShiftWindow, checkSubmissionWindow, getLocalHours } from '../lib/facilitySettings';
+import { buildStateTimeline } from '../lib/stateTimeline';
+import { getSessionKey } from '../lib/shiftUtils';
+import { getCurrentUser } from '../lib/auth';
+import { getActiveOperator, setActiveOperator, identifyOperator } from '../lib/operators';
+import { useScanCapture, ScanKind } from '../lib/scanCapture';
 import {
   checkForActiveSession,
   acquireSessionLock,
@@ -22,14 +45,12 @@ import {
   clearProductionTimer,
   calculateCurrentRunTime,
   formatRunTime,
-  ProductionTimerState
+  toProductionTimerState,
+  fromProductionTimerState,
 } from '../lib/sessionManager';
 import { logError, showWarning, showSuccess, showError } from '../lib/errorMonitoring';
 import { AddOrderModal } from '../components/ui';
 
-// Storage key for shift session
-const getSessionKey = (machineName: string, shift: string, date: string) =>
-  `shift_session_${machineName}_${shift}_${date}`;
 
 const CaptureScreen: React.FC = () => {
   const { machineId } = useParams<{ machineId: string }>();
@@ -98,14 +119,19 @@ const CaptureScreen: React.FC = () => {
 
   const [dateTime, setDateTime] = useState(new Date());
   const [shift, setShift] = useState('');
+  const [shiftDate, setShiftDate] = useState('');
+  const [crew, setCrew] = useState('');
 
   // Loading and feedback states
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
 
-  // State for the main form
-  const [operatorName, setOperatorName] = useState('');
+  // State for the main form (operator defaults to the last operator identified
+  // on this tablet, then the signed-in user)
+  const [operatorName, setOperatorName] = useState(() => getActiveOperator()?.name || getCurrentUser()?.displayName || '');
+  const [operatorId, setOperatorId] = useState<string | undefined>(() => getActiveOperator()?.id);
+  const [identifyFor, setIdentifyFor] = useState<'session' | 'shiftChange' | null>(null);
   const [orderNumber, setOrderNumber] = useState('');
   const [product, setProduct] = useState('');
   const [batchNumber, setBatchNumber] = useState('');
@@ -113,9 +139,9 @@ const CaptureScreen: React.FC = () => {
 
   // State for waste and downtime inputs
   const [waste, setWaste] = useState<number | ''>('');
-  const [wasteType, setWasteType] = useState('');
+  const [wasteType, setWasteType] = useState<WasteType | null>(null);
   const [downtime, setDowntime] = useState<number | ''>('');
-  const [downtimeReason, setDowntimeReason] = useState('');
+  const [downtimeReason, setDowntimeReason] = useState<DowntimeReason | null>(null);
 
   // State for storing submitted entries
   const [wasteEntries, setWasteEntries] = useState<WasteEntry[]>([]);
@@ -126,6 +152,8 @@ const CaptureScreen: React.FC = () => {
   const [sachetMassEntries, setSachetMassEntries] = useState<SachetMassEntry[]>([]);
   const [looseCasesEntries, setLooseCasesEntries] = useState<LooseCasesEntry[]>([]);
   const [palletScanEntries, setPalletScanEntries] = useState<PalletScanEntry[]>([]);
+  // Batch and pallet of scans still being checked, so a quick second scan of the same label is refused
+  const pendingPalletScansRef = useRef(new Set<string>());
 
   // Modal states for new entries
   const [showSpeedModal, setShowSpeedModal] = useState(false);
@@ -136,6 +164,26 @@ const CaptureScreen: React.FC = () => {
   const [showDowntimeModal, setShowDowntimeModal] = useState(false);
   const [speedInput, setSpeedInput] = useState<number | ''>('');
   const [sachetMassInput, setSachetMassInput] = useState<number | ''>('');
+
+  // Product targets that speed and sachet mass entries are compared against
+  const products = useProducts();
+  const productSpec = findProduct(products, product);
+  const massLimits = useMemo(() => getMassLimits(productSpec), [productSpec]);
+  const currentSpeed = speedEntries.length > 0 ? speedEntries[speedEntries.length - 1].speed : null;
+  const speedAttainment = currentSpeed !== null ? getSpeedAttainment(productSpec, currentSpeed) : null;
+
+  // Pallet labels and loose case batch numbers follow the product's, then the machine's label format
+  const labelFormat = resolveLabelFormat(
+    productSpec,
+    getMachinesData().find(m => m.id === machineId || m.id === parentMachineId)
+  );
+
+  // SPC on sachet mass - control limits from the product's recent history
+  const [massBaseline, setMassBaseline] = useState<MassSample[]>([]);
+  const spc = useMemo(
+    () => analyzeSachetMass(sachetMassEntries, { baseline: massBaseline, spec: massLimits }),
+    [sachetMassEntries, massBaseline, massLimits]
+  );
   const [looseCasesBatchInput, setLooseCasesBatchInput] = useState('');
   const [looseCasesQuantityInput, setLooseCasesQuantityInput] = useState<number | ''>('');
 
@@ -154,7 +202,7 @@ const CaptureScreen: React.FC = () => {
   // Shift change detection
   const [lastKnownShift, setLastKnownShift] = useState<string | null>(null);
   const [showShiftChangeModal, setShowShiftChangeModal] = useState(false);
-  const [newOperatorName, setNewOperatorName] = useState('');
+  const [newOperator, setNewOperator] = useState<Operator | null>(null);
 
   // Changeover dialog state (shown when submitting outside window)
   const [showChangeoverDialog, setShowChangeoverDialog] = useState(false);
@@ -171,7 +219,25 @@ const CaptureScreen: React.FC = () => {
   });
   const [displayRunTime, setDisplayRunTime] = useState<string>('00:00:00');
   const [showContinueModal, setShowContinueModal] = useState(false);
-  const [pauseDowntimeReason, setPauseDowntimeReason] = useState('');
+  const [pauseDowntimeReason, setPauseDowntimeReason] = useState<DowntimeReason | null>(null);
+
+  // Plan vs actual for the current order - cases earlier shifts recorded for
+  // it plus this shift's pallets and loose cases of the order's batch
+  const currentOrder = availableOrders.find(o => o.order_number === orderNumber && o.batch_number === batchNumber) ||
+    availableOrders.find(o => o.order_number === orderNumber) ||
+    null;
+  const queuedOrders = availableOrders.filter(isOpenOrder);
+  const [producedBefore, setProducedBefore] = useState(0);
+  const [nextOrderOffer, setNextOrderOffer] = useState<MachineOrderQueueRecord | null>(null);
+  const completedOrderIdsRef = useRef(new Set<number>());
+  const [activeChangeover, setActiveChangeover] = useState<ChangeoverEvent | null>(() => getActiveChangeover(machineName));
+  const orderProgress = currentOrder
+    ? getOrderProgress(
+        toOrderPlan(currentOrder),
+        producedBefore + countCasesProduced(palletScanEntries, looseCasesEntries, currentOrder.batch_number),
+        productionState.isRunning ? getCasesPerMinute(currentSpeed, productSpec) : null
+      )
+    : null;
 
   // Show toast notification
   const showToast = (message: string, type: 'success' | 'error') => {
@@ -179,8 +245,17 @@ const CaptureScreen: React.FC = () => {
     setTimeout(() => setToast(null), 4000);
   };
 
-  // Handle order selection from queue
-  const handleOrderSelect = (order: MachineOrderQueueRecord) => {
+  const updateOrderInQueue = useCallback((updated: MachineOrderQueueRecord) => {
+    setAvailableOrders(prev => prev.map(o => o.id === updated.id ? updated : o));
+  }, []);
+
+  const toChangeoverOrder = (order: MachineOrderQueueRecord): ChangeoverOrder => ({
+    id: order.id,
+    orderNumber: order.order_number,
+    product: order.product,
+  });
+
+  const selectOrder = (order: MachineOrderQueueRecord) => {
     setOrderNumber(order.order_number);
     setProduct(order.product);
     setBatchNumber(order.batch_number);
@@ -188,6 +263,142 @@ const CaptureScreen: React.FC = () => {
     showToast(`Selected order: ${order.order_number}`, 'success');
   };
 
+  // Handle order selection from queue - while production runs this is a changeover
+  const handleOrderSelect = (order: MachineOrderQueueRecord) => {
+    if (isSessionLocked && order.id !== currentOrder?.id) {
+      handleBeginChangeover(order);
+    } else {
+      selectOrder(order);
+    }
+  };
+
+  // Mid-shift move to another order: stop the line, pause the outgoing order
+  // and time the changeover until production resumes on the incoming one
+  const handleBeginChangeover = async (next: MachineOrderQueueRecord) => {
+    const from: ChangeoverOrder | undefined = orderNumber
+      ? { id: currentOrder?.id, orderNumber, product }
+      : undefined;
+    const changeoverReason = getDowntimeReasons().find(r => r.code === CHANGEOVER_REASON_CODE);
+    handlePauseProduction({ name: changeoverReason?.name || 'Changeover', code: CHANGEOVER_REASON_CODE });
+    if (currentOrder && getOrderStatus(currentOrder) === 'in_progress') {
+      updateOrderInQueue(await changeOrderStatus(currentOrder, 'paused'));
+    }
+
+    setActiveChangeover(startChangeover({
+      machineId: machineId || undefined,
+      machineName,
+      operatorName,
+      from,
+      to: toChangeoverOrder(next),
+    }));
+    selectOrder(next);
+    if (machineId) {
+      updateMachineStatus(machineId, 'running', operatorName, next.order_number, shift);
+    }
+
+    addActivityEvent({
+      type: 'changeover_started',
+      machine_name: machineName,
+      operator_name: operatorName,
+      message: 'Changeover started',
+      details: `${from ? `${from.orderNumber} (${from.product})` : 'No order'} → ${next.order_number} (${next.product})`,
+    });
+  };
+
+  // Changeover done - record the stop as changeover downtime, resume
+  // production and start the incoming order
+  const handleFinishChangeover = async () => {
+    if (!activeChangeover) return;
+    const now = new Date();
+    const finished = finishChangeover(activeChangeover, currentOrder ? toChangeoverOrder(currentOrder) : undefined, now);
+    setActiveChangeover(null);
+    setPauseDowntimeReason(null);
+
+    let details = `${Math.round((now.getTime() - finished.startedAt.getTime()) / 60000)} min`;
+    if (productionState.pausedAt) {
+      const minutes = Math.ceil((now.getTime() - productionState.pausedAt.getTime()) / 60000);
+      const reason = getDowntimeReasons().find(r => r.code === CHANGEOVER_REASON_CODE);
+      setDowntimeEntries(prev => [...prev, {
+        id: uuidv4(),
+        downtime: minutes,
+        downtimeReason: reason?.name || 'Changeover',
+        reasonCode: CHANGEOVER_REASON_CODE,
+        notes: 'Auto-recorded from changeover',
+        timestamp: productionState.pausedAt!,
+        operatorId,
+        operatorName,
+      }]);
+      details += ` | ${minutes} min downtime recorded`;
+
+      const newState: ProductionState = {
+        ...productionState,
+        isRunning: true,
+        pausedAt: null,
+        lastResumedAt: now,
+        pauseReason: null,
+        pauseReasonCode: null,
+        pauseHistory: [...(productionState.pauseHistory || []), {
+          pausedAt: productionState.pausedAt,
+          resumedAt: now,
+          reason: reason?.name || 'Changeover',
+          reasonCode: CHANGEOVER_REASON_CODE,
+        }],
+      };
+      setProductionState(newState);
+      persistTimerState(newState);
+    }
+    showToast('Changeover complete - production resumed', 'success');
+
+    addActivityEvent({
+      type: 'changeover_completed',
+      machine_name: machineName,
+      operator_name: operatorName,
+      message: 'Changeover complete',
+      details: `${finished.from?.product || 'Unknown'} → ${finished.to?.product || 'Unknown'} | ${details}`,
+    });
+
+    if (currentOrder) {
+      updateOrderInQueue(await changeOrderStatus(currentOrder, 'in_progress'));
+    }
+  };
+
+  // Order reached its planned quantity - take it off the queue and offer the next one
+  const handleOrderCompleted = async (order: MachineOrderQueueRecord, produced: number) => {
+    // Orders picked before states existed never went through in_progress
+    const started = getOrderStatus(order) === 'queued' ? await changeOrderStatus(order, 'in_progress') : order;
+    const completed = await changeOrderStatus(started, 'completed');
+    if (getOrderStatus(completed) !== 'completed') {
+      // Let the next production update try again
+      if (order.id !== undefined) completedOrderIdsRef.current.delete(order.id);
+      updateOrderInQueue(started);
+      showToast(`Could not complete order ${order.order_number} - will retry`, 'error');
+      return;
+    }
+    const orders = availableOrders.map(o => o.id === order.id ? completed : o);
+    setAvailableOrders(orders);
+    showToast(`Order ${order.order_number} complete - ${produced} cases`, 'success');
+
+    addActivityEvent({
+      type: 'order_completed',
+      machine_name: machineName,
+      operator_name: operatorName,
+      message: `Order ${order.order_number} complete`,
+      details: `${produced} of ${order.planned_quantity} cases | Product: ${order.product}`,
+    });
+
+    setNextOrderOffer(findNextOrder(orders, order.order_number));
+  };
+
+  const handleStartNextOrder = () => {
+    if (!nextOrderOffer) return;
+    if (isSessionLocked) {
+      handleBeginChangeover(nextOrderOffer);
+    } else {
+      selectOrder(nextOrderOffer);
+    }
+    setNextOrderOffer(null);
+  };
+
   // Handle new order added from AddOrderModal
   const handleOrderAdded = (order: { orderNumber: string; product: string; batchNumber: string }) => {
     setOrderNumber(order.orderNumber);
@@ -205,15 +416,14 @@ const CaptureScreen: React.FC = () => {
 
   // Check if within submission window using facility settings
   const checkSubmissionWindowCallback = useCallback((currentDateTime: Date) => {
-    const result = checkSubmissionWindow(currentDateTime);
+    const result = checkSubmissionWindow(currentDateTime, machineName);
     setIsInSubmissionWindow(result.isInWindow);
     setTimeToWindow(result.isInWindow ? '' : result.timeToWindow);
-  }, []);
+  }, [machineName]);
 
   // Load saved session data and production timer
   const loadSession = useCallback(async () => {
-    const currentDate = new Date().toISOString().split('T')[0];
-    const currentShift = getCurrentShift();
+    const { shift: currentShift, shiftDate: currentDate } = getShiftContext(new Date(), machineName);
     const sessionKey = getSessionKey(machineName, currentShift, currentDate);
 
     // Check for session conflicts before loading
@@ -226,13 +436,10 @@ const CaptureScreen: React.FC = () => {
     // Load production timer state
     const timerState = await loadProductionTimer(machineName, currentShift, currentDate);
     if (timerState) {
-      setProductionState({
-        isRunning: timerState.isRunning,
-        startTime: timerState.startTime ? new Date(timerState.startTime) : null,
-        pausedAt: timerState.pausedAt ? new Date(timerState.pausedAt) : null,
-        totalRunTimeMs: timerState.totalRunTimeMs,
-        lastResumedAt: timerState.lastResumedAt ? new Date(timerState.lastResumedAt) : null,
-      });
+      setProductionState(fromProductionTimerState(timerState));
+      if (timerState.pausedAt && timerState.pauseReasonCode) {
+        setPauseDowntimeReason(getDowntimeReasons().find(r => r.code === timerState.pauseReasonCode) || null);
+      }
       if (timerState.isRunning || timerState.totalRunTimeMs > 0) {
         setDisplayRunTime(formatRunTime(calculateCurrentRunTime(timerState)));
       }
@@ -244,6 +451,7 @@ const CaptureScreen: React.FC = () => {
         const session: ShiftSession = JSON.parse(savedSession);
         if (session.locked) {
           setOperatorName(session.operatorName);
+          setOperatorId(session.operatorId);
           setOrderNumber(session.orderNumber);
           setProduct(session.product);
           setBatchNumber(session.batchNumber);
@@ -256,15 +464,15 @@ const CaptureScreen: React.FC = () => {
             setSpeedEntries(session.speedEntries);
           } else {
             // Check for shared line speed from sibling machines
-            const sharedSpeed = getLineSpeed(machineName, currentShift, currentDate);
+            const sharedSpeed = getCurrentLineSpeed(await loadLineSpeedChanges(machineName, currentShift, currentDate));
             if (sharedSpeed) {
               const sharedSpeedEntry: SpeedEntry = {
                 id: uuidv4(),
                 speed: sharedSpeed.speed,
-                timestamp: new Date(sharedSpeed.updatedAt)
+                timestamp: sharedSpeed.changedAt
               };
               setSpeedEntries([sharedSpeedEntry]);
-              console.log(`📡 Loaded shared speed ${sharedSpeed.speed} PPM from ${sharedSpeed.updatedBy}`);
+              console.log(`📡 Loaded shared speed ${sharedSpeed.speed} PPM from ${sharedSpeed.machineName}`);
             }
           }
           if (session.sachetMassEntries) setSachetMassEntries(session.sachetMassEntries);
@@ -284,23 +492,24 @@ const CaptureScreen: React.FC = () => {
       if (liveSession && liveSession.is_locked) {
         // Restore session from Supabase
         setOperatorName(liveSession.operator_name);
+        setOperatorId(undefined);
         setOrderNumber(liveSession.order_number);
         setProduct(liveSession.product);
         setBatchNumber(liveSession.batch_number);
         setIsSessionLocked(true);
 
         // Check for shared line speed from sibling machines
-        const sharedSpeed = getLineSpeed(machineName, currentShift, currentDate);
+        const sharedSpeed = getCurrentLineSpeed(await loadLineSpeedChanges(machineName, currentShift, currentDate));
         let restoredSpeedEntries: SpeedEntry[] = [];
         if (sharedSpeed) {
           const sharedSpeedEntry: SpeedEntry = {
             id: uuidv4(),
             speed: sharedSpeed.speed,
-            timestamp: new Date(sharedSpeed.updatedAt)
+            timestamp: sharedSpeed.changedAt
           };
           restoredSpeedEntries = [sharedSpeedEntry];
           setSpeedEntries(restoredSpeedEntries);
-          console.log(`📡 Loaded shared speed ${sharedSpeed.speed} PPM from ${sharedSpeed.updatedBy}`);
+          console.log(`📡 Loaded shared speed ${sharedSpeed.speed} PPM from ${sharedSpeed.machineName}`);
         }
 
         // Save to localStorage for faster future loads
@@ -360,12 +569,11 @@ const CaptureScreen: React.FC = () => {
   const saveSession = useCallback(async (showMessage = true) => {
     if (!operatorName || !orderNumber || !product || !batchNumber) return;
 
-    const currentDate = new Date().toISOString().split('T')[0];
-    const currentShift = getCurrentShift();
+    const { shift: currentShift, shiftDate: currentDate } = getShiftContext(new Date(), machineName);
     const sessionKey = getSessionKey(machineName, currentShift, currentDate);
 
     // Acquire session lock
-    const lockResult = await acquireSessionLock(machineName, operatorName, currentShift, currentDate);
+    const lockResult = await acquireSessionLock(machineName, operatorName, currentShift, currentDate, operatorId);
     if (!lockResult.success) {
       showError(lockResult.error || 'Failed to acquire session lock');
       return;
@@ -387,6 +595,7 @@ const CaptureScreen: React.FC = () => {
     const session: ShiftSession = {
       machineName,
       operatorName,
+      operatorId,
       orderNumber,
       product,
       batchNumber,
@@ -438,15 +647,7 @@ const CaptureScreen: React.FC = () => {
       setDisplayRunTime('00:00:00');
 
       // Save the timer state
-      const timerStateToSave: ProductionTimerState = {
-        isRunning: true,
-        startTime: now.toISOString(),
-        pausedAt: null,
-        totalRunTimeMs: 0,
-        lastResumedAt: now.toISOString(),
-        pauseHistory: [],
-      };
-      saveProductionTimer(machineName, currentShift, currentDate, timerStateToSave);
+      saveProductionTimer(machineName, currentShift, currentDate, toProductionTimerState(newTimerState));
 
       // Update machine status to 'running' in Supabase
       if (machineId) {
@@ -454,12 +655,23 @@ const CaptureScreen: React.FC = () => {
       }
       if (showMessage) showToast('Session locked - Production timer started', 'success');
     }
-  }, [machineName, operatorName, orderNumber, product, batchNumber, wasteEntries, downtimeEntries, speedEntries, sachetMassEntries, looseCasesEntries, palletScanEntries, isSessionLocked, machineId]);
+  }, [machineName, operatorName, operatorId, orderNumber, product, batchNumber, wasteEntries, downtimeEntries, speedEntries, sachetMassEntries, looseCasesEntries, palletScanEntries, isSessionLocked, machineId]);
 
   useEffect(() => {
     loadSession();
   }, [loadSession]);
 
+  // Load the product's sachet mass history as the SPC baseline
+  useEffect(() => {
+    let cancelled = false;
+    loadSachetMassHistory(product).then(samples => {
+      if (!cancelled) setMassBaseline(samples);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [product]);
+
   // Ref to hold current production state for cleanup (to avoid stale closure)
   const productionStateRef = useRef(productionState);
   useEffect(() => {
@@ -471,40 +683,22 @@ const CaptureScreen: React.FC = () => {
     if (!productionState.isRunning || !isSessionLocked) return;
 
     const autoSaveInterval = setInterval(() => {
-      const currentDate = new Date().toISOString().split('T')[0];
-      const currentShift = getCurrentShift();
-      const timerState: ProductionTimerState = {
-        isRunning: productionState.isRunning,
-        startTime: productionState.startTime?.toISOString() || null,
-        pausedAt: productionState.pausedAt?.toISOString() || null,
-        totalRunTimeMs: productionState.totalRunTimeMs,
-        lastResumedAt: productionState.lastResumedAt?.toISOString() || null,
-        pauseHistory: [],
-      };
-      saveProductionTimer(machineName, currentShift, currentDate, timerState);
+      const { shift: currentShift, shiftDate: currentDate } = getShiftContext(new Date(), machineName);
+      saveProductionTimer(machineName, currentShift, currentDate, toProductionTimerState(productionState));
     }, 30000); // Every 30 seconds
 
     return () => clearInterval(autoSaveInterval);
-  }, [productionState.isRunning, productionState.lastResumedAt, productionState.totalRunTimeMs, isSessionLocked, machineName]);
+  }, [productionState, isSessionLocked, machineName]);
 
   // Cleanup session lock and save timer on unmount
   useEffect(() => {
     return () => {
-      const currentDate = new Date().toISOString().split('T')[0];
-      const currentShift = getCurrentShift();
+      const { shift: currentShift, shiftDate: currentDate } = getShiftContext(new Date(), machineName);
 
       // Save timer state before leaving (use ref to get current state)
       const state = productionStateRef.current;
       if (state.isRunning || state.totalRunTimeMs > 0) {
-        const timerState: ProductionTimerState = {
-          isRunning: state.isRunning,
-          startTime: state.startTime?.toISOString() || null,
-          pausedAt: state.pausedAt?.toISOString() || null,
-          totalRunTimeMs: state.totalRunTimeMs,
-          lastResumedAt: state.lastResumedAt?.toISOString() || null,
-          pauseHistory: [],
-        };
-        saveProductionTimer(machineName, currentShift, currentDate, timerState);
+        saveProductionTimer(machineName, currentShift, currentDate, toProductionTimerState(state));
       }
 
       // Release session lock when leaving the page
@@ -517,6 +711,39 @@ const CaptureScreen: React.FC = () => {
     };
   }, [machineName]);
 
+  // Cases earlier shifts recorded for the current order
+  const currentOrderBatch = currentOrder?.batch_number;
+  useEffect(() => {
+    if (!orderNumber) {
+      setProducedBefore(0);
+      return;
+    }
+    let cancelled = false;
+    loadCasesProducedBefore(orderNumber, currentOrderBatch).then(cases => {
+      if (!cancelled) setProducedBefore(cases);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [orderNumber, currentOrderBatch]);
+
+  // Latest completion handler, so the effect below only reruns when the order
+  // or its progress changes (to avoid stale closure)
+  const handleOrderCompletedRef = useRef(handleOrderCompleted);
+  useEffect(() => {
+    handleOrderCompletedRef.current = handleOrderCompleted;
+  });
+
+  // Complete the order automatically once its planned quantity is reached
+  const isOrderComplete = orderProgress?.isComplete ?? false;
+  const producedForOrder = orderProgress?.produced ?? 0;
+  useEffect(() => {
+    if (!isSessionLocked || !currentOrder?.id || !isOrderComplete) return;
+    if (currentOrder.completed_at || completedOrderIdsRef.current.has(currentOrder.id)) return;
+    completedOrderIdsRef.current.add(currentOrder.id);
+    handleOrderCompletedRef.current(currentOrder, producedForOrder);
+  }, [isSessionLocked, currentOrder, isOrderComplete, producedForOrder]);
+
   // Load available orders from machine queue
   useEffect(() => {
     const loadMachineOrders = async () => {
@@ -535,13 +762,13 @@ const CaptureScreen: React.FC = () => {
   // Auto-save entries when they change (if session is locked)
   useEffect(() => {
     if (isSessionLocked && operatorName && orderNumber && product && batchNumber) {
-      const currentDate = new Date().toISOString().split('T')[0];
-      const currentShift = getCurrentShift();
+      const { shift: currentShift, shiftDate: currentDate } = getShiftContext(new Date(), machineName);
       const sessionKey = getSessionKey(machineName, currentShift, currentDate);
 
       const session: ShiftSession = {
         machineName,
         operatorName,
+        operatorId,
         orderNumber,
         product,
         batchNumber,
@@ -558,7 +785,7 @@ const CaptureScreen: React.FC = () => {
 
       localStorage.setItem(sessionKey, JSON.stringify(session));
     }
-  }, [wasteEntries, downtimeEntries, speedEntries, sachetMassEntries, looseCasesEntries, palletScanEntries, isSessionLocked, machineName, operatorName, orderNumber, product, batchNumber]);
+  }, [wasteEntries, downtimeEntries, speedEntries, sachetMassEntries, looseCasesEntries, palletScanEntries, isSessionLocked, machineName, operatorName, operatorId, orderNumber, product, batchNumber]);
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -567,8 +794,9 @@ const CaptureScreen: React.FC = () => {
       checkSubmissionWindowCallback(now);
     }, 1000);
 
-    // Set the shift using facility settings
-    const newShift = getCurrentShift();
+    // Set the shift using this machine's shift pattern
+    const shiftContext = getShiftContext(new Date(), machineName);
+    const newShift = shiftContext.shift;
 
     // Detect shift change
     if (lastKnownShift !== null && lastKnownShift !== newShift && isSessionLocked) {
@@ -577,10 +805,12 @@ const CaptureScreen: React.FC = () => {
     }
 
     setShift(newShift);
+    setShiftDate(shiftContext.shiftDate);
+    setCrew(shiftContext.crew || '');
     setLastKnownShift(newShift);
 
     return () => clearInterval(timer);
-  }, [dateTime, checkSubmissionWindow, lastKnownShift, isSessionLocked]);
+  }, [dateTime, checkSubmissionWindow, lastKnownShift, isSessionLocked, machineName]);
 
   // Production Timer - Update display every second when running
   useEffect(() => {
@@ -604,12 +834,11 @@ const CaptureScreen: React.FC = () => {
     return () => clearInterval(timerInterval);
   }, [productionState.isRunning, productionState.lastResumedAt, productionState.totalRunTimeMs]);
 
-  // Sync entry totals to Supabase when waste or downtime entries change
+  // Sync entry totals and entry snapshots to Supabase when entries change
   useEffect(() => {
     if (!isSessionLocked) return;
 
-    const currentDate = new Date().toISOString().split('T')[0];
-    const currentShift = getCurrentShift();
+    const { shift: currentShift, shiftDate: currentDate } = getShiftContext(new Date(), machineName);
 
     // Calculate totals
     const totalWaste = wasteEntries.reduce((sum, e) => sum + e.waste, 0);
@@ -627,24 +856,23 @@ const CaptureScreen: React.FC = () => {
       locked: true,
       totalWaste,
       totalDowntime,
+      entries: {
+        wasteEntries,
+        downtimeEntries,
+        speedEntries,
+        sachetMassEntries,
+        looseCasesEntries,
+        palletScanEntries,
+      },
     });
 
     console.log('📊 Synced entry totals to Supabase:', { totalWaste, totalDowntime });
-  }, [wasteEntries, downtimeEntries, isSessionLocked, machineName, operatorName, orderNumber, product, batchNumber]);
+  }, [wasteEntries, downtimeEntries, speedEntries, sachetMassEntries, looseCasesEntries, palletScanEntries, isSessionLocked, machineName, operatorName, orderNumber, product, batchNumber]);
 
   // Helper to persist timer state
   const persistTimerState = useCallback((state: ProductionState) => {
-    const currentDate = new Date().toISOString().split('T')[0];
-    const currentShift = getCurrentShift();
-    const timerState: ProductionTimerState = {
-      isRunning: state.isRunning,
-      startTime: state.startTime?.toISOString() || null,
-      pausedAt: state.pausedAt?.toISOString() || null,
-      totalRunTimeMs: state.totalRunTimeMs,
-      lastResumedAt: state.lastResumedAt?.toISOString() || null,
-      pauseHistory: [],
-    };
-    saveProductionTimer(machineName, currentShift, currentDate, timerState);
+    const { shift: currentShift, shiftDate: currentDate } = getShiftContext(new Date(), machineName);
+    saveProductionTimer(machineName, currentShift, currentDate, toProductionTimerState(state));
   }, [machineName]);
 
   // Start production timer (called when session is locked)
@@ -669,10 +897,27 @@ const CaptureScreen: React.FC = () => {
       message: 'Production started',
       details: `Order: ${orderNumber} | Product: ${product}`,
     });
-  }, [persistTimerState, machineName, operatorName, orderNumber, product]);
 
-  // Pause production - record pause start time
-  const handlePauseProduction = useCallback(() => {
+    if (currentOrder) {
+      changeOrderStatus(currentOrder, 'in_progress').then(updateOrderInQueue);
+    }
+
+    // A changeover announced by the previous shift ends when this order starts
+    if (activeChangeover) {
+      const finished = finishChangeover(activeChangeover, { id: currentOrder?.id, orderNumber, product }, now);
+      setActiveChangeover(null);
+      addActivityEvent({
+        type: 'changeover_completed',
+        machine_name: machineName,
+        operator_name: operatorName,
+        message: 'Changeover complete',
+        details: `${finished.from?.product || 'Unknown'} → ${product} | ${Math.round((now.getTime() - finished.startedAt.getTime()) / 60000)} min`,
+      });
+    }
+  }, [persistTimerState, machineName, operatorName, orderNumber, product, currentOrder, activeChangeover, updateOrderInQueue]);
+
+  // Pause production - record pause start time, and the reason when known
+  const handlePauseProduction = useCallback((reason?: Pick<DowntimeReason, 'name' | 'code'>) => {
     if (!productionState.isRunning) return;
 
     const now = new Date();
@@ -686,9 +931,12 @@ const CaptureScreen: React.FC = () => {
       isRunning: false,
       pausedAt: now,
       totalRunTimeMs: productionState.totalRunTimeMs + currentSessionMs,
+      pauseReason: reason?.name || null,
+      pauseReasonCode: reason?.code || null,
     };
     setProductionState(newState);
     persistTimerState(newState);
+    setPauseDowntimeReason(null);
     showToast('Production paused - timer stopped', 'success');
 
     // Add activity event
@@ -700,6 +948,20 @@ const CaptureScreen: React.FC = () => {
     });
   }, [productionState, persistTimerState, showToast, machineName, operatorName]);
 
+  // Reason for the current pause, given while paused - shown on the
+  // dashboard and filled in when production continues
+  const handlePauseReasonChange = (reason: DowntimeReason | null) => {
+    setPauseDowntimeReason(reason);
+    if (!productionState.pausedAt) return;
+    const newState: ProductionState = {
+      ...productionState,
+      pauseReason: reason?.name || null,
+      pauseReasonCode: reason?.code || null,
+    };
+    setProductionState(newState);
+    persistTimerState(newState);
+  };
+
   // Continue production - show modal to get reason, then record downtime
   const handleContinueProduction = useCallback(() => {
     if (!pauseDowntimeReason) {
@@ -717,9 +979,12 @@ const CaptureScreen: React.FC = () => {
     const newDowntimeEntry: DowntimeEntry = {
       id: uuidv4(),
       downtime: pauseDurationMinutes,
-      downtimeReason: pauseDowntimeReason,
+      downtimeReason: pauseDowntimeReason.name,
+      reasonCode: pauseDowntimeReason.code,
       notes: 'Auto-recorded from production pause',
       timestamp: productionState.pausedAt,
+      operatorId,
+      operatorName,
     };
     setDowntimeEntries(prev => [...prev, newDowntimeEntry]);
 
@@ -729,13 +994,21 @@ const CaptureScreen: React.FC = () => {
       isRunning: true,
       pausedAt: null,
       lastResumedAt: now,
+      pauseReason: null,
+      pauseReasonCode: null,
+      pauseHistory: [...(productionState.pauseHistory || []), {
+        pausedAt: productionState.pausedAt,
+        resumedAt: now,
+        reason: pauseDowntimeReason.name,
+        reasonCode: pauseDowntimeReason.code,
+      }],
     };
     setProductionState(newState);
     persistTimerState(newState);
 
     // Reset modal state
     setShowContinueModal(false);
-    setPauseDowntimeReason('');
+    setPauseDowntimeReason(null);
     showToast(`Production resumed. ${pauseDurationMinutes} min downtime recorded.`, 'success');
 
     // Add activity events
@@ -744,29 +1017,30 @@ const CaptureScreen: React.FC = () => {
       machine_name: machineName,
       operator_name: operatorName,
       message: 'Production resumed',
-      details: `Reason: ${pauseDowntimeReason}`,
+      details: `Reason: ${pauseDowntimeReason.name}`,
     });
     addActivityEvent({
       type: 'downtime_recorded',
       machine_name: machineName,
       operator_name: operatorName,
       message: `Downtime recorded: ${pauseDurationMinutes} min`,
-      details: pauseDowntimeReason,
+      details: pauseDowntimeReason.name,
     });
-  }, [pauseDowntimeReason, productionState, persistTimerState, showToast, machineName, operatorName]);
+  }, [pauseDowntimeReason, productionState, persistTimerState, showToast, machineName, operatorName, operatorId]);
 
   // Handle Waste Entry from Modal
   const handleWasteSubmit = () => {
     if (waste && wasteType) {
       const newEntry: WasteEntry = {
         id: uuidv4(),
-        waste: Number(waste),
-        wasteType,
-        timestamp: new Date()
+        ...measureWaste(wasteType, Number(waste)),
+        timestamp: new Date(),
+        operatorId,
+        operatorName,
       };
       setWasteEntries([...wasteEntries, newEntry]);
       setWaste('');
-      setWasteType('');
+      setWasteType(null);
       setShowWasteModal(false);
       showToast('Waste entry added', 'success');
 
@@ -775,8 +1049,8 @@ const CaptureScreen: React.FC = () => {
         type: 'waste_recorded',
         machine_name: machineName,
         operator_name: operatorName,
-        message: `Waste recorded: ${Number(waste).toFixed(1)} kg`,
-        details: wasteType,
+        message: `Waste recorded: ${formatWasteQuantity(newEntry)}`,
+        details: wasteType.name,
       });
     }
   };
@@ -797,13 +1071,18 @@ const CaptureScreen: React.FC = () => {
       const newEntry: DowntimeEntry = {
         id: uuidv4(),
         downtime: Number(downtime),
-        downtimeReason,
+        downtimeReason: downtimeReason.name,
+        reasonCode: downtimeReason.code,
         notes: undefined,
-        timestamp: new Date()
+        // Logged once the stop is over - stamped with when it started, like
+        // the entries recorded from a pause
+        timestamp: new Date(Date.now() - Number(downtime) * 60000),
+        operatorId,
+        operatorName,
       };
       setDowntimeEntries([...downtimeEntries, newEntry]);
       setDowntime('');
-      setDowntimeReason('');
+      setDowntimeReason(null);
       setShowDowntimeModal(false);
       showToast('Downtime entry added', 'success');
 
@@ -813,7 +1092,7 @@ const CaptureScreen: React.FC = () => {
         machine_name: machineName,
         operator_name: operatorName,
         message: `Downtime recorded: ${Number(downtime)} min`,
-        details: downtimeReason,
+        details: downtimeReason.name,
       });
     }
   };
@@ -852,30 +1131,44 @@ const CaptureScreen: React.FC = () => {
     setShowConfirmDialog(true);
   };
 
+  // Operator identified by badge or PIN - becomes this tablet's active operator
+  const handleOperatorIdentified = (operator: Operator, target = identifyFor) => {
+    setActiveOperator(operator);
+    if (target === 'shiftChange') {
+      setNewOperator(operator);
+    } else {
+      setOperatorName(operator.name);
+      setOperatorId(operator.id);
+    }
+    setIdentifyFor(null);
+  };
+
   // Handle shift change confirmation - update operator for new shift
   const handleShiftChangeConfirm = () => {
-    if (!newOperatorName.trim()) {
-      showToast('Please enter the new operator name/number', 'error');
+    if (!newOperator) {
+      showToast('Please identify the new operator', 'error');
       return;
     }
 
-    // Update the operator name for the new shift
-    setOperatorName(newOperatorName.trim());
+    // Update the operator for the new shift
+    setOperatorName(newOperator.name);
+    setOperatorId(newOperator.id);
     setShowShiftChangeModal(false);
-    setNewOperatorName('');
+    setNewOperator(null);
 
     // Update machine status with new operator
     if (machineId) {
-      updateMachineStatus(machineId, 'running', newOperatorName.trim(), orderNumber, shift);
+      updateMachineStatus(machineId, 'running', newOperator.name, orderNumber, shift);
     }
 
     // Update the session with new operator
-    const currentDate = new Date().toISOString().split('T')[0];
+    const currentDate = shiftDate;
     const sessionKey = getSessionKey(machineName, shift, currentDate);
 
     const session: ShiftSession = {
       machineName,
-      operatorName: newOperatorName.trim(),
+      operatorName: newOperator.name,
+      operatorId: newOperator.id,
       orderNumber,
       product,
       batchNumber,
@@ -891,7 +1184,7 @@ const CaptureScreen: React.FC = () => {
     };
 
     localStorage.setItem(sessionKey, JSON.stringify(session));
-    showToast(`Operator changed to ${newOperatorName.trim()} for ${shift} shift`, 'success');
+    showToast(`Operator changed to ${newOperator.name} for ${shift} shift`, 'success');
   };
 
   const handleConfirmedSubmit = async () => {
@@ -911,20 +1204,26 @@ const CaptureScreen: React.FC = () => {
       product,
       batchNumber,
       shift,
-      date: dateTime.toISOString().split('T')[0],
+      crew: crew || undefined,
+      date: shiftDate,
       wasteEntries,
       downtimeEntries,
       speedEntries,
       sachetMassEntries,
       looseCasesEntries,
       palletScanEntries,
+      isEarlySubmission: !isInSubmissionWindow,
+      willChangeover: willChangeover ?? undefined,
+      willMaintenanceCleaning: willMaintenance ?? undefined,
       totalWaste,
       totalDowntime,
       submittedAt: new Date()
     };
 
-    // Prepare submission data for potential retry queue
-    const submissionPayload = {
+    // Prepare submission data for potential retry queue. The shift's ID doubles
+    // as the idempotency key so a retried submission is only recorded once.
+    const submissionPayload: FullShiftSubmission = {
+      idempotencyKey: shiftData.id,
       shiftData: {
         operator_name: operatorName,
         machine: machineName,
@@ -932,39 +1231,64 @@ const CaptureScreen: React.FC = () => {
         product,
         batch_number: batchNumber,
         shift,
-        submission_date: dateTime.toISOString().split('T')[0],
+        crew: crew || undefined,
+        submission_date: shiftDate,
         is_early_submission: !isInSubmissionWindow,
         will_changeover: willChangeover ?? undefined,
         will_maintenance_cleaning: willMaintenance ?? undefined,
       },
-      wasteEntries: wasteEntries.map(e => ({ waste: e.waste, wasteType: e.wasteType, timestamp: e.timestamp })),
-      downtimeEntries: downtimeEntries.map(e => ({ downtime: e.downtime, downtimeReason: e.downtimeReason, timestamp: e.timestamp })),
+      wasteEntries: wasteEntries.map(e => ({
+        waste: e.waste,
+        wasteType: e.wasteType,
+        wasteTypeCode: e.wasteTypeCode,
+        quantity: e.quantity,
+        unit: e.unit,
+        cost: e.cost,
+        timestamp: e.timestamp,
+        operatorId: e.operatorId,
+        operatorName: e.operatorName,
+      })),
+      downtimeEntries: downtimeEntries.map(e => ({ downtime: e.downtime, downtimeReason: e.downtimeReason, reasonCode: e.reasonCode, timestamp: e.timestamp, operatorId: e.operatorId, operatorName: e.operatorName })),
       speedEntries: speedEntries.map(e => ({ speed: e.speed, timestamp: e.timestamp })),
-      sachetMassEntries: sachetMassEntries.map(e => ({ mass: e.mass, timestamp: e.timestamp })),
+      sachetMassEntries: sachetMassEntries.map(e => ({ mass: e.mass, ignored: e.ignored, timestamp: e.timestamp })),
       looseCasesEntries: looseCasesEntries.map(e => ({ batchNumber: e.batchNumber, cases: e.cases, timestamp: e.timestamp })),
-      palletScanEntries: palletScanEntries.map(e => ({ qrCode: e.qrCode, batchNumber: e.batchNumber, palletNumber: e.palletNumber, casesCount: e.casesCount, timestamp: e.timestamp })),
+      palletScanEntries: palletScanEntries.map(e => ({ qrCode: e.qrCode, batchNumber: e.batchNumber, palletNumber: e.palletNumber, casesCount: e.casesCount, ignored: e.ignored, timestamp: e.timestamp, operatorId: e.operatorId, operatorName: e.operatorName })),
     };
 
+    // A changeover announced at hand-over starts now; the next shift's
+    // order ends it when production starts
+    if (willChangeover) {
+      if (currentOrder && getOrderStatus(currentOrder) === 'in_progress') {
+        changeOrderStatus(currentOrder, 'paused').then(updateOrderInQueue);
+      }
+      setActiveChangeover(startChangeover({
+        machineId: machineId || undefined,
+        machineName,
+        operatorName,
+        from: { id: currentOrder?.id, orderNumber, product },
+      }));
+      addActivityEvent({
+        type: 'changeover_started',
+        machine_name: machineName,
+        operator_name: operatorName,
+        message: 'Changeover started',
+        details: `From ${orderNumber} (${product})`,
+      });
+    }
+
     try {
       // Save to local storage first
       saveShiftData(shiftData);
 
       // Try to submit to Supabase with all data including changeover info
-      const result = await submitShiftData(
-        submissionPayload.shiftData,
-        submissionPayload.wasteEntries,
-        submissionPayload.downtimeEntries,
-        submissionPayload.speedEntries,
-        submissionPayload.sachetMassEntries,
-        submissionPayload.looseCasesEntries,
-        submissionPayload.palletScanEntries
-      );
+      const result = await submitShiftData(submissionPayload);
 
-      // Show success with any warnings
-      if (result.warnings.length > 0) {
-        showToast(`Submitted with warnings: ${result.warnings.join(', ')}`, 'success');
-      } else {
-        showToast('Shift data submitted successfully', 'success');
+      showToast(
+        result.duplicate ? 'Shift data was already submitted' : 'Shift data submitted successfully',
+        'success'
+      );
+      if (result.duplicatePallets.length > 0) {
+        showWarning(`${result.duplicatePallets.length} pallet(s) had already been recorded by another shift and were marked as ignored`, 6000);
       }
 
       // Add activity event for shift submission
@@ -1001,7 +1325,7 @@ const CaptureScreen: React.FC = () => {
       sessionStorage.removeItem(`session_${machineId}`);
 
       // Clear the localStorage session key as well
-      const currentDate = new Date().toISOString().split('T')[0];
+      const currentDate = shiftDate;
       const sessionKey = getSessionKey(machineName, shift, currentDate);
       localStorage.removeItem(sessionKey);
 
@@ -1016,8 +1340,10 @@ const CaptureScreen: React.FC = () => {
     } catch (error) {
       console.error('Submission error:', error);
 
-      // Add to failed submissions queue for retry
-      addFailedSubmission(submissionPayload, String(error));
+      // Queue in the offline outbox for retry
+      enqueueOutbox({ kind: 'shift_submission', payload: submissionPayload }, { error }).catch(e =>
+        logError('Failed to queue shift submission', { context: String(e), showToast: false })
+      );
 
       // Still saved locally, show partial success with retry info
       showToast('Saved locally. Will retry sync automatically.', 'error');
@@ -1031,7 +1357,7 @@ const CaptureScreen: React.FC = () => {
       }
 
       // Clear the localStorage session key
-      const currentDate = new Date().toISOString().split('T')[0];
+      const currentDate = shiftDate;
       const sessionKey = getSessionKey(machineName, shift, currentDate);
       localStorage.removeItem(sessionKey);
 
@@ -1083,10 +1409,9 @@ const CaptureScreen: React.FC = () => {
       setShowSpeedModal(false);
       showToast('Machine speed recorded', 'success');
 
-      // Save to shared line storage so other machines can see it
-      const currentDate = new Date().toISOString().split('T')[0];
-      const shift = getCurrentShift();
-      saveLineSpeed(machineName, shift, currentDate, Number(speedInput));
+      // Share with the other sub-machines of this line
+      const { shift, shiftDate: currentDate } = getShiftContext(new Date(), machineName);
+      recordLineSpeedChange(machineName, shift, currentDate, Number(speedInput), operatorName || undefined);
 
       // Add activity event
       addActivityEvent({
@@ -1098,6 +1423,16 @@ const CaptureScreen: React.FC = () => {
     }
   };
 
+  // Speed changed on another sub-machine of this line - follow it
+  const handleRemoteLineSpeed = (change: LineSpeedChange) => {
+    if (!isSessionLocked) return;
+    setSpeedEntries(prev => prev.length > 0 && prev[prev.length - 1].speed === change.speed
+      ? prev
+      : [...prev, { id: uuidv4(), speed: change.speed, timestamp: change.changedAt }]);
+    showToast(`Line speed set to ${change.speed} PPM on ${change.machineName}${change.operatorName ? ` by ${change.operatorName}` : ''}`, 'success');
+  };
+  const lineSpeedChanges = useLineSpeed(machineName, shift, shiftDate, handleRemoteLineSpeed);
+
   // Speed entry deletion (available for future UI enhancement)
   const _handleDeleteSpeedEntry = (id: string) => {
     setSpeedEntries(speedEntries.filter(entry => entry.id !== id));
@@ -1114,10 +1449,10 @@ const CaptureScreen: React.FC = () => {
         mass: Number(sachetMassInput),
         timestamp: new Date()
       };
-      setSachetMassEntries([...sachetMassEntries, newEntry]);
+      const updatedEntries = [...sachetMassEntries, newEntry];
+      setSachetMassEntries(updatedEntries);
       setSachetMassInput('');
       setShowSachetModal(false);
-      showToast('Sachet mass recorded', 'success');
 
       // Add activity event
       addActivityEvent({
@@ -1126,6 +1461,24 @@ const CaptureScreen: React.FC = () => {
         operator_name: operatorName,
         message: `Sachet mass recorded: ${Number(sachetMassInput)}g`,
       });
+
+      // Alert the operator when the new sample breaks a Western Electric rule
+      const analysis = analyzeSachetMass(updatedEntries, { baseline: massBaseline, spec: massLimits });
+      const lastIndex = analysis.points.length - 1;
+      const alerts = analysis.violations.filter(v => v.index === lastIndex);
+      if (alerts.length > 0) {
+        const message = alerts.map(v => `Rule ${v.rule}: ${v.message}`).join('; ');
+        showToast(`SPC alert - ${message}`, 'error');
+        addActivityEvent({
+          type: 'spc_alert',
+          machine_name: machineName,
+          operator_name: operatorName,
+          message: `Sachet mass out of control: ${message}`,
+          details: `Mass: ${newEntry.mass}g | Product: ${product}`,
+        });
+      } else {
+        showToast('Sachet mass recorded', 'success');
+      }
     }
   };
 
@@ -1136,8 +1489,10 @@ const CaptureScreen: React.FC = () => {
   };
 
   // Handle Loose Cases Entry (cases not part of a full pallet)
+  const looseCasesBatchError = validateField(looseCasesBatchInput, getLooseCasesSchema(labelFormat.id).batchNumber);
+
   const handleLooseCasesSubmit = () => {
-    if (looseCasesBatchInput && looseCasesBatchInput.length === 5 && looseCasesQuantityInput && looseCasesQuantityInput > 0) {
+    if (!looseCasesBatchError && looseCasesQuantityInput && looseCasesQuantityInput > 0) {
       const newEntry: LooseCasesEntry = {
         id: uuidv4(),
         batchNumber: looseCasesBatchInput,
@@ -1158,8 +1513,8 @@ const CaptureScreen: React.FC = () => {
         message: `Loose cases added: ${Number(looseCasesQuantityInput)} cases`,
         details: `Batch: ${looseCasesBatchInput}`,
       });
-    } else if (looseCasesBatchInput.length !== 5) {
-      showToast('Batch number must be 5 digits', 'error');
+    } else if (looseCasesBatchError) {
+      showToast(looseCasesBatchError, 'error');
     }
   };
 
@@ -1169,58 +1524,65 @@ const CaptureScreen: React.FC = () => {
     ));
   };
 
-  // Parse 13-digit QR code: BBBBBPPPPCCCC
-  // B = batch (5 digits), P = pallet number (4 digits), C = cases count (4 digits)
-  const parsePalletQRCode = (qrData: string): { batchNumber: string; palletNumber: string; casesCount: number } | null => {
-    // Remove any whitespace
-    const cleaned = qrData.trim();
-
-    // Check if it's exactly 13 digits
-    if (!/^\d{13}$/.test(cleaned)) {
-      return null;
-    }
-
-    const casesCount = parseInt(cleaned.substring(9, 13), 10);
-
-    // Extra safety check for NaN (shouldn't happen given regex validation)
-    if (Number.isNaN(casesCount)) {
-      return null;
-    }
-
-    return {
-      batchNumber: cleaned.substring(0, 5),    // First 5 digits
-      palletNumber: cleaned.substring(5, 9),   // Next 4 digits
-      casesCount
-    };
-  };
-
   // Handle QR Code Pallet Scan
-  const handlePalletScan = (qrData: string) => {
-    const parsed = parsePalletQRCode(qrData);
+  const handlePalletScan = async (qrData: string) => {
+    const result = parseLabel(qrData, labelFormat.id);
+    const parsed = result.data;
 
-    if (!parsed) {
-      showToast('Invalid QR code format. Expected 13 digits: BBBBBPPPPCCCC', 'error');
+    if (!result.valid || !parsed) {
+      showToast(`Invalid pallet label: ${result.error}. Expected ${labelFormat.example}`, 'error');
       return;
     }
 
-    // Check for duplicate pallet scan (same QR code already scanned)
-    const isDuplicate = palletScanEntries.some(entry => entry.qrCode === qrData);
+    // Check for duplicate pallet scan (same batch and pallet already scanned
+    // this shift, or still being checked)
+    const pendingKey = `${parsed.batchNumber}|${parsed.palletNumber}`;
+    const isDuplicate = pendingPalletScansRef.current.has(pendingKey) || palletScanEntries.some(entry =>
+      entry.qrCode === qrData ||
+      (!entry.ignored && entry.batchNumber === parsed.batchNumber && entry.palletNumber === parsed.palletNumber)
+    );
     if (isDuplicate) {
       showToast(`Pallet ${parsed.palletNumber} has already been scanned!`, 'error');
       return;
     }
 
+    // Check against pallets other shifts and machines have recorded for the batch
+    pendingPalletScansRef.current.add(pendingKey);
+    let check: PalletScanCheck;
+    try {
+      check = await checkPalletScan(parsed, batchNumber, palletScanEntries);
+    } finally {
+      pendingPalletScansRef.current.delete(pendingKey);
+    }
+    if (check.duplicateOf) {
+      const { machine, shift: recordedShift, date } = check.duplicateOf;
+      showToast(
+        `Pallet ${parsed.palletNumber} of batch ${parsed.batchNumber} was already recorded on ${machine}${recordedShift ? ` (${recordedShift} shift ${date})` : ''}`,
+        'error'
+      );
+      return;
+    }
+
     const newEntry: PalletScanEntry = {
       id: uuidv4(),
       qrCode: qrData,
       batchNumber: parsed.batchNumber,
       palletNumber: parsed.palletNumber,
       casesCount: parsed.casesCount,
-      timestamp: new Date()
+      timestamp: new Date(),
+      operatorId,
+      operatorName,
     };
-    setPalletScanEntries([...palletScanEntries, newEntry]);
+    setPalletScanEntries(entries => [...entries, newEntry]);
     showToast(`Pallet ${parsed.palletNumber} scanned (${parsed.casesCount} cases)`, 'success');
 
+    if (check.batchMismatch) {
+      showWarning(`Pallet batch ${parsed.batchNumber} does not match this shift's batch ${batchNumber}`);
+    }
+    if (check.sequence) {
+      showWarning(describeSequenceIssue(check.sequence, parsed.batchNumber));
+    }
+
     // Add activity event
     addActivityEvent({
       type: 'pallet_scanned',
@@ -1231,6 +1593,29 @@ const CaptureScreen: React.FC = () => {
     });
   };
 
+  // Handheld scanner (keyboard wedge) - pallet labels are scanned straight
+  // into the shift, badges identify the operator
+  const handleHardwareScan = async (payload: string, kind: ScanKind) => {
+    if (kind === 'pallet') {
+      setShowQRScanner(false);
+      await handlePalletScan(payload);
+      return;
+    }
+
+    const target = identifyFor || (showShiftChangeModal ? 'shiftChange' : isSessionLocked ? null : 'session');
+    if (!target) {
+      showToast('The operator can only change at shift change while the session is locked', 'error');
+      return;
+    }
+    try {
+      handleOperatorIdentified(await identifyOperator({ badgeCode: payload }), target);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Could not identify operator', 'error');
+    }
+  };
+
+  useScanCapture(handleHardwareScan, { enabled: !isSubmitting });
+
   const handleTogglePalletIgnore = (id: string) => {
     setPalletScanEntries(palletScanEntries.map(entry =>
       entry.id === id ? { ...entry, ignored: !entry.ignored } : entry
@@ -1291,7 +1676,7 @@ const CaptureScreen: React.FC = () => {
         </div>
         <div className={`shift-badge-v2 ${shift.toLowerCase()}`}>
           <span className="shift-icon">{shift === 'Day' ? '◐' : '◑'}</span>
-          {shift} Shift
+          {shift} Shift{crew && ` · Crew ${crew}`}
         </div>
       </header>
 
@@ -1318,10 +1703,10 @@ const CaptureScreen: React.FC = () => {
                   <button
                     className="select-order-btn existing"
                     onClick={() => setShowOrderSelect(true)}
-                    disabled={availableOrders.length === 0}
+                    disabled={queuedOrders.length === 0}
                   >
                     <span className="btn-icon">📋</span>
-                    Select Existing{availableOrders.length > 0 ? ` (${availableOrders.length})` : ''}
+                    Select Existing{queuedOrders.length > 0 ? ` (${queuedOrders.length})` : ''}
                   </button>
                 </div>
                 {orderNumber && (
@@ -1332,10 +1717,33 @@ const CaptureScreen: React.FC = () => {
               </div>
             )}
 
+            {/* Changeover in progress, or moving to another order mid-shift */}
+            {activeChangeover ? (
+              <div className="changeover-banner">
+                <div className="changeover-banner-text">
+                  <span className="changeover-banner-title">🔧 Changeover in progress</span>
+                  <span className="changeover-banner-detail">
+                    {activeChangeover.from ? `${activeChangeover.from.product} → ` : ''}
+                    {activeChangeover.to?.product || 'next order'} · since {format(activeChangeover.startedAt, 'HH:mm')}
+                  </span>
+                </div>
+                {isSessionLocked && (
+                  <button className="changeover-finish-btn" onClick={handleFinishChangeover}>
+                    Changeover Complete
+                  </button>
+                )}
+              </div>
+            ) : isSessionLocked && queuedOrders.some(o => o.id !== currentOrder?.id) && (
+              <button className="select-order-btn existing change-order-btn" onClick={() => setShowOrderSelect(true)}>
+                <span className="btn-icon">🔧</span>
+                Change Order
+              </button>
+            )}
+
             <div className="form-grid">
               <MainForm
                 operatorName={operatorName}
-                setOperatorName={isSessionLocked ? () => { } : setOperatorName}
+                onIdentifyOperator={() => setIdentifyFor('session')}
                 machine={machineName}
                 setMachine={() => { }}
                 orderNumber={orderNumber}
@@ -1364,6 +1772,15 @@ const CaptureScreen: React.FC = () => {
                     ({speedEntries.length} changes)
                   </span>
                 )}
+                {productSpec?.ratedSpeed && (
+                  <span
+                    className={`speed-target ${speedAttainment !== null && speedAttainment < 0.9 ? 'below' : ''}`}
+                    title={`Rated speed for ${productSpec.name}`}
+                  >
+                    Rated {productSpec.ratedSpeed} PPM
+                    {speedAttainment !== null && ` · ${Math.round(speedAttainment * 100)}%`}
+                  </span>
+                )}
               </div>
               <button
                 className="speed-change-btn"
@@ -1373,6 +1790,41 @@ const CaptureScreen: React.FC = () => {
               </button>
             </div>
 
+            {/* Plan vs actual for the current order */}
+            {orderProgress && currentOrder && (
+              <div className={`order-progress ${orderProgress.isComplete ? 'complete' : orderProgress.isLate ? 'late' : ''}`}>
+                <div className="order-progress-header">
+                  <span className="order-progress-label">Order {currentOrder.order_number}</span>
+                  <span className="order-progress-count">
+                    {orderProgress.produced} / {orderProgress.planned} cases
+                  </span>
+                </div>
+                <div className="order-progress-bar">
+                  <div className="order-progress-fill" style={{ width: `${orderProgress.fraction * 100}%` }} />
+                </div>
+                <div className="order-progress-meta">
+                  <span>
+                    {orderProgress.isComplete
+                      ? 'Target reached'
+                      : `${orderProgress.remaining} cases to go`}
+                  </span>
+                  {orderProgress.projectedCompletion && (
+                    <span title="At the current speed">
+                      Done by {format(orderProgress.projectedCompletion, 'EEE HH:mm')}
+                    </span>
+                  )}
+                  {!orderProgress.projectedCompletion && !orderProgress.isComplete && isSessionLocked && !productSpec?.sachetsPerCase && (
+                    <span>Set sachets per case on the product to project completion</span>
+                  )}
+                  {currentOrder.due_date && (
+                    <span className="order-progress-due">
+                      Due {currentOrder.due_date}{orderProgress.isLate ? ' · at risk' : ''}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+
             {!isSessionLocked && operatorName && orderNumber && product && batchNumber && (
               speedEntries.length > 0 ? (
                 <button
@@ -1429,7 +1881,7 @@ const CaptureScreen: React.FC = () => {
                   {productionState.isRunning ? (
                     <button
                       className="pause-continue-btn pause"
-                      onClick={handlePauseProduction}
+                      onClick={() => handlePauseProduction()}
                     >
                       <span className="btn-icon">⏸</span>
                       Pause Production
@@ -1451,6 +1903,15 @@ const CaptureScreen: React.FC = () => {
                 <div className="pause-duration-display">
                   <span className="pause-icon">⏱️</span>
                   Paused since {productionState.pausedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {!activeChangeover && (
+                    <DowntimeReasonSelect
+                      className="pause-reason-select"
+                      value={pauseDowntimeReason}
+                      onChange={handlePauseReasonChange}
+                      machineIds={[machineId, parentMachineId]}
+                      placeholder="Why is it stopped?"
+                    />
+                  )}
                 </div>
               )}
             </section>
@@ -1515,10 +1976,13 @@ const CaptureScreen: React.FC = () => {
                         {wasteEntries.slice().reverse().map((entry, index) => (
                           <div key={entry.id} className={`capture-entry-item waste-entry ${index === 0 ? 'latest' : ''}`}>
                             <div className="entry-main">
-                              <span className="entry-value">{entry.waste}</span>
-                              <span className="entry-unit">kg</span>
+                              <span className="entry-value">{entry.quantity ?? entry.waste}</span>
+                              <span className="entry-unit">{entry.unit || 'kg'}</span>
                             </div>
-                            <span className="entry-type">{entry.wasteType}</span>
+                            <span className="entry-type">
+                              {entry.wasteType}
+                              {entry.unit && entry.unit !== 'kg' && ` · ${entry.waste.toFixed(2)} kg`}
+                            </span>
                             <span className="entry-time">
                               {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                             </span>
@@ -1593,26 +2057,40 @@ const CaptureScreen: React.FC = () => {
                     <span className="btn-icon">+</span>
                     Record Sachet Mass
                   </button>
+                  {productSpec?.targetMass && massLimits && (
+                    <div className="sachet-target">
+                      Target {productSpec.targetMass} g · spec {massLimits.lower.toFixed(1)}–{massLimits.upper.toFixed(1)} g
+                    </div>
+                  )}
+                  {sachetMassEntries.length > 1 && (
+                    <SpcChart analysis={spc} spec={massLimits} height={180} showRangeChart={false} />
+                  )}
                   {sachetMassEntries.length > 0 && (
                     <div className="capture-entries-list">
-                      {sachetMassEntries.map(entry => (
-                        <div key={entry.id} className={`capture-entry-item ${entry.ignored ? 'ignored' : ''}`}>
-                          <div className="entry-main">
-                            <span className="entry-value">{entry.mass}</span>
-                            <span className="entry-unit">g</span>
+                      {sachetMassEntries.map(entry => {
+                        const massCheck = checkSachetMass(productSpec, entry.mass);
+                        return (
+                          <div key={entry.id} className={`capture-entry-item ${entry.ignored ? 'ignored' : ''} ${massCheck && massCheck !== 'ok' ? 'out-of-spec' : ''}`}>
+                            <div className="entry-main">
+                              <span className="entry-value">{entry.mass}</span>
+                              <span className="entry-unit">g</span>
+                            </div>
+                            {massCheck && massCheck !== 'ok' && (
+                              <span className="entry-type">{massCheck === 'low' ? 'Under' : 'Over'} spec</span>
+                            )}
+                            <span className="entry-time">
+                              {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            </span>
+                            <button
+                              className={`entry-ignore-btn ${entry.ignored ? 'ignored' : ''}`}
+                              onClick={() => handleToggleSachetIgnore(entry.id)}
+                              title={entry.ignored ? 'Include this entry' : 'Ignore this entry'}
+                            >
+                              {entry.ignored ? '↩' : '⊘'}
+                            </button>
                           </div>
-                          <span className="entry-time">
-                            {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                          </span>
-                          <button
-                            className={`entry-ignore-btn ${entry.ignored ? 'ignored' : ''}`}
-                            onClick={() => handleToggleSachetIgnore(entry.id)}
-                            title={entry.ignored ? 'Include this entry' : 'Ignore this entry'}
-                          >
-                            {entry.ignored ? '↩' : '⊘'}
-                          </button>
-                        </div>
-                      ))}
+                        );
+                      })}
                     </div>
                   )}
                 </div>
@@ -1749,6 +2227,24 @@ const CaptureScreen: React.FC = () => {
             </div>
           </div>
 
+          {/* Shift Timeline */}
+          {productionState.startTime && (
+            <div className="charts-card">
+              <h3>Shift Timeline</h3>
+              <StateTimeline
+                timeline={buildStateTimeline({
+                  ...getShiftWindow(productionState.startTime, machineName),
+                  now: new Date(),
+                  production: productionState,
+                  downtimeEntries,
+                  wasteEntries,
+                  palletScanEntries,
+                  activityEvents: getActivityLog().filter(e => e.machine_name === machineName),
+                })}
+              />
+            </div>
+          )}
+
           {/* Charts */}
           <div className="charts-card">
             <h3>Visual Summary</h3>
@@ -1927,18 +2423,26 @@ const CaptureScreen: React.FC = () => {
               </h3>
               <p className="modal-description">
                 The shift has changed to <strong>{shift}</strong> shift.
-                Please enter the new operator's name or number.
+                The new operator must scan their badge or enter their PIN.
               </p>
               <div className="modal-form">
-                <label className="modal-label">New Operator Name/Number</label>
-                <input
-                  type="text"
-                  className="modal-input"
-                  placeholder="Enter operator name or number..."
-                  value={newOperatorName}
-                  onChange={e => setNewOperatorName(e.target.value)}
-                  autoFocus
-                />
+                <label className="modal-label">New Operator</label>
+                <div className="operator-field">
+                  <input
+                    type="text"
+                    className="modal-input"
+                    placeholder="Not identified yet"
+                    value={newOperator?.name || ''}
+                    readOnly
+                  />
+                  <button
+                    type="button"
+                    className="operator-identify-btn"
+                    onClick={() => setIdentifyFor('shiftChange')}
+                  >
+                    Identify
+                  </button>
+                </div>
               </div>
               <div className="shift-change-info">
                 <p><strong>Current Order:</strong> {orderNumber}</p>
@@ -1948,7 +2452,7 @@ const CaptureScreen: React.FC = () => {
                 <button
                   className="modal-btn confirm"
                   onClick={handleShiftChangeConfirm}
-                  disabled={!newOperatorName.trim()}
+                  disabled={!newOperator}
                 >
                   Confirm Operator Change
                 </button>
@@ -1990,6 +2494,20 @@ const CaptureScreen: React.FC = () => {
                   autoFocus
                 />
               </div>
+              {lineSpeedChanges.length > 0 && (
+                <div className="line-speed-history">
+                  <span className="line-speed-history-title">Line speed this shift</span>
+                  {lineSpeedChanges.slice().reverse().map(change => (
+                    <div key={change.id} className="line-speed-history-item">
+                      <span className="line-speed-history-time">{format(change.changedAt, 'HH:mm')}</span>
+                      <strong>{change.speed} PPM</strong>
+                      <span className="line-speed-history-by">
+                        {change.machineName}{change.operatorName ? ` · ${change.operatorName}` : ''}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="modal-actions">
                 <button
                   className="modal-btn cancel"
@@ -2032,7 +2550,10 @@ const CaptureScreen: React.FC = () => {
                 Record Sachet Mass
               </h3>
               <div className="modal-form">
-                <label className="modal-label">Mass (grams)</label>
+                <label className="modal-label">
+                  Mass (grams)
+                  {massLimits && ` · spec ${massLimits.lower.toFixed(1)}–${massLimits.upper.toFixed(1)} g`}
+                </label>
                 <input
                   type="number"
                   step="0.1"
@@ -2087,24 +2608,22 @@ const CaptureScreen: React.FC = () => {
               <div className="modal-form">
                 <div className="form-row">
                   <label className="modal-label">Waste Type</label>
-                  <select
+                  <WasteTypeSelect
                     className="modal-select"
                     value={wasteType}
-                    onChange={e => setWasteType(e.target.value)}
-                  >
-                    <option value="">Select waste type...</option>
-                    {WASTE_TYPES.map(type => (
-                      <option key={type} value={type}>{type}</option>
-                    ))}
-                  </select>
+                    onChange={setWasteType}
+                    product={product}
+                  />
                 </div>
                 <div className="form-row">
-                  <label className="modal-label">Weight (kg)</label>
+                  <label className="modal-label">
+                    {!wasteType || wasteType.unit === 'kg' ? 'Weight (kg)' : `Quantity (${wasteType.unit})`}
+                  </label>
                   <input
                     type="number"
-                    step="0.1"
+                    step={wasteType?.unit === 'units' ? 1 : 0.1}
                     className="modal-input"
-                    placeholder="Enter weight in kg..."
+                    placeholder={!wasteType || wasteType.unit === 'kg' ? 'Enter weight in kg...' : `Enter quantity in ${wasteType.unit}...`}
                     value={waste}
                     onChange={e => setWaste(e.target.value ? Number(e.target.value) : '')}
                     min={0}
@@ -2117,7 +2636,7 @@ const CaptureScreen: React.FC = () => {
                   onClick={() => {
                     setShowWasteModal(false);
                     setWaste('');
-                    setWasteType('');
+                    setWasteType(null);
                   }}
                 >
                   Cancel
@@ -2159,16 +2678,12 @@ const CaptureScreen: React.FC = () => {
               <div className="modal-form">
                 <div className="form-row">
                   <label className="modal-label">Downtime Reason</label>
-                  <select
+                  <DowntimeReasonSelect
                     className="modal-select"
                     value={downtimeReason}
-                    onChange={e => setDowntimeReason(e.target.value)}
-                  >
-                    <option value="">Select reason...</option>
-                    {DOWNTIME_REASONS.map(reason => (
-                      <option key={reason} value={reason}>{reason}</option>
-                    ))}
-                  </select>
+                    onChange={setDowntimeReason}
+                    machineIds={[machineId, parentMachineId]}
+                  />
                 </div>
                 <div className="form-row">
                   <label className="modal-label">Duration (minutes)</label>
@@ -2188,7 +2703,7 @@ const CaptureScreen: React.FC = () => {
                   onClick={() => {
                     setShowDowntimeModal(false);
                     setDowntime('');
-                    setDowntimeReason('');
+                    setDowntimeReason(null);
                   }}
                 >
                   Cancel
@@ -2238,26 +2753,19 @@ const CaptureScreen: React.FC = () => {
                 </div>
                 <div className="form-row">
                   <label className="modal-label">What was the reason for this downtime?</label>
-                  <select
+                  <DowntimeReasonSelect
                     className="modal-select"
                     value={pauseDowntimeReason}
-                    onChange={e => setPauseDowntimeReason(e.target.value)}
+                    onChange={handlePauseReasonChange}
+                    machineIds={[machineId, parentMachineId]}
                     autoFocus
-                  >
-                    <option value="">Select reason...</option>
-                    {DOWNTIME_REASONS.map(reason => (
-                      <option key={reason} value={reason}>{reason}</option>
-                    ))}
-                  </select>
+                  />
                 </div>
               </div>
               <div className="modal-actions">
                 <button
                   className="modal-btn cancel"
-                  onClick={() => {
-                    setShowContinueModal(false);
-                    setPauseDowntimeReason('');
-                  }}
+                  onClick={() => setShowContinueModal(false)}
                 >
                   Cancel
                 </button>
@@ -2300,19 +2808,19 @@ const CaptureScreen: React.FC = () => {
               </p>
               <div className="modal-form">
                 <div className="form-row">
-                  <label className="modal-label">Batch Number (5 digits)</label>
+                  <label className="modal-label">Batch Number</label>
                   <input
                     type="text"
                     className="modal-input"
                     placeholder="e.g., 12345"
                     value={looseCasesBatchInput}
-                    onChange={e => {
-                      const value = e.target.value.replace(/\D/g, '').slice(0, 5);
-                      setLooseCasesBatchInput(value);
-                    }}
-                    maxLength={5}
+                    onChange={e => setLooseCasesBatchInput(e.target.value.replace(/\s/g, '').slice(0, 20))}
+                    maxLength={20}
                     autoFocus
                   />
+                  {looseCasesBatchInput && looseCasesBatchError && (
+                    <span className="modal-hint">{looseCasesBatchError}</span>
+                  )}
                 </div>
                 <div className="form-row">
                   <label className="modal-label">Number of Cases</label>
@@ -2340,7 +2848,7 @@ const CaptureScreen: React.FC = () => {
                 <button
                   className="modal-btn confirm"
                   onClick={handleLooseCasesSubmit}
-                  disabled={looseCasesBatchInput.length !== 5 || !looseCasesQuantityInput || looseCasesQuantityInput <= 0}
+                  disabled={!!looseCasesBatchError || !looseCasesQuantityInput || looseCasesQuantityInput <= 0}
                 >
                   Add Cases
                 </button>
@@ -2350,6 +2858,14 @@ const CaptureScreen: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {/* Operator badge / PIN identification */}
+      <OperatorIdentify
+        isOpen={identifyFor !== null}
+        onClose={() => setIdentifyFor(null)}
+        onIdentified={operator => handleOperatorIdentified(operator)}
+        title={identifyFor === 'shiftChange' ? `Identify ${shift} Shift Operator` : 'Identify Operator'}
+      />
+
       {/* QR Scanner for Pallet Scans */}
       <QRScanner
         isOpen={showQRScanner}
@@ -2380,10 +2896,12 @@ const CaptureScreen: React.FC = () => {
                 Select Order
               </h3>
               <p className="modal-description">
-                Choose an order from the queue (sorted by priority)
+                {isSessionLocked
+                  ? 'Choose the next order - the line stops for a changeover until you mark it complete'
+                  : 'Choose an order from the queue (sorted by priority)'}
               </p>
               <div className="order-queue-list">
-                {availableOrders.map((order, index) => (
+                {queuedOrders.map((order, index) => (
                   <button
                     key={order.id}
                     className={`order-queue-item ${orderNumber === order.order_number ? 'selected' : ''}`}
@@ -2395,6 +2913,11 @@ const CaptureScreen: React.FC = () => {
                       <span className="order-product">{order.product}</span>
                       <span className="order-batch">Batch: {order.batch_number}</span>
                     </div>
+                    {getOrderStatus(order) !== 'queued' && (
+                      <span className={`order-status-chip ${getOrderStatus(order)}`}>
+                        {ORDER_STATUS_LABELS[getOrderStatus(order)]}
+                      </span>
+                    )}
                     {orderNumber === order.order_number && (
                       <span className="order-selected-badge">✓</span>
                     )}
@@ -2423,6 +2946,20 @@ const CaptureScreen: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {/* Next queued order once the current one is complete */}
+      <ConfirmDialog
+        isOpen={nextOrderOffer !== null}
+        title="Order Complete"
+        message={nextOrderOffer
+          ? `Start the next queued order ${nextOrderOffer.order_number} (${nextOrderOffer.product}, batch ${nextOrderOffer.batch_number})?`
+          : ''}
+        confirmText="Start Next Order"
+        cancelText="Not Now"
+        onConfirm={handleStartNextOrder}
+        onCancel={() => setNextOrderOffer(null)}
+        type="success"
+      />
+
       {/* Add Order Modal */}
       <AddOrderModal
         isOpen={showAddOrderModal}
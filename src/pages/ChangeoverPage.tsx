@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format, subDays } from 'date-fns';
+import { PageSkeleton } from '../components/LoadingSkeleton';
+import { getMachinesData } from '../lib/storage';
+import { loadChangeovers, summarizeChangeovers, getChangeoverMinutes, ChangeoverEvent } from '../lib/changeovers';
+import { logError } from '../lib/errorMonitoring';
+
+const PERIODS = [7, 30, 90];
+
+const formatMinutes = (minutes: number): string =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m` : `${Math.round(minutes)}m`;
+
+const ChangeoverPage: React.FC = () => {
+  const navigate = useNavigate();
+  const machines = useMemo(() => getMachinesData(), []);
+  const [machine, setMachine] = useState('');
+  const [days, setDays] = useState(30);
+  const [events, setEvents] = useState<ChangeoverEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    loadChangeovers(subDays(new Date(), days), machine || undefined)
+      .then(data => {
+        if (!cancelled) setEvents(data);
+      })
+      .catch(e => {
+        logError('Failed to load changeovers', { context: String(e) });
+        if (!cancelled) setEvents([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [machine, days]);
+
+  const pairs = useMemo(() => summarizeChangeovers(events), [events]);
+  const finished = events.filter(e => e.endedAt);
+  const totalMinutes = finished.reduce((sum, e) => sum + (getChangeoverMinutes(e) || 0), 0);
+  const openCount = events.length - finished.length;
+
+  return (
+    <motion.div
+      className="history-page-v2"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <header className="history-header-v2">
+        <div className="header-left-v2">
+          <button className="back-btn-v2" onClick={() => navigate('/')}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M19 12H5M12 19l-7-7 7-7"/>
+            </svg>
+            Dashboard
+          </button>
+          <div className="header-titles">
+            <h1>Changeovers</h1>
+            <span className="header-subtitle">
+              {machine || 'All machines'} · last {days} days
+            </span>
+          </div>
+        </div>
+      </header>
+
+      <main className="history-main">
+        <div className="history-filters-v2">
+          <div className="filter-group-v2">
+            <label htmlFor="changeover-machine">Machine</label>
+            <select
+              id="changeover-machine"
+              className="history-filter-input"
+              value={machine}
+              onChange={e => setMachine(e.target.value)}
+            >
+              <option value="">All machines</option>
+              {machines.map(m => (
+                <option key={m.id} value={m.name}>{m.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="filter-group-v2">
+            <label>Time Period</label>
+            <div className="filter-pills">
+              {PERIODS.map(period => (
+                <button
+                  key={period}
+                  className={`filter-pill ${days === period ? 'active' : ''}`}
+                  onClick={() => setDays(period)}
+                >
+                  {period} Days
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {isLoading && <PageSkeleton />}
+
+        {!isLoading && (
+          <>
+            <div className="history-stats-v2">
+              <div className="stat-card-v2">
+                <span className="stat-value-v2">{finished.length}</span>
+                <span className="stat-label-v2">Changeovers</span>
+              </div>
+              <div className="stat-card-v2">
+                <span className="stat-value-v2">
+                  {finished.length > 0 ? formatMinutes(totalMinutes / finished.length) : '—'}
+                </span>
+                <span className="stat-label-v2">Average</span>
+              </div>
+              <div className="stat-card-v2 waste">
+                <span className="stat-value-v2">{formatMinutes(totalMinutes)}</span>
+                <span className="stat-label-v2">Total Lost</span>
+              </div>
+            </div>
+
+            {openCount > 0 && (
+              <p className="spc-note">
+                {openCount} changeover{openCount === 1 ? ' is' : 's are'} still running and not included.
+              </p>
+            )}
+
+            {pairs.length === 0 ? (
+              <div className="empty-state-v2">
+                <h3>No changeovers found</h3>
+                <p>No changeovers were finished in the selected time period.</p>
+              </div>
+            ) : (
+              <div className="table-wrapper">
+                <table className="history-table-v2 changeover-table">
+                  <thead>
+                    <tr>
+                      <th>From</th>
+                      <th>To</th>
+                      <th>Count</th>
+                      <th>Median</th>
+                      <th>Average</th>
+                      <th>Shortest</th>
+                      <th>Longest</th>
+                      <th>Total</th>
+                      <th>Last</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pairs.map(pair => (
+                      <tr key={`${pair.fromProduct}→${pair.toProduct}`}>
+                        <td>{pair.fromProduct}</td>
+                        <td>{pair.toProduct}</td>
+                        <td>{pair.count}</td>
+                        <td>{formatMinutes(pair.medianMinutes)}</td>
+                        <td>{formatMinutes(pair.averageMinutes)}</td>
+                        <td>{formatMinutes(pair.minMinutes)}</td>
+                        <td>{formatMinutes(pair.maxMinutes)}</td>
+                        <td className="changeover-total">{formatMinutes(pair.totalMinutes)}</td>
+                        <td>{format(pair.lastAt, 'dd MMM HH:mm')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </motion.div>
+  );
+};
+
+export default ChangeoverPage;
@@ -2,12 +2,30 @@ import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { format } from 'date-fns';
-import { getMachinesData, getTodayStats, getShiftHistory, initializeMachines, subscribeToMachineUpdates, maybeRunCleanup, retryFailedSubmissions, getFailedSubmissions } from '../lib/storage';
+import { getMachinesData, getTodayStats, getShiftHistory, initializeMachines, subscribeToMachineUpdates, maybeRunCleanup, getParentMachineName } from '../lib/storage';
 import { fetchActiveSessions, subscribeToSessionChanges, LiveSession, subscribeToActivityFeed, ActivityEvent } from '../lib/liveSession';
 import { isSupabaseConfigured, getRecentSubmissions } from '../lib/supabase';
-import { Machine, ShiftData } from '../types';
+import { calculateCurrentRunTime, fetchSessionHeartbeats } from '../lib/sessionManager';
+import { deriveMachineStatus, rollUpMachineStatus, publishMachineStatus, MACHINE_STATUS_LABELS, MachineStatusInfo } from '../lib/machineStatus';
+import { calculateOEE, summarizeOEE, formatOEEPercent } from '../lib/oee';
+import { useProducts, findProduct } from '../lib/products';
+import { getCurrentShift, getSessionKey } from '../lib/shiftUtils';
+import { formatFacilityTime } from '../lib/facilitySettings';
+import {
+  getSubMachines,
+  getMachineLabel,
+  getSubMachineLabel,
+  findMachineByName,
+  groupByLevel,
+  usePlantUnits,
+  HIERARCHY_LEVEL_LABELS,
+  HierarchyGroup,
+} from '../lib/machineHierarchy';
+import { useAuth, hasRole, signOut } from '../lib/auth';
+import { LiveMachineStatus, Machine, PlantUnitLevel, ShiftData } from '../types';
 import MachineSettingsModal from '../components/MachineSettingsModal';
 import SubMachineModal from '../components/SubMachineModal';
+import ActivityFeed from '../components/ActivityFeed';
 
 // Type for recent submissions from Supabase
 interface RecentSubmission {
@@ -62,12 +80,16 @@ const PulseIndicator: React.FC<{ color: string }> = ({ color }) => (
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [currentTime, setCurrentTime] = useState(new Date());
   const [shift, setShift] = useState('');
   const [machines, setMachines] = useState<Machine[]>([]);
+  const products = useProducts();
   const [todayStats, setTodayStats] = useState({ totalWaste: 0, totalDowntime: 0, submissionCount: 0 });
   const [recentHistory, setRecentHistory] = useState<ShiftData[]>([]);
   const [selectedView, setSelectedView] = useState<'grid' | 'list'>('grid');
+  const [groupLevel, setGroupLevel] = useState<PlantUnitLevel | ''>('');
+  const plantUnits = usePlantUnits();
   const [showSettings, setShowSettings] = useState(false);
   const [selectedMachineForSub, setSelectedMachineForSub] = useState<Machine | null>(null);
   const [, setIsLoading] = useState(true); // Used only for setting, UI shows content after load
@@ -76,6 +98,7 @@ const Dashboard: React.FC = () => {
   const [activeSessions, setActiveSessions] = useState<LiveSession[]>([]);
   const [recentSubmissions, setRecentSubmissions] = useState<RecentSubmission[]>([]);
   const [activityEvents, setActivityEvents] = useState<ActivityEvent[]>([]);
+  const [heartbeats, setHeartbeats] = useState<Map<string, Date> | null>(null);
   const longPressTimerRef = React.useRef<NodeJS.Timeout | null>(null);
   const LONG_PRESS_DURATION = 500; // ms
 
@@ -91,42 +114,84 @@ const Dashboard: React.FC = () => {
   // Helper function to detect active sub-machine sessions
   // live_sessions is the source of truth for cross-browser sync
   // localStorage is only used as offline fallback
-  const getActiveSubMachines = useCallback((machineName: string, subMachineCount: number, _machineId?: string): Set<number> => {
+  const getActiveSubMachines = useCallback((machine: Machine): Set<number> => {
     const activeSet = new Set<number>();
+    const subMachines = getSubMachines(machine);
 
     // Check Supabase live_sessions - this is the source of truth
-    for (let i = 1; i <= subMachineCount; i++) {
-      const fullName = `${machineName} - Machine ${i}`;
-      const isActive = activeSessions.some(s => s.machine_name === fullName && s.is_locked);
+    subMachines.forEach(sub => {
+      const isActive = activeSessions.some(s => s.machine_name === sub.name && s.is_locked);
       if (isActive) {
-        activeSet.add(i);
+        activeSet.add(sub.number);
       }
-    }
+    });
 
     // If no Supabase data, fallback to localStorage (offline mode only)
     if (activeSet.size === 0 && !isSupabaseConfigured) {
-      const today = new Date().toISOString().split('T')[0];
-      const hours = new Date().getUTCHours() + 2;
-      const currentShift = hours >= 6 && hours < 18 ? 'Day' : 'Night';
-
-      for (let i = 1; i <= subMachineCount; i++) {
-        const fullName = `${machineName} - Machine ${i}`;
-        const sessionKey = `shift_session_${fullName}_${currentShift}_${today}`;
+      subMachines.forEach(sub => {
+        const sessionKey = getSessionKey(sub.name);
         const session = localStorage.getItem(sessionKey);
         if (session) {
           try {
             const parsed = JSON.parse(session);
-            if (parsed.locked) activeSet.add(i);
+            if (parsed.locked) activeSet.add(sub.number);
           } catch (e) {
-            console.warn(`Invalid session data for ${fullName}:`, e);
+            console.warn(`Invalid session data for ${sub.name}:`, e);
           }
         }
-      }
+      });
     }
 
     return activeSet;
   }, [activeSessions]);
 
+  // A machine's locked live session - from this device's session when
+  // Supabase is not configured
+  const getMachineSession = useCallback((machineName: string): Pick<LiveSession, 'is_locked' | 'operator_name' | 'production_timer'> | null => {
+    const session = activeSessions.find(s => s.machine_name === machineName && s.is_locked);
+    if (session || isSupabaseConfigured) return session || null;
+
+    try {
+      const stored = localStorage.getItem(getSessionKey(machineName));
+      const parsed = stored ? JSON.parse(stored) : null;
+      return parsed?.locked ? { is_locked: true, operator_name: parsed.operatorName, production_timer: null } : null;
+    } catch {
+      return null;
+    }
+  }, [activeSessions]);
+
+  // Status of every machine and sub-machine by ID, derived from its live
+  // session, production timer and tablet heartbeat (parents roll up their
+  // sub-machines)
+  const machineStatuses = useMemo(() => {
+    const statuses = new Map<string, MachineStatusInfo>();
+    const now = Date.now();
+    const deriveFor = (name: string, manualStatus?: Machine['status']) => deriveMachineStatus({
+      manualStatus,
+      session: getMachineSession(name),
+      heartbeatAt: heartbeats ? heartbeats.get(name) || null : undefined,
+      now,
+    });
+
+    machines.forEach(machine => {
+      const subMachines = getSubMachines(machine);
+      if (subMachines.length === 0) {
+        statuses.set(machine.id, deriveFor(machine.name, machine.status));
+        return;
+      }
+      const subStatuses = subMachines.map(sub => {
+        const info = deriveFor(sub.name, machine.status);
+        statuses.set(sub.id, info);
+        return info;
+      });
+      statuses.set(machine.id, rollUpMachineStatus(subStatuses, machine.status));
+    });
+    return statuses;
+  }, [machines, getMachineSession, heartbeats]);
+
+  const getMachineStatus = (machine: Machine): MachineStatusInfo =>
+    machineStatuses.get(machine.id) || { status: 'idle' };
+
   const loadData = useCallback(() => {
     const machineData = getMachinesData();
     setMachines(machineData);
@@ -168,20 +233,6 @@ const Dashboard: React.FC = () => {
             console.warn('Failed to fetch recent submissions:', err);
           }
         }
-
-        // Retry any failed submissions in background
-        const failedCount = getFailedSubmissions().length;
-        if (failedCount > 0) {
-          console.log(`Retrying ${failedCount} failed submissions...`);
-          retryFailedSubmissions().then(result => {
-            if (result.succeeded > 0) {
-              console.log(`Successfully synced ${result.succeeded} previously failed submissions`);
-            }
-            if (result.remaining > 0) {
-              console.warn(`${result.remaining} submissions still pending retry`);
-            }
-          });
-        }
       } catch (error) {
         console.error('Failed to initialize:', error);
         loadData(); // Fallback to localStorage
@@ -221,18 +272,44 @@ const Dashboard: React.FC = () => {
     const timer = setInterval(() => {
       const now = new Date();
       setCurrentTime(now);
-      // Update shift based on current time
-      const hours = now.getUTCHours() + 2;
-      setShift(hours >= 6 && hours < 18 ? 'Day' : 'Night');
+      // Update shift based on the facility default shift pattern
+      setShift(getCurrentShift(now));
     }, 1000);
 
     // Set initial shift
-    const initialHours = new Date().getUTCHours() + 2;
-    setShift(initialHours >= 6 && initialHours < 18 ? 'Day' : 'Night');
+    setShift(getCurrentShift());
 
     return () => clearInterval(timer);
   }, []);
 
+  // Tablet heartbeats, polled as often as tablets send them
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => fetchSessionHeartbeats().then(result => {
+      if (!cancelled) setHeartbeats(result);
+    });
+
+    refresh();
+    const timer = setInterval(refresh, 30000);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  // Write derived statuses to the machine rows - only changes are sent
+  useEffect(() => {
+    if (!hasRole(user, 'operator')) return;
+    machines.forEach(machine => {
+      const subMachines = getSubMachines(machine);
+      [machine, ...subMachines].forEach(unit => {
+        const info = machineStatuses.get(unit.id);
+        const operatorName = activeSessions.find(s => s.machine_name === unit.name)?.operator_name;
+        if (info) publishMachineStatus(unit.id, info, operatorName);
+      });
+    });
+  }, [user, machines, machineStatuses, activeSessions]);
+
   const handleMachineClick = (machine: Machine) => {
     if (machine.status === 'maintenance') return;
 
@@ -245,14 +322,16 @@ const Dashboard: React.FC = () => {
   };
 
   const handleSubMachineSelect = (machine: Machine, subMachineNumber: number, isActive: boolean) => {
-    const fullName = `${machine.name} - Machine ${subMachineNumber}`;
+    const subMachine = getSubMachines(machine).find(sub => sub.number === subMachineNumber);
+    if (!subMachine) return;
+    const fullName = subMachine.name;
 
     // Note: isActive is for visual display only - machine is still clickable to continue session
 
     if (multiSelectMode) {
       // Only allow selection from the same parent group
       if (selectedMachines.length > 0) {
-        const firstSelectedParent = selectedMachines[0].split(' - ')[0];
+        const firstSelectedParent = getParentMachineName(selectedMachines[0]);
         if (machine.name !== firstSelectedParent) {
           // Different group - don't allow
           return;
@@ -267,7 +346,7 @@ const Dashboard: React.FC = () => {
       );
     } else {
       // Direct navigation - use submachine ID for proper status tracking
-      const subMachineId = `${machine.id}-sub-${subMachineNumber}`;
+      const subMachineId = subMachine.id;
       navigate(`/capture/${subMachineId}`, {
         state: {
           machineName: fullName,
@@ -285,7 +364,7 @@ const Dashboard: React.FC = () => {
     if (selectedMachines.length === 0) return;
 
     // Extract parent group from first selected machine
-    const parentGroup = selectedMachines[0].split(' - ')[0];
+    const parentGroup = getParentMachineName(selectedMachines[0]);
 
     navigate(`/capture/multi`, {
       state: {
@@ -299,7 +378,8 @@ const Dashboard: React.FC = () => {
   // Long-press handlers for entering multi-select mode
   const handleLongPressStart = (machine: Machine, subMachineNumber: number, isActive: boolean) => {
     // isActive is kept for future use but doesn't block interaction
-    const fullName = `${machine.name} - Machine ${subMachineNumber}`;
+    const fullName = getSubMachines(machine).find(sub => sub.number === subMachineNumber)?.name;
+    if (!fullName) return;
 
     longPressTimerRef.current = setTimeout(() => {
       // Enter multi-select mode and select this machine
@@ -322,78 +402,119 @@ const Dashboard: React.FC = () => {
 
   // Get the parent group of currently selected machines (for highlighting)
   const selectedParentGroup = selectedMachines.length > 0
-    ? selectedMachines[0].split(' - ')[0]
+    ? getParentMachineName(selectedMachines[0])
     : null;
 
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: LiveMachineStatus) => {
     switch (status) {
       case 'running': return '#00ff88';
       case 'idle': return '#00f5ff';
+      case 'paused': return '#ffb800';
+      case 'changeover': return '#bf7dff';
+      case 'no_operator': return '#ff8c42';
       case 'maintenance': return '#ff4757';
       default: return '#00f5ff';
     }
   };
 
-  const getStatusGradient = (status: string) => {
+  const getStatusGradient = (status: LiveMachineStatus) => {
     switch (status) {
       case 'running': return 'linear-gradient(135deg, #00ff88 0%, #00cc6a 100%)';
       case 'idle': return 'linear-gradient(135deg, #00f5ff 0%, #00c4cc 100%)';
+      case 'paused': return 'linear-gradient(135deg, #ffb800 0%, #cc9300 100%)';
+      case 'changeover': return 'linear-gradient(135deg, #bf7dff 0%, #9a5ccc 100%)';
+      case 'no_operator': return 'linear-gradient(135deg, #ff8c42 0%, #cc6f33 100%)';
       case 'maintenance': return 'linear-gradient(135deg, #ff4757 0%, #cc3945 100%)';
       default: return 'linear-gradient(135deg, #00f5ff 0%, #00c4cc 100%)';
     }
   };
 
-  // Calculate efficiency (running / total * 100) - considering group machines with active sub-machines
-  const efficiency = useMemo(() => {
-    let running = 0;
-    let total = 0;
-
-    machines.forEach(machine => {
-      if (machine.status !== 'maintenance') {
-        total++;
-        // Check if group machine has any active sub-machines
-        const hasActiveSubMachines = machine.subMachineCount && machine.subMachineCount > 0
-          ? getActiveSubMachines(machine.name, machine.subMachineCount, machine.id).size > 0
-          : false;
-
-        if (machine.status === 'running' || hasActiveSubMachines) {
-          running++;
-        }
-      }
+  // Plant OEE from live sessions - each session contributes its own availability,
+  // performance (against the product's rated speed, else the machine's) and quality
+  const plantOEE = useMemo(() => {
+    const results = activeSessions.map(session => {
+      const machine = machines.find(m => m.name === session.machine_name)
+        || machines.find(m => m.name === getParentMachineName(session.machine_name));
+      const productSpec = findProduct(products, session.product);
+      return calculateOEE({
+        runTimeMs: session.production_timer ? calculateCurrentRunTime(session.production_timer, currentTime.getTime()) : 0,
+        downtimeEntries: session.downtime_entries || [],
+        speedEntries: session.speed_entries || [],
+        ratedSpeed: productSpec?.ratedSpeed ?? machine?.ratedSpeed,
+        palletScanEntries: session.pallet_scan_entries || [],
+        looseCasesEntries: session.loose_cases_entries || [],
+        wasteEntries: session.waste_entries || [],
+        sachetMassEntries: session.sachet_mass_entries || [],
+        unitsPerCase: productSpec?.sachetsPerCase ?? machine?.unitsPerCase,
+      });
     });
+    return summarizeOEE(results);
+  }, [activeSessions, machines, products, currentTime]);
 
-    return total > 0 ? Math.round((running / total) * 100) : 0;
-  }, [machines, getActiveSubMachines]);
+  const oeePercent = plantOEE.oee !== null ? Math.round(plantOEE.oee * 100) : 0;
 
-  // Calculate running/idle counts considering group machines with active sub-machines
+  // Machines by derived status - paused, changeover and no operator count as stopped
   const machineStatusCounts = useMemo(() => {
     let running = 0;
     let idle = 0;
+    let stopped = 0;
     let maintenance = 0;
 
     machines.forEach(machine => {
-      if (machine.status === 'maintenance') {
-        maintenance++;
-      } else {
-        // Check if group machine has any active sub-machines
-        const hasActiveSubMachines = machine.subMachineCount && machine.subMachineCount > 0
-          ? getActiveSubMachines(machine.name, machine.subMachineCount, machine.id).size > 0
-          : false;
+      const { status } = machineStatuses.get(machine.id) || { status: 'idle' };
+      if (status === 'running') running++;
+      else if (status === 'idle') idle++;
+      else if (status === 'maintenance') maintenance++;
+      else stopped++;
+    });
 
-        if (machine.status === 'running' || hasActiveSubMachines) {
-          running++;
+    return { running, idle, stopped, maintenance };
+  }, [machines, machineStatuses]);
+
+  // Machines grouped by site, area or line, with running count, waste and
+  // downtime rolled up for each group
+  const machineGroups = useMemo((): (HierarchyGroup<Machine> & { running: number; waste: number; downtime: number })[] => {
+    const groups = groupLevel
+      ? groupByLevel(groupLevel, machines, m => m.name, machines, plantUnits)
+      : [{ key: 'all', label: '', items: machines }];
+
+    return groups.map(group => {
+      let running = 0;
+      let waste = 0;
+      let downtime = 0;
+      group.items.forEach(machine => {
+        const activeSubMachines = getActiveSubMachines(machine);
+        if (machineStatuses.get(machine.id)?.status === 'running') running++;
+        if (activeSubMachines.size > 0) {
+          getSubMachines(machine)
+            .filter(sub => activeSubMachines.has(sub.number))
+            .forEach(sub => {
+              const session = activeSessions.find(s => s.machine_name === sub.name);
+              waste += session?.total_waste || 0;
+              downtime += session?.total_downtime || 0;
+            });
         } else {
-          idle++;
+          waste += machine.todayWaste || 0;
+          downtime += machine.todayDowntime || 0;
         }
-      }
+      });
+      return { ...group, running, waste, downtime };
     });
-
-    return { running, idle, maintenance };
-  }, [machines, getActiveSubMachines]);
+  }, [groupLevel, machines, plantUnits, activeSessions, getActiveSubMachines, machineStatuses]);
+
+  const renderGroupHeader = (group: typeof machineGroups[number]) => groupLevel ? (
+    <div className="machine-group-header">
+      <span className="machine-group-name">{group.label}</span>
+      <span className="machine-group-stat">{group.running}/{group.items.length} running</span>
+      <span className="machine-group-stat waste">{group.waste.toFixed(1)} kg</span>
+      <span className="machine-group-stat downtime">{group.downtime} min</span>
+    </div>
+  ) : null;
 
   const runningCount = machineStatusCounts.running;
   const idleCount = machineStatusCounts.idle;
+  const stoppedCount = machineStatusCounts.stopped;
   const maintenanceCount = machineStatusCounts.maintenance;
 
   // State for activity drawer
@@ -417,17 +538,21 @@ const Dashboard: React.FC = () => {
 
         {/* Integrated Stats Bar */}
         <div className="nav-stats">
-          <div className="nav-stat efficiency">
+          <div
+            className="nav-stat efficiency"
+            title={`Availability ${formatOEEPercent(plantOEE.availability)} · Performance ${formatOEEPercent(plantOEE.performance)} · Quality ${formatOEEPercent(plantOEE.quality)}`}
+          >
             <svg viewBox="0 0 36 36" className="efficiency-mini-ring">
               <circle cx="18" cy="18" r="15" className="ring-bg-mini" />
               <circle
                 cx="18" cy="18" r="15"
                 className="ring-progress-mini"
-                strokeDasharray={`${efficiency * 0.94} 94`}
-                style={{ stroke: efficiency > 70 ? '#10b981' : efficiency > 40 ? '#f59e0b' : '#ef4444' }}
+                strokeDasharray={`${oeePercent * 0.94} 94`}
+                style={{ stroke: oeePercent >= 85 ? '#10b981' : oeePercent >= 60 ? '#f59e0b' : '#ef4444' }}
               />
             </svg>
-            <span className="stat-value-inline">{efficiency}%</span>
+            <span className="stat-value-inline">{formatOEEPercent(plantOEE.oee)}</span>
+            <span className="stat-label-inline">OEE</span>
           </div>
           <div className="nav-stat running">
             <span className="stat-dot"></span>
@@ -439,6 +564,13 @@ const Dashboard: React.FC = () => {
             <span className="stat-value-inline">{idleCount}</span>
             <span className="stat-label-inline">Idle</span>
           </div>
+          {stoppedCount > 0 && (
+            <div className="nav-stat stopped">
+              <span className="stat-dot"></span>
+              <span className="stat-value-inline">{stoppedCount}</span>
+              <span className="stat-label-inline">Stopped</span>
+            </div>
+          )}
           {maintenanceCount > 0 && (
             <div className="nav-stat maintenance">
               <span className="stat-dot"></span>
@@ -451,8 +583,8 @@ const Dashboard: React.FC = () => {
         <div className="nav-center">
           <div className="live-clock">
             <PulseIndicator color="#10b981" />
-            <span className="clock-time">{format(currentTime, 'HH:mm:ss')}</span>
-            <span className="clock-date">{format(currentTime, 'dd MMM yyyy')}</span>
+            <span className="clock-time">{formatFacilityTime(currentTime, { hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' })}</span>
+            <span className="clock-date">{formatFacilityTime(currentTime, { day: '2-digit', month: 'short', year: 'numeric' })}</span>
           </div>
         </div>
 
@@ -470,18 +602,38 @@ const Dashboard: React.FC = () => {
           <button className="nav-btn" onClick={() => navigate('/history')}>
             History
           </button>
-          <button className="nav-btn settings-btn" onClick={() => setShowSettings(true)}>
-            <svg className="settings-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="20" height="20">
-              <circle cx="12" cy="12" r="3" />
-              <path d="M12 1v4M12 19v4M4.22 4.22l2.83 2.83M16.95 16.95l2.83 2.83M1 12h4M19 12h4M4.22 19.78l2.83-2.83M16.95 7.05l2.83-2.83" />
-            </svg>
+          <button className="nav-btn" onClick={() => navigate('/spc')}>
+            SPC
+          </button>
+          <button className="nav-btn" onClick={() => navigate('/trace')}>
+            Trace
+          </button>
+          <button className="nav-btn" onClick={() => navigate('/changeovers')}>
+            Changeovers
           </button>
+          {hasRole(user, 'admin') && (
+            <button className="nav-btn settings-btn" onClick={() => setShowSettings(true)}>
+              <svg className="settings-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="20" height="20">
+                <circle cx="12" cy="12" r="3" />
+                <path d="M12 1v4M12 19v4M4.22 4.22l2.83 2.83M16.95 16.95l2.83 2.83M1 12h4M19 12h4M4.22 19.78l2.83-2.83M16.95 7.05l2.83-2.83" />
+              </svg>
+            </button>
+          )}
+          {user ? (
+            <button className="nav-btn" onClick={signOut} title={`Signed in as ${user.displayName} (${user.role})`}>
+              Sign out
+            </button>
+          ) : (
+            <button className="nav-btn" onClick={() => navigate('/login')}>
+              Sign in
+            </button>
+          )}
         </div>
       </header>
 
       {/* Machine Settings Modal */}
       <MachineSettingsModal
-        isOpen={showSettings}
+        isOpen={showSettings && hasRole(user, 'admin')}
         onClose={() => setShowSettings(false)}
         onMachinesUpdated={loadData}
       />
@@ -492,7 +644,7 @@ const Dashboard: React.FC = () => {
         machine={selectedMachineForSub}
         onClose={() => setSelectedMachineForSub(null)}
         onSelectSubMachine={handleSubMachineSelect}
-        activeSubMachines={selectedMachineForSub ? getActiveSubMachines(selectedMachineForSub.name, selectedMachineForSub.subMachineCount || 0, selectedMachineForSub.id) : new Set()}
+        activeSubMachines={selectedMachineForSub ? getActiveSubMachines(selectedMachineForSub) : new Set()}
       />
 
       <main className="dashboard-main full-width">
@@ -515,6 +667,17 @@ const Dashboard: React.FC = () => {
                   Cancel
                 </button>
               )}
+              <select
+                className="group-by-select"
+                value={groupLevel}
+                onChange={e => setGroupLevel(e.target.value as PlantUnitLevel | '')}
+                aria-label="Group machines by"
+              >
+                <option value="">No grouping</option>
+                {(['site', 'area', 'line'] as PlantUnitLevel[]).map(level => (
+                  <option key={level} value={level}>By {HIERARCHY_LEVEL_LABELS[level].toLowerCase()}</option>
+                ))}
+              </select>
               <div className="view-toggle">
                 <button
                   className={selectedView === 'grid' ? 'active' : ''}
@@ -550,181 +713,186 @@ const Dashboard: React.FC = () => {
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
               >
-                {machines.map((machine, index) => {
-                  // Get active sub-machines first (needed for status calculation)
-                  const activeSubMachines = machine.subMachineCount && machine.subMachineCount > 0
-                    ? getActiveSubMachines(machine.name, machine.subMachineCount, machine.id)
-                    : new Set<number>();
-
-                  // Machine is running if:
-                  // - status is 'running' OR has a current order
-                  // - OR for group machines: any sub-machine is active
-                  const hasActiveSubMachines = activeSubMachines.size > 0;
-                  const isRunning = machine.status === 'running' || !!machine.currentOrder || hasActiveSubMachines;
-                  const isBlocked = isRunning || machine.status === 'maintenance';
-                  const displayStatus = isRunning ? 'running' : machine.status;
-
-                  const handleTileClick = () => {
-                    if (machine.subMachineCount && machine.subMachineCount > 0) return;
-                    // Allow access to running machines (to continue session)
-                    handleMachineClick(machine);
-                  };
-
-                  return (
-                    <motion.div
-                      key={machine.id}
-                      className={`machine-tile ${displayStatus} ${isBlocked ? 'disabled' : ''} ${machine.subMachineCount && machine.subMachineCount > 0 ? 'has-sub-machines' : ''}`}
-                      initial={{ opacity: 0, scale: 0.9 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      transition={{ delay: index * 0.05 }}
-                      onClick={handleTileClick}
-                      whileHover={!isBlocked && !(machine.subMachineCount && machine.subMachineCount > 0) ? { scale: 1.02, y: -4 } : {}}
-                      whileTap={!isBlocked && !(machine.subMachineCount && machine.subMachineCount > 0) ? { scale: 0.98 } : {}}
-                    >
-                      <div
-                        className="tile-glow"
-                        style={{ background: getStatusGradient(displayStatus) }}
-                      />
-                      <div className="tile-content">
-                        <div className="tile-header">
-                          <span className="tile-name">{machine.name}</span>
-                          <div className="tile-status">
-                            <PulseIndicator color={getStatusColor(displayStatus)} />
-                          </div>
-                        </div>
+                {machineGroups.map(group => (
+                  <React.Fragment key={group.key}>
+                    {renderGroupHeader(group)}
+                    {group.items.map((machine, index) => {
+                      const activeSubMachines = machine.subMachineCount && machine.subMachineCount > 0
+                        ? getActiveSubMachines(machine)
+                        : new Set<number>();
+
+                      // Machines with a session in progress or under maintenance are not free to record on
+                      const statusInfo = getMachineStatus(machine);
+                      const displayStatus = statusInfo.status;
+                      const isBlocked = displayStatus !== 'idle';
+
+                      const handleTileClick = () => {
+                        if (machine.subMachineCount && machine.subMachineCount > 0) return;
+                        // Allow access to running machines (to continue session)
+                        handleMachineClick(machine);
+                      };
 
-                        <div className="tile-status-text">
-                          {isRunning ? 'Running' : machine.status.charAt(0).toUpperCase() + machine.status.slice(1)}
-                          {machine.subMachineCount && machine.subMachineCount > 0 && (
-                            <span className="sub-count-badge">
-                              {activeSubMachines.size > 0
-                                ? `${activeSubMachines.size}/${machine.subMachineCount} active`
-                                : `${machine.subMachineCount} units`}
-                            </span>
-                          )}
-                        </div>
+                      return (
+                        <motion.div
+                          key={machine.id}
+                          className={`machine-tile ${displayStatus} ${isBlocked ? 'disabled' : ''} ${machine.subMachineCount && machine.subMachineCount > 0 ? 'has-sub-machines' : ''}`}
+                          initial={{ opacity: 0, scale: 0.9 }}
+                          animate={{ opacity: 1, scale: 1 }}
+                          transition={{ delay: index * 0.05 }}
+                          onClick={handleTileClick}
+                          whileHover={!isBlocked && !(machine.subMachineCount && machine.subMachineCount > 0) ? { scale: 1.02, y: -4 } : {}}
+                          whileTap={!isBlocked && !(machine.subMachineCount && machine.subMachineCount > 0) ? { scale: 0.98 } : {}}
+                        >
+                          <div
+                            className="tile-glow"
+                            style={{ background: getStatusGradient(displayStatus) }}
+                          />
+                          <div className="tile-content">
+                            <div className="tile-header">
+                              <span className="tile-name">{getMachineLabel(machine)}</span>
+                              <div className="tile-status">
+                                <PulseIndicator color={getStatusColor(displayStatus)} />
+                              </div>
+                            </div>
 
-                        {/* For group machines: show info for each active member */}
-                        {machine.subMachineCount && machine.subMachineCount > 0 && activeSubMachines.size > 0 ? (
-                          <div className="active-members-info">
-                            {Array.from(activeSubMachines).sort((a, b) => a - b).map(num => {
-                              const memberName = `${machine.name} - Machine ${num}`;
-                              const memberSession = activeSessions.find(s => s.machine_name === memberName);
-                              return (
-                                <div key={num} className="member-info">
-                                  <span className="member-label">M{num}:</span>
-                                  {memberSession ? (
-                                    <>
-                                      <span className="member-order">{memberSession.order_number}</span>
-                                      <span className="member-operator">({memberSession.operator_name})</span>
-                                    </>
-                                  ) : (
-                                    <span className="member-order">Active</span>
-                                  )}
-                                </div>
-                              );
-                            })}
-                          </div>
-                        ) : (
-                          <>
-                            {/* Show current order if running (single machine) */}
-                            {isRunning && machine.currentOrder && (
-                              <div className="tile-order">Order: {machine.currentOrder}</div>
-                            )}
-                            {machine.currentOperator && (
-                              <div className="tile-operator">{machine.currentOperator}</div>
+                            <div className="tile-status-text">
+                              {MACHINE_STATUS_LABELS[displayStatus]}
+                              {statusInfo.reason && <span className="tile-status-reason">{statusInfo.reason}</span>}
+                              {machine.subMachineCount && machine.subMachineCount > 0 && (
+                                <span className="sub-count-badge">
+                                  {activeSubMachines.size > 0
+                                    ? `${activeSubMachines.size}/${machine.subMachineCount} active`
+                                    : `${machine.subMachineCount} units`}
+                                </span>
+                              )}
+                            </div>
+
+                            {/* For group machines: show info for each active member */}
+                            {machine.subMachineCount && machine.subMachineCount > 0 && activeSubMachines.size > 0 ? (
+                              <div className="active-members-info">
+                                {getSubMachines(machine).filter(sub => activeSubMachines.has(sub.number)).map(sub => {
+                                  const memberSession = activeSessions.find(s => s.machine_name === sub.name);
+                                  const memberStatus = machineStatuses.get(sub.id)?.status || 'idle';
+                                  return (
+                                    <div key={sub.id} className="member-info">
+                                      <span className="member-label">{sub.displayName || `M${sub.number}`}:</span>
+                                      {memberSession ? (
+                                        <>
+                                          <span className="member-order">{memberSession.order_number}</span>
+                                          <span className="member-operator">({memberSession.operator_name})</span>
+                                        </>
+                                      ) : (
+                                        <span className="member-order">Active</span>
+                                      )}
+                                      {memberStatus !== 'running' && (
+                                        <span className={`member-status ${memberStatus}`}>{MACHINE_STATUS_LABELS[memberStatus]}</span>
+                                      )}
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            ) : (
+                              <>
+                                {/* Show current order if running (single machine) */}
+                                {isBlocked && machine.currentOrder && (
+                                  <div className="tile-order">Order: {machine.currentOrder}</div>
+                                )}
+                                {machine.currentOperator && (
+                                  <div className="tile-operator">{machine.currentOperator}</div>
+                                )}
+                              </>
                             )}
-                          </>
-                        )}
-
-                        {/* Today's Stats - Waste & Downtime */}
-                        {machine.subMachineCount && machine.subMachineCount > 0 && activeSubMachines.size > 0 ? (
-                          <div className="members-stats">
-                            {Array.from(activeSubMachines).sort((a, b) => a - b).map(num => {
-                              const memberName = `${machine.name} - Machine ${num}`;
-                              const memberSession = activeSessions.find(s => s.machine_name === memberName);
-                              const memberWaste = memberSession?.total_waste || 0;
-                              const memberDowntime = memberSession?.total_downtime || 0;
-                              return (
-                                <div key={num} className="member-stats-row">
-                                  <span className="member-label">M{num}:</span>
-                                  <div className="tile-stat waste">
-                                    <span className="stat-icon">🗑️</span>
-                                    <span className="stat-value">{memberWaste.toFixed(1)}</span>
-                                    <span className="stat-unit">kg</span>
-                                  </div>
-                                  <div className="tile-stat downtime">
-                                    <span className="stat-icon">⏱️</span>
-                                    <span className="stat-value">{memberDowntime}</span>
-                                    <span className="stat-unit">min</span>
-                                  </div>
+
+                            {/* Today's Stats - Waste & Downtime */}
+                            {machine.subMachineCount && machine.subMachineCount > 0 && activeSubMachines.size > 0 ? (
+                              <div className="members-stats">
+                                {getSubMachines(machine).filter(sub => activeSubMachines.has(sub.number)).map(sub => {
+                                  const memberSession = activeSessions.find(s => s.machine_name === sub.name);
+                                  const memberWaste = memberSession?.total_waste || 0;
+                                  const memberDowntime = memberSession?.total_downtime || 0;
+                                  return (
+                                    <div key={sub.id} className="member-stats-row">
+                                      <span className="member-label">{sub.displayName || `M${sub.number}`}:</span>
+                                      <div className="tile-stat waste">
+                                        <span className="stat-icon">🗑️</span>
+                                        <span className="stat-value">{memberWaste.toFixed(1)}</span>
+                                        <span className="stat-unit">kg</span>
+                                      </div>
+                                      <div className="tile-stat downtime">
+                                        <span className="stat-icon">⏱️</span>
+                                        <span className="stat-value">{memberDowntime}</span>
+                                        <span className="stat-unit">min</span>
+                                      </div>
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            ) : (
+                              <div className="tile-stats">
+                                <div className="tile-stat waste">
+                                  <span className="stat-icon">🗑️</span>
+                                  <span className="stat-value">{machine.todayWaste?.toFixed(1) || '0.0'}</span>
+                                  <span className="stat-unit">kg</span>
                                 </div>
-                              );
-                            })}
-                          </div>
-                        ) : (
-                          <div className="tile-stats">
-                            <div className="tile-stat waste">
-                              <span className="stat-icon">🗑️</span>
-                              <span className="stat-value">{machine.todayWaste?.toFixed(1) || '0.0'}</span>
-                              <span className="stat-unit">kg</span>
-                            </div>
-                            <div className="tile-stat downtime">
-                              <span className="stat-icon">⏱️</span>
-                              <span className="stat-value">{machine.todayDowntime || 0}</span>
-                              <span className="stat-unit">min</span>
-                            </div>
-                          </div>
-                        )}
-
-                        {/* Inline sub-machine selection */}
-                        {machine.subMachineCount && machine.subMachineCount > 0 && machine.status !== 'maintenance' ? (
-                          <div className="sub-machine-inline-grid">
-                            {Array.from({ length: machine.subMachineCount }, (_, i) => i + 1).map(num => {
-                              const fullName = `${machine.name} - Machine ${num}`;
-                              const isActive = activeSubMachines.has(num);
-                              const isSelected = selectedMachines.includes(fullName);
-                              const isOtherGroup = Boolean(multiSelectMode && selectedParentGroup && selectedParentGroup !== machine.name);
-                              // Only disable for other-group, NOT for isActive (reserved machines are still clickable)
-                              const isDisabled = isOtherGroup;
-
-                              return (
-                                <motion.button
-                                  key={num}
-                                  className={`sub-machine-inline-btn ${isActive ? 'busy' : ''} ${isSelected ? 'selected' : ''} ${isDisabled ? 'disabled' : ''}`}
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    handleSubMachineSelect(machine, num, isActive);
-                                  }}
-                                  onMouseDown={() => handleLongPressStart(machine, num, isActive)}
-                                  onMouseUp={handleLongPressEnd}
-                                  onMouseLeave={handleLongPressEnd}
-                                  onTouchStart={() => handleLongPressStart(machine, num, isActive)}
-                                  onTouchEnd={handleLongPressEnd}
-                                  whileHover={!isDisabled ? { scale: 1.1 } : {}}
-                                  whileTap={!isDisabled ? { scale: 0.95 } : {}}
-                                  title={isActive ? 'In Use - Click to continue' : (isOtherGroup ? 'Different group' : (multiSelectMode ? 'Tap to select' : 'Hold to multi-select'))}
-                                  disabled={isDisabled}
-                                >
-                                  {num}
-                                  {isActive && <span className="status-dot busy" />}
-                                  {isSelected && <span className="check-mark">✓</span>}
-                                </motion.button>
-                              );
-                            })}
-                          </div>
-                        ) : (
-                          <div className="tile-footer">
-                            <span className="tile-time">{machine.lastSubmission || 'No entries'}</span>
-                            {machine.status !== 'maintenance' && (
-                              <span className="tile-action">Record →</span>
+                                <div className="tile-stat downtime">
+                                  <span className="stat-icon">⏱️</span>
+                                  <span className="stat-value">{machine.todayDowntime || 0}</span>
+                                  <span className="stat-unit">min</span>
+                                </div>
+                              </div>
+                            )}
+
+                            {/* Inline sub-machine selection */}
+                            {machine.subMachineCount && machine.subMachineCount > 0 && machine.status !== 'maintenance' ? (
+                              <div className="sub-machine-inline-grid">
+                                {getSubMachines(machine).map(sub => {
+                                  const num = sub.number;
+                                  const fullName = sub.name;
+                                  const isActive = activeSubMachines.has(num);
+                                  const isSelected = selectedMachines.includes(fullName);
+                                  const isOtherGroup = Boolean(multiSelectMode && selectedParentGroup && selectedParentGroup !== machine.name);
+                                  // Only disable for other-group, NOT for isActive (reserved machines are still clickable)
+                                  const isDisabled = isOtherGroup;
+
+                                  return (
+                                    <motion.button
+                                      key={sub.id}
+                                      className={`sub-machine-inline-btn ${isActive ? 'busy' : ''} ${isSelected ? 'selected' : ''} ${isDisabled ? 'disabled' : ''}`}
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleSubMachineSelect(machine, num, isActive);
+                                      }}
+                                      onMouseDown={() => handleLongPressStart(machine, num, isActive)}
+                                      onMouseUp={handleLongPressEnd}
+                                      onMouseLeave={handleLongPressEnd}
+                                      onTouchStart={() => handleLongPressStart(machine, num, isActive)}
+                                      onTouchEnd={handleLongPressEnd}
+                                      whileHover={!isDisabled ? { scale: 1.1 } : {}}
+                                      whileTap={!isDisabled ? { scale: 0.95 } : {}}
+                                      title={`${getSubMachineLabel(sub)} - ${isActive ? 'In Use - Click to continue' : (isOtherGroup ? 'Different group' : (multiSelectMode ? 'Tap to select' : 'Hold to multi-select'))}`}
+                                      disabled={isDisabled}
+                                    >
+                                      {sub.displayName || num}
+                                      {isActive && <span className="status-dot busy" />}
+                                      {isSelected && <span className="check-mark">✓</span>}
+                                    </motion.button>
+                                  );
+                                })}
+                              </div>
+                            ) : (
+                              <div className="tile-footer">
+                                <span className="tile-time">{machine.lastSubmission || 'No entries'}</span>
+                                {machine.status !== 'maintenance' && (
+                                  <span className="tile-action">Record →</span>
+                                )}
+                              </div>
                             )}
                           </div>
-                        )}
-                      </div>
-                    </motion.div>
-                  );
-                })}
+                        </motion.div>
+                      );
+                    })}
+                  </React.Fragment>
+                ))}
               </motion.div>
             ) : (
               <motion.div
@@ -734,38 +902,39 @@ const Dashboard: React.FC = () => {
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
               >
-                {machines.map((machine, index) => {
-                  // Calculate actual status considering active sub-machines
-                  const activeSubMachines = machine.subMachineCount && machine.subMachineCount > 0
-                    ? getActiveSubMachines(machine.name, machine.subMachineCount, machine.id)
-                    : new Set<number>();
-                  const hasActiveSubMachines = activeSubMachines.size > 0;
-                  const isRunning = machine.status === 'running' || hasActiveSubMachines;
-                  const displayStatus = isRunning ? 'running' : machine.status;
-
-                  return (
-                    <motion.div
-                      key={machine.id}
-                      className={`machine-row ${displayStatus} ${machine.status === 'maintenance' ? 'disabled' : ''}`}
-                      initial={{ opacity: 0, x: -20 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      transition={{ delay: index * 0.03 }}
-                      onClick={() => handleMachineClick(machine)}
-                    >
-                      <div className="row-indicator" style={{ background: getStatusGradient(displayStatus) }} />
-                      <div className="row-name">{machine.name}</div>
-                      <div className="row-status">
-                        <PulseIndicator color={getStatusColor(displayStatus)} />
-                        <span>{displayStatus.charAt(0).toUpperCase() + displayStatus.slice(1)}</span>
-                      </div>
-                      <div className="row-operator">{machine.currentOperator || '—'}</div>
-                      <div className="row-time">{machine.lastSubmission || 'No entries'}</div>
-                      {machine.status !== 'maintenance' && (
-                        <button className="row-action">Record</button>
-                      )}
-                    </motion.div>
-                  );
-                })}
+                {machineGroups.map(group => (
+                  <React.Fragment key={group.key}>
+                    {renderGroupHeader(group)}
+                    {group.items.map((machine, index) => {
+                      const statusInfo = getMachineStatus(machine);
+                      const displayStatus = statusInfo.status;
+
+                      return (
+                        <motion.div
+                          key={machine.id}
+                          className={`machine-row ${displayStatus} ${machine.status === 'maintenance' ? 'disabled' : ''}`}
+                          initial={{ opacity: 0, x: -20 }}
+                          animate={{ opacity: 1, x: 0 }}
+                          transition={{ delay: index * 0.03 }}
+                          onClick={() => handleMachineClick(machine)}
+                        >
+                          <div className="row-indicator" style={{ background: getStatusGradient(displayStatus) }} />
+                          <div className="row-name">{getMachineLabel(machine)}</div>
+                          <div className="row-status">
+                            <PulseIndicator color={getStatusColor(displayStatus)} />
+                            <span>{MACHINE_STATUS_LABELS[displayStatus]}</span>
+                            {statusInfo.reason && <span className="row-status-reason">{statusInfo.reason}</span>}
+                          </div>
+                          <div className="row-operator">{machine.currentOperator || '—'}</div>
+                          <div className="row-time">{machine.lastSubmission || 'No entries'}</div>
+                          {machine.status !== 'maintenance' && (
+                            <button className="row-action">Record</button>
+                          )}
+                        </motion.div>
+                      );
+                    })}
+                  </React.Fragment>
+                ))}
               </motion.div>
             )}
           </AnimatePresence>
@@ -783,7 +952,10 @@ const Dashboard: React.FC = () => {
                   <span className="selection-parent-group">{selectedParentGroup}</span>
                   <span className="selection-divider">—</span>
                   <span className="selection-machines">
-                    {selectedMachines.map(m => m.split(' - Machine ')[1]).join(', ')}
+                    {selectedMachines.map(name => {
+                      const { subMachine } = findMachineByName(machines, name);
+                      return subMachine ? getSubMachineLabel(subMachine) : name;
+                    }).join(', ')}
                   </span>
                 </div>
                 <button
@@ -862,70 +1034,7 @@ const Dashboard: React.FC = () => {
 
             <div className="drawer-content">
               {activeDrawerTab === 'activity' ? (
-                <div className="feed-list">
-                  {activityEvents.length > 0 ? (
-                    activityEvents.slice(0, 20).map((event, index) => {
-                      const getEventIcon = (type: string) => {
-                        switch (type) {
-                          case 'machine_start': return '🚀';
-                          case 'machine_pause': return '⏸️';
-                          case 'machine_resume': return '▶️';
-                          case 'waste_recorded': return '🗑️';
-                          case 'downtime_recorded': return '⏱️';
-                          case 'pallet_scanned': return '📦';
-                          case 'cases_added': return '📋';
-                          case 'sachet_mass_added': return '⚖️';
-                          case 'shift_submitted': return '✅';
-                          case 'speed_recorded': return '⚡';
-                          default: return '📌';
-                        }
-                      };
-
-                      const getEventColor = (type: string) => {
-                        switch (type) {
-                          case 'machine_start': return 'event-start';
-                          case 'machine_pause': return 'event-pause';
-                          case 'machine_resume': return 'event-resume';
-                          case 'waste_recorded': return 'event-waste';
-                          case 'downtime_recorded': return 'event-downtime';
-                          case 'pallet_scanned': return 'event-pallet';
-                          case 'cases_added': return 'event-cases';
-                          case 'sachet_mass_added': return 'event-sachet';
-                          case 'shift_submitted': return 'event-submit';
-                          case 'speed_recorded': return 'event-speed';
-                          default: return '';
-                        }
-                      };
-
-                      return (
-                        <motion.div
-                          key={event.id}
-                          className={`feed-item ${getEventColor(event.type)}`}
-                          initial={{ opacity: 0, x: 20 }}
-                          animate={{ opacity: 1, x: 0 }}
-                          transition={{ delay: index * 0.03 }}
-                        >
-                          <span className="feed-icon">{getEventIcon(event.type)}</span>
-                          <div className="feed-content">
-                            <span className="feed-machine">{event.machine_name}</span>
-                            <span className="feed-message">{event.message}</span>
-                            {event.details && (
-                              <span className="feed-details">{event.details}</span>
-                            )}
-                          </div>
-                          <span className="feed-time">
-                            {format(new Date(event.timestamp), 'HH:mm:ss')}
-                          </span>
-                        </motion.div>
-                      );
-                    })
-                  ) : (
-                    <div className="feed-empty">
-                      <span className="feed-empty-icon">📡</span>
-                      <span>Waiting for activity...</span>
-                    </div>
-                  )}
-                </div>
+                <ActivityFeed liveEvents={activityEvents} machines={machines} />
               ) : (
                 <div className="activity-list">
                   {recentSubmissions.length > 0 ? (
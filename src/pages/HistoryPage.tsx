@@ -1,126 +1,135 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { format, subDays, startOfDay, endOfDay } from 'date-fns';
+import { format, subDays, parseISO } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   useReactTable,
   getCoreRowModel,
-  getSortedRowModel,
-  getFilteredRowModel,
-  getPaginationRowModel,
   flexRender,
   SortingState,
+  ColumnFiltersState,
   ColumnDef,
 } from '@tanstack/react-table';
-import { ShiftData } from '../types';
-import { getShiftHistory, exportToCSV } from '../lib/storage';
-import { getRecentSubmissions } from '../lib/supabase';
-
-// Type definitions for Supabase response
-interface WasteRecordResponse {
-  id: number;
-  waste_amount: number;
-  waste_type: string;
-  recorded_at?: string;
-  created_at?: string;
-}
-
-interface DowntimeRecordResponse {
-  id: number;
-  downtime_minutes: number;
-  downtime_reason: string;
-  recorded_at?: string;
-  created_at?: string;
-}
-
-interface SubmissionResponse {
-  id: number;
-  operator_name: string;
-  machine: string;
-  order_number: string;
-  product: string;
-  batch_number: string;
-  shift: string;
-  submission_date: string;
-  total_waste?: number;
-  total_downtime?: number;
-  created_at: string;
-  waste_records?: WasteRecordResponse[];
-  downtime_records?: DowntimeRecordResponse[];
-}
+import { HierarchyLevel, ShiftData } from '../types';
+import { getShiftHistory, exportToCSV, getMachinesData } from '../lib/storage';
+import { querySubmissions } from '../lib/supabase';
+import { SubmissionQuery, SubmissionSortField, SubmissionPage, queryLocalHistory } from '../lib/historyQuery';
+import { getTodayDateString } from '../lib/shiftUtils';
+import { toShiftData } from '../lib/submissionDetail';
+import { showError } from '../lib/errorMonitoring';
+import { groupByLevel, usePlantUnits, HIERARCHY_LEVEL_LABELS } from '../lib/machineHierarchy';
+
+type DatePreset = 'today' | 'week' | 'month' | 'all' | 'custom';
+
+const ROLL_UP_LEVELS: HierarchyLevel[] = ['site', 'area', 'line', 'machine', 'sub_machine'];
+
+const PAGE_SIZE = 25;
+const EXPORT_PAGE_SIZE = 500;
+const FILTER_DEBOUNCE_MS = 300;
+
+// Table column -> submission field it sorts by
+const SORT_FIELDS: Record<string, SubmissionSortField> = {
+  date: 'submission_date',
+  shift: 'shift',
+  operatorName: 'operator_name',
+  machine: 'machine',
+  product: 'product',
+  orderNumber: 'order_number',
+  totalWaste: 'total_waste',
+  totalDowntime: 'total_downtime',
+  submittedAt: 'created_at',
+};
+
+// Column filters shown above the table -> query filter
+const FILTER_COLUMNS = [
+  { id: 'machine', key: 'machine', label: 'Machine' },
+  { id: 'operatorName', key: 'operator', label: 'Operator' },
+  { id: 'product', key: 'product', label: 'Product' },
+  { id: 'orderNumber', key: 'orderNumber', label: 'Order' },
+] as const;
+
+// Shift dates covered by a preset, ending today (facility time)
+const getPresetRange = (preset: DatePreset): { from: string; to: string } => {
+  const today = getTodayDateString();
+  const daysBack = (days: number) => format(subDays(parseISO(today), days), 'yyyy-MM-dd');
+  switch (preset) {
+    case 'today': return { from: today, to: today };
+    case 'week': return { from: daysBack(6), to: today };
+    case 'month': return { from: daysBack(29), to: today };
+    default: return { from: '', to: '' };
+  }
+};
 
 const HistoryPage: React.FC = () => {
   const navigate = useNavigate();
   const [data, setData] = useState<ShiftData[]>([]);
   const [sorting, setSorting] = useState<SortingState>([{ id: 'submittedAt', desc: true }]);
-  const [globalFilter, setGlobalFilter] = useState('');
-  const [dateRange, setDateRange] = useState<'today' | 'week' | 'month' | 'all'>('all');
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
+  const [debouncedFilters, setDebouncedFilters] = useState<ColumnFiltersState>([]);
+  const [datePreset, setDatePreset] = useState<DatePreset>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
   const [dataSource, setDataSource] = useState<'local' | 'database'>('database');
   const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [rollUpLevel, setRollUpLevel] = useState<HierarchyLevel | ''>('');
+  const [rollUpRows, setRollUpRows] = useState<ShiftData[]>([]);
+  const [isRollingUp, setIsRollingUp] = useState(false);
+  const plantUnits = usePlantUnits();
+
+  // Cursor pagination: cursors of the pages visited so far (first page = null),
+  // for the query they belong to
+  const [pagination, setPagination] = useState<{ queryKey: string; cursors: (string | null)[] }>({
+    queryKey: '',
+    cursors: [null],
+  });
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
 
-  // Transform Supabase submission to ShiftData
-  const transformSubmission = useCallback((sub: SubmissionResponse): ShiftData => ({
-    id: sub.id.toString(),
-    operatorName: sub.operator_name,
-    machine: sub.machine,
-    orderNumber: sub.order_number,
-    product: sub.product,
-    batchNumber: sub.batch_number,
-    shift: sub.shift,
-    date: sub.submission_date,
-    wasteEntries: (sub.waste_records || []).map((w: WasteRecordResponse) => ({
-      id: w.id.toString(),
-      waste: w.waste_amount,
-      wasteType: w.waste_type,
-      timestamp: new Date(w.recorded_at || w.created_at || Date.now()),
-    })),
-    downtimeEntries: (sub.downtime_records || []).map((d: DowntimeRecordResponse) => ({
-      id: d.id.toString(),
-      downtime: d.downtime_minutes,
-      downtimeReason: d.downtime_reason,
-      timestamp: new Date(d.recorded_at || d.created_at || Date.now()),
-    })),
-    totalWaste: sub.total_waste || 0,
-    totalDowntime: sub.total_downtime || 0,
-    submittedAt: new Date(sub.created_at),
-  }), []);
+  // Typing in a filter should not query on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedFilters(columnFilters), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [columnFilters]);
 
-  const loadData = useCallback(async () => {
-    setIsLoading(true);
+  // Query for the current filters and sort, without a cursor
+  const baseQuery = useMemo<Omit<SubmissionQuery, 'cursor'>>(() => {
+    const filterValue = (id: string) =>
+      ((debouncedFilters.find(f => f.id === id)?.value as string) || '').trim() || undefined;
+    const sort = sorting[0] || { id: 'submittedAt', desc: true };
 
-    try {
-      let history: ShiftData[] = [];
+    return {
+      fromDate: fromDate || undefined,
+      toDate: toDate || undefined,
+      ...Object.fromEntries(FILTER_COLUMNS.map(c => [c.key, filterValue(c.id)])),
+      sortBy: SORT_FIELDS[sort.id] || 'created_at',
+      ascending: !sort.desc,
+      limit: PAGE_SIZE,
+    };
+  }, [debouncedFilters, sorting, fromDate, toDate]);
 
-      if (dataSource === 'database') {
-        // Fetch from Supabase
-        const submissions = await getRecentSubmissions(100) as SubmissionResponse[];
-        history = submissions.map(transformSubmission);
-      } else {
-        // Fetch from localStorage
-        history = getShiftHistory();
-      }
+  // Any change to the query starts again from the first page
+  const queryKey = `${dataSource}:${JSON.stringify(baseQuery)}`;
+  const pageCursors = pagination.queryKey === queryKey ? pagination.cursors : [null];
+  const pageIndex = pageCursors.length - 1;
+  const currentCursor = pageCursors[pageIndex];
 
-      const now = new Date();
-      switch (dateRange) {
-        case 'today':
-          const todayStart = startOfDay(now);
-          const todayEnd = endOfDay(now);
-          history = history.filter(item => {
-            const itemDate = new Date(item.submittedAt);
-            return itemDate >= todayStart && itemDate <= todayEnd;
-          });
-          break;
-        case 'week':
-          const weekAgo = subDays(now, 7);
-          history = history.filter(item => new Date(item.submittedAt) >= weekAgo);
-          break;
-        case 'month':
-          const monthAgo = subDays(now, 30);
-          history = history.filter(item => new Date(item.submittedAt) >= monthAgo);
-          break;
-      }
+  const runQuery = useCallback(async (query: SubmissionQuery): Promise<SubmissionPage<ShiftData>> => {
+    if (dataSource === 'local') {
+      return queryLocalHistory(getShiftHistory(), query);
+    }
+    const page = await querySubmissions(query);
+    return { ...page, rows: page.rows.map(toShiftData) };
+  }, [dataSource]);
 
-      setData(history);
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const page = await runQuery({ ...baseQuery, cursor: currentCursor });
+      setData(page.rows);
+      setNextCursor(page.nextCursor);
+      if (!currentCursor) setTotalCount(page.totalCount);
     } catch (error) {
       console.error('Error loading data:', error);
       // Fallback to local storage if database fails
@@ -130,12 +139,25 @@ const HistoryPage: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [dataSource, dateRange, transformSubmission]);
+  }, [baseQuery, currentCursor, runQuery, dataSource]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  const handlePresetChange = (preset: DatePreset) => {
+    const range = getPresetRange(preset);
+    setDatePreset(preset);
+    setFromDate(range.from);
+    setToDate(range.to);
+  };
+
+  const handleDateChange = (which: 'from' | 'to', value: string) => {
+    setDatePreset('custom');
+    if (which === 'from') setFromDate(value);
+    else setToDate(value);
+  };
+
   const columns = useMemo<ColumnDef<ShiftData>[]>(() => [
     {
       accessorKey: 'date',
@@ -159,6 +181,10 @@ const HistoryPage: React.FC = () => {
       accessorKey: 'machine',
       header: 'Machine',
     },
+    {
+      accessorKey: 'product',
+      header: 'Product',
+    },
     {
       accessorKey: 'orderNumber',
       header: 'Order',
@@ -191,40 +217,92 @@ const HistoryPage: React.FC = () => {
     },
   ], []);
 
+  // Sorting and filtering run in the query, so the table only renders the page
   const table = useReactTable({
     data,
     columns,
     state: {
       sorting,
-      globalFilter,
+      columnFilters,
     },
     onSortingChange: setSorting,
-    onGlobalFilterChange: setGlobalFilter,
+    onColumnFiltersChange: setColumnFilters,
     getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    initialState: {
-      pagination: {
-        pageSize: 10,
-      },
-    },
+    manualSorting: true,
+    manualFiltering: true,
+    manualPagination: true,
+    enableMultiSort: false,
   });
 
-  const handleExport = () => {
-    const filename = `shift_history_${format(new Date(), 'yyyy-MM-dd')}`;
-    exportToCSV(data, filename);
+  // Every matching submission, not just the visible page
+  const fetchAllRows = useCallback(async (): Promise<ShiftData[]> => {
+    const rows: ShiftData[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: SubmissionPage<ShiftData> = await runQuery({ ...baseQuery, limit: EXPORT_PAGE_SIZE, cursor });
+      rows.push(...page.rows);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return rows;
+  }, [baseQuery, runQuery]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchAllRows();
+      const filename = `shift_history_${format(new Date(), 'yyyy-MM-dd')}`;
+      exportToCSV(rows, filename);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to export history');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
-  // Calculate summary stats
+  // Roll-ups cover every matching submission
+  useEffect(() => {
+    if (!rollUpLevel) return;
+    let cancelled = false;
+    setIsRollingUp(true);
+
+    fetchAllRows()
+      .then(rows => {
+        if (!cancelled) setRollUpRows(rows);
+      })
+      .catch(error => {
+        if (!cancelled) showError(error instanceof Error ? error.message : 'Failed to roll up history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsRollingUp(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rollUpLevel, fetchAllRows]);
+
+  // Submissions, waste and downtime per site, area, line, machine or sub-machine
+  const rollUp = useMemo(() => {
+    if (!rollUpLevel) return [];
+    return groupByLevel(rollUpLevel, rollUpRows, row => row.subMachine || row.machine, getMachinesData(), plantUnits)
+      .map(group => {
+        const totalWaste = group.items.reduce((sum, item) => sum + item.totalWaste, 0);
+        const totalDowntime = group.items.reduce((sum, item) => sum + item.totalDowntime, 0);
+        return { key: group.key, label: group.label, count: group.items.length, totalWaste, totalDowntime };
+      });
+  }, [rollUpLevel, rollUpRows, plantUnits]);
+
+  // Summary stats for the visible page
   const stats = useMemo(() => {
     const totalWaste = data.reduce((sum, item) => sum + item.totalWaste, 0);
     const totalDowntime = data.reduce((sum, item) => sum + item.totalDowntime, 0);
     const avgWaste = data.length > 0 ? totalWaste / data.length : 0;
-    const avgDowntime = data.length > 0 ? totalDowntime / data.length : 0;
-    
-    return { totalWaste, totalDowntime, avgWaste, avgDowntime, count: data.length };
-  }, [data]);
+
+    return { totalWaste, totalDowntime, avgWaste, count: totalCount ?? data.length };
+  }, [data, totalCount]);
+
+  const firstRow = pageIndex * PAGE_SIZE + 1;
+  const pageCount = totalCount !== null ? Math.max(1, Math.ceil(totalCount / PAGE_SIZE)) : null;
 
   return (
     <motion.div
@@ -245,20 +323,20 @@ const HistoryPage: React.FC = () => {
           <div className="header-titles">
             <h1>Submission History</h1>
             <span className="header-subtitle">
-              {isLoading ? 'Loading...' : `${data.length} records from ${dataSource === 'database' ? 'Supabase' : 'Local Storage'}`}
+              {isLoading ? 'Loading...' : `${stats.count} records from ${dataSource === 'database' ? 'Supabase' : 'Local Storage'}`}
             </span>
           </div>
         </div>
         <div className="header-actions-v2">
           <button 
             className="export-btn-v2" 
-            onClick={handleExport} 
-            disabled={data.length === 0}
+            onClick={handleExport}
+            disabled={data.length === 0 || isExporting}
           >
             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M7 10l5 5 5-5M12 15V3"/>
             </svg>
-            Export CSV
+            {isExporting ? 'Exporting...' : 'Export CSV'}
           </button>
         </div>
       </header>
@@ -289,30 +367,69 @@ const HistoryPage: React.FC = () => {
               {(['today', 'week', 'month', 'all'] as const).map(range => (
                 <button
                   key={range}
-                  className={`filter-pill ${dateRange === range ? 'active' : ''}`}
-                  onClick={() => setDateRange(range)}
+                  className={`filter-pill ${datePreset === range ? 'active' : ''}`}
+                  onClick={() => handlePresetChange(range)}
                 >
                   {range === 'today' ? 'Today' : range === 'week' ? '7 Days' : range === 'month' ? '30 Days' : 'All Time'}
                 </button>
               ))}
             </div>
           </div>
-          <div className="filter-group-v2 search-group">
-            <label>Search</label>
-            <div className="search-input-wrapper">
-              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                <circle cx="11" cy="11" r="8"/>
-                <path d="M21 21l-4.35-4.35"/>
-              </svg>
+          <div className="filter-group-v2">
+            <label htmlFor="history-from">Shift Dates</label>
+            <div className="history-date-range">
               <input
-                type="text"
-                className="search-input-v2"
-                placeholder="Search operator, machine, order..."
-                value={globalFilter}
-                onChange={e => setGlobalFilter(e.target.value)}
+                id="history-from"
+                type="date"
+                className="history-filter-input"
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={e => handleDateChange('from', e.target.value)}
+              />
+              <span>to</span>
+              <input
+                type="date"
+                className="history-filter-input"
+                aria-label="To date"
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={e => handleDateChange('to', e.target.value)}
               />
             </div>
           </div>
+          <div className="filter-group-v2">
+            <label>Roll Up</label>
+            <div className="filter-pills">
+              <button
+                className={`filter-pill ${rollUpLevel === '' ? 'active' : ''}`}
+                onClick={() => setRollUpLevel('')}
+              >
+                Off
+              </button>
+              {ROLL_UP_LEVELS.map(level => (
+                <button
+                  key={level}
+                  className={`filter-pill ${rollUpLevel === level ? 'active' : ''}`}
+                  onClick={() => setRollUpLevel(level)}
+                >
+                  {HIERARCHY_LEVEL_LABELS[level]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {FILTER_COLUMNS.map(filter => (
+            <div key={filter.id} className="filter-group-v2">
+              <label htmlFor={`history-filter-${filter.id}`}>{filter.label}</label>
+              <input
+                id={`history-filter-${filter.id}`}
+                type="text"
+                className="history-filter-input"
+                placeholder={`Filter by ${filter.label.toLowerCase()}...`}
+                value={(table.getColumn(filter.id)?.getFilterValue() as string) || ''}
+                onChange={e => table.getColumn(filter.id)?.setFilterValue(e.target.value)}
+              />
+            </div>
+          ))}
         </div>
 
         {/* Stats Summary */}
@@ -323,11 +440,11 @@ const HistoryPage: React.FC = () => {
           </div>
           <div className="stat-card-v2 waste">
             <span className="stat-value-v2">{stats.totalWaste.toFixed(1)}<small>kg</small></span>
-            <span className="stat-label-v2">Total Waste</span>
+            <span className="stat-label-v2">Waste (this page)</span>
           </div>
           <div className="stat-card-v2 downtime">
             <span className="stat-value-v2">{Math.floor(stats.totalDowntime / 60)}h {stats.totalDowntime % 60}m</span>
-            <span className="stat-label-v2">Total Downtime</span>
+            <span className="stat-label-v2">Downtime (this page)</span>
           </div>
           <div className="stat-card-v2">
             <span className="stat-value-v2">{stats.avgWaste.toFixed(1)}<small>kg</small></span>
@@ -335,6 +452,42 @@ const HistoryPage: React.FC = () => {
           </div>
         </div>
 
+        {/* Roll-up by hierarchy level */}
+        {rollUpLevel && (
+          <div className="history-table-container-v2 history-rollup">
+            {isRollingUp ? (
+              <p className="history-rollup-note">Rolling up submissions...</p>
+            ) : rollUp.length === 0 ? (
+              <p className="history-rollup-note">No submissions to roll up.</p>
+            ) : (
+              <div className="table-wrapper">
+                <table className="history-table-v2 rollup-table">
+                  <thead>
+                    <tr>
+                      <th>{HIERARCHY_LEVEL_LABELS[rollUpLevel]}</th>
+                      <th>Submissions</th>
+                      <th>Waste</th>
+                      <th>Downtime</th>
+                      <th>Avg Waste per Shift</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rollUp.map(group => (
+                      <tr key={group.key}>
+                        <td>{group.label}</td>
+                        <td>{group.count}</td>
+                        <td>{group.totalWaste.toFixed(1)} kg</td>
+                        <td>{Math.floor(group.totalDowntime / 60)}h {group.totalDowntime % 60}m</td>
+                        <td>{(group.totalWaste / group.count).toFixed(1)} kg</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Data Table */}
         <div className="history-table-container-v2">
           {data.length === 0 ? (
@@ -378,6 +531,8 @@ const HistoryPage: React.FC = () => {
                       {table.getRowModel().rows.map(row => (
                         <motion.tr
                           key={row.id}
+                          className="clickable-row"
+                          onClick={() => navigate(`/history/${row.original.id}`)}
                           initial={{ opacity: 0, y: -10 }}
                           animate={{ opacity: 1, y: 0 }}
                           exit={{ opacity: 0, y: 10 }}
@@ -397,28 +552,24 @@ const HistoryPage: React.FC = () => {
               {/* Pagination */}
               <div className="table-pagination-v2">
                 <div className="pagination-info-v2">
-                  Showing {table.getState().pagination.pageIndex * table.getState().pagination.pageSize + 1} to{' '}
-                  {Math.min(
-                    (table.getState().pagination.pageIndex + 1) * table.getState().pagination.pageSize,
-                    data.length
-                  )}{' '}
-                  of {data.length} entries
+                  Showing {firstRow} to {firstRow + data.length - 1}
+                  {totalCount !== null && ` of ${totalCount}`} entries
                 </div>
                 <div className="pagination-controls-v2">
                   <button
                     className="page-btn"
-                    onClick={() => table.previousPage()}
-                    disabled={!table.getCanPreviousPage()}
+                    onClick={() => setPagination({ queryKey, cursors: pageCursors.slice(0, -1) })}
+                    disabled={pageIndex === 0 || isLoading}
                   >
                     ← Previous
                   </button>
                   <span className="page-indicator-v2">
-                    {table.getState().pagination.pageIndex + 1} / {table.getPageCount()}
+                    {pageIndex + 1}{pageCount !== null && ` / ${pageCount}`}
                   </span>
                   <button
                     className="page-btn"
-                    onClick={() => table.nextPage()}
-                    disabled={!table.getCanNextPage()}
+                    onClick={() => setPagination({ queryKey, cursors: [...pageCursors, nextCursor] })}
+                    disabled={!nextCursor || isLoading}
                   >
                     Next →
                   </button>
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { PageHeader, FormField, Button } from '../components/ui';
+import { isSupabaseConfigured } from '../lib/supabase';
+import {
+  useAuth,
+  hasRole,
+  formatRole,
+  signInWithPassword,
+  signInWithPin,
+  signOut,
+  hasLocalAccounts,
+  createLocalAccount,
+  UserRole,
+} from '../lib/auth';
+
+interface LoginLocationState {
+  from?: string;
+  requiredRole?: UserRole;
+}
+
+const LoginPage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+  const { from = '/', requiredRole } = (location.state as LoginLocationState) || {};
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [pin, setPin] = useState('');
+  const [setupName, setSetupName] = useState('');
+  const [needsSetup, setNeedsSetup] = useState(!isSupabaseConfigured && !hasLocalAccounts());
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      if (needsSetup) {
+        // First PIN account on this device becomes its admin
+        await createLocalAccount(setupName, pin, 'admin');
+        setNeedsSetup(false);
+      }
+      const signedIn = isSupabaseConfigured
+        ? await signInWithPassword(email, password)
+        : await signInWithPin(pin);
+
+      if (requiredRole && !hasRole(signedIn, requiredRole)) {
+        setError(`${formatRole(requiredRole)} access is required for this page`);
+        return;
+      }
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+    } finally {
+      setIsSubmitting(false);
+      setPin('');
+      setPassword('');
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    setError(null);
+  };
+
+  return (
+    <div className="login-page">
+      <PageHeader title="Sign In" subtitle={needsSetup ? 'Set up the first admin PIN for this device' : undefined} />
+
+      <motion.form
+        className="login-card"
+        onSubmit={handleSubmit}
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        {user && (
+          <div className="login-current-user">
+            Signed in as <strong>{user.displayName}</strong> ({formatRole(user.role)})
+            <Button type="button" variant="ghost" size="sm" onClick={handleSignOut}>
+              Sign out
+            </Button>
+          </div>
+        )}
+
+        {requiredRole && (
+          <p className="login-hint">{formatRole(requiredRole)} access is required to continue.</p>
+        )}
+
+        {isSupabaseConfigured ? (
+          <>
+            <FormField
+              label="Email"
+              id="login-email"
+              type="email"
+              value={email}
+              onChange={setEmail}
+              required
+            />
+            <FormField
+              label="Password"
+              id="login-password"
+              type="password"
+              value={password}
+              onChange={setPassword}
+              required
+            />
+          </>
+        ) : (
+          <>
+            {needsSetup && (
+              <FormField
+                label="Admin Name"
+                id="login-setup-name"
+                value={setupName}
+                onChange={setSetupName}
+                required
+              />
+            )}
+            <FormField
+              label={needsSetup ? 'Choose a PIN' : 'PIN'}
+              id="login-pin"
+              type="password"
+              value={pin}
+              onChange={value => setPin(value.replace(/\D/g, ''))}
+              hint={needsSetup ? 'At least 4 digits' : undefined}
+              required
+            />
+          </>
+        )}
+
+        {error && <div className="login-error" role="alert">{error}</div>}
+
+        <Button type="submit" fullWidth loading={isSubmitting}>
+          {needsSetup ? 'Create Admin & Sign In' : 'Sign In'}
+        </Button>
+      </motion.form>
+    </div>
+  );
+};
+
+export default LoginPage;
@@ -4,18 +4,27 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { v4 as uuidv4 } from 'uuid';
 import ShiftInfo from '../components/ShiftInfo';
 import ConfirmDialog from '../components/ConfirmDialog';
-import { WasteEntry, DowntimeEntry, ShiftData, ShiftSession, OPERATORS, WASTE_TYPES, DOWNTIME_REASONS } from '../types';
-import { submitShiftData } from '../lib/supabase';
-import { saveShiftData } from '../lib/storage';
-
-// Storage key for shift session
-const getSessionKey = (machineName: string, shift: string, date: string) =>
-    `shift_session_${machineName}_${shift}_${date}`;
+import OperatorIdentify from '../components/OperatorIdentify';
+import DowntimeReasonSelect from '../components/DowntimeReasonSelect';
+import WasteTypeSelect from '../components/WasteTypeSelect';
+import { measureWaste } from '../lib/wasteTypes';
+import { PRODUCT_LIST_ID } from '../lib/products';
+import { Operator, WasteEntry, DowntimeEntry, ShiftData, ShiftSession, DowntimeReason, WasteType } from '../types';
+import { submitShiftData, FullShiftSubmission } from '../lib/supabase';
+import { saveShiftData, getMachinesData } from '../lib/storage';
+import { recordLineSpeedChange } from '../lib/lineSpeed';
+import { findMachineByName, getMachineLabel, getSubMachineLabel } from '../lib/machineHierarchy';
+import { enqueueOutbox } from '../lib/outbox';
+import { getSessionKey, getCurrentShiftContext } from '../lib/shiftUtils';
+import { getCurrentUser } from '../lib/auth';
+import { getActiveOperator, setActiveOperator, getOperatorStamp, identifyOperator } from '../lib/operators';
+import { useScanCapture, ScanKind } from '../lib/scanCapture';
 
 // Interface for per-machine data
 interface MachineData {
     machineName: string;
     operatorName: string;
+    operatorId?: string;
     speed: number | '';
 }
 
@@ -31,10 +40,29 @@ const MultiCaptureScreen: React.FC = () => {
     const parentGroup = (location.state as { parentGroup?: string })?.parentGroup || '';
     const isMultiMachine = (location.state as { isMultiMachine?: boolean })?.isMultiMachine || false;
 
-    // Extract machine numbers for display (e.g., "1, 2" from "Canline - Machine 1, Canline - Machine 2")
+    // The machine and sub-machine behind each selected name
+    const selectedMachines = useMemo(() => {
+        const machines = getMachinesData();
+        return machineNames.map(name => ({ name, ...findMachineByName(machines, name) }));
+    }, [machineNames]);
+
+    // Machine numbers for the chat location (e.g., "1, 2" from "Canline - Machine 1, Canline - Machine 2")
     const machineNumbers = useMemo(() =>
-        machineNames.map(name => name.split(' - Machine ')[1] || '?').join(', '),
-        [machineNames]
+        selectedMachines.map(m => m.subMachine?.number ?? '?').join(', '),
+        [selectedMachines]
+    );
+
+    const parentLabel = selectedMachines[0]?.machine ? getMachineLabel(selectedMachines[0].machine) : parentGroup;
+    const getSubMachineCardLabel = (machineName: string): string => {
+        const subMachine = selectedMachines.find(m => m.name === machineName)?.subMachine;
+        return subMachine ? getSubMachineLabel(subMachine) : machineName;
+    };
+    const subMachineLabels = machineNames.map(getSubMachineCardLabel).join(', ');
+
+    // Downtime reasons limited to machines in this group
+    const reasonMachineIds = useMemo(() =>
+        [getMachinesData().find(m => m.name === parentGroup)?.id],
+        [parentGroup]
     );
 
     // Redirect if no machines selected
@@ -57,16 +85,26 @@ const MultiCaptureScreen: React.FC = () => {
 
     const [dateTime, setDateTime] = useState(new Date());
     const [shift, setShift] = useState('');
+    const [shiftDate, setShiftDate] = useState('');
+    const [crew, setCrew] = useState('');
 
     // Loading and feedback states
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
     const [showConfirmDialog, setShowConfirmDialog] = useState(false);
 
-    // Per-machine data: operator and speed for each machine
-    const [machineDataList, setMachineDataList] = useState<MachineData[]>(
-        machineNames.map(name => ({ machineName: name, operatorName: '', speed: '' }))
-    );
+    // Per-machine data: operator and speed for each machine (operator defaults
+    // to the last operator identified on this tablet, then the signed-in user)
+    const [machineDataList, setMachineDataList] = useState<MachineData[]>(() => {
+        const activeOperator = getActiveOperator();
+        return machineNames.map(name => ({
+            machineName: name,
+            operatorName: activeOperator?.name || getCurrentUser()?.displayName || '',
+            operatorId: activeOperator?.id,
+            speed: '',
+        }));
+    });
+    const [identifyIndex, setIdentifyIndex] = useState<number | null>(null);
 
     // Shared order details
     const [orderNumber, setOrderNumber] = useState('');
@@ -82,9 +120,9 @@ const MultiCaptureScreen: React.FC = () => {
     const [showWasteModal, setShowWasteModal] = useState(false);
     const [showDowntimeModal, setShowDowntimeModal] = useState(false);
     const [waste, setWaste] = useState<number | ''>('');
-    const [wasteType, setWasteType] = useState('');
+    const [wasteType, setWasteType] = useState<WasteType | null>(null);
     const [downtime, setDowntime] = useState<number | ''>('');
-    const [downtimeReason, setDowntimeReason] = useState('');
+    const [downtimeReason, setDowntimeReason] = useState<DowntimeReason | null>(null);
 
     // Toast notification
     const showToast = (message: string, type: 'success' | 'error') => {
@@ -99,11 +137,14 @@ const MultiCaptureScreen: React.FC = () => {
             setDateTime(now);
         }, 1000);
 
-        const hours = dateTime.getUTCHours() + 2;
-        setShift(hours >= 6 && hours < 18 ? 'Day' : 'Night');
+        // All machines belong to one line, so they share its shift pattern
+        const shiftContext = getCurrentShiftContext(machineNames[0], dateTime);
+        setShift(shiftContext.shift);
+        setShiftDate(shiftContext.shiftDate);
+        setCrew(shiftContext.crew || '');
 
         return () => clearInterval(timer);
-    }, [dateTime]);
+    }, [dateTime, machineNames]);
 
     // Update a specific machine's data
     const updateMachineData = (index: number, field: keyof MachineData, value: string | number) => {
@@ -114,6 +155,43 @@ const MultiCaptureScreen: React.FC = () => {
         });
     };
 
+    // Operator identified by badge or PIN for one machine
+    const handleOperatorIdentified = (operator: Operator, index = identifyIndex) => {
+        setActiveOperator(operator);
+        if (index !== null) {
+            setMachineDataList(prev => prev.map((m, i) =>
+                i === index ? { ...m, operatorName: operator.name, operatorId: operator.id } : m
+            ));
+        }
+        setIdentifyIndex(null);
+    };
+
+    // Handheld scanner (keyboard wedge) - a badge fills the machine being
+    // identified, otherwise the first machine without an operator
+    const handleHardwareScan = async (payload: string, kind: ScanKind) => {
+        if (kind === 'pallet') {
+            showToast('Pallets are scanned on the single-machine capture screen', 'error');
+            return;
+        }
+        if (isSessionLocked) {
+            showToast('Operators cannot change while the session is locked', 'error');
+            return;
+        }
+
+        const index = identifyIndex ?? machineDataList.findIndex(m => m.operatorName === '');
+        if (index === -1) {
+            showToast('Every machine already has an operator - press Identify to change one', 'error');
+            return;
+        }
+        try {
+            handleOperatorIdentified(await identifyOperator({ badgeCode: payload }), index);
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Could not identify operator', 'error');
+        }
+    };
+
+    useScanCapture(handleHardwareScan, { enabled: !isSubmitting });
+
     // Check if all machines have operators assigned
     const allMachinesHaveOperators = machineDataList.every(m => m.operatorName !== '');
     const canLockSession = allMachinesHaveOperators && orderNumber && product && batchNumber;
@@ -126,15 +204,14 @@ const MultiCaptureScreen: React.FC = () => {
         }
 
         // Save session for each machine
-        const currentDate = new Date().toISOString().split('T')[0];
-        const hours = new Date().getUTCHours() + 2;
-        const currentShift = hours >= 6 && hours < 18 ? 'Day' : 'Night';
+        const { shift: currentShift, shiftDate: currentDate } = getCurrentShiftContext(machineNames[0]);
 
         machineDataList.forEach(machineData => {
             const sessionKey = getSessionKey(machineData.machineName, currentShift, currentDate);
             const session: ShiftSession = {
                 machineName: machineData.machineName,
                 operatorName: machineData.operatorName,
+                operatorId: machineData.operatorId,
                 orderNumber,
                 product,
                 batchNumber,
@@ -146,6 +223,11 @@ const MultiCaptureScreen: React.FC = () => {
                 speedEntries: machineData.speed ? [{ id: uuidv4(), speed: Number(machineData.speed), timestamp: new Date() }] : [],
             };
             localStorage.setItem(sessionKey, JSON.stringify(session));
+
+            // Share with sub-machines captured on other tablets
+            if (machineData.speed) {
+                recordLineSpeedChange(machineData.machineName, currentShift, currentDate, Number(machineData.speed), machineData.operatorName);
+            }
         });
 
         setIsSessionLocked(true);
@@ -157,13 +239,13 @@ const MultiCaptureScreen: React.FC = () => {
         if (waste && wasteType) {
             const newEntry: WasteEntry = {
                 id: uuidv4(),
-                waste: Number(waste),
-                wasteType,
-                timestamp: new Date()
+                ...measureWaste(wasteType, Number(waste)),
+                timestamp: new Date(),
+                ...getOperatorStamp(),
             };
             setWasteEntries([...wasteEntries, newEntry]);
             setWaste('');
-            setWasteType('');
+            setWasteType(null);
             setShowWasteModal(false);
             showToast('Waste entry added', 'success');
         }
@@ -175,12 +257,14 @@ const MultiCaptureScreen: React.FC = () => {
             const newEntry: DowntimeEntry = {
                 id: uuidv4(),
                 downtime: Number(downtime),
-                downtimeReason,
-                timestamp: new Date()
+                downtimeReason: downtimeReason.name,
+                reasonCode: downtimeReason.code,
+                timestamp: new Date(Date.now() - Number(downtime) * 60000), // Stop start
+                ...getOperatorStamp(),
             };
             setDowntimeEntries([...downtimeEntries, newEntry]);
             setDowntime('');
-            setDowntimeReason('');
+            setDowntimeReason(null);
             setShowDowntimeModal(false);
             showToast('Downtime entry added', 'success');
         }
@@ -218,6 +302,8 @@ const MultiCaptureScreen: React.FC = () => {
         const totalWaste = wasteEntries.reduce((sum, e) => sum + e.waste, 0);
         const totalDowntime = downtimeEntries.reduce((sum, e) => sum + e.downtime, 0);
 
+        let queued = 0;
+
         try {
             // Submit for each machine
             for (const machineData of machineDataList) {
@@ -229,7 +315,8 @@ const MultiCaptureScreen: React.FC = () => {
                     product,
                     batchNumber,
                     shift,
-                    date: dateTime.toISOString().split('T')[0],
+                    crew: crew || undefined,
+                    date: shiftDate,
                     wasteEntries,
                     downtimeEntries,
                     speedEntries: machineData.speed ? [{ id: uuidv4(), speed: Number(machineData.speed), timestamp: new Date() }] : [],
@@ -242,34 +329,53 @@ const MultiCaptureScreen: React.FC = () => {
                 saveShiftData(shiftData);
 
                 // Submit to Supabase
-                await submitShiftData(
-                    {
+                const submission: FullShiftSubmission = {
+                    idempotencyKey: shiftData.id,
+                    shiftData: {
                         operator_name: machineData.operatorName,
                         machine: machineData.machineName,
                         order_number: orderNumber,
                         product,
                         batch_number: batchNumber,
                         shift,
-                        submission_date: dateTime.toISOString().split('T')[0],
+                        crew: crew || undefined,
+                        submission_date: shiftDate,
                         is_early_submission: false,
                     },
-                    wasteEntries.map(e => ({ waste: e.waste, wasteType: e.wasteType, timestamp: e.timestamp })),
-                    downtimeEntries.map(e => ({ downtime: e.downtime, downtimeReason: e.downtimeReason, timestamp: e.timestamp })),
-                    machineData.speed ? [{ speed: Number(machineData.speed), timestamp: new Date() }] : [],
-                    [],
-                    [],
-                    []
-                );
+                    wasteEntries: wasteEntries.map(e => ({
+                        waste: e.waste,
+                        wasteType: e.wasteType,
+                        wasteTypeCode: e.wasteTypeCode,
+                        quantity: e.quantity,
+                        unit: e.unit,
+                        cost: e.cost,
+                        timestamp: e.timestamp,
+                        operatorId: e.operatorId,
+                        operatorName: e.operatorName,
+                    })),
+                    downtimeEntries: downtimeEntries.map(e => ({ downtime: e.downtime, downtimeReason: e.downtimeReason, reasonCode: e.reasonCode, timestamp: e.timestamp, operatorId: e.operatorId, operatorName: e.operatorName })),
+                    speedEntries: shiftData.speedEntries?.map(e => ({ speed: e.speed, timestamp: e.timestamp })),
+                };
+
+                try {
+                    await submitShiftData(submission);
+                } catch (error) {
+                    // Queue in the offline outbox and carry on with the other machines
+                    await enqueueOutbox({ kind: 'shift_submission', payload: submission }, { error });
+                    queued++;
+                }
             }
 
-            showToast(`Submitted for ${machineDataList.length} machines`, 'success');
+            showToast(
+                queued > 0
+                    ? `Saved for ${machineDataList.length} machines. ${queued} will sync automatically.`
+                    : `Submitted for ${machineDataList.length} machines`,
+                'success'
+            );
 
             // Clear sessions
-            const currentDate = new Date().toISOString().split('T')[0];
-            const hours = new Date().getUTCHours() + 2;
-            const currentShift = hours >= 6 && hours < 18 ? 'Day' : 'Night';
             machineDataList.forEach(m => {
-                localStorage.removeItem(getSessionKey(m.machineName, currentShift, currentDate));
+                localStorage.removeItem(getSessionKey(m.machineName, shift, shiftDate));
             });
 
             setTimeout(() => navigate('/'), 2000);
@@ -329,6 +435,13 @@ const MultiCaptureScreen: React.FC = () => {
                 onCancel={() => setShowConfirmDialog(false)}
             />
 
+            {/* Operator badge / PIN identification */}
+            <OperatorIdentify
+                isOpen={identifyIndex !== null}
+                onClose={() => setIdentifyIndex(null)}
+                onIdentified={operator => handleOperatorIdentified(operator)}
+            />
+
             {/* Header */}
             <header className="capture-header-v2">
                 <button className="back-btn-v2" onClick={handleBack}>
@@ -338,12 +451,12 @@ const MultiCaptureScreen: React.FC = () => {
                     Back
                 </button>
                 <div className="capture-title-v2">
-                    <h1>{parentGroup} — Machine {machineNumbers}</h1>
+                    <h1>{parentLabel} — {subMachineLabels}</h1>
                     <span className="capture-subtitle">Recording for {machineDataList.length} machines</span>
                 </div>
                 <div className={`shift-badge-v2 ${shift.toLowerCase()}`}>
                     <span className="shift-icon">{shift === 'Day' ? '◐' : '◑'}</span>
-                    {shift} Shift
+                    {shift} Shift{crew && ` · Crew ${crew}`}
                 </div>
             </header>
 
@@ -362,24 +475,34 @@ const MultiCaptureScreen: React.FC = () => {
                                     <div className="machine-card-header">
                                         <span className="machine-number">{index + 1}</span>
                                         <span className="machine-card-name">
-                                            {machineData.machineName.split(' - ')[1] || machineData.machineName}
+                                            {getSubMachineCardLabel(machineData.machineName)}
                                         </span>
                                         <span className="machine-parent">
-                                            {machineData.machineName.split(' - ')[0]}
+                                            {parentLabel}
                                         </span>
                                     </div>
 
                                     <div className="machine-card-fields">
                                         <div className="form-field">
-                                            <label className="form-label">Operator Number</label>
-                                            <input
-                                                type="text"
-                                                className="form-input"
-                                                value={machineData.operatorName}
-                                                onChange={e => updateMachineData(index, 'operatorName', e.target.value)}
-                                                placeholder="Enter operator number"
-                                                disabled={isSessionLocked}
-                                            />
+                                            <label className="form-label">Operator</label>
+                                            <div className="operator-field">
+                                                <input
+                                                    type="text"
+                                                    className="form-input"
+                                                    value={machineData.operatorName}
+                                                    placeholder="Scan badge or enter PIN"
+                                                    readOnly
+                                                    disabled={isSessionLocked}
+                                                />
+                                                <button
+                                                    type="button"
+                                                    className="operator-identify-btn"
+                                                    onClick={() => setIdentifyIndex(index)}
+                                                    disabled={isSessionLocked}
+                                                >
+                                                    Identify
+                                                </button>
+                                            </div>
                                         </div>
 
                                         <div className="form-field">
@@ -419,7 +542,8 @@ const MultiCaptureScreen: React.FC = () => {
                                 <input
                                     type="text"
                                     className="form-input"
-                                    placeholder="Enter product"
+                                    placeholder="Enter product or SKU"
+                                    list={PRODUCT_LIST_ID}
                                     value={product}
                                     onChange={e => setProduct(e.target.value)}
                                     disabled={isSessionLocked}
@@ -474,10 +598,13 @@ const MultiCaptureScreen: React.FC = () => {
                                     {wasteEntries.slice().reverse().map((entry, index) => (
                                         <div key={entry.id} className={`capture-entry-item waste-entry ${index === 0 ? 'latest' : ''}`}>
                                             <div className="entry-main">
-                                                <span className="entry-value">{entry.waste}</span>
-                                                <span className="entry-unit">kg</span>
+                                                <span className="entry-value">{entry.quantity ?? entry.waste}</span>
+                                                <span className="entry-unit">{entry.unit || 'kg'}</span>
                                             </div>
-                                            <span className="entry-type">{entry.wasteType}</span>
+                                            <span className="entry-type">
+                                                {entry.wasteType}
+                                                {entry.unit && entry.unit !== 'kg' && ` · ${entry.waste.toFixed(2)} kg`}
+                                            </span>
                                             <span className="entry-time">
                                                 {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                                             </span>
@@ -584,29 +711,25 @@ const MultiCaptureScreen: React.FC = () => {
                             <h3>Record Waste</h3>
                             <div className="modal-form">
                                 <div className="form-field">
-                                    <label className="form-label">Amount (kg)</label>
+                                    <label className="form-label">Waste Type</label>
+                                    <WasteTypeSelect
+                                        value={wasteType}
+                                        onChange={setWasteType}
+                                        product={product}
+                                        placeholder="Select Type"
+                                        autoFocus
+                                    />
+                                </div>
+                                <div className="form-field">
+                                    <label className="form-label">Amount ({wasteType?.unit || 'kg'})</label>
                                     <input
                                         type="number"
                                         className="form-input"
                                         value={waste}
                                         onChange={e => setWaste(e.target.value ? Number(e.target.value) : '')}
                                         placeholder="Enter waste amount"
-                                        autoFocus
                                     />
                                 </div>
-                                <div className="form-field">
-                                    <label className="form-label">Waste Type</label>
-                                    <select
-                                        className="form-select"
-                                        value={wasteType}
-                                        onChange={e => setWasteType(e.target.value)}
-                                    >
-                                        <option value="">Select Type</option>
-                                        {WASTE_TYPES.map(t => (
-                                            <option key={t} value={t}>{t}</option>
-                                        ))}
-                                    </select>
-                                </div>
                             </div>
                             <div className="modal-actions">
                                 <button className="modal-cancel" onClick={() => setShowWasteModal(false)}>Cancel</button>
@@ -651,16 +774,12 @@ const MultiCaptureScreen: React.FC = () => {
                                 </div>
                                 <div className="form-field">
                                     <label className="form-label">Reason</label>
-                                    <select
-                                        className="form-select"
+                                    <DowntimeReasonSelect
                                         value={downtimeReason}
-                                        onChange={e => setDowntimeReason(e.target.value)}
-                                    >
-                                        <option value="">Select Reason</option>
-                                        {DOWNTIME_REASONS.map(r => (
-                                            <option key={r} value={r}>{r}</option>
-                                        ))}
-                                    </select>
+                                        onChange={setDowntimeReason}
+                                        machineIds={reasonMachineIds}
+                                        placeholder="Select Reason"
+                                    />
                                 </div>
                             </div>
                             <div className="modal-actions">
@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import SpcChart from '../components/SpcChart';
+import { PageSkeleton } from '../components/LoadingSkeleton';
+import { useProducts, findProduct, getMassLimits, PRODUCT_LIST_ID } from '../lib/products';
+import { analyzeSachetMass, loadSachetMassHistory, MassSample, SUBGROUP_SIZES, MIN_BASELINE_SAMPLES } from '../lib/spc';
+
+const PERIODS = [7, 30, 90];
+
+const SpcPage: React.FC = () => {
+  const navigate = useNavigate();
+  const products = useProducts();
+  const [product, setProduct] = useState('');
+  const [days, setDays] = useState(30);
+  const [subgroupSize, setSubgroupSize] = useState(1);
+  const [samples, setSamples] = useState<MassSample[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Start on the first active product in the catalogue
+  useEffect(() => {
+    if (!product) {
+      const first = products.find(p => p.active && p.targetMass);
+      if (first) setProduct(first.name);
+    }
+  }, [products, product]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    loadSachetMassHistory(product, days)
+      .then(data => {
+        if (!cancelled) setSamples(data);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [product, days]);
+
+  const spec = useMemo(() => getMassLimits(findProduct(products, product)), [products, product]);
+  const analysis = useMemo(
+    () => analyzeSachetMass(samples, { subgroupSize, spec }),
+    [samples, subgroupSize, spec]
+  );
+
+  return (
+    <motion.div
+      className="history-page-v2"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <header className="history-header-v2">
+        <div className="header-left-v2">
+          <button className="back-btn-v2" onClick={() => navigate('/')}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M19 12H5M12 19l-7-7 7-7"/>
+            </svg>
+            Dashboard
+          </button>
+          <div className="header-titles">
+            <h1>Sachet Mass SPC</h1>
+            <span className="header-subtitle">
+              {product ? `${product} · last ${days} days` : 'Choose a product'}
+            </span>
+          </div>
+        </div>
+      </header>
+
+      <main className="history-main">
+        <div className="history-filters-v2">
+          <div className="filter-group-v2">
+            <label htmlFor="spc-product">Product</label>
+            <input
+              id="spc-product"
+              type="text"
+              className="history-filter-input"
+              list={PRODUCT_LIST_ID}
+              placeholder="Product name or SKU..."
+              value={product}
+              onChange={e => setProduct(e.target.value)}
+            />
+          </div>
+          <div className="filter-group-v2">
+            <label>Time Period</label>
+            <div className="filter-pills">
+              {PERIODS.map(period => (
+                <button
+                  key={period}
+                  className={`filter-pill ${days === period ? 'active' : ''}`}
+                  onClick={() => setDays(period)}
+                >
+                  {period} Days
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="filter-group-v2">
+            <label htmlFor="spc-subgroup">Subgroup Size</label>
+            <select
+              id="spc-subgroup"
+              className="history-filter-input"
+              value={subgroupSize}
+              onChange={e => setSubgroupSize(Number(e.target.value))}
+            >
+              {SUBGROUP_SIZES.map(size => (
+                <option key={size} value={size}>
+                  {size === 1 ? 'Individuals (1)' : `X̄-R (${size})`}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {isLoading && <PageSkeleton />}
+
+        {!isLoading && (
+          <>
+            <div className="history-stats-v2">
+              <div className="stat-card-v2">
+                <span className="stat-value-v2">{samples.length}</span>
+                <span className="stat-label-v2">Samples</span>
+              </div>
+              <div className="stat-card-v2">
+                <span className="stat-value-v2">{analysis.capability ? analysis.capability.cpk.toFixed(2) : '—'}</span>
+                <span className="stat-label-v2">Cpk</span>
+              </div>
+              <div className="stat-card-v2 waste">
+                <span className="stat-value-v2">{analysis.violations.length}</span>
+                <span className="stat-label-v2">Rule Violations</span>
+              </div>
+            </div>
+
+            {!spec && product && (
+              <p className="spc-note">
+                No target mass is set for this product, so Cp / Cpk cannot be calculated. Set one under Admin → Products.
+              </p>
+            )}
+            {samples.length > 0 && samples.length < MIN_BASELINE_SAMPLES && (
+              <p className="spc-note">
+                Fewer than {MIN_BASELINE_SAMPLES} samples - control limits are only indicative.
+              </p>
+            )}
+
+            <SpcChart analysis={analysis} spec={spec} height={300} />
+          </>
+        )}
+      </main>
+    </motion.div>
+  );
+};
+
+export default SpcPage;
@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { motion } from 'framer-motion';
+import DashboardCharts from '../components/DashboardCharts';
+import StateTimeline from '../components/StateTimeline';
+import { PageSkeleton } from '../components/LoadingSkeleton';
+import { ShiftData } from '../types';
+import { loadSubmissionDetail, buildShiftTimeline, TimelineEventKind } from '../lib/submissionDetail';
+import { getWasteCost } from '../lib/wasteTypes';
+import { buildStateTimeline } from '../lib/stateTimeline';
+import { getShiftWindow } from '../lib/facilitySettings';
+import { useProducts, findProduct, summarizeProductTargets } from '../lib/products';
+
+const TIMELINE_ICONS: Record<TimelineEventKind, string> = {
+  waste: '🗑️',
+  downtime: '⏸️',
+  speed: '⚡',
+  sachet_mass: '⚖️',
+  loose_cases: '📦',
+  pallet: '🏷️',
+};
+
+const formatFlag = (value?: boolean): string =>
+  value === undefined ? 'Not recorded' : value ? 'Yes' : 'No';
+
+const formatMinutes = (mins: number): string =>
+  `${Math.floor(mins / 60) > 0 ? `${Math.floor(mins / 60)}h ` : ''}${mins % 60}m`;
+
+const SubmissionDetailPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { submissionId = '' } = useParams<{ submissionId: string }>();
+  const [submission, setSubmission] = useState<ShiftData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    loadSubmissionDetail(submissionId)
+      .then(data => {
+        if (cancelled) return;
+        setSubmission(data);
+        if (!data) setError('Submission not found');
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load submission');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [submissionId]);
+
+  const timeline = useMemo(() => (submission ? buildShiftTimeline(submission) : []), [submission]);
+
+  // Machine states over the shift the first entry was recorded in, up to the submission
+  const stateTimeline = useMemo(() => {
+    if (!submission) return null;
+    const submittedAt = new Date(submission.submittedAt);
+    const shiftWindow = getShiftWindow(timeline.length > 0 ? new Date(timeline[0].timestamp) : submittedAt,
+      submission.subMachine || submission.machine);
+    return buildStateTimeline({
+      start: shiftWindow.start,
+      end: submittedAt > shiftWindow.end ? submittedAt : shiftWindow.end,
+      now: submittedAt,
+      downtimeEntries: submission.downtimeEntries,
+      wasteEntries: submission.wasteEntries,
+      palletScanEntries: submission.palletScanEntries,
+    });
+  }, [submission, timeline]);
+  const wasteCost = submission ? getWasteCost(submission.wasteEntries) : 0;
+  const products = useProducts();
+
+  // Production figures from the entries that were not ignored, against the product targets
+  const production = useMemo(() => {
+    if (!submission) return null;
+    const pallets = (submission.palletScanEntries || []).filter(e => !e.ignored);
+    const looseCases = (submission.looseCasesEntries || []).filter(e => !e.ignored);
+
+    return {
+      ...summarizeProductTargets(
+        findProduct(products, submission.product),
+        submission.speedEntries,
+        submission.sachetMassEntries
+      ),
+      palletCount: pallets.length,
+      palletCases: pallets.reduce((sum, e) => sum + e.casesCount, 0),
+      looseCases: looseCases.reduce((sum, e) => sum + e.cases, 0),
+    };
+  }, [submission, products]);
+
+  return (
+    <motion.div
+      className="history-page-v2"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <header className="history-header-v2">
+        <div className="header-left-v2">
+          <button className="back-btn-v2" onClick={() => navigate('/history')}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M19 12H5M12 19l-7-7 7-7"/>
+            </svg>
+            History
+          </button>
+          <div className="header-titles">
+            <h1>{submission ? `${submission.machine} - ${submission.shift} Shift` : 'Submission'}</h1>
+            <span className="header-subtitle">
+              {submission
+                ? `${format(parseISO(submission.date), 'EEE, MMM dd yyyy')} · submitted ${format(new Date(submission.submittedAt), 'HH:mm')}`
+                : isLoading ? 'Loading...' : ''}
+            </span>
+          </div>
+        </div>
+      </header>
+
+      <main className="history-main">
+        {isLoading && <PageSkeleton />}
+
+        {!isLoading && error && (
+          <div className="empty-state-v2">
+            <h3>{error}</h3>
+            <p>It may have been removed, or it was submitted on another device while offline.</p>
+          </div>
+        )}
+
+        {!isLoading && submission && production && (
+          <>
+            {/* Shift details */}
+            <div className="submission-detail-grid">
+              <div className="submission-detail-card">
+                <h3>Shift</h3>
+                <dl>
+                  <dt>Operator</dt><dd>{submission.operatorName}</dd>
+                  <dt>Machine</dt><dd>{submission.subMachine || submission.machine}</dd>
+                  <dt>Shift</dt><dd>{submission.shift}{submission.crew ? ` (Crew ${submission.crew})` : ''}</dd>
+                  <dt>Order</dt><dd>{submission.orderNumber}</dd>
+                  <dt>Product</dt><dd>{submission.product}</dd>
+                  <dt>Batch</dt><dd>{submission.batchNumber}</dd>
+                </dl>
+              </div>
+
+              <div className="submission-detail-card">
+                <h3>End of Shift</h3>
+                <dl>
+                  <dt>Early submission</dt><dd>{formatFlag(submission.isEarlySubmission)}</dd>
+                  <dt>Changeover</dt><dd>{formatFlag(submission.willChangeover)}</dd>
+                  <dt>Maintenance / cleaning</dt><dd>{formatFlag(submission.willMaintenanceCleaning)}</dd>
+                </dl>
+              </div>
+
+              <div className="submission-detail-card">
+                <h3>Production</h3>
+                <dl>
+                  <dt>Average speed</dt>
+                  <dd>
+                    {production.averageSpeed !== null ? `${production.averageSpeed.toFixed(0)} PPM` : '—'}
+                    {production.speedAttainment !== null &&
+                      ` (${Math.round(production.speedAttainment * 100)}% of ${production.ratedSpeed} rated)`}
+                  </dd>
+                  <dt>Average sachet mass</dt>
+                  <dd>
+                    {production.averageMass !== null ? `${production.averageMass.toFixed(1)} g` : '—'}
+                    {production.massChecked > 0 &&
+                      ` (target ${production.targetMass} g · ${production.massInSpec}/${production.massChecked} in spec)`}
+                  </dd>
+                  <dt>Pallets</dt>
+                  <dd>{production.palletCount} ({production.palletCases} cases)</dd>
+                  <dt>Loose cases</dt>
+                  <dd>{production.looseCases}</dd>
+                </dl>
+              </div>
+            </div>
+
+            <div className="history-stats-v2">
+              <div className="stat-card-v2 waste">
+                <span className="stat-value-v2">{submission.totalWaste.toFixed(1)}<small>kg</small></span>
+                <span className="stat-label-v2">Total Waste</span>
+              </div>
+              {wasteCost > 0 && (
+                <div className="stat-card-v2 waste">
+                  <span className="stat-value-v2">{wasteCost.toFixed(2)}</span>
+                  <span className="stat-label-v2">Waste Cost</span>
+                </div>
+              )}
+              <div className="stat-card-v2 downtime">
+                <span className="stat-value-v2">{formatMinutes(submission.totalDowntime)}</span>
+                <span className="stat-label-v2">Total Downtime</span>
+              </div>
+              <div className="stat-card-v2">
+                <span className="stat-value-v2">{timeline.length}</span>
+                <span className="stat-label-v2">Entries</span>
+              </div>
+            </div>
+
+            <DashboardCharts wasteEntries={submission.wasteEntries} downtimeEntries={submission.downtimeEntries} />
+
+            {stateTimeline && (
+              <section className="submission-timeline">
+                <h3>Machine States</h3>
+                <StateTimeline timeline={stateTimeline} />
+                <p className="state-timeline-note">
+                  Run time is the shift up to submission less the recorded downtime.
+                </p>
+              </section>
+            )}
+
+            {/* Shift timeline */}
+            <section className="submission-timeline">
+              <h3>Timeline</h3>
+              {timeline.length === 0 ? (
+                <p className="submission-timeline-empty">No entries were recorded during this shift.</p>
+              ) : (
+                <ol>
+                  {timeline.map(event => (
+                    <li
+                      key={event.id}
+                      className={`submission-timeline-item ${event.kind}${event.ignored ? ' ignored' : ''}`}
+                    >
+                      <time>{format(new Date(event.timestamp), 'HH:mm')}</time>
+                      <span className="timeline-icon" aria-hidden="true">{TIMELINE_ICONS[event.kind]}</span>
+                      <div className="timeline-body">
+                        <strong>{event.label}</strong>
+                        {event.detail && <span>{event.detail}</span>}
+                        {event.operatorName && <span className="timeline-operator">{event.operatorName}</span>}
+                        {event.ignored && <span className="timeline-ignored">Ignored</span>}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </motion.div>
+  );
+};
+
+export default SubmissionDetailPage;
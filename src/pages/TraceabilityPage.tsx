@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { motion } from 'framer-motion';
+import QRScanner from '../components/QRScanner';
+import { PageSkeleton } from '../components/LoadingSkeleton';
+import { parseTraceQuery, loadTraceability, TraceResult, TraceRecord } from '../lib/traceability';
+import { useProducts, findProduct, summarizeProductTargets } from '../lib/products';
+import { formatWasteQuantity } from '../lib/wasteTypes';
+import { formatDowntimeReason } from '../lib/downtimeReasons';
+import { findMissingPallets } from '../lib/palletChecks';
+
+const formatTime = (timestamp: Date): string => format(new Date(timestamp), 'HH:mm');
+
+const TraceabilityPage: React.FC = () => {
+  const navigate = useNavigate();
+  const products = useProducts();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchValue = searchParams.get('q') || '';
+  const [input, setInput] = useState(searchValue);
+  const [showScanner, setShowScanner] = useState(false);
+  const [result, setResult] = useState<TraceResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The search lives in the URL so a trace can be shared
+  useEffect(() => {
+    setInput(searchValue);
+    setResult(null);
+    setError(null);
+    if (!searchValue) return;
+
+    const query = parseTraceQuery(searchValue);
+    if (!query) {
+      setError('Enter a pallet label (13-digit QR or GS1) or a batch number');
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    loadTraceability(query)
+      .then(data => {
+        if (!cancelled) setResult(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to trace batch');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchValue]);
+
+  const search = (value: string) => {
+    const trimmed = value.trim();
+    if (trimmed) setSearchParams({ q: trimmed });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    search(input);
+  };
+
+  const missingPallets = result
+    ? findMissingPallets(result.records.flatMap(r => r.pallets.map(p => p.palletNumber)))
+    : [];
+
+  const handleScan = (qrData: string) => {
+    setShowScanner(false);
+    search(qrData);
+  };
+
+  const renderRecord = ({ submission, pallets, looseCases }: TraceRecord) => {
+    const targets = summarizeProductTargets(
+      findProduct(products, submission.product),
+      submission.speedEntries,
+      submission.sachetMassEntries
+    );
+    const masses = (submission.sachetMassEntries || []).filter(e => !e.ignored);
+
+    return (
+      <section key={submission.id} className="trace-record">
+        <div className="trace-record-header">
+          <h2>
+            {submission.subMachine || submission.machine} · {format(parseISO(submission.date), 'EEE, MMM dd yyyy')} · {submission.shift} Shift
+          </h2>
+          <button className="back-btn-v2" onClick={() => navigate(`/history/${submission.id}`)}>
+            View shift
+          </button>
+        </div>
+
+        <div className="submission-detail-grid">
+          <div className="submission-detail-card">
+            <h3>Production</h3>
+            <dl>
+              <dt>Order</dt><dd>{submission.orderNumber}</dd>
+              <dt>Product</dt><dd>{submission.product}</dd>
+              <dt>Shift batch</dt><dd>{submission.batchNumber}</dd>
+              <dt>Operator</dt><dd>{submission.operatorName}</dd>
+              <dt>Shift</dt><dd>{submission.shift}{submission.crew ? ` (Crew ${submission.crew})` : ''}</dd>
+              <dt>Submitted</dt><dd>{format(new Date(submission.submittedAt), 'dd MMM HH:mm')}</dd>
+            </dl>
+          </div>
+
+          <div className="submission-detail-card">
+            <h3>Batch Output</h3>
+            <dl>
+              <dt>Pallets</dt>
+              <dd>{pallets.length > 0 ? pallets.map(p => p.palletNumber).join(', ') : '—'}</dd>
+              <dt>Pallet cases</dt><dd>{pallets.reduce((sum, p) => sum + p.casesCount, 0)}</dd>
+              <dt>Loose cases</dt><dd>{looseCases.reduce((sum, e) => sum + e.cases, 0)}</dd>
+              <dt>Waste</dt><dd>{submission.totalWaste.toFixed(1)} kg</dd>
+              <dt>Downtime</dt><dd>{submission.totalDowntime} min</dd>
+            </dl>
+          </div>
+
+          <div className="submission-detail-card">
+            <h3>Sachet Mass</h3>
+            <dl>
+              <dt>Readings</dt><dd>{masses.length}</dd>
+              <dt>Average</dt>
+              <dd>{targets.averageMass !== null ? `${targets.averageMass.toFixed(2)} g` : '—'}</dd>
+              <dt>Range</dt>
+              <dd>
+                {masses.length > 0
+                  ? `${Math.min(...masses.map(e => e.mass))}–${Math.max(...masses.map(e => e.mass))} g`
+                  : '—'}
+              </dd>
+              {targets.massChecked > 0 && (
+                <>
+                  <dt>In spec</dt><dd>{targets.massInSpec}/{targets.massChecked} (target {targets.targetMass} g)</dd>
+                </>
+              )}
+            </dl>
+          </div>
+        </div>
+
+        {masses.length > 0 && (
+          <div className="trace-readings">
+            {masses.map(e => (
+              <span key={e.id} className="trace-reading">
+                {formatTime(e.timestamp)} · {e.mass} g
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="trace-entry-lists">
+          <div>
+            <h3>Waste</h3>
+            {submission.wasteEntries.length === 0 ? (
+              <p className="trace-empty">No waste recorded</p>
+            ) : (
+              <ul>
+                {submission.wasteEntries.map(e => (
+                  <li key={e.id}>
+                    <time>{formatTime(e.timestamp)}</time> {formatWasteQuantity(e)} - {e.wasteType}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <h3>Downtime</h3>
+            {submission.downtimeEntries.length === 0 ? (
+              <p className="trace-empty">No downtime recorded</p>
+            ) : (
+              <ul>
+                {submission.downtimeEntries.map(e => (
+                  <li key={e.id}>
+                    <time>{formatTime(e.timestamp)}</time> {e.downtime} min - {formatDowntimeReason(e)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </section>
+    );
+  };
+
+  return (
+    <motion.div
+      className="history-page-v2"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <header className="history-header-v2">
+        <div className="header-left-v2">
+          <button className="back-btn-v2" onClick={() => navigate('/')}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M19 12H5M12 19l-7-7 7-7"/>
+            </svg>
+            Dashboard
+          </button>
+          <div className="header-titles">
+            <h1>Traceability</h1>
+            <span className="header-subtitle">Trace a pallet or batch back to its production</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="history-main">
+        <form className="history-filters-v2" onSubmit={handleSubmit}>
+          <div className="filter-group-v2 trace-search">
+            <label htmlFor="trace-query">Pallet QR or Batch Number</label>
+            <input
+              id="trace-query"
+              type="text"
+              className="history-filter-input"
+              placeholder="Scan or type a pallet QR code or batch number..."
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <div className="trace-actions">
+            <button type="submit" className="filter-pill active">Trace</button>
+            <button type="button" className="filter-pill" onClick={() => setShowScanner(true)}>
+              📷 Scan
+            </button>
+          </div>
+        </form>
+
+        {isLoading && <PageSkeleton />}
+
+        {!isLoading && error && (
+          <div className="empty-state-v2">
+            <h3>{error}</h3>
+          </div>
+        )}
+
+        {!isLoading && result && (
+          <>
+            <div className="history-stats-v2">
+              <div className="stat-card-v2">
+                <span className="stat-value-v2">{result.query.batchNumber}</span>
+                <span className="stat-label-v2">Batch</span>
+              </div>
+              {result.query.kind === 'pallet' && (
+                <div className="stat-card-v2">
+                  <span className="stat-value-v2">{result.query.palletNumber}</span>
+                  <span className="stat-label-v2">
+                    {result.pallet ? `Pallet · scanned ${format(new Date(result.pallet.entry.timestamp), 'dd MMM HH:mm')}` : 'Pallet · not scanned'}
+                  </span>
+                </div>
+              )}
+              <div className="stat-card-v2">
+                <span className="stat-value-v2">{result.records.length}</span>
+                <span className="stat-label-v2">Shifts</span>
+              </div>
+              {missingPallets.length > 0 && (
+                <div className="stat-card-v2 waste" title={`Missing: ${missingPallets.join(', ')}`}>
+                  <span className="stat-value-v2">{missingPallets.length}</span>
+                  <span className="stat-label-v2">Pallets Missing From Sequence</span>
+                </div>
+              )}
+            </div>
+
+            {result.records.length === 0 ? (
+              <div className="empty-state-v2">
+                <h3>No production found for batch {result.query.batchNumber}</h3>
+                <p>Shifts submitted on another device while offline only appear once they have synced.</p>
+              </div>
+            ) : (
+              result.records.map(renderRecord)
+            )}
+          </>
+        )}
+      </main>
+
+      <QRScanner isOpen={showScanner} onClose={() => setShowScanner(false)} onScan={handleScan} />
+    </motion.div>
+  );
+};
+
+export default TraceabilityPage;
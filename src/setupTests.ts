@@ -3,3 +3,7 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+import { TextEncoder, TextDecoder } from 'util';
+
+// jsdom has no TextEncoder / TextDecoder; Node's behave the same as the browser's
+Object.assign(global, { TextEncoder, TextDecoder });
@@ -1,16 +1,66 @@
-export interface WasteEntry {
+// Operator registry entry - operators identify themselves on capture tablets
+// by scanning their badge QR or entering their PIN
+export interface Operator {
   id: string;
-  waste: number;
+  name: string;
+  employeeNumber?: string;
+  badgeCode?: string;
+  active: boolean;
+}
+
+// Operator who recorded an entry
+export interface OperatorStamp {
+  operatorId?: string;
+  operatorName?: string;
+}
+
+export interface WasteEntry extends OperatorStamp {
+  id: string;
+  waste: number; // in kg, converted from the quantity for unit-counted types
   wasteType: string;
+  wasteTypeCode?: string; // WasteType.code
+  quantity?: number;      // Amount in the type's unit of measure
+  unit?: WasteUnit;
+  cost?: number;          // quantity x cost per unit when recorded
   timestamp: Date;
 }
 
-export interface DowntimeEntry {
+export type WasteUnit = 'kg' | 'units' | 'm';
+
+// Waste type catalogue entry - see lib/wasteTypes for the defaults.
+// Unit-counted types convert to kg so shift totals stay comparable.
+export interface WasteType {
+  id: string;
+  code: string;
+  name: string;
+  unit: WasteUnit;
+  kgPerUnit: number;      // Conversion to kg (1 for kg types)
+  costPerUnit: number;
+  products: string[];     // Products it applies to; empty for every product
+  sortOrder: number;
+  active: boolean;
+}
+
+export interface DowntimeEntry extends OperatorStamp {
   id: string;
   downtime: number;
   downtimeReason: string;
+  reasonCode?: string; // DowntimeReason.code, resolves the reason's category
   notes?: string;
-  timestamp: Date;
+  timestamp: Date;     // When the stop started
+}
+
+// Downtime reason tree node - a category (parentId null) or a sub-reason.
+// Managed by admins; see lib/downtimeReasons for the default tree.
+export interface DowntimeReason {
+  id: string;
+  parentId: string | null;
+  code: string;           // Stable code stored on downtime entries
+  name: string;
+  planned: boolean;       // Planned stops are excluded from OEE availability
+  machineIds: string[];   // Machines it applies to; empty for every machine
+  sortOrder: number;
+  active: boolean;
 }
 
 // Production timer state for tracking run time and pauses
@@ -20,6 +70,16 @@ export interface ProductionState {
   pausedAt: Date | null;        // When current pause began
   totalRunTimeMs: number;       // Accumulated run time in milliseconds
   lastResumedAt: Date | null;   // When last resumed from pause
+  pauseReason?: string | null;  // Why the current pause happened, when known
+  pauseReasonCode?: string | null;
+  pauseHistory?: ProductionPause[]; // Finished pauses, oldest first
+}
+
+export interface ProductionPause {
+  pausedAt: Date;
+  resumedAt: Date;
+  reason?: string;
+  reasonCode?: string;
 }
 
 export interface SpeedEntry {
@@ -44,14 +104,15 @@ export interface LooseCasesEntry {
   ignored?: boolean;
 }
 
-// Pallet Scan entry - QR code is 13 digits: BBBBBPPPPCCCC
+// Pallet Scan entry - decoded with the product or machine's label format (lib/labelFormats).
+// Legacy QR codes are 13 digits: BBBBBPPPPCCCC
 // B = batch number (5 digits), P = pallet number (4 digits), C = cases count (4 digits)
-export interface PalletScanEntry {
+export interface PalletScanEntry extends OperatorStamp {
   id: string;
-  qrCode: string; // Full 13-digit QR code
-  batchNumber: string; // Extracted: first 5 digits
-  palletNumber: string; // Extracted: digits 6-9 (4 digits)
-  casesCount: number; // Extracted: last 4 digits
+  qrCode: string; // Full label payload
+  batchNumber: string; // Legacy: first 5 digits, GS1: AI 10
+  palletNumber: string; // Legacy: digits 6-9 (4 digits), GS1: SSCC (AI 00)
+  casesCount: number; // Legacy: last 4 digits, GS1: AI 37
   timestamp: Date;
   ignored?: boolean;
 }
@@ -74,7 +135,8 @@ export interface ShiftData {
   product: string;
   batchNumber: string;
   shift: string;
-  date: string;
+  crew?: string; // Crew on shift, when the line runs a crew rotation
+  date: string; // Shift date - the production date the shift started on
   wasteEntries: WasteEntry[];
   downtimeEntries: DowntimeEntry[];
   speedEntries?: SpeedEntry[];
@@ -82,6 +144,9 @@ export interface ShiftData {
   casesPerHourEntries?: CasesPerHourEntry[]; // Legacy - kept for backwards compatibility
   looseCasesEntries?: LooseCasesEntry[]; // New: loose cases with batch number
   palletScanEntries?: PalletScanEntry[];
+  isEarlySubmission?: boolean; // Submitted before the shift's submission window
+  willChangeover?: boolean;
+  willMaintenanceCleaning?: boolean;
   submittedAt: Date;
   totalWaste: number;
   totalDowntime: number;
@@ -90,6 +155,7 @@ export interface ShiftData {
 export interface ShiftSession {
   machineName: string;
   operatorName: string;
+  operatorId?: string;
   orderNumber: string;
   product: string;
   batchNumber: string;
@@ -117,43 +183,77 @@ export interface Machine {
   todayWaste?: number;
   todayDowntime?: number;
   subMachineCount?: number; // Number of sub-machines (e.g., 4 for "Universal 2")
+  ratedSpeed?: number; // Rated speed in units per minute, used for OEE performance
+  unitsPerCase?: number; // Sachets per case, used to express waste against output for OEE quality
+  labelFormat?: string; // Pallet label format ID (see lib/labelFormats), unless the product sets one
+  lineId?: string; // Line the machine belongs to (see PlantUnit)
+  displayName?: string; // Shown instead of the name when set
+  sortOrder?: number; // Position within its line
+  subMachines?: SubMachine[]; // Sub-machine rows, when they have been loaded
+}
+
+// Status derived from the live session, production timer and tablet
+// heartbeat of a machine - see lib/machineStatus. The manual status above
+// only feeds in maintenance.
+export type LiveMachineStatus = 'running' | 'paused' | 'idle' | 'changeover' | 'maintenance' | 'no_operator';
+
+// Plant hierarchy: site -> area -> line -> machine -> sub-machine. Sites,
+// areas and lines are plant units; machines and sub-machines are machine
+// rows - see lib/machineHierarchy.
+export type HierarchyLevel = 'site' | 'area' | 'line' | 'machine' | 'sub_machine';
+
+export type PlantUnitLevel = 'site' | 'area' | 'line';
+
+export interface PlantUnit {
+  id: string;
+  level: PlantUnitLevel;
+  name: string;
+  displayName?: string;
+  parentId?: string; // Site of an area, area of a line
+  sortOrder: number;
+}
+
+export interface SubMachine {
+  id: string;
+  name: string; // e.g. "Universal 2 - Machine 1" - sessions and records use this
+  number: number; // Position under the machine, from 1
+  displayName?: string;
+  sortOrder: number;
+}
+
+// Product master data - see lib/products. Targets are optional; a product
+// only carries the ones that have been configured.
+export interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  ratedSpeed?: number;          // Rated line speed in units per minute
+  targetMass?: number;          // Target sachet mass in grams
+  massToleranceBelow?: number;  // Grams below target still in spec
+  massToleranceAbove?: number;  // Grams above target still in spec
+  sachetsPerCase?: number;
+  casesPerPallet?: number;
+  labelFormat?: string;         // Pallet label format ID (see lib/labelFormats)
+  active: boolean;
+}
+
+// Order lifecycle - see lib/orderLifecycle. Completed and cancelled orders
+// leave the machine's queue.
+export type OrderStatus = 'queued' | 'in_progress' | 'paused' | 'completed' | 'cancelled';
+
+// Production plan for a queued order - see lib/orderProgress
+export interface OrderPlan {
+  plannedQuantity?: number;     // Target in cases
+  dueDate?: string;             // yyyy-MM-dd
+  plannedStart?: string;        // ISO timestamp
 }
 
 // ==============================================
 // DEFAULT DATA
 // ==============================================
 
-export const OPERATORS: string[] = [];
 export const MACHINES: Machine[] = [];
 
-// Waste Types - common manufacturing waste categories
-export const WASTE_TYPES: string[] = [
-  'Start-up Waste',
-  'Changeover Waste',
-  'Defective Product',
-  'Material Spillage',
-];
-
-// Downtime Reasons - categorized by planned vs unplanned
-export const PLANNED_DOWNTIME_REASONS: string[] = [
-  'Scheduled Maintenance',
-  'Changeover',
-];
-
-export const UNPLANNED_DOWNTIME_REASONS: string[] = [
-  'Machine Breakdown',
-  'Material Shortage',
-];
-
-// Combined downtime reasons for selection
-export const DOWNTIME_REASONS: string[] = [
-  'Machine Breakdown',
-  'Scheduled Maintenance',
-  'Changeover',
-  'Material Shortage',
-];
-
 export const ORDER_NUMBERS: string[] = [];
-export const PRODUCTS: string[] = [];
 export const BATCH_NUMBERS: string[] = [];
 
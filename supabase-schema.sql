@@ -7,7 +7,8 @@
 --
 -- Notes on security:
 -- - The app uses the browser (anon) key, so your primary protection should be RLS.
--- - Current policies are permissive for development. Tighten for production.
+-- - Policies are role-based (operator / supervisor / admin from user_profiles);
+--   see ROLES & ROW LEVEL SECURITY at the end of this file.
 -- ============================================
 
 -- ==========================================
@@ -20,7 +21,7 @@ CREATE TABLE IF NOT EXISTS machines (
   status TEXT NOT NULL CHECK (status IN ('running', 'idle', 'maintenance')),
   current_operator TEXT,
   current_order TEXT,
-  current_shift TEXT CHECK (current_shift IS NULL OR current_shift IN ('Day', 'Night')),
+  current_shift TEXT,
   last_submission TIMESTAMPTZ,
   today_waste NUMERIC(10, 2),
   today_downtime INTEGER,
@@ -31,16 +32,15 @@ CREATE TABLE IF NOT EXISTS machines (
 
 -- Add new columns if they don't exist (for existing installations)
 ALTER TABLE machines ADD COLUMN IF NOT EXISTS current_order TEXT;
-ALTER TABLE machines ADD COLUMN IF NOT EXISTS current_shift TEXT CHECK (current_shift IS NULL OR current_shift IN ('Day', 'Night'));
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS current_shift TEXT;
 
 CREATE UNIQUE INDEX IF NOT EXISTS idx_machines_name_unique ON machines(name);
 
 -- Enable RLS
 ALTER TABLE machines ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on machines" ON machines;
-CREATE POLICY "Allow all operations on machines" ON machines
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 2. SHIFT SUBMISSIONS (main record)
@@ -54,7 +54,8 @@ CREATE TABLE IF NOT EXISTS shift_submissions (
   order_number TEXT NOT NULL,
   product TEXT NOT NULL,
   batch_number TEXT NOT NULL,
-  shift TEXT NOT NULL CHECK (shift IN ('Day', 'Night')),
+  shift TEXT NOT NULL,
+  crew TEXT,
   submission_date DATE NOT NULL,
   is_early_submission BOOLEAN DEFAULT FALSE,
   will_changeover BOOLEAN,
@@ -79,9 +80,8 @@ CREATE INDEX IF NOT EXISTS idx_shift_submissions_machine ON shift_submissions(ma
 -- Enable RLS
 ALTER TABLE shift_submissions ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on shift_submissions" ON shift_submissions;
-CREATE POLICY "Allow all operations on shift_submissions" ON shift_submissions
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 3. WASTE RECORDS
@@ -103,9 +103,8 @@ CREATE INDEX IF NOT EXISTS idx_waste_records_submission ON waste_records(shift_s
 -- Enable RLS
 ALTER TABLE waste_records ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on waste_records" ON waste_records;
-CREATE POLICY "Allow all operations on waste_records" ON waste_records
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 4. DOWNTIME RECORDS
@@ -127,9 +126,8 @@ CREATE INDEX IF NOT EXISTS idx_downtime_records_submission ON downtime_records(s
 -- Enable RLS
 ALTER TABLE downtime_records ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on downtime_records" ON downtime_records;
-CREATE POLICY "Allow all operations on downtime_records" ON downtime_records
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 5. SPEED RECORDS (Machine Speed - PPM)
@@ -148,9 +146,8 @@ CREATE INDEX IF NOT EXISTS idx_speed_records_submission ON speed_records(shift_s
 -- Enable RLS
 ALTER TABLE speed_records ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on speed_records" ON speed_records;
-CREATE POLICY "Allow all operations on speed_records" ON speed_records
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 6. SACHET MASS RECORDS
@@ -169,9 +166,8 @@ CREATE INDEX IF NOT EXISTS idx_sachet_mass_records_submission ON sachet_mass_rec
 -- Enable RLS
 ALTER TABLE sachet_mass_records ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on sachet_mass_records" ON sachet_mass_records;
-CREATE POLICY "Allow all operations on sachet_mass_records" ON sachet_mass_records
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 7. CASES PER HOUR RECORDS (Legacy)
@@ -191,9 +187,8 @@ CREATE INDEX IF NOT EXISTS idx_cases_per_hour_records_submission ON cases_per_ho
 -- Enable RLS
 ALTER TABLE cases_per_hour_records ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on cases_per_hour_records" ON cases_per_hour_records;
-CREATE POLICY "Allow all operations on cases_per_hour_records" ON cases_per_hour_records
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 8. LOOSE CASES RECORDS
@@ -213,9 +208,8 @@ CREATE INDEX IF NOT EXISTS idx_loose_cases_submission ON loose_cases_records(shi
 -- Enable RLS
 ALTER TABLE loose_cases_records ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on loose_cases_records" ON loose_cases_records;
-CREATE POLICY "Allow all operations on loose_cases_records" ON loose_cases_records
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 9. PALLET SCAN RECORDS
@@ -249,9 +243,8 @@ END $$;
 -- Enable RLS
 ALTER TABLE pallet_scan_records ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on pallet_scan_records" ON pallet_scan_records;
-CREATE POLICY "Allow all operations on pallet_scan_records" ON pallet_scan_records
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 10. ORDER DETAILS (Legacy global orders)
@@ -272,9 +265,8 @@ CREATE INDEX IF NOT EXISTS idx_order_details_active ON order_details(is_active);
 -- Enable RLS
 ALTER TABLE order_details ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on order_details" ON order_details;
-CREATE POLICY "Allow all operations on order_details" ON order_details
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 11. MACHINE ORDER QUEUE (per-machine orders with priority)
@@ -303,9 +295,8 @@ CREATE UNIQUE INDEX IF NOT EXISTS idx_machine_order_queue_unique_priority
 -- Enable RLS
 ALTER TABLE machine_order_queue ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on machine_order_queue" ON machine_order_queue;
-CREATE POLICY "Allow all operations on machine_order_queue" ON machine_order_queue
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 12. CHAT MESSAGES
@@ -363,7 +354,7 @@ CREATE TABLE IF NOT EXISTS shift_sessions (
   order_number TEXT NOT NULL,
   product TEXT NOT NULL,
   batch_number TEXT NOT NULL,
-  shift TEXT NOT NULL CHECK (shift IN ('Day', 'Night')),
+  shift TEXT NOT NULL,
   session_date DATE NOT NULL,
   is_locked BOOLEAN DEFAULT TRUE,
   created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -376,9 +367,8 @@ CREATE INDEX IF NOT EXISTS idx_shift_sessions_lookup ON shift_sessions(machine_n
 -- Enable RLS
 ALTER TABLE shift_sessions ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on shift_sessions" ON shift_sessions;
-CREATE POLICY "Allow all operations on shift_sessions" ON shift_sessions
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- 14. LIVE SESSIONS (real-time sync storage)
@@ -409,9 +399,8 @@ CREATE INDEX IF NOT EXISTS idx_live_sessions_date ON live_sessions(session_date)
 -- Enable RLS
 ALTER TABLE live_sessions ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on live_sessions" ON live_sessions;
-CREATE POLICY "Allow all operations on live_sessions" ON live_sessions
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- ==========================================
 -- VIEWS FOR REPORTING
@@ -573,7 +562,7 @@ CREATE TABLE IF NOT EXISTS active_sessions (
   id BIGSERIAL PRIMARY KEY,
   machine_name TEXT NOT NULL,
   operator_name TEXT NOT NULL,
-  shift TEXT NOT NULL CHECK (shift IN ('Day', 'Night')),
+  shift TEXT NOT NULL,
   session_date DATE NOT NULL,
   browser_id TEXT NOT NULL,
   started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -597,9 +586,8 @@ CREATE INDEX IF NOT EXISTS idx_active_sessions_heartbeat
 -- Enable RLS
 ALTER TABLE active_sessions ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on active_sessions" ON active_sessions;
-CREATE POLICY "Allow all operations on active_sessions" ON active_sessions
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- Add production_timer column to live_sessions
 ALTER TABLE live_sessions ADD COLUMN IF NOT EXISTS production_timer JSONB;
@@ -629,14 +617,1158 @@ CREATE TABLE IF NOT EXISTS facility_settings (
 -- Enable RLS
 ALTER TABLE facility_settings ENABLE ROW LEVEL SECURITY;
 
+-- Role-based policies: see ROLES & ROW LEVEL SECURITY below
 DROP POLICY IF EXISTS "Allow all operations on facility_settings" ON facility_settings;
-CREATE POLICY "Allow all operations on facility_settings" ON facility_settings
-  FOR ALL USING (true) WITH CHECK (true);
 
 -- Insert default settings
 INSERT INTO facility_settings (setting_key, setting_value, description) VALUES
-  ('shift_config', '{"dayShiftStart": 6, "dayShiftEnd": 18, "timezoneOffset": 2, "submissionWindowMinutes": 15}', 'Shift timing configuration'),
+  ('shift_config', '{"dayShiftStart": 6, "dayShiftEnd": 18, "timeZone": "Africa/Johannesburg", "submissionWindowMinutes": 15}', 'Shift timing configuration'),
   ('facility_info', '{"name": "Production Facility", "location": "South Africa"}', 'Facility information')
 ON CONFLICT (setting_key) DO NOTHING;
 
 COMMENT ON TABLE facility_settings IS 'Configurable facility-wide settings';
+
+-- ==========================================
+-- OEE INPUTS
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Admin-set rated speed and pack size per machine
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS rated_speed NUMERIC(10, 2);
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS units_per_case INTEGER;
+
+-- Entry snapshots on live sessions so the dashboard can compute live OEE
+ALTER TABLE live_sessions ADD COLUMN IF NOT EXISTS loose_cases_entries JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE live_sessions ADD COLUMN IF NOT EXISTS pallet_scan_entries JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN machines.rated_speed IS 'Rated speed in units per minute (OEE performance)';
+COMMENT ON COLUMN machines.units_per_case IS 'Sachets per case (OEE quality)';
+
+-- ==========================================
+-- SHIFT PATTERNS
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Shift names come from configurable shift patterns (Day/Night, 3 × 8h,
+-- crew rotations), so they are no longer pinned to 'Day' / 'Night'
+ALTER TABLE machines DROP CONSTRAINT IF EXISTS machines_current_shift_check;
+ALTER TABLE shift_submissions DROP CONSTRAINT IF EXISTS shift_submissions_shift_check;
+ALTER TABLE active_sessions DROP CONSTRAINT IF EXISTS active_sessions_shift_check;
+ALTER TABLE shift_sessions DROP CONSTRAINT IF EXISTS shift_sessions_shift_check;
+
+-- Crew on shift for lines that run a crew rotation
+ALTER TABLE shift_submissions ADD COLUMN IF NOT EXISTS crew TEXT;
+
+INSERT INTO facility_settings (setting_key, setting_value, description) VALUES
+  ('shift_patterns', '{"shiftPatternId": "day-night", "customShiftPatterns": [], "lineShiftPatterns": {}}', 'Shift patterns and per-line assignments')
+ON CONFLICT (setting_key) DO NOTHING;
+
+COMMENT ON COLUMN shift_submissions.shift IS 'Shift name from the line''s shift pattern';
+COMMENT ON COLUMN shift_submissions.submission_date IS 'Production date the shift started on';
+COMMENT ON COLUMN shift_submissions.crew IS 'Crew on shift (crew rotation patterns only)';
+
+-- ==========================================
+-- FACILITY SETTINGS SYNC
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Settings are read and written by every client, so changes are pushed live
+ALTER PUBLICATION supabase_realtime ADD TABLE facility_settings;
+
+-- Time zone replaces the fixed UTC offset
+UPDATE facility_settings
+SET setting_value = (setting_value - 'timezoneOffset') || '{"timeZone": "Africa/Johannesburg"}'::jsonb
+WHERE setting_key = 'shift_config' AND NOT setting_value ? 'timeZone';
+
+INSERT INTO facility_settings (setting_key, setting_value, description) VALUES
+  ('session_config', '{"sessionLockingEnabled": true, "maxConcurrentSessions": 1}', 'Machine session locking'),
+  ('data_retention', '{"historyRetentionDays": 90}', 'Local history retention')
+ON CONFLICT (setting_key) DO NOTHING;
+
+COMMENT ON COLUMN facility_settings.updated_by IS 'Name of the admin who last changed the setting';
+
+-- ==========================================
+-- ROLES & ROW LEVEL SECURITY
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Profiles hold each Supabase Auth user's display name and role
+CREATE TABLE IF NOT EXISTS user_profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  email TEXT,
+  role TEXT NOT NULL DEFAULT 'operator' CHECK (role IN ('operator', 'supervisor', 'admin')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+
+-- New sign-ups get an operator profile; admins promote them
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_profiles (id, display_name, email)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'display_name', split_part(NEW.email, '@', 1)),
+    NEW.email
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Role of the calling user (NULL when not signed in)
+CREATE OR REPLACE FUNCTION app_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM user_profiles WHERE id = auth.uid();
+$$;
+
+-- True when the calling user has at least the given role
+CREATE OR REPLACE FUNCTION has_role(required TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    array_position(ARRAY['operator', 'supervisor', 'admin'], app_role())
+      >= array_position(ARRAY['operator', 'supervisor', 'admin'], required),
+    false
+  );
+$$;
+
+-- user_profiles: users read their own profile, admins manage everyone's
+DROP POLICY IF EXISTS "Users read own profile" ON user_profiles;
+CREATE POLICY "Users read own profile" ON user_profiles
+  FOR SELECT USING (id = auth.uid() OR has_role('admin'));
+
+DROP POLICY IF EXISTS "Admins manage profiles" ON user_profiles;
+CREATE POLICY "Admins manage profiles" ON user_profiles
+  FOR UPDATE USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+-- Dashboard data: readable by the wall display without signing in
+DROP POLICY IF EXISTS "Public read machines" ON machines;
+CREATE POLICY "Public read machines" ON machines
+  FOR SELECT USING (true);
+
+-- Only admins edit machines; operators change status through set_machine_status
+DROP POLICY IF EXISTS "Operators update machines" ON machines;
+DROP POLICY IF EXISTS "Admins update machines" ON machines;
+CREATE POLICY "Admins update machines" ON machines
+  FOR UPDATE USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+-- Status, operator, order and shift of a machine, set from the capture screen.
+-- Idle clears the operator, order and shift; maintenance keeps them.
+CREATE OR REPLACE FUNCTION set_machine_status(
+  p_machine_id TEXT,
+  p_status TEXT,
+  p_operator_name TEXT DEFAULT NULL,
+  p_order_number TEXT DEFAULT NULL,
+  p_shift TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role('operator') THEN
+    RAISE EXCEPTION 'Not allowed to set machine status';
+  END IF;
+
+  UPDATE machines SET
+    status = p_status,
+    current_operator = CASE
+      WHEN p_status = 'idle' THEN NULL
+      WHEN p_status = 'running' THEN COALESCE(p_operator_name, current_operator)
+      ELSE current_operator END,
+    current_order = CASE
+      WHEN p_status = 'idle' THEN NULL
+      WHEN p_status = 'running' THEN COALESCE(p_order_number, current_order)
+      ELSE current_order END,
+    current_shift = CASE
+      WHEN p_status = 'idle' THEN NULL
+      WHEN p_status = 'running' THEN COALESCE(p_shift, current_shift)
+      ELSE current_shift END,
+    updated_at = NOW()
+  WHERE id = p_machine_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Machine % not found', p_machine_id;
+  END IF;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Admins insert machines" ON machines;
+CREATE POLICY "Admins insert machines" ON machines
+  FOR INSERT WITH CHECK (has_role('admin'));
+
+DROP POLICY IF EXISTS "Admins delete machines" ON machines;
+CREATE POLICY "Admins delete machines" ON machines
+  FOR DELETE USING (has_role('admin'));
+
+-- Shift submissions: operators submit, recent submissions show on the dashboard,
+-- only admins correct or delete them
+DROP POLICY IF EXISTS "Public read shift_submissions" ON shift_submissions;
+CREATE POLICY "Public read shift_submissions" ON shift_submissions
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Operators insert shift_submissions" ON shift_submissions;
+CREATE POLICY "Operators insert shift_submissions" ON shift_submissions
+  FOR INSERT WITH CHECK (has_role('operator'));
+
+DROP POLICY IF EXISTS "Admins modify shift_submissions" ON shift_submissions;
+CREATE POLICY "Admins modify shift_submissions" ON shift_submissions
+  FOR UPDATE USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+DROP POLICY IF EXISTS "Admins delete shift_submissions" ON shift_submissions;
+CREATE POLICY "Admins delete shift_submissions" ON shift_submissions
+  FOR DELETE USING (has_role('admin'));
+
+-- Submission detail records: same rules, but reading needs a signed-in user
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'waste_records', 'downtime_records', 'speed_records', 'sachet_mass_records',
+    'cases_per_hour_records', 'loose_cases_records', 'pallet_scan_records'
+  ] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Signed-in read %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Signed-in read %1$s" ON %1$I FOR SELECT USING (has_role(''operator''))', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Operators insert %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Operators insert %1$s" ON %1$I FOR INSERT WITH CHECK (has_role(''operator''))', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Admins modify %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Admins modify %1$s" ON %1$I FOR UPDATE USING (has_role(''admin'')) WITH CHECK (has_role(''admin''))', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Admins delete %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Admins delete %1$s" ON %1$I FOR DELETE USING (has_role(''admin''))', t);
+  END LOOP;
+END $$;
+
+-- Live session state: shown on the dashboard, written from capture screens
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['shift_sessions', 'live_sessions', 'active_sessions'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Public read %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Public read %1$s" ON %1$I FOR SELECT USING (true)', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Operators write %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Operators write %1$s" ON %1$I FOR ALL USING (has_role(''operator'')) WITH CHECK (has_role(''operator''))', t);
+  END LOOP;
+END $$;
+
+-- Orders: read by capture screens, managed by supervisors
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['order_details', 'machine_order_queue'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Public read %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Public read %1$s" ON %1$I FOR SELECT USING (true)', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Supervisors write %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Supervisors write %1$s" ON %1$I FOR ALL USING (has_role(''supervisor'')) WITH CHECK (has_role(''supervisor''))', t);
+  END LOOP;
+END $$;
+
+-- Facility settings: every client reads them, only admins change them
+DROP POLICY IF EXISTS "Public read facility_settings" ON facility_settings;
+CREATE POLICY "Public read facility_settings" ON facility_settings
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write facility_settings" ON facility_settings;
+CREATE POLICY "Admins write facility_settings" ON facility_settings
+  FOR ALL USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+-- Chat: readable on the wall display, signed-in users post
+DROP POLICY IF EXISTS "Public chat insert" ON chat_messages;
+DROP POLICY IF EXISTS "Signed-in chat insert" ON chat_messages;
+CREATE POLICY "Signed-in chat insert" ON chat_messages
+  FOR INSERT WITH CHECK (has_role('operator'));
+
+COMMENT ON TABLE user_profiles IS 'Display name and role (operator / supervisor / admin) per auth user';
+
+-- ==========================================
+-- OPERATOR REGISTRY
+-- Added: 2026-10-18
+-- ==========================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Operators identify on capture tablets by badge QR or PIN
+CREATE TABLE IF NOT EXISTS operators (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  employee_number TEXT,
+  badge_code TEXT UNIQUE,
+  pin_hash TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE operators ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Operators read registry" ON operators;
+CREATE POLICY "Operators read registry" ON operators
+  FOR SELECT USING (has_role('operator'));
+
+-- PIN hashes are never readable; changes go through save_operator()
+REVOKE ALL ON operators FROM anon, authenticated;
+GRANT SELECT (id, name, employee_number, badge_code, is_active, created_at, updated_at)
+  ON operators TO authenticated;
+
+-- Resolve a badge code or PIN to an active operator
+CREATE OR REPLACE FUNCTION identify_operator(p_badge_code TEXT DEFAULT NULL, p_pin TEXT DEFAULT NULL)
+RETURNS TABLE (id UUID, name TEXT, employee_number TEXT, badge_code TEXT, is_active BOOLEAN)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT has_role('operator') THEN
+    RAISE EXCEPTION 'Sign in to identify operators';
+  END IF;
+
+  RETURN QUERY
+  SELECT o.id, o.name, o.employee_number, o.badge_code, o.is_active
+  FROM operators o
+  WHERE o.is_active
+    AND (
+      (p_badge_code IS NOT NULL AND o.badge_code = p_badge_code)
+      OR (p_badge_code IS NULL AND p_pin IS NOT NULL AND o.pin_hash = crypt(p_pin, o.pin_hash))
+    )
+  LIMIT 1;
+END;
+$$;
+
+-- Create or update an operator; a NULL PIN keeps the current one
+CREATE OR REPLACE FUNCTION save_operator(
+  p_id UUID,
+  p_name TEXT,
+  p_employee_number TEXT,
+  p_badge_code TEXT,
+  p_pin TEXT,
+  p_is_active BOOLEAN
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  saved operators;
+BEGIN
+  IF NOT has_role('supervisor') THEN
+    RAISE EXCEPTION 'Supervisor access is required to manage operators';
+  END IF;
+
+  -- PINs identify an operator on their own, so they must be unique
+  IF p_pin IS NOT NULL AND EXISTS (
+    SELECT 1 FROM operators
+    WHERE pin_hash = crypt(p_pin, pin_hash) AND id IS DISTINCT FROM p_id
+  ) THEN
+    RAISE EXCEPTION 'PIN is already in use';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO operators (name, employee_number, badge_code, pin_hash, is_active)
+    VALUES (p_name, p_employee_number, p_badge_code,
+            CASE WHEN p_pin IS NULL THEN NULL ELSE crypt(p_pin, gen_salt('bf')) END,
+            p_is_active)
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE operators SET
+      name = p_name,
+      employee_number = p_employee_number,
+      badge_code = p_badge_code,
+      pin_hash = CASE WHEN p_pin IS NULL THEN pin_hash ELSE crypt(p_pin, gen_salt('bf')) END,
+      is_active = p_is_active,
+      updated_at = NOW()
+    WHERE id = p_id
+    RETURNING * INTO saved;
+  END IF;
+
+  RETURN json_build_object(
+    'id', saved.id,
+    'name', saved.name,
+    'employee_number', saved.employee_number,
+    'badge_code', saved.badge_code,
+    'is_active', saved.is_active,
+    'created_at', saved.created_at,
+    'updated_at', saved.updated_at
+  );
+END;
+$$;
+
+-- Identified operator on each entry and session lock
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS operator_id UUID REFERENCES operators(id);
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS operator_name TEXT;
+ALTER TABLE downtime_records ADD COLUMN IF NOT EXISTS operator_id UUID REFERENCES operators(id);
+ALTER TABLE downtime_records ADD COLUMN IF NOT EXISTS operator_name TEXT;
+ALTER TABLE pallet_scan_records ADD COLUMN IF NOT EXISTS operator_id UUID REFERENCES operators(id);
+ALTER TABLE pallet_scan_records ADD COLUMN IF NOT EXISTS operator_name TEXT;
+ALTER TABLE active_sessions ADD COLUMN IF NOT EXISTS operator_id UUID REFERENCES operators(id);
+
+COMMENT ON TABLE operators IS 'Operator registry - badge QR codes and hashed PINs for tablet identification';
+
+-- ==========================================
+-- HISTORY QUERIES
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Default history order (newest first) and keyset paging on created_at + id
+CREATE INDEX IF NOT EXISTS idx_shift_submissions_created ON shift_submissions(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_shift_submissions_date_id ON shift_submissions(submission_date, id);
+CREATE INDEX IF NOT EXISTS idx_shift_submissions_product ON shift_submissions(product);
+CREATE INDEX IF NOT EXISTS idx_shift_submissions_order ON shift_submissions(order_number);
+
+-- ==========================================
+-- ATOMIC SHIFT SUBMISSION
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Client-generated key so retried submissions are only recorded once
+ALTER TABLE shift_submissions ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shift_submissions_idempotency_key ON shift_submissions(idempotency_key);
+
+-- Submit a shift and every entry in one transaction.
+-- Runs as the caller, so the capture table RLS policies still apply.
+-- Resubmitting with the same idempotency key returns the original submission.
+CREATE OR REPLACE FUNCTION submit_shift(p_idempotency_key TEXT, p_submission JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_shift JSONB := p_submission->'shift';
+  v_id BIGINT;
+  v_duplicate_pallets JSON;
+BEGIN
+  IF p_idempotency_key IS NULL OR p_idempotency_key = '' THEN
+    RAISE EXCEPTION 'Idempotency key is required';
+  END IF;
+
+  SELECT id INTO v_id FROM shift_submissions WHERE idempotency_key = p_idempotency_key;
+  IF v_id IS NOT NULL THEN
+    RETURN json_build_object('id', v_id, 'duplicate', true);
+  END IF;
+
+  INSERT INTO shift_submissions (
+    idempotency_key, operator_name, machine, sub_machine, order_number, product, batch_number,
+    shift, crew, submission_date, is_early_submission, will_changeover, will_maintenance_cleaning,
+    total_waste, total_downtime
+  )
+  VALUES (
+    p_idempotency_key,
+    v_shift->>'operator_name',
+    v_shift->>'machine',
+    v_shift->>'sub_machine',
+    v_shift->>'order_number',
+    v_shift->>'product',
+    v_shift->>'batch_number',
+    v_shift->>'shift',
+    v_shift->>'crew',
+    (v_shift->>'submission_date')::DATE,
+    COALESCE((v_shift->>'is_early_submission')::BOOLEAN, FALSE),
+    (v_shift->>'will_changeover')::BOOLEAN,
+    (v_shift->>'will_maintenance_cleaning')::BOOLEAN,
+    (SELECT COALESCE(SUM((r->>'waste_amount')::NUMERIC), 0)
+       FROM jsonb_array_elements(COALESCE(p_submission->'waste_records', '[]')) r),
+    (SELECT COALESCE(SUM((r->>'downtime_minutes')::INTEGER), 0)
+       FROM jsonb_array_elements(COALESCE(p_submission->'downtime_records', '[]')) r)
+  )
+  -- A concurrent retry with the same key may have won the race
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM shift_submissions WHERE idempotency_key = p_idempotency_key;
+    RETURN json_build_object('id', v_id, 'duplicate', true);
+  END IF;
+
+  INSERT INTO waste_records (shift_submission_id, waste_amount, waste_type, waste_type_code, quantity, unit, cost, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.waste_amount, r.waste_type, r.waste_type_code, r.quantity, r.unit, r.cost, r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::waste_records, COALESCE(p_submission->'waste_records', '[]')) r;
+
+  INSERT INTO downtime_records (shift_submission_id, downtime_minutes, downtime_reason, reason_code, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.downtime_minutes, r.downtime_reason, r.reason_code, r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::downtime_records, COALESCE(p_submission->'downtime_records', '[]')) r;
+
+  INSERT INTO speed_records (shift_submission_id, speed_ppm, recorded_at)
+  SELECT v_id, r.speed_ppm, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::speed_records, COALESCE(p_submission->'speed_records', '[]')) r;
+
+  INSERT INTO sachet_mass_records (shift_submission_id, mass_grams, is_ignored, recorded_at)
+  SELECT v_id, r.mass_grams, COALESCE(r.is_ignored, FALSE), COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::sachet_mass_records, COALESCE(p_submission->'sachet_mass_records', '[]')) r;
+
+  INSERT INTO cases_per_hour_records (shift_submission_id, cases_count, hour_of_day, recorded_at)
+  SELECT v_id, r.cases_count, r.hour_of_day, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::cases_per_hour_records, COALESCE(p_submission->'cases_per_hour_records', '[]')) r;
+
+  INSERT INTO loose_cases_records (shift_submission_id, batch_number, cases_count, recorded_at)
+  SELECT v_id, r.batch_number, r.cases_count, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::loose_cases_records, COALESCE(p_submission->'loose_cases_records', '[]')) r;
+
+  -- Pallets another shift already recorded are kept for audit, but ignored
+  SELECT COALESCE(json_agg(r.qr_code), '[]'::JSON) INTO v_duplicate_pallets
+  FROM jsonb_populate_recordset(NULL::pallet_scan_records, COALESCE(p_submission->'pallet_scan_records', '[]')) r
+  WHERE NOT COALESCE(r.is_ignored, FALSE)
+    AND EXISTS (
+      SELECT 1 FROM pallet_scan_records p
+      WHERE p.batch_number = r.batch_number AND p.pallet_number = r.pallet_number AND NOT p.is_ignored
+    );
+
+  INSERT INTO pallet_scan_records (shift_submission_id, qr_code, batch_number, pallet_number, cases_count, is_ignored, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.qr_code, r.batch_number, r.pallet_number, r.cases_count,
+    COALESCE(r.is_ignored, FALSE) OR r.seq > 1 OR EXISTS (
+      SELECT 1 FROM pallet_scan_records p
+      WHERE p.batch_number = r.batch_number AND p.pallet_number = r.pallet_number AND NOT p.is_ignored
+    ),
+    r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM (
+    SELECT t.*, ROW_NUMBER() OVER (
+      PARTITION BY t.batch_number, t.pallet_number ORDER BY COALESCE(t.is_ignored, FALSE), t.recorded_at
+    ) AS seq
+    FROM jsonb_populate_recordset(NULL::pallet_scan_records, COALESCE(p_submission->'pallet_scan_records', '[]')) t
+  ) r;
+
+  RETURN json_build_object('id', v_id, 'duplicate', false, 'duplicate_pallets', v_duplicate_pallets);
+END;
+$$;
+
+-- ==========================================
+-- DOWNTIME REASON TAXONOMY
+-- Added: 2026-10-18
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS downtime_reasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id UUID REFERENCES downtime_reasons(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  is_planned BOOLEAN NOT NULL DEFAULT FALSE,
+  machine_ids TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_downtime_reasons_parent ON downtime_reasons(parent_id);
+
+DROP TRIGGER IF EXISTS update_downtime_reasons_updated_at ON downtime_reasons;
+CREATE TRIGGER update_downtime_reasons_updated_at
+  BEFORE UPDATE ON downtime_reasons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Entries keep the reason name for display plus the code for reporting
+ALTER TABLE downtime_records ADD COLUMN IF NOT EXISTS reason_code TEXT;
+CREATE INDEX IF NOT EXISTS idx_downtime_records_reason_code ON downtime_records(reason_code);
+
+-- Default tree (matches DEFAULT_DOWNTIME_REASONS in the app)
+INSERT INTO downtime_reasons (code, name, is_planned, sort_order) VALUES
+  ('MECH', 'Mechanical', FALSE, 0),
+  ('ELEC', 'Electrical', FALSE, 1),
+  ('MAT', 'Material', FALSE, 2),
+  ('PEOPLE', 'People', FALSE, 3)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO downtime_reasons (parent_id, code, name, is_planned, sort_order)
+SELECT p.id, v.code, v.name, v.is_planned, v.sort_order
+FROM (VALUES
+  ('MECH', 'MECH-BREAKDOWN', 'Machine Breakdown', FALSE, 0),
+  ('MECH', 'MECH-JAM', 'Jam / Blockage', FALSE, 1),
+  ('MECH', 'MECH-PM', 'Scheduled Maintenance', TRUE, 2),
+  ('ELEC', 'ELEC-FAULT', 'Electrical Fault', FALSE, 0),
+  ('ELEC', 'ELEC-SENSOR', 'Sensor / Controls Fault', FALSE, 1),
+  ('MAT', 'MAT-SHORTAGE', 'Material Shortage', FALSE, 0),
+  ('MAT', 'MAT-QUALITY', 'Material Quality', FALSE, 1),
+  ('MAT', 'MAT-CHANGEOVER', 'Changeover', TRUE, 2),
+  ('PEOPLE', 'PEOPLE-NO-OPERATOR', 'No Operator Available', FALSE, 0),
+  ('PEOPLE', 'PEOPLE-TRAINING', 'Training', TRUE, 1)
+) AS v(parent_code, code, name, is_planned, sort_order)
+JOIN downtime_reasons p ON p.code = v.parent_code
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE downtime_reasons ENABLE ROW LEVEL SECURITY;
+
+-- Every capture screen reads the tree, only admins change it
+DROP POLICY IF EXISTS "Public read downtime_reasons" ON downtime_reasons;
+CREATE POLICY "Public read downtime_reasons" ON downtime_reasons
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write downtime_reasons" ON downtime_reasons;
+CREATE POLICY "Admins write downtime_reasons" ON downtime_reasons
+  FOR ALL USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+COMMENT ON TABLE downtime_reasons IS 'Downtime reason tree - categories and sub-reasons, planned flag and machine applicability';
+
+-- ==========================================
+-- WASTE TYPE CATALOGUE
+-- Added: 2026-10-18
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS waste_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  unit TEXT NOT NULL DEFAULT 'kg' CHECK (unit IN ('kg', 'units', 'm')),
+  kg_per_unit NUMERIC(10,4) NOT NULL DEFAULT 1 CHECK (kg_per_unit > 0),
+  cost_per_unit NUMERIC(10,2) NOT NULL DEFAULT 0,
+  products TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_waste_types_updated_at ON waste_types;
+CREATE TRIGGER update_waste_types_updated_at
+  BEFORE UPDATE ON waste_types
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- waste_amount stays in kg; the quantity, unit and cost are as recorded
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS waste_type_code TEXT;
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS quantity NUMERIC(10,3);
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS cost NUMERIC(10,2);
+
+-- Default catalogue (matches DEFAULT_WASTE_TYPES in the app)
+INSERT INTO waste_types (code, name, unit, kg_per_unit, sort_order) VALUES
+  ('STARTUP', 'Start-up Waste', 'kg', 1, 0),
+  ('CHANGEOVER', 'Changeover Waste', 'kg', 1, 1),
+  ('DEFECTIVE', 'Defective Product', 'kg', 1, 2),
+  ('SPILLAGE', 'Material Spillage', 'kg', 1, 3),
+  ('CANS', 'Scrapped Cans', 'units', 0.015, 4),
+  ('SACHETS', 'Scrapped Sachets', 'units', 0.002, 5),
+  ('LABELS', 'Label Stock', 'm', 0.005, 6)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE waste_types ENABLE ROW LEVEL SECURITY;
+
+-- Every capture screen reads the catalogue, only admins change it
+DROP POLICY IF EXISTS "Public read waste_types" ON waste_types;
+CREATE POLICY "Public read waste_types" ON waste_types
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write waste_types" ON waste_types;
+CREATE POLICY "Admins write waste_types" ON waste_types
+  FOR ALL USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+COMMENT ON TABLE waste_types IS 'Waste type catalogue - unit of measure, conversion to kg, cost per unit and applicable products';
+
+-- ==========================================
+-- PRODUCT MASTER DATA
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Orders and shifts keep the product name; it is matched against products.name
+CREATE TABLE IF NOT EXISTS products (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sku TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL UNIQUE,
+  rated_speed NUMERIC(8,2) CHECK (rated_speed > 0),
+  target_mass NUMERIC(8,2) CHECK (target_mass > 0),
+  mass_tolerance_below NUMERIC(8,2) CHECK (mass_tolerance_below >= 0),
+  mass_tolerance_above NUMERIC(8,2) CHECK (mass_tolerance_above >= 0),
+  sachets_per_case INTEGER CHECK (sachets_per_case > 0),
+  cases_per_pallet INTEGER CHECK (cases_per_pallet > 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_products_updated_at ON products;
+CREATE TRIGGER update_products_updated_at
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+-- Every screen reads the catalogue, only admins change it
+DROP POLICY IF EXISTS "Public read products" ON products;
+CREATE POLICY "Public read products" ON products
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write products" ON products;
+CREATE POLICY "Admins write products" ON products
+  FOR ALL USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+COMMENT ON TABLE products IS 'Product master data - SKU, rated line speed, sachet mass targets and case configuration';
+
+-- ==========================================
+-- SACHET MASS SPC
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Samples the operator ignored are kept but left out of control limits
+ALTER TABLE sachet_mass_records ADD COLUMN IF NOT EXISTS is_ignored BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Control limits are computed from each product's recent samples
+CREATE INDEX IF NOT EXISTS idx_sachet_mass_records_recorded_at ON sachet_mass_records(recorded_at DESC);
+
+-- ==========================================
+-- PALLET TRACEABILITY
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Batch and pallet lookups for complaints and recalls
+CREATE INDEX IF NOT EXISTS idx_shift_submissions_batch ON shift_submissions(batch_number);
+CREATE INDEX IF NOT EXISTS idx_pallet_scans_qr_code ON pallet_scan_records(qr_code);
+CREATE INDEX IF NOT EXISTS idx_loose_cases_batch ON loose_cases_records(batch_number);
+
+-- ==========================================
+-- PALLET UNIQUENESS
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Scans the operator ignored, or pallets another shift already recorded
+ALTER TABLE pallet_scan_records ADD COLUMN IF NOT EXISTS is_ignored BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Keep the first recording of any pallet that was recorded more than once
+UPDATE pallet_scan_records p SET is_ignored = TRUE
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY batch_number, pallet_number ORDER BY recorded_at, id) AS seq
+  FROM pallet_scan_records
+  WHERE NOT is_ignored
+) d
+WHERE p.id = d.id AND d.seq > 1;
+
+-- Each pallet of a batch is recorded once across all machines and shifts
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pallet_scans_unique_pallet
+  ON pallet_scan_records(batch_number, pallet_number)
+  WHERE NOT is_ignored;
+
+-- ==========================================
+-- PALLET LABEL FORMATS
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Label format ID (see lib/labelFormats): 'legacy13' or 'gs1'. NULL uses the
+-- machine's format, and a machine without one uses the 13-digit format.
+ALTER TABLE products ADD COLUMN IF NOT EXISTS label_format TEXT;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS label_format TEXT;
+
+COMMENT ON COLUMN products.label_format IS 'Pallet label format for this product (overrides the machine)';
+COMMENT ON COLUMN machines.label_format IS 'Pallet label format used on this machine';
+
+-- ==========================================
+-- ORDER PLAN VS ACTUAL
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Planned quantity in cases, due date and planned start per order. An order
+-- is completed automatically when its pallets and loose cases reach the
+-- planned quantity: it leaves the queue (is_active = FALSE) with completed_at.
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS planned_quantity INTEGER CHECK (planned_quantity > 0);
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS due_date DATE;
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS planned_start TIMESTAMPTZ;
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN machine_order_queue.planned_quantity IS 'Target quantity in cases';
+COMMENT ON COLUMN machine_order_queue.completed_at IS 'When the order reached its planned quantity';
+
+-- ==========================================
+-- ORDER LIFECYCLE & CHANGEOVERS
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Order states: queued -> in_progress <-> paused -> completed, or cancelled
+-- from any open state, each with the time it was entered
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'queued';
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ;
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ DEFAULT NOW();
+
+ALTER TABLE machine_order_queue DROP CONSTRAINT IF EXISTS machine_order_queue_status_check;
+ALTER TABLE machine_order_queue ADD CONSTRAINT machine_order_queue_status_check
+  CHECK (status IN ('queued', 'in_progress', 'paused', 'completed', 'cancelled'));
+
+-- Orders taken off the queue before states existed were either completed or removed
+UPDATE machine_order_queue SET status = 'completed' WHERE NOT is_active AND completed_at IS NOT NULL AND status = 'queued';
+UPDATE machine_order_queue SET status = 'cancelled', cancelled_at = updated_at WHERE NOT is_active AND completed_at IS NULL AND status = 'queued';
+
+CREATE INDEX IF NOT EXISTS idx_machine_order_queue_status ON machine_order_queue(machine_id, status);
+
+-- Move an order to a new state. Operators start, pause and complete orders
+-- from capture screens; cancelling needs a supervisor. Completed and
+-- cancelled orders leave the queue (is_active = FALSE).
+CREATE OR REPLACE FUNCTION set_order_status(p_order_id BIGINT, p_status TEXT)
+RETURNS machine_order_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_order machine_order_queue;
+  saved machine_order_queue;
+BEGIN
+  IF NOT has_role(CASE WHEN p_status = 'cancelled' THEN 'supervisor' ELSE 'operator' END) THEN
+    RAISE EXCEPTION 'Not allowed to set orders to %', p_status;
+  END IF;
+
+  SELECT * INTO current_order FROM machine_order_queue WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  -- Repeating the current state is a no-op (offline replays)
+  IF current_order.status = p_status THEN
+    RETURN current_order;
+  END IF;
+
+  IF NOT (
+    (current_order.status = 'queued' AND p_status IN ('in_progress', 'cancelled')) OR
+    (current_order.status = 'in_progress' AND p_status IN ('paused', 'completed', 'cancelled')) OR
+    (current_order.status = 'paused' AND p_status IN ('in_progress', 'completed', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Order % cannot go from % to %', current_order.order_number, current_order.status, p_status;
+  END IF;
+
+  UPDATE machine_order_queue SET
+    status = p_status,
+    status_changed_at = NOW(),
+    is_active = p_status NOT IN ('completed', 'cancelled'),
+    started_at = CASE WHEN p_status = 'in_progress' THEN COALESCE(started_at, NOW()) ELSE started_at END,
+    paused_at = CASE WHEN p_status = 'paused' THEN NOW() WHEN p_status = 'in_progress' THEN NULL ELSE paused_at END,
+    completed_at = CASE WHEN p_status = 'completed' THEN NOW() ELSE completed_at END,
+    cancelled_at = CASE WHEN p_status = 'cancelled' THEN NOW() ELSE cancelled_at END
+  WHERE id = p_order_id
+  RETURNING * INTO saved;
+
+  RETURN saved;
+END;
+$$;
+
+-- Changeovers: from the end of the outgoing order to the start of the
+-- incoming one. The incoming order is NULL until it is known (a changeover
+-- announced at the end of a shift).
+CREATE TABLE IF NOT EXISTS changeover_events (
+  id UUID PRIMARY KEY,
+  machine_id TEXT,
+  machine_name TEXT NOT NULL,
+  from_order_id BIGINT REFERENCES machine_order_queue(id) ON DELETE SET NULL,
+  from_order_number TEXT,
+  from_product TEXT,
+  to_order_id BIGINT REFERENCES machine_order_queue(id) ON DELETE SET NULL,
+  to_order_number TEXT,
+  to_product TEXT,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ CHECK (ended_at >= started_at),
+  operator_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_changeover_events_started ON changeover_events(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_changeover_events_machine ON changeover_events(machine_name, started_at DESC);
+
+DROP TRIGGER IF EXISTS update_changeover_events_updated_at ON changeover_events;
+CREATE TRIGGER update_changeover_events_updated_at
+  BEFORE UPDATE ON changeover_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE changeover_events ENABLE ROW LEVEL SECURITY;
+
+-- Recorded from capture screens, analysed by supervisors
+DROP POLICY IF EXISTS "Signed-in read changeover_events" ON changeover_events;
+CREATE POLICY "Signed-in read changeover_events" ON changeover_events
+  FOR SELECT USING (has_role('operator'));
+
+DROP POLICY IF EXISTS "Operators write changeover_events" ON changeover_events;
+CREATE POLICY "Operators write changeover_events" ON changeover_events
+  FOR INSERT WITH CHECK (has_role('operator'));
+
+DROP POLICY IF EXISTS "Operators update changeover_events" ON changeover_events;
+CREATE POLICY "Operators update changeover_events" ON changeover_events
+  FOR UPDATE USING (has_role('operator')) WITH CHECK (has_role('operator'));
+
+COMMENT ON TABLE changeover_events IS 'Changeovers between orders with start and end times, for SMED analysis';
+
+-- ==========================================
+-- SHARED LINE SPEED
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Every line speed change for a parent machine per shift - the latest
+-- change is the current speed of all its sub-machines
+CREATE TABLE IF NOT EXISTS line_speed_changes (
+  id UUID PRIMARY KEY,
+  parent_machine TEXT NOT NULL,
+  shift TEXT NOT NULL,
+  shift_date DATE NOT NULL,
+  speed NUMERIC NOT NULL CHECK (speed > 0),
+  machine_name TEXT NOT NULL,
+  operator_name TEXT,
+  changed_by UUID DEFAULT auth.uid(),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_line_speed_changes_shift
+  ON line_speed_changes(parent_machine, shift_date, shift, changed_at DESC);
+
+-- Changes are recorded from capture screens and never edited
+ALTER TABLE line_speed_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in read line_speed_changes" ON line_speed_changes;
+CREATE POLICY "Signed-in read line_speed_changes" ON line_speed_changes
+  FOR SELECT USING (has_role('operator'));
+
+DROP POLICY IF EXISTS "Operators write line_speed_changes" ON line_speed_changes;
+CREATE POLICY "Operators write line_speed_changes" ON line_speed_changes
+  FOR INSERT WITH CHECK (has_role('operator'));
+
+COMMENT ON TABLE line_speed_changes IS 'Line speed changes per parent machine and shift, shared by its sub-machines';
+
+-- Sub-machines on other tablets pick up changes as they happen
+ALTER PUBLICATION supabase_realtime ADD TABLE line_speed_changes;
+
+-- ==========================================
+-- MACHINE HIERARCHY
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Sites, areas and lines above the machines: site -> area -> line
+CREATE TABLE IF NOT EXISTS plant_units (
+  id TEXT PRIMARY KEY,
+  level TEXT NOT NULL CHECK (level IN ('site', 'area', 'line')),
+  name TEXT NOT NULL,
+  display_name TEXT,
+  parent_id TEXT REFERENCES plant_units(id) ON DELETE SET NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_plant_units_parent ON plant_units(parent_id);
+
+-- An area belongs to a site and a line to an area; sites are the top
+CREATE OR REPLACE FUNCTION check_plant_unit_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_parent_level TEXT;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT level INTO v_parent_level FROM plant_units WHERE id = NEW.parent_id;
+  IF (NEW.level = 'site') OR
+     (NEW.level = 'area' AND v_parent_level IS DISTINCT FROM 'site') OR
+     (NEW.level = 'line' AND v_parent_level IS DISTINCT FROM 'area') THEN
+    RAISE EXCEPTION 'A % cannot be placed under a %', NEW.level, COALESCE(v_parent_level, 'missing unit');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_plant_unit_parent ON plant_units;
+CREATE TRIGGER check_plant_unit_parent
+  BEFORE INSERT OR UPDATE ON plant_units
+  FOR EACH ROW
+  EXECUTE FUNCTION check_plant_unit_parent();
+
+DROP TRIGGER IF EXISTS update_plant_units_updated_at ON plant_units;
+CREATE TRIGGER update_plant_units_updated_at
+  BEFORE UPDATE ON plant_units
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE plant_units ENABLE ROW LEVEL SECURITY;
+
+-- Read by the wall display like machines, managed by admins
+DROP POLICY IF EXISTS "Public read plant_units" ON plant_units;
+CREATE POLICY "Public read plant_units" ON plant_units
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins manage plant_units" ON plant_units;
+CREATE POLICY "Admins manage plant_units" ON plant_units
+  FOR ALL USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+COMMENT ON TABLE plant_units IS 'Sites, areas and lines - the plant hierarchy above machines';
+
+-- Machines hang under a line, sub-machines under their machine
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS parent_machine_id TEXT REFERENCES machines(id) ON DELETE CASCADE;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS line_id TEXT REFERENCES plant_units(id) ON DELETE SET NULL;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS display_name TEXT;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_machines_parent ON machines(parent_machine_id);
+CREATE INDEX IF NOT EXISTS idx_machines_line ON machines(line_id);
+
+-- Link sub-machine rows generated before the column existed
+-- ("<parent id>-sub-<n>") to their machine, ordered by number
+UPDATE machines sub
+SET parent_machine_id = parent.id,
+    sort_order = substring(sub.id FROM '-sub-(\d+)$')::INTEGER
+FROM machines parent
+WHERE sub.parent_machine_id IS NULL
+  AND sub.id ~ '-sub-\d+$'
+  AND parent.id = substring(sub.id FROM '^(.*)-sub-\d+$');
+
+-- ==========================================
+-- MACHINE STATUS ENGINE
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Status derived from live sessions, production timers and tablet
+-- heartbeats, next to the status set by hand (status stays the manual
+-- running / idle / maintenance setting)
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS derived_status TEXT;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS status_reason TEXT;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+
+ALTER TABLE machines DROP CONSTRAINT IF EXISTS machines_derived_status_check;
+ALTER TABLE machines ADD CONSTRAINT machines_derived_status_check
+  CHECK (derived_status IN ('running', 'paused', 'idle', 'changeover', 'maintenance', 'no_operator'));
+
+-- Every status transition of a machine or sub-machine
+CREATE TABLE IF NOT EXISTS machine_status_history (
+  id BIGSERIAL PRIMARY KEY,
+  machine_id TEXT NOT NULL REFERENCES machines(id) ON DELETE CASCADE,
+  machine_name TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  operator_name TEXT,
+  changed_by UUID DEFAULT auth.uid(),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_machine_status_history_machine
+  ON machine_status_history(machine_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_machine_status_history_changed
+  ON machine_status_history(changed_at DESC);
+
+-- Transitions are only written by record_machine_status
+ALTER TABLE machine_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in read machine_status_history" ON machine_status_history;
+CREATE POLICY "Signed-in read machine_status_history" ON machine_status_history
+  FOR SELECT USING (has_role('operator'));
+
+COMMENT ON TABLE machine_status_history IS 'Derived machine status transitions with reason and operator';
+
+-- Record a machine's derived status. Every open dashboard publishes what
+-- it sees, so repeating the current status and reason is a no-op and only
+-- real transitions reach the history.
+CREATE OR REPLACE FUNCTION record_machine_status(
+  p_machine_id TEXT,
+  p_status TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_operator_name TEXT DEFAULT NULL
+)
+RETURNS machines
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_machine machines;
+  saved machines;
+BEGIN
+  IF NOT has_role('operator') THEN
+    RAISE EXCEPTION 'Not allowed to record machine status';
+  END IF;
+
+  SELECT * INTO current_machine FROM machines WHERE id = p_machine_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Machine % not found', p_machine_id;
+  END IF;
+
+  IF current_machine.derived_status IS NOT DISTINCT FROM p_status
+    AND current_machine.status_reason IS NOT DISTINCT FROM p_reason THEN
+    RETURN current_machine;
+  END IF;
+
+  UPDATE machines SET
+    derived_status = p_status,
+    status_reason = p_reason,
+    status_changed_at = NOW()
+  WHERE id = p_machine_id
+  RETURNING * INTO saved;
+
+  INSERT INTO machine_status_history (machine_id, machine_name, from_status, to_status, reason, operator_name)
+  VALUES (p_machine_id, current_machine.name, current_machine.derived_status, p_status, p_reason, p_operator_name);
+
+  RETURN saved;
+END;
+$$;
+
+-- ==========================================
+-- ACTIVITY EVENT LOG
+-- Added: 2026-10-18
+-- ==========================================
+
+-- Every activity feed event (machine started, waste recorded, pallet
+-- scanned...) - written by the capture screen that raised it, replayed
+-- from the outbox when it was offline
+CREATE TABLE IF NOT EXISTS activity_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  machine_name TEXT NOT NULL,
+  operator_name TEXT,
+  message TEXT NOT NULL,
+  details TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  search_text TEXT GENERATED ALWAYS AS (
+    lower(message || ' ' || coalesce(details, '') || ' ' || coalesce(operator_name, ''))
+  ) STORED
+);
+
+-- Newest-first paging, overall and per machine, operator and type
+CREATE INDEX IF NOT EXISTS idx_activity_events_occurred
+  ON activity_events(occurred_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_events_machine
+  ON activity_events(machine_name, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_events_operator
+  ON activity_events(operator_name, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_events_type
+  ON activity_events(type, occurred_at DESC);
+
+-- Free-text search ("contains") over message, details and operator
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+CREATE INDEX IF NOT EXISTS idx_activity_events_search
+  ON activity_events USING GIN (search_text extensions.gin_trgm_ops);
+
+-- Events are recorded from capture screens and never edited
+ALTER TABLE activity_events ENABLE ROW LEVEL SECURITY;
+
+-- Readable without sign-in, like live_sessions, for the public dashboard
+DROP POLICY IF EXISTS "Signed-in read activity_events" ON activity_events;
+DROP POLICY IF EXISTS "Public read activity_events" ON activity_events;
+CREATE POLICY "Public read activity_events" ON activity_events
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Operators write activity_events" ON activity_events;
+CREATE POLICY "Operators write activity_events" ON activity_events
+  FOR INSERT WITH CHECK (has_role('operator'));
+
+COMMENT ON TABLE activity_events IS 'Activity feed events per machine, searchable by machine, operator, type and text';
@@ -0,0 +1,15 @@
+-- ============================================
+-- ADD OEE INPUT COLUMNS
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Admin-set rated speed and pack size per machine
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS rated_speed NUMERIC(10, 2);
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS units_per_case INTEGER;
+
+-- 2. Entry snapshots on live sessions so the dashboard can compute live OEE
+ALTER TABLE live_sessions ADD COLUMN IF NOT EXISTS loose_cases_entries JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE live_sessions ADD COLUMN IF NOT EXISTS pallet_scan_entries JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN machines.rated_speed IS 'Rated speed in units per minute (OEE performance)';
+COMMENT ON COLUMN machines.units_per_case IS 'Sachets per case (OEE quality)';
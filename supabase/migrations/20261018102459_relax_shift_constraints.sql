@@ -0,0 +1,20 @@
+-- ============================================
+-- CONFIGURABLE SHIFT PATTERNS
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Shift names come from configurable shift patterns, not just Day/Night
+ALTER TABLE machines DROP CONSTRAINT IF EXISTS machines_current_shift_check;
+ALTER TABLE shift_submissions DROP CONSTRAINT IF EXISTS shift_submissions_shift_check;
+ALTER TABLE active_sessions DROP CONSTRAINT IF EXISTS active_sessions_shift_check;
+ALTER TABLE shift_sessions DROP CONSTRAINT IF EXISTS shift_sessions_shift_check;
+
+-- 2. Crew on shift for lines that run a crew rotation
+ALTER TABLE shift_submissions ADD COLUMN IF NOT EXISTS crew TEXT;
+
+-- 3. Default pattern settings
+INSERT INTO facility_settings (setting_key, setting_value, description) VALUES
+  ('shift_patterns', '{"shiftPatternId": "day-night", "customShiftPatterns": [], "lineShiftPatterns": {}}', 'Shift patterns and per-line assignments')
+ON CONFLICT (setting_key) DO NOTHING;
+
+COMMENT ON COLUMN shift_submissions.crew IS 'Crew on shift (crew rotation patterns only)';
@@ -0,0 +1,21 @@
+-- ============================================
+-- SYNC FACILITY SETTINGS ACROSS DEVICES
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Push settings changes to every open client
+ALTER PUBLICATION supabase_realtime ADD TABLE facility_settings;
+
+-- 2. Time zone replaces the fixed UTC offset
+UPDATE facility_settings
+SET setting_value = (setting_value - 'timezoneOffset') || '{"timeZone": "Africa/Johannesburg"}'::jsonb
+WHERE setting_key = 'shift_config' AND NOT setting_value ? 'timeZone';
+
+-- 3. Rows for the remaining settings
+INSERT INTO facility_settings (setting_key, setting_value, description) VALUES
+  ('shift_patterns', '{"shiftPatternId": "day-night", "customShiftPatterns": [], "lineShiftPatterns": {}}', 'Shift patterns and per-line assignments'),
+  ('session_config', '{"sessionLockingEnabled": true, "maxConcurrentSessions": 1}', 'Machine session locking'),
+  ('data_retention', '{"historyRetentionDays": 90}', 'Local history retention')
+ON CONFLICT (setting_key) DO NOTHING;
+
+COMMENT ON COLUMN facility_settings.updated_by IS 'Name of the admin who last changed the setting';
@@ -0,0 +1,241 @@
+-- ============================================
+-- ROLE-BASED ACCESS (operators, supervisors, admins)
+-- Run this in your Supabase SQL Editor
+-- ============================================
+-- Replaces the permissive "Allow all operations" policies. After running,
+-- promote your first admin:
+--   UPDATE user_profiles SET role = 'admin' WHERE email = 'you@example.com';
+-- ============================================
+
+-- 1. Remove the permissive policies
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'machines', 'shift_submissions', 'waste_records', 'downtime_records', 'speed_records',
+    'sachet_mass_records', 'cases_per_hour_records', 'loose_cases_records', 'pallet_scan_records',
+    'order_details', 'machine_order_queue', 'shift_sessions', 'live_sessions', 'active_sessions',
+    'facility_settings'
+  ] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Allow all operations on %1$s" ON %1$I', t);
+  END LOOP;
+END $$;
+
+-- 2. Profiles, role helpers and role-based policies
+-- Profiles hold each Supabase Auth user's display name and role
+CREATE TABLE IF NOT EXISTS user_profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  email TEXT,
+  role TEXT NOT NULL DEFAULT 'operator' CHECK (role IN ('operator', 'supervisor', 'admin')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+
+-- New sign-ups get an operator profile; admins promote them
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_profiles (id, display_name, email)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'display_name', split_part(NEW.email, '@', 1)),
+    NEW.email
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Role of the calling user (NULL when not signed in)
+CREATE OR REPLACE FUNCTION app_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM user_profiles WHERE id = auth.uid();
+$$;
+
+-- True when the calling user has at least the given role
+CREATE OR REPLACE FUNCTION has_role(required TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    array_position(ARRAY['operator', 'supervisor', 'admin'], app_role())
+      >= array_position(ARRAY['operator', 'supervisor', 'admin'], required),
+    false
+  );
+$$;
+
+-- user_profiles: users read their own profile, admins manage everyone's
+DROP POLICY IF EXISTS "Users read own profile" ON user_profiles;
+CREATE POLICY "Users read own profile" ON user_profiles
+  FOR SELECT USING (id = auth.uid() OR has_role('admin'));
+
+DROP POLICY IF EXISTS "Admins manage profiles" ON user_profiles;
+CREATE POLICY "Admins manage profiles" ON user_profiles
+  FOR UPDATE USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+-- Dashboard data: readable by the wall display without signing in
+DROP POLICY IF EXISTS "Public read machines" ON machines;
+CREATE POLICY "Public read machines" ON machines
+  FOR SELECT USING (true);
+
+-- Only admins edit machines; operators change status through set_machine_status
+DROP POLICY IF EXISTS "Operators update machines" ON machines;
+DROP POLICY IF EXISTS "Admins update machines" ON machines;
+CREATE POLICY "Admins update machines" ON machines
+  FOR UPDATE USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+-- Status, operator, order and shift of a machine, set from the capture screen.
+-- Idle clears the operator, order and shift; maintenance keeps them.
+CREATE OR REPLACE FUNCTION set_machine_status(
+  p_machine_id TEXT,
+  p_status TEXT,
+  p_operator_name TEXT DEFAULT NULL,
+  p_order_number TEXT DEFAULT NULL,
+  p_shift TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role('operator') THEN
+    RAISE EXCEPTION 'Not allowed to set machine status';
+  END IF;
+
+  UPDATE machines SET
+    status = p_status,
+    current_operator = CASE
+      WHEN p_status = 'idle' THEN NULL
+      WHEN p_status = 'running' THEN COALESCE(p_operator_name, current_operator)
+      ELSE current_operator END,
+    current_order = CASE
+      WHEN p_status = 'idle' THEN NULL
+      WHEN p_status = 'running' THEN COALESCE(p_order_number, current_order)
+      ELSE current_order END,
+    current_shift = CASE
+      WHEN p_status = 'idle' THEN NULL
+      WHEN p_status = 'running' THEN COALESCE(p_shift, current_shift)
+      ELSE current_shift END,
+    updated_at = NOW()
+  WHERE id = p_machine_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Machine % not found', p_machine_id;
+  END IF;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Admins insert machines" ON machines;
+CREATE POLICY "Admins insert machines" ON machines
+  FOR INSERT WITH CHECK (has_role('admin'));
+
+DROP POLICY IF EXISTS "Admins delete machines" ON machines;
+CREATE POLICY "Admins delete machines" ON machines
+  FOR DELETE USING (has_role('admin'));
+
+-- Shift submissions: operators submit, recent submissions show on the dashboard,
+-- only admins correct or delete them
+DROP POLICY IF EXISTS "Public read shift_submissions" ON shift_submissions;
+CREATE POLICY "Public read shift_submissions" ON shift_submissions
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Operators insert shift_submissions" ON shift_submissions;
+CREATE POLICY "Operators insert shift_submissions" ON shift_submissions
+  FOR INSERT WITH CHECK (has_role('operator'));
+
+DROP POLICY IF EXISTS "Admins modify shift_submissions" ON shift_submissions;
+CREATE POLICY "Admins modify shift_submissions" ON shift_submissions
+  FOR UPDATE USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+DROP POLICY IF EXISTS "Admins delete shift_submissions" ON shift_submissions;
+CREATE POLICY "Admins delete shift_submissions" ON shift_submissions
+  FOR DELETE USING (has_role('admin'));
+
+-- Submission detail records: same rules, but reading needs a signed-in user
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'waste_records', 'downtime_records', 'speed_records', 'sachet_mass_records',
+    'cases_per_hour_records', 'loose_cases_records', 'pallet_scan_records'
+  ] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Signed-in read %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Signed-in read %1$s" ON %1$I FOR SELECT USING (has_role(''operator''))', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Operators insert %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Operators insert %1$s" ON %1$I FOR INSERT WITH CHECK (has_role(''operator''))', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Admins modify %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Admins modify %1$s" ON %1$I FOR UPDATE USING (has_role(''admin'')) WITH CHECK (has_role(''admin''))', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Admins delete %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Admins delete %1$s" ON %1$I FOR DELETE USING (has_role(''admin''))', t);
+  END LOOP;
+END $$;
+
+-- Live session state: shown on the dashboard, written from capture screens
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['shift_sessions', 'live_sessions', 'active_sessions'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Public read %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Public read %1$s" ON %1$I FOR SELECT USING (true)', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Operators write %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Operators write %1$s" ON %1$I FOR ALL USING (has_role(''operator'')) WITH CHECK (has_role(''operator''))', t);
+  END LOOP;
+END $$;
+
+-- Orders: read by capture screens, managed by supervisors
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['order_details', 'machine_order_queue'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Public read %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Public read %1$s" ON %1$I FOR SELECT USING (true)', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Supervisors write %1$s" ON %1$I', t);
+    EXECUTE format('CREATE POLICY "Supervisors write %1$s" ON %1$I FOR ALL USING (has_role(''supervisor'')) WITH CHECK (has_role(''supervisor''))', t);
+  END LOOP;
+END $$;
+
+-- Facility settings: every client reads them, only admins change them
+DROP POLICY IF EXISTS "Public read facility_settings" ON facility_settings;
+CREATE POLICY "Public read facility_settings" ON facility_settings
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write facility_settings" ON facility_settings;
+CREATE POLICY "Admins write facility_settings" ON facility_settings
+  FOR ALL USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+-- Chat: readable on the wall display, signed-in users post
+DROP POLICY IF EXISTS "Public chat insert" ON chat_messages;
+DROP POLICY IF EXISTS "Signed-in chat insert" ON chat_messages;
+CREATE POLICY "Signed-in chat insert" ON chat_messages
+  FOR INSERT WITH CHECK (has_role('operator'));
+
+COMMENT ON TABLE user_profiles IS 'Display name and role (operator / supervisor / admin) per auth user';
+
+-- 3. Profiles for users who signed up before this migration
+INSERT INTO user_profiles (id, display_name, email)
+SELECT id, COALESCE(raw_user_meta_data->>'display_name', split_part(email, '@', 1)), email
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,127 @@
+-- ============================================
+-- OPERATOR REGISTRY (badge / PIN identification)
+-- Run this in your Supabase SQL Editor
+-- ============================================
+-- Requires 20261018103543_role_based_access.sql (uses has_role()).
+-- ============================================
+
+-- 1. pgcrypto hashes the PINs
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 2. Operator registry (operators identify by badge QR or PIN)
+CREATE TABLE IF NOT EXISTS operators (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  employee_number TEXT,
+  badge_code TEXT UNIQUE,
+  pin_hash TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE operators ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Operators read registry" ON operators;
+CREATE POLICY "Operators read registry" ON operators
+  FOR SELECT USING (has_role('operator'));
+
+-- PIN hashes are never readable; changes go through save_operator()
+REVOKE ALL ON operators FROM anon, authenticated;
+GRANT SELECT (id, name, employee_number, badge_code, is_active, created_at, updated_at)
+  ON operators TO authenticated;
+
+-- 3. Resolve a badge code or PIN to an active operator
+CREATE OR REPLACE FUNCTION identify_operator(p_badge_code TEXT DEFAULT NULL, p_pin TEXT DEFAULT NULL)
+RETURNS TABLE (id UUID, name TEXT, employee_number TEXT, badge_code TEXT, is_active BOOLEAN)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT has_role('operator') THEN
+    RAISE EXCEPTION 'Sign in to identify operators';
+  END IF;
+
+  RETURN QUERY
+  SELECT o.id, o.name, o.employee_number, o.badge_code, o.is_active
+  FROM operators o
+  WHERE o.is_active
+    AND (
+      (p_badge_code IS NOT NULL AND o.badge_code = p_badge_code)
+      OR (p_badge_code IS NULL AND p_pin IS NOT NULL AND o.pin_hash = crypt(p_pin, o.pin_hash))
+    )
+  LIMIT 1;
+END;
+$$;
+
+-- 4. Create or update an operator; a NULL PIN keeps the current one
+CREATE OR REPLACE FUNCTION save_operator(
+  p_id UUID,
+  p_name TEXT,
+  p_employee_number TEXT,
+  p_badge_code TEXT,
+  p_pin TEXT,
+  p_is_active BOOLEAN
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  saved operators;
+BEGIN
+  IF NOT has_role('supervisor') THEN
+    RAISE EXCEPTION 'Supervisor access is required to manage operators';
+  END IF;
+
+  -- PINs identify an operator on their own, so they must be unique
+  IF p_pin IS NOT NULL AND EXISTS (
+    SELECT 1 FROM operators
+    WHERE pin_hash = crypt(p_pin, pin_hash) AND id IS DISTINCT FROM p_id
+  ) THEN
+    RAISE EXCEPTION 'PIN is already in use';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO operators (name, employee_number, badge_code, pin_hash, is_active)
+    VALUES (p_name, p_employee_number, p_badge_code,
+            CASE WHEN p_pin IS NULL THEN NULL ELSE crypt(p_pin, gen_salt('bf')) END,
+            p_is_active)
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE operators SET
+      name = p_name,
+      employee_number = p_employee_number,
+      badge_code = p_badge_code,
+      pin_hash = CASE WHEN p_pin IS NULL THEN pin_hash ELSE crypt(p_pin, gen_salt('bf')) END,
+      is_active = p_is_active,
+      updated_at = NOW()
+    WHERE id = p_id
+    RETURNING * INTO saved;
+  END IF;
+
+  RETURN json_build_object(
+    'id', saved.id,
+    'name', saved.name,
+    'employee_number', saved.employee_number,
+    'badge_code', saved.badge_code,
+    'is_active', saved.is_active,
+    'created_at', saved.created_at,
+    'updated_at', saved.updated_at
+  );
+END;
+$$;
+
+-- 5. Identified operator on each entry and session lock
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS operator_id UUID REFERENCES operators(id);
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS operator_name TEXT;
+ALTER TABLE downtime_records ADD COLUMN IF NOT EXISTS operator_id UUID REFERENCES operators(id);
+ALTER TABLE downtime_records ADD COLUMN IF NOT EXISTS operator_name TEXT;
+ALTER TABLE pallet_scan_records ADD COLUMN IF NOT EXISTS operator_id UUID REFERENCES operators(id);
+ALTER TABLE pallet_scan_records ADD COLUMN IF NOT EXISTS operator_name TEXT;
+ALTER TABLE active_sessions ADD COLUMN IF NOT EXISTS operator_id UUID REFERENCES operators(id);
+
+COMMENT ON TABLE operators IS 'Operator registry - badge QR codes and hashed PINs for tablet identification';
@@ -0,0 +1,10 @@
+-- ============================================
+-- HISTORY QUERY INDEXES
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Default history order (newest first) and keyset paging on created_at + id
+CREATE INDEX IF NOT EXISTS idx_shift_submissions_created ON shift_submissions(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_shift_submissions_date_id ON shift_submissions(submission_date, id);
+CREATE INDEX IF NOT EXISTS idx_shift_submissions_product ON shift_submissions(product);
+CREATE INDEX IF NOT EXISTS idx_shift_submissions_order ON shift_submissions(order_number);
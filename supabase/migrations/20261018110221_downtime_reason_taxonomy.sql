@@ -0,0 +1,156 @@
+-- ============================================
+-- DOWNTIME REASON TAXONOMY
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Reason tree: categories (parent_id NULL) and sub-reasons
+CREATE TABLE IF NOT EXISTS downtime_reasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id UUID REFERENCES downtime_reasons(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  is_planned BOOLEAN NOT NULL DEFAULT FALSE,
+  machine_ids TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_downtime_reasons_parent ON downtime_reasons(parent_id);
+
+DROP TRIGGER IF EXISTS update_downtime_reasons_updated_at ON downtime_reasons;
+CREATE TRIGGER update_downtime_reasons_updated_at
+  BEFORE UPDATE ON downtime_reasons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Entries keep the reason name for display plus the code for reporting
+ALTER TABLE downtime_records ADD COLUMN IF NOT EXISTS reason_code TEXT;
+CREATE INDEX IF NOT EXISTS idx_downtime_records_reason_code ON downtime_records(reason_code);
+
+-- 3. Default tree (matches DEFAULT_DOWNTIME_REASONS in the app)
+INSERT INTO downtime_reasons (code, name, is_planned, sort_order) VALUES
+  ('MECH', 'Mechanical', FALSE, 0),
+  ('ELEC', 'Electrical', FALSE, 1),
+  ('MAT', 'Material', FALSE, 2),
+  ('PEOPLE', 'People', FALSE, 3)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO downtime_reasons (parent_id, code, name, is_planned, sort_order)
+SELECT p.id, v.code, v.name, v.is_planned, v.sort_order
+FROM (VALUES
+  ('MECH', 'MECH-BREAKDOWN', 'Machine Breakdown', FALSE, 0),
+  ('MECH', 'MECH-JAM', 'Jam / Blockage', FALSE, 1),
+  ('MECH', 'MECH-PM', 'Scheduled Maintenance', TRUE, 2),
+  ('ELEC', 'ELEC-FAULT', 'Electrical Fault', FALSE, 0),
+  ('ELEC', 'ELEC-SENSOR', 'Sensor / Controls Fault', FALSE, 1),
+  ('MAT', 'MAT-SHORTAGE', 'Material Shortage', FALSE, 0),
+  ('MAT', 'MAT-QUALITY', 'Material Quality', FALSE, 1),
+  ('MAT', 'MAT-CHANGEOVER', 'Changeover', TRUE, 2),
+  ('PEOPLE', 'PEOPLE-NO-OPERATOR', 'No Operator Available', FALSE, 0),
+  ('PEOPLE', 'PEOPLE-TRAINING', 'Training', TRUE, 1)
+) AS v(parent_code, code, name, is_planned, sort_order)
+JOIN downtime_reasons p ON p.code = v.parent_code
+ON CONFLICT (code) DO NOTHING;
+
+-- 4. Row level security
+ALTER TABLE downtime_reasons ENABLE ROW LEVEL SECURITY;
+
+-- Every capture screen reads the tree, only admins change it
+DROP POLICY IF EXISTS "Public read downtime_reasons" ON downtime_reasons;
+CREATE POLICY "Public read downtime_reasons" ON downtime_reasons
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write downtime_reasons" ON downtime_reasons;
+CREATE POLICY "Admins write downtime_reasons" ON downtime_reasons
+  FOR ALL USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+COMMENT ON TABLE downtime_reasons IS 'Downtime reason tree - categories and sub-reasons, planned flag and machine applicability';
+
+-- 5. Store the reason code with each downtime entry
+--    Replaces submit_shift from
+--    20261018105003_atomic_shift_submission.sql - the whole function is
+--    redefined with everything it already did
+CREATE OR REPLACE FUNCTION submit_shift(p_idempotency_key TEXT, p_submission JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_shift JSONB := p_submission->'shift';
+  v_id BIGINT;
+BEGIN
+  IF p_idempotency_key IS NULL OR p_idempotency_key = '' THEN
+    RAISE EXCEPTION 'Idempotency key is required';
+  END IF;
+
+  SELECT id INTO v_id FROM shift_submissions WHERE idempotency_key = p_idempotency_key;
+  IF v_id IS NOT NULL THEN
+    RETURN json_build_object('id', v_id, 'duplicate', true);
+  END IF;
+
+  INSERT INTO shift_submissions (
+    idempotency_key, operator_name, machine, sub_machine, order_number, product, batch_number,
+    shift, crew, submission_date, is_early_submission, will_changeover, will_maintenance_cleaning,
+    total_waste, total_downtime
+  )
+  VALUES (
+    p_idempotency_key,
+    v_shift->>'operator_name',
+    v_shift->>'machine',
+    v_shift->>'sub_machine',
+    v_shift->>'order_number',
+    v_shift->>'product',
+    v_shift->>'batch_number',
+    v_shift->>'shift',
+    v_shift->>'crew',
+    (v_shift->>'submission_date')::DATE,
+    COALESCE((v_shift->>'is_early_submission')::BOOLEAN, FALSE),
+    (v_shift->>'will_changeover')::BOOLEAN,
+    (v_shift->>'will_maintenance_cleaning')::BOOLEAN,
+    (SELECT COALESCE(SUM((r->>'waste_amount')::NUMERIC), 0)
+       FROM jsonb_array_elements(COALESCE(p_submission->'waste_records', '[]')) r),
+    (SELECT COALESCE(SUM((r->>'downtime_minutes')::INTEGER), 0)
+       FROM jsonb_array_elements(COALESCE(p_submission->'downtime_records', '[]')) r)
+  )
+  -- A concurrent retry with the same key may have won the race
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM shift_submissions WHERE idempotency_key = p_idempotency_key;
+    RETURN json_build_object('id', v_id, 'duplicate', true);
+  END IF;
+
+  INSERT INTO waste_records (shift_submission_id, waste_amount, waste_type, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.waste_amount, r.waste_type, r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::waste_records, COALESCE(p_submission->'waste_records', '[]')) r;
+
+  INSERT INTO downtime_records (shift_submission_id, downtime_minutes, downtime_reason, reason_code, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.downtime_minutes, r.downtime_reason, r.reason_code, r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::downtime_records, COALESCE(p_submission->'downtime_records', '[]')) r;
+
+  INSERT INTO speed_records (shift_submission_id, speed_ppm, recorded_at)
+  SELECT v_id, r.speed_ppm, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::speed_records, COALESCE(p_submission->'speed_records', '[]')) r;
+
+  INSERT INTO sachet_mass_records (shift_submission_id, mass_grams, recorded_at)
+  SELECT v_id, r.mass_grams, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::sachet_mass_records, COALESCE(p_submission->'sachet_mass_records', '[]')) r;
+
+  INSERT INTO cases_per_hour_records (shift_submission_id, cases_count, hour_of_day, recorded_at)
+  SELECT v_id, r.cases_count, r.hour_of_day, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::cases_per_hour_records, COALESCE(p_submission->'cases_per_hour_records', '[]')) r;
+
+  INSERT INTO loose_cases_records (shift_submission_id, batch_number, cases_count, recorded_at)
+  SELECT v_id, r.batch_number, r.cases_count, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::loose_cases_records, COALESCE(p_submission->'loose_cases_records', '[]')) r;
+
+  INSERT INTO pallet_scan_records (shift_submission_id, qr_code, batch_number, pallet_number, cases_count, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.qr_code, r.batch_number, r.pallet_number, r.cases_count, r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::pallet_scan_records, COALESCE(p_submission->'pallet_scan_records', '[]')) r;
+
+  RETURN json_build_object('id', v_id, 'duplicate', false);
+END;
+$$;
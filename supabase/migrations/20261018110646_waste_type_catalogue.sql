@@ -0,0 +1,143 @@
+-- ============================================
+-- WASTE TYPE CATALOGUE
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Waste types with unit of measure, conversion to kg and cost per unit
+CREATE TABLE IF NOT EXISTS waste_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  unit TEXT NOT NULL DEFAULT 'kg' CHECK (unit IN ('kg', 'units', 'm')),
+  kg_per_unit NUMERIC(10,4) NOT NULL DEFAULT 1 CHECK (kg_per_unit > 0),
+  cost_per_unit NUMERIC(10,2) NOT NULL DEFAULT 0,
+  products TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_waste_types_updated_at ON waste_types;
+CREATE TRIGGER update_waste_types_updated_at
+  BEFORE UPDATE ON waste_types
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. waste_amount stays in kg; the quantity, unit and cost are as recorded
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS waste_type_code TEXT;
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS quantity NUMERIC(10,3);
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE waste_records ADD COLUMN IF NOT EXISTS cost NUMERIC(10,2);
+
+-- 3. Default catalogue (matches DEFAULT_WASTE_TYPES in the app)
+INSERT INTO waste_types (code, name, unit, kg_per_unit, sort_order) VALUES
+  ('STARTUP', 'Start-up Waste', 'kg', 1, 0),
+  ('CHANGEOVER', 'Changeover Waste', 'kg', 1, 1),
+  ('DEFECTIVE', 'Defective Product', 'kg', 1, 2),
+  ('SPILLAGE', 'Material Spillage', 'kg', 1, 3),
+  ('CANS', 'Scrapped Cans', 'units', 0.015, 4),
+  ('SACHETS', 'Scrapped Sachets', 'units', 0.002, 5),
+  ('LABELS', 'Label Stock', 'm', 0.005, 6)
+ON CONFLICT (code) DO NOTHING;
+
+-- 4. Row level security
+ALTER TABLE waste_types ENABLE ROW LEVEL SECURITY;
+
+-- Every capture screen reads the catalogue, only admins change it
+DROP POLICY IF EXISTS "Public read waste_types" ON waste_types;
+CREATE POLICY "Public read waste_types" ON waste_types
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write waste_types" ON waste_types;
+CREATE POLICY "Admins write waste_types" ON waste_types
+  FOR ALL USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+COMMENT ON TABLE waste_types IS 'Waste type catalogue - unit of measure, conversion to kg, cost per unit and applicable products';
+
+-- 5. Store the quantity, unit and cost with each waste entry
+--    Replaces submit_shift from
+--    20261018110221_downtime_reason_taxonomy.sql - the whole function is
+--    redefined with everything it already did
+CREATE OR REPLACE FUNCTION submit_shift(p_idempotency_key TEXT, p_submission JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_shift JSONB := p_submission->'shift';
+  v_id BIGINT;
+BEGIN
+  IF p_idempotency_key IS NULL OR p_idempotency_key = '' THEN
+    RAISE EXCEPTION 'Idempotency key is required';
+  END IF;
+
+  SELECT id INTO v_id FROM shift_submissions WHERE idempotency_key = p_idempotency_key;
+  IF v_id IS NOT NULL THEN
+    RETURN json_build_object('id', v_id, 'duplicate', true);
+  END IF;
+
+  INSERT INTO shift_submissions (
+    idempotency_key, operator_name, machine, sub_machine, order_number, product, batch_number,
+    shift, crew, submission_date, is_early_submission, will_changeover, will_maintenance_cleaning,
+    total_waste, total_downtime
+  )
+  VALUES (
+    p_idempotency_key,
+    v_shift->>'operator_name',
+    v_shift->>'machine',
+    v_shift->>'sub_machine',
+    v_shift->>'order_number',
+    v_shift->>'product',
+    v_shift->>'batch_number',
+    v_shift->>'shift',
+    v_shift->>'crew',
+    (v_shift->>'submission_date')::DATE,
+    COALESCE((v_shift->>'is_early_submission')::BOOLEAN, FALSE),
+    (v_shift->>'will_changeover')::BOOLEAN,
+    (v_shift->>'will_maintenance_cleaning')::BOOLEAN,
+    (SELECT COALESCE(SUM((r->>'waste_amount')::NUMERIC), 0)
+       FROM jsonb_array_elements(COALESCE(p_submission->'waste_records', '[]')) r),
+    (SELECT COALESCE(SUM((r->>'downtime_minutes')::INTEGER), 0)
+       FROM jsonb_array_elements(COALESCE(p_submission->'downtime_records', '[]')) r)
+  )
+  -- A concurrent retry with the same key may have won the race
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM shift_submissions WHERE idempotency_key = p_idempotency_key;
+    RETURN json_build_object('id', v_id, 'duplicate', true);
+  END IF;
+
+  INSERT INTO waste_records (shift_submission_id, waste_amount, waste_type, waste_type_code, quantity, unit, cost, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.waste_amount, r.waste_type, r.waste_type_code, r.quantity, r.unit, r.cost, r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::waste_records, COALESCE(p_submission->'waste_records', '[]')) r;
+
+  INSERT INTO downtime_records (shift_submission_id, downtime_minutes, downtime_reason, reason_code, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.downtime_minutes, r.downtime_reason, r.reason_code, r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::downtime_records, COALESCE(p_submission->'downtime_records', '[]')) r;
+
+  INSERT INTO speed_records (shift_submission_id, speed_ppm, recorded_at)
+  SELECT v_id, r.speed_ppm, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::speed_records, COALESCE(p_submission->'speed_records', '[]')) r;
+
+  INSERT INTO sachet_mass_records (shift_submission_id, mass_grams, recorded_at)
+  SELECT v_id, r.mass_grams, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::sachet_mass_records, COALESCE(p_submission->'sachet_mass_records', '[]')) r;
+
+  INSERT INTO cases_per_hour_records (shift_submission_id, cases_count, hour_of_day, recorded_at)
+  SELECT v_id, r.cases_count, r.hour_of_day, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::cases_per_hour_records, COALESCE(p_submission->'cases_per_hour_records', '[]')) r;
+
+  INSERT INTO loose_cases_records (shift_submission_id, batch_number, cases_count, recorded_at)
+  SELECT v_id, r.batch_number, r.cases_count, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::loose_cases_records, COALESCE(p_submission->'loose_cases_records', '[]')) r;
+
+  INSERT INTO pallet_scan_records (shift_submission_id, qr_code, batch_number, pallet_number, cases_count, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.qr_code, r.batch_number, r.pallet_number, r.cases_count, r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::pallet_scan_records, COALESCE(p_submission->'pallet_scan_records', '[]')) r;
+
+  RETURN json_build_object('id', v_id, 'duplicate', false);
+END;
+$$;
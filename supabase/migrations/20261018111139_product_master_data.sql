@@ -0,0 +1,41 @@
+-- ============================================
+-- PRODUCT MASTER DATA
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Product catalogue. Orders and shifts keep the product name; it is
+-- matched against products.name
+CREATE TABLE IF NOT EXISTS products (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sku TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL UNIQUE,
+  rated_speed NUMERIC(8,2) CHECK (rated_speed > 0),
+  target_mass NUMERIC(8,2) CHECK (target_mass > 0),
+  mass_tolerance_below NUMERIC(8,2) CHECK (mass_tolerance_below >= 0),
+  mass_tolerance_above NUMERIC(8,2) CHECK (mass_tolerance_above >= 0),
+  sachets_per_case INTEGER CHECK (sachets_per_case > 0),
+  cases_per_pallet INTEGER CHECK (cases_per_pallet > 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_products_updated_at ON products;
+CREATE TRIGGER update_products_updated_at
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Row level security
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+-- Every screen reads the catalogue, only admins change it
+DROP POLICY IF EXISTS "Public read products" ON products;
+CREATE POLICY "Public read products" ON products
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins write products" ON products;
+CREATE POLICY "Admins write products" ON products
+  FOR ALL USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+COMMENT ON TABLE products IS 'Product master data - SKU, rated line speed, sachet mass targets and case configuration';
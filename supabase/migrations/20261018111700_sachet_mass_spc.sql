@@ -0,0 +1,97 @@
+-- ============================================
+-- SACHET MASS SPC
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Samples the operator ignored are kept but left out of control limits
+ALTER TABLE sachet_mass_records ADD COLUMN IF NOT EXISTS is_ignored BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- 2. Control limits are computed from each product's recent samples
+CREATE INDEX IF NOT EXISTS idx_sachet_mass_records_recorded_at ON sachet_mass_records(recorded_at DESC);
+
+-- 3. Store whether each sachet mass sample was ignored
+--    Replaces submit_shift from
+--    20261018110646_waste_type_catalogue.sql - the whole function is
+--    redefined with everything it already did
+CREATE OR REPLACE FUNCTION submit_shift(p_idempotency_key TEXT, p_submission JSONB)
+RETURNS JSON
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_shift JSONB := p_submission->'shift';
+  v_id BIGINT;
+BEGIN
+  IF p_idempotency_key IS NULL OR p_idempotency_key = '' THEN
+    RAISE EXCEPTION 'Idempotency key is required';
+  END IF;
+
+  SELECT id INTO v_id FROM shift_submissions WHERE idempotency_key = p_idempotency_key;
+  IF v_id IS NOT NULL THEN
+    RETURN json_build_object('id', v_id, 'duplicate', true);
+  END IF;
+
+  INSERT INTO shift_submissions (
+    idempotency_key, operator_name, machine, sub_machine, order_number, product, batch_number,
+    shift, crew, submission_date, is_early_submission, will_changeover, will_maintenance_cleaning,
+    total_waste, total_downtime
+  )
+  VALUES (
+    p_idempotency_key,
+    v_shift->>'operator_name',
+    v_shift->>'machine',
+    v_shift->>'sub_machine',
+    v_shift->>'order_number',
+    v_shift->>'product',
+    v_shift->>'batch_number',
+    v_shift->>'shift',
+    v_shift->>'crew',
+    (v_shift->>'submission_date')::DATE,
+    COALESCE((v_shift->>'is_early_submission')::BOOLEAN, FALSE),
+    (v_shift->>'will_changeover')::BOOLEAN,
+    (v_shift->>'will_maintenance_cleaning')::BOOLEAN,
+    (SELECT COALESCE(SUM((r->>'waste_amount')::NUMERIC), 0)
+       FROM jsonb_array_elements(COALESCE(p_submission->'waste_records', '[]')) r),
+    (SELECT COALESCE(SUM((r->>'downtime_minutes')::INTEGER), 0)
+       FROM jsonb_array_elements(COALESCE(p_submission->'downtime_records', '[]')) r)
+  )
+  -- A concurrent retry with the same key may have won the race
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM shift_submissions WHERE idempotency_key = p_idempotency_key;
+    RETURN json_build_object('id', v_id, 'duplicate', true);
+  END IF;
+
+  INSERT INTO waste_records (shift_submission_id, waste_amount, waste_type, waste_type_code, quantity, unit, cost, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.waste_amount, r.waste_type, r.waste_type_code, r.quantity, r.unit, r.cost, r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::waste_records, COALESCE(p_submission->'waste_records', '[]')) r;
+
+  INSERT INTO downtime_records (shift_submission_id, downtime_minutes, downtime_reason, reason_code, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.downtime_minutes, r.downtime_reason, r.reason_code, r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::downtime_records, COALESCE(p_submission->'downtime_records', '[]')) r;
+
+  INSERT INTO speed_records (shift_submission_id, speed_ppm, recorded_at)
+  SELECT v_id, r.speed_ppm, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::speed_records, COALESCE(p_submission->'speed_records', '[]')) r;
+
+  INSERT INTO sachet_mass_records (shift_submission_id, mass_grams, is_ignored, recorded_at)
+  SELECT v_id, r.mass_grams, COALESCE(r.is_ignored, FALSE), COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::sachet_mass_records, COALESCE(p_submission->'sachet_mass_records', '[]')) r;
+
+  INSERT INTO cases_per_hour_records (shift_submission_id, cases_count, hour_of_day, recorded_at)
+  SELECT v_id, r.cases_count, r.hour_of_day, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::cases_per_hour_records, COALESCE(p_submission->'cases_per_hour_records', '[]')) r;
+
+  INSERT INTO loose_cases_records (shift_submission_id, batch_number, cases_count, recorded_at)
+  SELECT v_id, r.batch_number, r.cases_count, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::loose_cases_records, COALESCE(p_submission->'loose_cases_records', '[]')) r;
+
+  INSERT INTO pallet_scan_records (shift_submission_id, qr_code, batch_number, pallet_number, cases_count, operator_id, operator_name, recorded_at)
+  SELECT v_id, r.qr_code, r.batch_number, r.pallet_number, r.cases_count, r.operator_id, r.operator_name, COALESCE(r.recorded_at, NOW())
+  FROM jsonb_populate_recordset(NULL::pallet_scan_records, COALESCE(p_submission->'pallet_scan_records', '[]')) r;
+
+  RETURN json_build_object('id', v_id, 'duplicate', false);
+END;
+$$;
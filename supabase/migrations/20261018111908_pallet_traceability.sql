@@ -0,0 +1,11 @@
+-- ============================================
+-- PALLET TRACEABILITY
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Shifts by the batch they were submitted under
+CREATE INDEX IF NOT EXISTS idx_shift_submissions_batch ON shift_submissions(batch_number);
+
+-- 2. Pallets by QR code and loose cases by batch (pallet_scan_records.batch_number is already indexed)
+CREATE INDEX IF NOT EXISTS idx_pallet_scans_qr_code ON pallet_scan_records(qr_code);
+CREATE INDEX IF NOT EXISTS idx_loose_cases_batch ON loose_cases_records(batch_number);
@@ -0,0 +1,12 @@
+-- ============================================
+-- PALLET LABEL FORMATS
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Label format per product, falling back to the machine's format
+--    ('legacy13' 13-digit QR or 'gs1' GS1-128 / DataMatrix; NULL = default)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS label_format TEXT;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS label_format TEXT;
+
+COMMENT ON COLUMN products.label_format IS 'Pallet label format for this product (overrides the machine)';
+COMMENT ON COLUMN machines.label_format IS 'Pallet label format used on this machine';
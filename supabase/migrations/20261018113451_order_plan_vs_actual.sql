@@ -0,0 +1,37 @@
+-- ============================================
+-- ORDER PLAN VS ACTUAL
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Planned quantity (cases), due date and planned start per order
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS planned_quantity INTEGER CHECK (planned_quantity > 0);
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS due_date DATE;
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS planned_start TIMESTAMPTZ;
+
+-- 2. Completion time - set when the order reaches its planned quantity
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+-- 3. Complete an order from a capture screen. Operators cannot write the
+-- queue directly, so this runs as the owner; completing it again is a no-op
+-- (offline replays).
+CREATE OR REPLACE FUNCTION complete_machine_order(p_order_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role('operator') THEN
+    RAISE EXCEPTION 'Not allowed to complete orders';
+  END IF;
+
+  UPDATE machine_order_queue SET
+    is_active = FALSE,
+    completed_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_order_id AND completed_at IS NULL;
+END;
+$$;
+
+COMMENT ON COLUMN machine_order_queue.planned_quantity IS 'Target quantity in cases';
+COMMENT ON COLUMN machine_order_queue.completed_at IS 'When the order reached its planned quantity';
@@ -0,0 +1,121 @@
+-- ============================================
+-- ORDER LIFECYCLE & CHANGEOVERS
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Order states with timestamps, backfilled from is_active / completed_at
+--    queued -> in_progress <-> paused -> completed, or cancelled
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'queued';
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ;
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE machine_order_queue ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ DEFAULT NOW();
+
+ALTER TABLE machine_order_queue DROP CONSTRAINT IF EXISTS machine_order_queue_status_check;
+ALTER TABLE machine_order_queue ADD CONSTRAINT machine_order_queue_status_check
+  CHECK (status IN ('queued', 'in_progress', 'paused', 'completed', 'cancelled'));
+
+-- Orders taken off the queue before states existed were either completed or removed
+UPDATE machine_order_queue SET status = 'completed' WHERE NOT is_active AND completed_at IS NOT NULL AND status = 'queued';
+UPDATE machine_order_queue SET status = 'cancelled', cancelled_at = updated_at WHERE NOT is_active AND completed_at IS NULL AND status = 'queued';
+
+CREATE INDEX IF NOT EXISTS idx_machine_order_queue_status ON machine_order_queue(machine_id, status);
+
+-- 2. Move an order to a new state. Operators start, pause and complete orders
+-- from capture screens; cancelling needs a supervisor. Completed and
+-- cancelled orders leave the queue (is_active = FALSE).
+CREATE OR REPLACE FUNCTION set_order_status(p_order_id BIGINT, p_status TEXT)
+RETURNS machine_order_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_order machine_order_queue;
+  saved machine_order_queue;
+BEGIN
+  IF NOT has_role(CASE WHEN p_status = 'cancelled' THEN 'supervisor' ELSE 'operator' END) THEN
+    RAISE EXCEPTION 'Not allowed to set orders to %', p_status;
+  END IF;
+
+  SELECT * INTO current_order FROM machine_order_queue WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  -- Repeating the current state is a no-op (offline replays)
+  IF current_order.status = p_status THEN
+    RETURN current_order;
+  END IF;
+
+  IF NOT (
+    (current_order.status = 'queued' AND p_status IN ('in_progress', 'cancelled')) OR
+    (current_order.status = 'in_progress' AND p_status IN ('paused', 'completed', 'cancelled')) OR
+    (current_order.status = 'paused' AND p_status IN ('in_progress', 'completed', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Order % cannot go from % to %', current_order.order_number, current_order.status, p_status;
+  END IF;
+
+  UPDATE machine_order_queue SET
+    status = p_status,
+    status_changed_at = NOW(),
+    is_active = p_status NOT IN ('completed', 'cancelled'),
+    started_at = CASE WHEN p_status = 'in_progress' THEN COALESCE(started_at, NOW()) ELSE started_at END,
+    paused_at = CASE WHEN p_status = 'paused' THEN NOW() WHEN p_status = 'in_progress' THEN NULL ELSE paused_at END,
+    completed_at = CASE WHEN p_status = 'completed' THEN NOW() ELSE completed_at END,
+    cancelled_at = CASE WHEN p_status = 'cancelled' THEN NOW() ELSE cancelled_at END
+  WHERE id = p_order_id
+  RETURNING * INTO saved;
+
+  RETURN saved;
+END;
+$$;
+
+-- Orders are completed through set_order_status from now on
+DROP FUNCTION IF EXISTS complete_machine_order(BIGINT);
+
+-- 3. Changeovers: from the end of the outgoing order to the start of the
+-- incoming one. The incoming order is NULL until it is known (a changeover
+-- announced at the end of a shift).
+CREATE TABLE IF NOT EXISTS changeover_events (
+  id UUID PRIMARY KEY,
+  machine_id TEXT,
+  machine_name TEXT NOT NULL,
+  from_order_id BIGINT REFERENCES machine_order_queue(id) ON DELETE SET NULL,
+  from_order_number TEXT,
+  from_product TEXT,
+  to_order_id BIGINT REFERENCES machine_order_queue(id) ON DELETE SET NULL,
+  to_order_number TEXT,
+  to_product TEXT,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ CHECK (ended_at >= started_at),
+  operator_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_changeover_events_started ON changeover_events(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_changeover_events_machine ON changeover_events(machine_name, started_at DESC);
+
+DROP TRIGGER IF EXISTS update_changeover_events_updated_at ON changeover_events;
+CREATE TRIGGER update_changeover_events_updated_at
+  BEFORE UPDATE ON changeover_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE changeover_events ENABLE ROW LEVEL SECURITY;
+
+-- Recorded from capture screens, analysed by supervisors
+DROP POLICY IF EXISTS "Signed-in read changeover_events" ON changeover_events;
+CREATE POLICY "Signed-in read changeover_events" ON changeover_events
+  FOR SELECT USING (has_role('operator'));
+
+DROP POLICY IF EXISTS "Operators write changeover_events" ON changeover_events;
+CREATE POLICY "Operators write changeover_events" ON changeover_events
+  FOR INSERT WITH CHECK (has_role('operator'));
+
+DROP POLICY IF EXISTS "Operators update changeover_events" ON changeover_events;
+CREATE POLICY "Operators update changeover_events" ON changeover_events
+  FOR UPDATE USING (has_role('operator')) WITH CHECK (has_role('operator'));
+
+COMMENT ON TABLE changeover_events IS 'Changeovers between orders with start and end times, for SMED analysis';
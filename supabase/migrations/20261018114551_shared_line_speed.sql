@@ -0,0 +1,38 @@
+-- ============================================
+-- SHARED LINE SPEED
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Every line speed change for a parent machine per shift - the latest
+--    change is the current speed of all its sub-machines
+CREATE TABLE IF NOT EXISTS line_speed_changes (
+  id UUID PRIMARY KEY,
+  parent_machine TEXT NOT NULL,
+  shift TEXT NOT NULL,
+  shift_date DATE NOT NULL,
+  speed NUMERIC NOT NULL CHECK (speed > 0),
+  machine_name TEXT NOT NULL,
+  operator_name TEXT,
+  changed_by UUID DEFAULT auth.uid(),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_line_speed_changes_shift
+  ON line_speed_changes(parent_machine, shift_date, shift, changed_at DESC);
+
+-- 2. Changes are recorded from capture screens and never edited
+ALTER TABLE line_speed_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in read line_speed_changes" ON line_speed_changes;
+CREATE POLICY "Signed-in read line_speed_changes" ON line_speed_changes
+  FOR SELECT USING (has_role('operator'));
+
+DROP POLICY IF EXISTS "Operators write line_speed_changes" ON line_speed_changes;
+CREATE POLICY "Operators write line_speed_changes" ON line_speed_changes
+  FOR INSERT WITH CHECK (has_role('operator'));
+
+COMMENT ON TABLE line_speed_changes IS 'Line speed changes per parent machine and shift, shared by its sub-machines';
+
+-- 3. Sub-machines on other tablets pick up changes as they happen
+ALTER PUBLICATION supabase_realtime ADD TABLE line_speed_changes;
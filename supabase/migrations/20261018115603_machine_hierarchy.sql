@@ -0,0 +1,84 @@
+-- ============================================
+-- MACHINE HIERARCHY
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Sites, areas and lines above the machines: site -> area -> line
+CREATE TABLE IF NOT EXISTS plant_units (
+  id TEXT PRIMARY KEY,
+  level TEXT NOT NULL CHECK (level IN ('site', 'area', 'line')),
+  name TEXT NOT NULL,
+  display_name TEXT,
+  parent_id TEXT REFERENCES plant_units(id) ON DELETE SET NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_plant_units_parent ON plant_units(parent_id);
+
+-- An area belongs to a site and a line to an area; sites are the top
+CREATE OR REPLACE FUNCTION check_plant_unit_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_parent_level TEXT;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT level INTO v_parent_level FROM plant_units WHERE id = NEW.parent_id;
+  IF (NEW.level = 'site') OR
+     (NEW.level = 'area' AND v_parent_level IS DISTINCT FROM 'site') OR
+     (NEW.level = 'line' AND v_parent_level IS DISTINCT FROM 'area') THEN
+    RAISE EXCEPTION 'A % cannot be placed under a %', NEW.level, COALESCE(v_parent_level, 'missing unit');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_plant_unit_parent ON plant_units;
+CREATE TRIGGER check_plant_unit_parent
+  BEFORE INSERT OR UPDATE ON plant_units
+  FOR EACH ROW
+  EXECUTE FUNCTION check_plant_unit_parent();
+
+DROP TRIGGER IF EXISTS update_plant_units_updated_at ON plant_units;
+CREATE TRIGGER update_plant_units_updated_at
+  BEFORE UPDATE ON plant_units
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE plant_units ENABLE ROW LEVEL SECURITY;
+
+-- Read by the wall display like machines, managed by admins
+DROP POLICY IF EXISTS "Public read plant_units" ON plant_units;
+CREATE POLICY "Public read plant_units" ON plant_units
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins manage plant_units" ON plant_units;
+CREATE POLICY "Admins manage plant_units" ON plant_units
+  FOR ALL USING (has_role('admin')) WITH CHECK (has_role('admin'));
+
+COMMENT ON TABLE plant_units IS 'Sites, areas and lines - the plant hierarchy above machines';
+
+-- 2. Machines hang under a line, sub-machines under their machine
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS parent_machine_id TEXT REFERENCES machines(id) ON DELETE CASCADE;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS line_id TEXT REFERENCES plant_units(id) ON DELETE SET NULL;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS display_name TEXT;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_machines_parent ON machines(parent_machine_id);
+CREATE INDEX IF NOT EXISTS idx_machines_line ON machines(line_id);
+
+-- 3. Link sub-machine rows generated before the column existed
+--    ("<parent id>-sub-<n>") to their machine, ordered by number
+UPDATE machines sub
+SET parent_machine_id = parent.id,
+    sort_order = substring(sub.id FROM '-sub-(\d+)$')::INTEGER
+FROM machines parent
+WHERE sub.parent_machine_id IS NULL
+  AND sub.id ~ '-sub-\d+$'
+  AND parent.id = substring(sub.id FROM '^(.*)-sub-\d+$');
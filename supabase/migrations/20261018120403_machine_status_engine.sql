@@ -0,0 +1,88 @@
+-- ============================================
+-- MACHINE STATUS ENGINE
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Status derived from live sessions, production timers and tablet
+--    heartbeats, next to the status set by hand (status stays the manual
+--    running / idle / maintenance setting)
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS derived_status TEXT;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS status_reason TEXT;
+ALTER TABLE machines ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+
+ALTER TABLE machines DROP CONSTRAINT IF EXISTS machines_derived_status_check;
+ALTER TABLE machines ADD CONSTRAINT machines_derived_status_check
+  CHECK (derived_status IN ('running', 'paused', 'idle', 'changeover', 'maintenance', 'no_operator'));
+
+-- 2. Every status transition of a machine or sub-machine
+CREATE TABLE IF NOT EXISTS machine_status_history (
+  id BIGSERIAL PRIMARY KEY,
+  machine_id TEXT NOT NULL REFERENCES machines(id) ON DELETE CASCADE,
+  machine_name TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  operator_name TEXT,
+  changed_by UUID DEFAULT auth.uid(),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_machine_status_history_machine
+  ON machine_status_history(machine_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_machine_status_history_changed
+  ON machine_status_history(changed_at DESC);
+
+-- Transitions are only written by record_machine_status
+ALTER TABLE machine_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signed-in read machine_status_history" ON machine_status_history;
+CREATE POLICY "Signed-in read machine_status_history" ON machine_status_history
+  FOR SELECT USING (has_role('operator'));
+
+COMMENT ON TABLE machine_status_history IS 'Derived machine status transitions with reason and operator';
+
+-- 3. Record a machine's derived status. Every open dashboard publishes what
+-- it sees, so repeating the current status and reason is a no-op and only
+-- real transitions reach the history.
+CREATE OR REPLACE FUNCTION record_machine_status(
+  p_machine_id TEXT,
+  p_status TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_operator_name TEXT DEFAULT NULL
+)
+RETURNS machines
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_machine machines;
+  saved machines;
+BEGIN
+  IF NOT has_role('operator') THEN
+    RAISE EXCEPTION 'Not allowed to record machine status';
+  END IF;
+
+  SELECT * INTO current_machine FROM machines WHERE id = p_machine_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Machine % not found', p_machine_id;
+  END IF;
+
+  IF current_machine.derived_status IS NOT DISTINCT FROM p_status
+    AND current_machine.status_reason IS NOT DISTINCT FROM p_reason THEN
+    RETURN current_machine;
+  END IF;
+
+  UPDATE machines SET
+    derived_status = p_status,
+    status_reason = p_reason,
+    status_changed_at = NOW()
+  WHERE id = p_machine_id
+  RETURNING * INTO saved;
+
+  INSERT INTO machine_status_history (machine_id, machine_name, from_status, to_status, reason, operator_name)
+  VALUES (p_machine_id, current_machine.name, current_machine.derived_status, p_status, p_reason, p_operator_name);
+
+  RETURN saved;
+END;
+$$;
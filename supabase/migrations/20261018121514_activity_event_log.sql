@@ -0,0 +1,51 @@
+-- ============================================
+-- ACTIVITY EVENT LOG
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Every activity feed event (machine started, waste recorded, pallet
+--    scanned...) - written by the capture screen that raised it, replayed
+--    from the outbox when it was offline
+CREATE TABLE IF NOT EXISTS activity_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  machine_name TEXT NOT NULL,
+  operator_name TEXT,
+  message TEXT NOT NULL,
+  details TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  search_text TEXT GENERATED ALWAYS AS (
+    lower(message || ' ' || coalesce(details, '') || ' ' || coalesce(operator_name, ''))
+  ) STORED
+);
+
+-- 2. Newest-first paging, overall and per machine, operator and type
+CREATE INDEX IF NOT EXISTS idx_activity_events_occurred
+  ON activity_events(occurred_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_events_machine
+  ON activity_events(machine_name, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_events_operator
+  ON activity_events(operator_name, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_events_type
+  ON activity_events(type, occurred_at DESC);
+
+-- 3. Free-text search ("contains") over message, details and operator
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+CREATE INDEX IF NOT EXISTS idx_activity_events_search
+  ON activity_events USING GIN (search_text extensions.gin_trgm_ops);
+
+-- 4. Events are recorded from capture screens and never edited
+ALTER TABLE activity_events ENABLE ROW LEVEL SECURITY;
+
+-- Readable without sign-in, like live_sessions, for the public dashboard
+DROP POLICY IF EXISTS "Signed-in read activity_events" ON activity_events;
+DROP POLICY IF EXISTS "Public read activity_events" ON activity_events;
+CREATE POLICY "Public read activity_events" ON activity_events
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Operators write activity_events" ON activity_events;
+CREATE POLICY "Operators write activity_events" ON activity_events
+  FOR INSERT WITH CHECK (has_role('operator'));
+
+COMMENT ON TABLE activity_events IS 'Activity feed events per machine, searchable by machine, operator, type and text';
@@ -37,7 +37,7 @@ CREATE TABLE IF NOT EXISTS shift_submissions (
   order_number TEXT NOT NULL,
   product TEXT NOT NULL,
   batch_number TEXT NOT NULL,
-  shift TEXT NOT NULL CHECK (shift IN ('Day', 'Night')),
+  shift TEXT NOT NULL,
   submission_date DATE NOT NULL,
   
   -- Changeover information (captured when submitting outside window)
@@ -176,7 +176,7 @@ CREATE TABLE IF NOT EXISTS shift_sessions (
   order_number TEXT NOT NULL,
   product TEXT NOT NULL,
   batch_number TEXT NOT NULL,
-  shift TEXT NOT NULL CHECK (shift IN ('Day', 'Night')),
+  shift TEXT NOT NULL,
   session_date DATE NOT NULL,
   is_locked BOOLEAN DEFAULT TRUE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),